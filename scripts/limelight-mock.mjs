@@ -0,0 +1,531 @@
+#!/usr/bin/env node
+// ============================================
+// Offline stand-in for the Limelight stats API (GET /v1/stats)
+//
+// Understands the same query string as the real endpoint: clientKey,
+// secretKey, startDate, endDate, breakdown, metrics and output
+// (json | csv | xml), and answers in the same shapes the client parses.
+//
+// Modes:
+//   synthetic  Deterministic generated data (default). The same request
+//              always returns the same rows, and totals agree across
+//              breakdowns, so sync, reconcile and the caches line up.
+//   record     Forward each request to the real API and save the rows as a
+//              fixture. Credentials are never written to disk.
+//   replay     Serve recorded fixtures; requests without one fall back to
+//              synthetic data unless --strict is given.
+//
+// Usage:
+//   npm run mock:limelight -- [--port 4010] [--mode synthetic|record|replay]
+//     [--fixtures .limelight-fixtures] [--upstream URL] [--strict]
+//     [--client-key K --secret-key S] [--scale 1] [--seed 1]
+//     [--latency-ms 0] [--fail-rate 0] [--throttle-rate 0] [--dirty-rate 0]
+//
+// Then point the app at it:
+//   LIMELIGHT_API_URL=http://localhost:4010/v1/stats npm run dev
+// (or set an account's API URL on the Integrations page)
+// ============================================
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.LIMELIGHT_MOCK_PORT || '4010' },
+    mode: { type: 'string', default: 'synthetic' },
+    fixtures: { type: 'string', default: '.limelight-fixtures' },
+    upstream: { type: 'string', default: 'http://stats.project-limelight.com/v1/stats' },
+    strict: { type: 'boolean', default: false },
+    'client-key': { type: 'string' },
+    'secret-key': { type: 'string' },
+    // Multiplier on daily volume
+    scale: { type: 'string', default: '1' },
+    // Changes every generated value while keeping them deterministic
+    seed: { type: 'string', default: '1' },
+    'latency-ms': { type: 'string', default: '0' },
+    // Share of requests answered 503 / 429, to exercise the client's retries
+    'fail-rate': { type: 'string', default: '0' },
+    'throttle-rate': { type: 'string', default: '0' },
+    // Share of rows corrupted so that validation quarantines them
+    'dirty-rate': { type: 'string', default: '0' },
+    'xml-row-tag': { type: 'string', default: process.env.LIMELIGHT_XML_ROW_TAG || 'row' },
+  },
+});
+
+const MODES = ['synthetic', 'record', 'replay'];
+if (!MODES.includes(args.mode)) {
+  console.error(`--mode must be one of ${MODES.join(', ')}`);
+  process.exit(1);
+}
+
+const PORT = Number(args.port);
+const FIXTURES_DIR = resolve(args.fixtures);
+const SCALE = Number(args.scale);
+const SEED = Number(args.seed);
+const LATENCY_MS = Number(args['latency-ms']);
+const FAIL_RATE = Number(args['fail-rate']);
+const THROTTLE_RATE = Number(args['throttle-rate']);
+const DIRTY_RATE = Number(args['dirty-rate']);
+const XML_ROW_TAG = args['xml-row-tag'];
+
+// Refuse breakdowns whose cross product would not fit in memory
+const MAX_ROWS_PER_DAY = 200_000;
+
+const METRICS = [
+  'OPPORTUNITIES',
+  'BID_REQUESTS',
+  'BIDS',
+  'WINS',
+  'IMPRESSIONS',
+  'PUB_PAYOUT',
+  'DEMAND_PAYOUT',
+  'DEMAND_SERVICE_FEE_PAYOUT',
+  'BID_RESPONSE_TIMEOUTS',
+  'BID_RESPONSE_ERRORS',
+];
+
+// ============================================
+// Synthetic entities. Earlier entries get more traffic (power law), so
+// concentration, long-tail and churn views have something to show.
+// ============================================
+
+const DEMAND_PARTNERS = [
+  { id: 101, name: 'Magnite', ecpm: 1.3, timeoutRate: 0.02 },
+  { id: 102, name: 'PubMatic', ecpm: 1.1, timeoutRate: 0.03 },
+  { id: 103, name: 'Index Exchange', ecpm: 1.4, timeoutRate: 0.02 },
+  { id: 104, name: 'OpenX', ecpm: 0.9, timeoutRate: 0.05 },
+  { id: 105, name: 'Xandr', ecpm: 1.2, timeoutRate: 0.03 },
+  { id: 106, name: 'Smaato', ecpm: 0.7, timeoutRate: 0.06 },
+  { id: 107, name: 'InMobi', ecpm: 0.8, timeoutRate: 0.04 },
+  { id: 108, name: 'Verve', ecpm: 0.6, timeoutRate: 0.08 },
+  { id: 109, name: 'Sovrn', ecpm: 0.5, timeoutRate: 0.1 },
+  { id: 110, name: 'Unruly', ecpm: 1.6, timeoutRate: 0.04 },
+];
+
+const PUBLISHERS = [
+  { id: 2001, name: 'Puzzle Games Inc' },
+  { id: 2002, name: 'Daily News Network' },
+  { id: 2003, name: 'FitTrack Apps' },
+  { id: 2004, name: 'StreamBox TV' },
+  { id: 2005, name: 'Weather Now' },
+  { id: 2006, name: 'Casual Arcade' },
+  { id: 2007, name: 'Recipe Hub' },
+  { id: 2008, name: 'Sports Live' },
+  { id: 2009, name: 'Photo Editor Pro' },
+  { id: 2010, name: 'Language Buddy' },
+  { id: 2011, name: 'Music Radio FM' },
+  { id: 2012, name: 'Travel Planner' },
+];
+
+const DIMENSION_VALUES = {
+  DEMAND: DEMAND_PARTNERS.map((p) => ({ DEMAND_ID: p.id, DEMAND_NAME: p.name })),
+  PUBLISHER: PUBLISHERS.map((p) => ({ PUBLISHER_ID: p.id, PUBLISHER_NAME: p.name })),
+  BUNDLE: [
+    'com.puzzle.blocks', 'com.dailynews.reader', 'com.fittrack.steps', 'com.streambox.tv',
+    'com.weathernow.app', 'com.casual.arcade', 'com.recipehub.cook', 'com.sportslive.scores',
+    'com.photoeditor.pro', 'com.languagebuddy.learn', 'com.musicradio.fm', 'com.travel.planner',
+    '1234567890', '9876543210', 'com.example.longtail',
+  ].map((v) => ({ BUNDLE: v })),
+  SIZE: ['320x50', '300x250', '320x480', '728x90', '1024x768', '480x320'].map((v) => ({ SIZE: v })),
+  CHANNEL_TYPE: ['APP', 'WEB', 'CTV'].map((v) => ({ CHANNEL_TYPE: v })),
+  OS: ['Android', 'iOS', 'Roku', 'Windows', 'tvOS'].map((v) => ({ OS: v })),
+  COUNTRY: ['US', 'GB', 'DE', 'BR', 'IN', 'CA', 'FR', 'JP', 'MX', 'AU'].map((v) => ({ COUNTRY: v })),
+};
+
+const KNOWN_DIMENSIONS = ['DATE', 'HOUR', ...Object.keys(DIMENSION_VALUES)];
+
+// ============================================
+// Deterministic randomness
+// ============================================
+
+function hash(text) {
+  // FNV-1a
+  let h = 2166136261 ^ SEED;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Uniform in [0, 1), fixed for a given key
+function noise(key) {
+  let t = hash(key) + 0x6d2b79f5;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function daysBetween(startDate, endDate) {
+  const days = [];
+  const current = new Date(startDate + 'T00:00:00Z');
+  const end = new Date(endDate + 'T00:00:00Z');
+  while (current <= end) {
+    days.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Traffic and revenue shares of each value of a dimension on a day. Both sum
+ * to 1, so any breakdown of a day adds up to the same totals.
+ */
+function dimensionShares(dimension, day) {
+  const values = DIMENSION_VALUES[dimension];
+  const traffic = values.map((_, i) => (1 / (i + 1) ** 1.1) * (0.8 + 0.4 * noise(`${day}|${dimension}|${i}|t`)));
+  const revenue = values.map((_, i) => {
+    const ecpm = dimension === 'DEMAND'
+      ? DEMAND_PARTNERS[i].ecpm
+      : 0.6 + 0.8 * noise(`${dimension}|${i}|ecpm`);
+    return traffic[i] * ecpm * (0.9 + 0.2 * noise(`${day}|${dimension}|${i}|r`));
+  });
+  const trafficTotal = traffic.reduce((a, b) => a + b, 0);
+  const revenueTotal = revenue.reduce((a, b) => a + b, 0);
+  return values.map((fields, i) => ({
+    fields,
+    index: i,
+    traffic: traffic[i] / trafficTotal,
+    revenue: revenue[i] / revenueTotal,
+  }));
+}
+
+// Diurnal curve, peaking in the (UTC) evening
+function hourShares(day) {
+  const weights = Array.from({ length: 24 }, (_, h) =>
+    (1.2 + Math.sin(((h - 8) / 24) * 2 * Math.PI)) * (0.9 + 0.2 * noise(`${day}|HOUR|${h}`)));
+  const total = weights.reduce((a, b) => a + b, 0);
+  return weights.map((w, h) => ({ fields: { HOUR: h }, index: h, traffic: w / total, revenue: w / total }));
+}
+
+/**
+ * Totals for a whole day: weekends are quieter, volume drifts slowly
+ * upward and every day gets a little noise.
+ */
+function dayTotals(day) {
+  const date = new Date(day + 'T00:00:00Z');
+  const weekday = date.getUTCDay();
+  const weekendFactor = weekday === 0 || weekday === 6 ? 0.85 : 1;
+  const trend = 1 + (date.getTime() / 86_400_000 - 20_000) * 0.0005;
+  const impressions = 2_000_000 * SCALE * weekendFactor * trend * (0.9 + 0.2 * noise(`${day}|imps`));
+  const ecpm = 1.8 * (0.92 + 0.16 * noise(`${day}|ecpm`));
+  return { impressions, revenue: (impressions / 1000) * ecpm };
+}
+
+function round(value, decimals) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Metrics for one row holding the given shares of a day's traffic and
+ * revenue. The funnel ratios are fixed; timeouts follow the demand
+ * partner when DEMAND is in the breakdown.
+ */
+function rowMetrics(totals, trafficShare, revenueShare, timeoutRate) {
+  const impressions = Math.round(totals.impressions * trafficShare);
+  const wins = Math.round(impressions * 1.08);
+  const bids = Math.round(wins * 1.9);
+  const bidRequests = Math.round(bids * 2.6);
+  const revenue = totals.revenue * revenueShare;
+  return {
+    OPPORTUNITIES: Math.round(bidRequests * 1.4),
+    BID_REQUESTS: bidRequests,
+    BIDS: bids,
+    WINS: wins,
+    IMPRESSIONS: impressions,
+    PUB_PAYOUT: round(revenue * 0.72, 4),
+    DEMAND_PAYOUT: round(revenue, 4),
+    DEMAND_SERVICE_FEE_PAYOUT: round(revenue * 0.04, 4),
+    BID_RESPONSE_TIMEOUTS: Math.round(bidRequests * timeoutRate),
+    BID_RESPONSE_ERRORS: Math.round(bidRequests * 0.005),
+  };
+}
+
+// Break a row the way real feeds occasionally do
+function corrupt(row, key) {
+  const pick = noise(`${key}|dirty-kind`);
+  if (pick < 0.33) return { ...row, DATE: '' };
+  if (pick < 0.66) return { ...row, IMPRESSIONS: -row.IMPRESSIONS - 1 };
+  return { ...row, DEMAND_PAYOUT: 'n/a' };
+}
+
+/**
+ * Generate the rows for a request. Days after today are empty; today only
+ * has the hours that have started (with HOUR) or the share of the day so
+ * far (without it).
+ */
+function generateRows(startDate, endDate, breakdown, metrics) {
+  const dims = breakdown.filter((d) => d !== 'DATE');
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  const rows = [];
+
+  for (const day of daysBetween(startDate, endDate)) {
+    if (day > today) continue;
+    const totals = dayTotals(day);
+    const elapsed = (now.getUTCHours() * 60 + now.getUTCMinutes()) / 1440;
+    const dayFraction = day === today && !dims.includes('HOUR') ? elapsed : 1;
+
+    const lists = dims.map((d) => {
+      if (d !== 'HOUR') return dimensionShares(d, day);
+      const hours = hourShares(day);
+      return day === today ? hours.filter((h) => h.index <= now.getUTCHours()) : hours;
+    });
+    const combinations = lists.reduce((n, list) => n * list.length, 1);
+    if (combinations > MAX_ROWS_PER_DAY) {
+      throw new Error(`Breakdown ${breakdown.join(',')} is too large for the mock (${combinations} rows per day)`);
+    }
+
+    const walk = (depth, fields, traffic, revenue, partnerIndex) => {
+      if (depth === lists.length) {
+        const timeoutRate = partnerIndex === null ? 0.04 : DEMAND_PARTNERS[partnerIndex].timeoutRate;
+        const all = rowMetrics(totals, traffic * dayFraction, revenue * dayFraction, timeoutRate);
+        if (all.IMPRESSIONS < 1 && all.DEMAND_PAYOUT === 0) return;
+
+        let row = breakdown.includes('DATE') ? { DATE: day, ...fields } : { ...fields };
+        for (const metric of metrics) row[metric] = all[metric];
+        const key = `${day}|${JSON.stringify(fields)}`;
+        if (DIRTY_RATE > 0 && noise(`${key}|dirty`) < DIRTY_RATE) row = corrupt(row, key);
+        rows.push(row);
+        return;
+      }
+      for (const value of lists[depth]) {
+        walk(
+          depth + 1,
+          { ...fields, ...value.fields },
+          traffic * value.traffic,
+          revenue * value.revenue,
+          dims[depth] === 'DEMAND' ? value.index : partnerIndex
+        );
+      }
+    };
+    walk(0, {}, 1, 1, null);
+  }
+
+  return rows;
+}
+
+// ============================================
+// Fixtures
+// ============================================
+
+// Keyed by range and breakdown only; the metrics are filtered on replay
+function fixturePath(startDate, endDate, breakdown) {
+  return join(FIXTURES_DIR, `${startDate}_${endDate}_${breakdown.join('-')}.json`);
+}
+
+async function readFixture(startDate, endDate, breakdown) {
+  try {
+    const fixture = JSON.parse(await readFile(fixturePath(startDate, endDate, breakdown), 'utf8'));
+    return fixture.rows;
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeFixture(startDate, endDate, breakdown, metrics, rows) {
+  await mkdir(FIXTURES_DIR, { recursive: true });
+  const fixture = { request: { startDate, endDate, breakdown, metrics }, recordedAt: new Date().toISOString(), rows };
+  await writeFile(fixturePath(startDate, endDate, breakdown), JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Forward a request to the real API (always as JSON) and return its rows,
+ * or an { status, body } error to pass back to the caller.
+ */
+async function fetchUpstream(query) {
+  const url = new URL(args.upstream);
+  for (const [key, value] of query) url.searchParams.set(key, value);
+  url.searchParams.set('output', 'json');
+
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    return { error: { status: response.status, body: await response.text() } };
+  }
+  const data = await response.json();
+  if (data?.status === 'SUCCESS' && Array.isArray(data.body)) return { rows: data.body };
+  if (Array.isArray(data)) return { rows: data };
+  return { error: { status: 200, body: JSON.stringify(data) } };
+}
+
+// ============================================
+// Output formats
+// ============================================
+
+function columnsOf(rows) {
+  const columns = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+  }
+  return columns;
+}
+
+function csvCell(value) {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xmlText(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function sendRows(res, rows, output) {
+  if (output === 'csv') {
+    const columns = columnsOf(rows);
+    res.writeHead(200, { 'Content-Type': 'text/csv; charset=utf-8' });
+    res.write(columns.join(',') + '\r\n');
+    for (const row of rows) res.write(columns.map((c) => csvCell(row[c])).join(',') + '\r\n');
+    res.end();
+    return;
+  }
+  if (output === 'xml') {
+    res.writeHead(200, { 'Content-Type': 'application/xml; charset=utf-8' });
+    res.write('<?xml version="1.0" encoding="UTF-8"?>\n<rows>\n');
+    for (const row of rows) {
+      const fields = Object.entries(row).map(([key, value]) => `<${key}>${xmlText(value)}</${key}>`).join('');
+      res.write(`<${XML_ROW_TAG}>${fields}</${XML_ROW_TAG}>\n`);
+    }
+    res.end('</rows>\n');
+    return;
+  }
+  sendJson(res, 200, { status: 'SUCCESS', body: rows });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// API-level failures come back as HTTP 200 with a FAILED envelope
+function sendFailed(res, message) {
+  sendJson(res, 200, { status: 'FAILED', body: message });
+}
+
+// ============================================
+// Server
+// ============================================
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function list(value) {
+  return (value || '').split(',').map((v) => v.trim().toUpperCase()).filter(Boolean);
+}
+
+async function handleStats(res, url) {
+  const query = url.searchParams;
+
+  if (args['client-key'] || args['secret-key']) {
+    if (query.get('clientKey') !== args['client-key'] || query.get('secretKey') !== args['secret-key']) {
+      sendJson(res, 401, { status: 'FAILED', body: 'Invalid credentials' });
+      return;
+    }
+  }
+
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    sendJson(res, 503, { status: 'FAILED', body: 'Service unavailable (mock)' });
+    return;
+  }
+  if (THROTTLE_RATE > 0 && Math.random() < THROTTLE_RATE) {
+    res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '1' });
+    res.end(JSON.stringify({ status: 'FAILED', body: 'Too many requests (mock)' }));
+    return;
+  }
+
+  const startDate = query.get('startDate') || '';
+  const endDate = query.get('endDate') || '';
+  const breakdown = list(query.get('breakdown'));
+  const metrics = query.get('metrics') ? list(query.get('metrics')) : METRICS;
+  const output = (query.get('output') || 'json').toLowerCase();
+
+  if (!ISO_DATE.test(startDate) || !ISO_DATE.test(endDate) || startDate > endDate) {
+    sendFailed(res, 'startDate and endDate must be YYYY-MM-DD with startDate <= endDate');
+    return;
+  }
+  const unknownDimension = breakdown.find((d) => !KNOWN_DIMENSIONS.includes(d));
+  if (breakdown.length === 0 || unknownDimension) {
+    sendFailed(res, `Unknown breakdown ${unknownDimension || '(empty)'}; expected ${KNOWN_DIMENSIONS.join(', ')}`);
+    return;
+  }
+  const unknownMetric = metrics.find((m) => !METRICS.includes(m));
+  if (unknownMetric) {
+    sendFailed(res, `Unknown metric ${unknownMetric}`);
+    return;
+  }
+  if (!['json', 'csv', 'xml'].includes(output)) {
+    sendFailed(res, `Unknown output ${output}`);
+    return;
+  }
+
+  let rows = null;
+  let servedFrom = 'synthetic';
+
+  if (args.mode === 'record') {
+    const upstream = await fetchUpstream(query);
+    if (upstream.error) {
+      res.writeHead(upstream.error.status, { 'Content-Type': 'application/json' });
+      res.end(upstream.error.body);
+      return;
+    }
+    rows = upstream.rows;
+    await writeFixture(startDate, endDate, breakdown, metrics, rows);
+    servedFrom = 'upstream (recorded)';
+  } else if (args.mode === 'replay') {
+    const recorded = await readFixture(startDate, endDate, breakdown);
+    if (recorded) {
+      rows = recorded.map((row) => {
+        const kept = {};
+        for (const [key, value] of Object.entries(row)) {
+          if (!METRICS.includes(key) || metrics.includes(key)) kept[key] = value;
+        }
+        return kept;
+      });
+      servedFrom = 'fixture';
+    } else if (args.strict) {
+      sendFailed(res, `No fixture for ${startDate}..${endDate} ${breakdown.join(',')}`);
+      return;
+    }
+  }
+
+  if (!rows) {
+    try {
+      rows = generateRows(startDate, endDate, breakdown, metrics);
+    } catch (err) {
+      sendFailed(res, err.message);
+      return;
+    }
+  }
+
+  console.log(`[Mock] ${startDate}..${endDate} ${breakdown.join(',')} (${output}): ${rows.length} rows from ${servedFrom}`);
+  if (LATENCY_MS > 0) await new Promise((r) => setTimeout(r, LATENCY_MS));
+  sendRows(res, rows, output);
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  if (req.method !== 'GET' || url.pathname.replace(/\/+$/, '') !== '/v1/stats') {
+    sendJson(res, 404, { status: 'FAILED', body: `No route for ${req.method} ${url.pathname}` });
+    return;
+  }
+  handleStats(res, url).catch((err) => {
+    console.error('[Mock] Request failed:', err);
+    if (!res.headersSent) sendJson(res, 500, { status: 'FAILED', body: err.message });
+    else res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[Mock] Limelight ${args.mode} server on http://localhost:${PORT}/v1/stats`);
+  if (args.mode !== 'synthetic') console.log(`[Mock] Fixtures: ${FIXTURES_DIR}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   Box,
   Grid,
@@ -14,11 +14,16 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  TableSortLabel,
+  TablePagination,
+  TextField,
+  InputAdornment,
   ToggleButton,
   ToggleButtonGroup,
   Chip,
   Tooltip,
 } from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
 import AspectRatioIcon from '@mui/icons-material/AspectRatio';
 import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
 import ShowChartIcon from '@mui/icons-material/ShowChart';
@@ -26,8 +31,14 @@ import VideocamIcon from '@mui/icons-material/Videocam';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import { defaultTableQuery, tableQueryParam } from '@/lib/cache/table';
+import type { CacheLineage, CompareMode, LongTail, StatsTablePage, StatsTableQuery, WithDeltas } from '@/types';
 
-interface AdSizeData {
+interface AdSizeData extends WithDeltas {
   size: string;
   impressions: number;
   revenue: number;
@@ -38,7 +49,7 @@ interface AdSizeData {
   fillRate: number;
 }
 
-interface AdSizeResponse {
+interface AdSizeResponse extends WithDeltas {
   period: number;
   startDate: string;
   endDate: string;
@@ -47,8 +58,24 @@ interface AdSizeResponse {
   totalImpressions: number;
   avgECPM: number;
   sizes: AdSizeData[];
+  page: StatsTablePage;
+  longTail: LongTail<Omit<AdSizeData, 'size' | 'deltas'>> | null;
+  lineage?: CacheLineage;
 }
 
+type SortField = 'size' | 'revenue' | 'impressions' | 'eCPM' | 'bidRequests' | 'fillRate';
+
+const COLUMNS: Array<{ field: SortField; label: string; align?: 'right' }> = [
+  { field: 'size', label: 'Size' },
+  { field: 'revenue', label: 'Revenue', align: 'right' },
+  { field: 'impressions', label: 'Impressions', align: 'right' },
+  { field: 'eCPM', label: 'eCPM', align: 'right' },
+  { field: 'bidRequests', label: 'Bid Requests', align: 'right' },
+  { field: 'fillRate', label: 'Fill Rate', align: 'right' },
+];
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100];
+
 function formatCurrency(value: number): string {
   return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
@@ -61,16 +88,47 @@ function formatNumber(value: number): string {
 
 export default function AdSizePage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [minImpressions, setMinImpressions] = useState('');
+  const [tableQuery, setTableQuery] = useState<StatsTableQuery>(defaultTableQuery());
+
+  // Search and filters run on the server; wait for typing to pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setTableQuery((q) => ({
+        ...q,
+        search: searchQuery.trim().toLowerCase(),
+        minImpressions: Number(minImpressions) || 0,
+        offset: 0,
+      }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, minImpressions]);
 
   const { data, isLoading, isError } = useQuery<AdSizeResponse>({
-    queryKey: ['ad-sizes', period],
+    queryKey: ['ad-sizes', period, source, compare, tableQuery],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/ad-sizes?period=${period}`);
+      const res = await fetch(
+        `/api/stats/ad-sizes?period=${period}&source=${source}${compareParam(compare)}${tableQueryParam(tableQuery)}`
+      );
       if (!res.ok) throw new Error('Failed to fetch ad size data');
       return res.json();
     },
+    placeholderData: (previous) => previous,
   });
 
+  const handleSort = (field: SortField) => {
+    setTableQuery((q) => ({
+      ...q,
+      sort: field,
+      // Text sorts A-Z first, metrics highest first
+      sortDesc: q.sort === field ? !q.sortDesc : field !== 'size',
+      offset: 0,
+    }));
+  };
+
   const handlePeriodChange = (_: React.MouseEvent<HTMLElement>, newPeriod: number | null) => {
     if (newPeriod !== null) setPeriod(newPeriod);
   };
@@ -119,17 +177,22 @@ export default function AdSizePage() {
     totalImpressions: 0,
     avgECPM: 0,
     sizes: [],
+    page: { totalRows: 0, limit: tableQuery.limit, offset: 0 },
+    longTail: null,
   };
 
   // Check if a size is the special 0X0 (video/interstitial)
   const isSpecialSize = (size: string) => size === '0X0' || size === '0x0';
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
       <PageHeader
         title="Ad Size Analysis"
         subtitle={`Performance breakdown by ad creative size (${d.startDate} to ${d.endDate})`}
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -163,6 +226,8 @@ export default function AdSizePage() {
           <MetricCard
             title="Total Revenue"
             value={formatCurrency(d.totalRevenue)}
+            change={d.deltas?.totalRevenue ?? undefined}
+            changeLabel={changeLabel}
             icon={<AttachMoneyIcon />}
           />
         </Grid>
@@ -170,6 +235,8 @@ export default function AdSizePage() {
           <MetricCard
             title="Avg eCPM"
             value={formatCurrency(d.avgECPM)}
+            change={d.deltas?.avgECPM ?? undefined}
+            changeLabel={changeLabel}
             icon={<ShowChartIcon />}
           />
         </Grid>
@@ -178,12 +245,39 @@ export default function AdSizePage() {
       {/* Ad Size Table */}
       <Card>
         <CardContent>
-          <Typography variant="h6" gutterBottom>
-            Ad Sizes by Revenue
-          </Typography>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+            <Typography variant="h6">Ad Sizes</Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                placeholder="Search sizes..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                slotProps={{
+                  input: {
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <SearchIcon sx={{ color: 'text.secondary', fontSize: 20 }} />
+                      </InputAdornment>
+                    ),
+                  },
+                }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Min impressions"
+                value={minImpressions}
+                onChange={(e) => setMinImpressions(e.target.value)}
+                sx={{ width: 150 }}
+              />
+            </Box>
+          </Box>
           {d.sizes.length === 0 ? (
             <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
-              No ad size data available. Data will appear after a Limelight sync.
+              {tableQuery.search || tableQuery.minImpressions
+                ? 'No ad sizes match your filters.'
+                : 'No ad size data available. Data will appear after a Limelight sync.'}
             </Typography>
           ) : (
             <TableContainer>
@@ -191,12 +285,17 @@ export default function AdSizePage() {
                 <TableHead>
                   <TableRow>
                     <TableCell>#</TableCell>
-                    <TableCell>Size</TableCell>
-                    <TableCell align="right">Revenue</TableCell>
-                    <TableCell align="right">Impressions</TableCell>
-                    <TableCell align="right">eCPM</TableCell>
-                    <TableCell align="right">Bid Requests</TableCell>
-                    <TableCell align="right">Fill Rate</TableCell>
+                    {COLUMNS.map((col) => (
+                      <TableCell key={col.field} align={col.align}>
+                        <TableSortLabel
+                          active={tableQuery.sort === col.field}
+                          direction={tableQuery.sort === col.field ? (tableQuery.sortDesc ? 'desc' : 'asc') : col.field === 'size' ? 'asc' : 'desc'}
+                          onClick={() => handleSort(col.field)}
+                        >
+                          {col.label}
+                        </TableSortLabel>
+                      </TableCell>
+                    ))}
                   </TableRow>
                 </TableHead>
                 <TableBody>
@@ -216,7 +315,7 @@ export default function AdSizePage() {
                       >
                         <TableCell>
                           <Typography variant="body2" color="text.secondary">
-                            {index + 1}
+                            {tableQuery.offset + index + 1}
                           </Typography>
                         </TableCell>
                         <TableCell>
@@ -241,6 +340,7 @@ export default function AdSizePage() {
                         <TableCell align="right">
                           <Typography variant="body2" fontWeight={600}>
                             {formatCurrency(row.revenue)}
+                            <DeltaChip value={row.deltas?.revenue} label={changeLabel} />
                           </Typography>
                         </TableCell>
                         <TableCell align="right">
@@ -257,6 +357,7 @@ export default function AdSizePage() {
                             }}
                           >
                             {formatCurrency(row.eCPM)}
+                            <DeltaChip value={row.deltas?.eCPM} label={changeLabel} />
                           </Typography>
                         </TableCell>
                         <TableCell align="right">
@@ -277,10 +378,34 @@ export default function AdSizePage() {
                       </TableRow>
                     );
                   })}
+                  {d.longTail && (
+                    <TableRow sx={{ '& td': { borderTop: '2px solid rgba(255,255,255,0.12)', borderBottom: 0, color: 'text.secondary' } }}>
+                      <TableCell />
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          Long tail ({d.longTail.count.toLocaleString()} other size{d.longTail.count !== 1 ? 's' : ''})
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(d.longTail.revenue)}</TableCell>
+                      <TableCell align="right">{formatNumber(d.longTail.impressions)}</TableCell>
+                      <TableCell align="right">{formatCurrency(d.longTail.eCPM)}</TableCell>
+                      <TableCell align="right">{formatNumber(d.longTail.bidRequests)}</TableCell>
+                      <TableCell align="right">{d.longTail.fillRate.toFixed(2)}%</TableCell>
+                    </TableRow>
+                  )}
                 </TableBody>
               </Table>
             </TableContainer>
           )}
+          <TablePagination
+            component="div"
+            count={d.page.totalRows}
+            page={Math.floor(tableQuery.offset / tableQuery.limit)}
+            onPageChange={(_, p) => setTableQuery((q) => ({ ...q, offset: p * q.limit }))}
+            rowsPerPage={tableQuery.limit}
+            rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+            onRowsPerPageChange={(e) => setTableQuery((q) => ({ ...q, limit: Number(e.target.value), offset: 0 }))}
+          />
         </CardContent>
       </Card>
     </Box>
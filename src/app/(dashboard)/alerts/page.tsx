@@ -32,8 +32,15 @@ interface AlertItem {
   message: string;
 }
 
+// 'daily': yesterday's anomalies; 'hourly': today so far vs the same hours last week
+type AlertWindow = 'daily' | 'hourly';
+
 interface AlertsResponse {
   generatedAt: string;
+  // Day the alerts cover (yesterday for the daily window)
+  date?: string;
+  // Hourly window only: alerts cover hours 0..throughHour (UTC)
+  throughHour?: number | null;
   summary: {
     total: number;
     critical: number;
@@ -68,10 +75,10 @@ const severityConfig = {
 };
 
 function formatMetricValue(metric: string, value: number): string {
-  if (metric === 'revenue') return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  if (metric === 'revenue' || metric === 'outage') return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   if (metric === 'ecpm') return `$${value.toFixed(2)}`;
   if (metric === 'fill_rate' || metric === 'timeout_rate') return `${value.toFixed(1)}%`;
-  return value.toLocaleString();
+  return Math.round(value).toLocaleString();
 }
 
 function formatMetricLabel(metric: string): string {
@@ -80,6 +87,9 @@ function formatMetricLabel(metric: string): string {
     ecpm: 'eCPM',
     fill_rate: 'Fill Rate',
     timeout_rate: 'Timeout Rate',
+    impressions: 'Impressions',
+    bid_requests: 'Bid Requests',
+    outage: 'Revenue (last 3h)',
   };
   return labels[metric] || metric;
 }
@@ -174,11 +184,12 @@ function AlertCard({ alert }: { alert: AlertItem }) {
 
 export default function AlertsPage() {
   const [severityFilter, setSeverityFilter] = useState<string>('all');
+  const [alertWindow, setAlertWindow] = useState<AlertWindow>('daily');
 
   const { data, isLoading, isError } = useQuery<AlertsResponse>({
-    queryKey: ['alerts'],
+    queryKey: ['alerts', alertWindow],
     queryFn: async () => {
-      const res = await fetch('/api/alerts');
+      const res = await fetch(alertWindow === 'hourly' ? '/api/alerts?window=hourly' : '/api/alerts');
       if (!res.ok) throw new Error('Failed to fetch alerts');
       return res.json();
     },
@@ -188,6 +199,10 @@ export default function AlertsPage() {
     if (newFilter !== null) setSeverityFilter(newFilter);
   };
 
+  const handleWindowChange = (_: React.MouseEvent<HTMLElement>, newWindow: AlertWindow | null) => {
+    if (newWindow !== null) setAlertWindow(newWindow);
+  };
+
   if (isLoading) {
     return (
       <Box>
@@ -245,12 +260,27 @@ export default function AlertsPage() {
       })
     : '';
 
+  const comparison = alertWindow === 'hourly'
+    ? 'Automated performance alerts comparing today so far vs the same hours last week'
+    : `Anomalies${d.date ? ` on ${d.date}` : ''} per demand partner, publisher and bundle vs the level expected for that weekday`;
+
   return (
     <Box>
       <PageHeader
         title="Alerts Dashboard"
-        subtitle={`Automated performance alerts comparing last 7 days vs previous 7 days${generatedTime ? ` -- Generated: ${generatedTime}` : ''}`}
-      />
+        subtitle={`${comparison}${generatedTime ? ` -- Generated: ${generatedTime}` : ''}`}
+      >
+        <ToggleButtonGroup
+          value={alertWindow}
+          exclusive
+          onChange={handleWindowChange}
+          size="small"
+          sx={{ '& .MuiToggleButton-root': { px: 2, py: 0.5, fontSize: '0.8rem', textTransform: 'none' } }}
+        >
+          <ToggleButton value="daily">Yesterday</ToggleButton>
+          <ToggleButton value="hourly">Today (hourly)</ToggleButton>
+        </ToggleButtonGroup>
+      </PageHeader>
 
       {/* Summary Cards */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
@@ -316,7 +346,9 @@ export default function AlertsPage() {
         <Card>
           <CardContent sx={{ py: 6, textAlign: 'center' }}>
             <Typography variant="body1" color="text.secondary">
-              {d.alerts.length === 0
+              {alertWindow === 'hourly' && d.throughHour === null
+                ? 'No complete hour of hourly data yet today. Hourly alerts need LIMELIGHT_HOURLY_SYNC enabled.'
+                : d.alerts.length === 0
                 ? 'No alerts detected. All metrics are within normal ranges.'
                 : `No ${severityFilter} alerts found.`}
             </Typography>
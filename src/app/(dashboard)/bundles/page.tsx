@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import {
   Box,
   Grid,
@@ -15,6 +15,7 @@ import {
   TableHead,
   TableRow,
   TableSortLabel,
+  TablePagination,
   TextField,
   InputAdornment,
   ToggleButton,
@@ -31,13 +32,19 @@ import ShowChartIcon from '@mui/icons-material/ShowChart';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
 import EmptyState from '@/components/ui/EmptyState';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import { defaultTableQuery, tableQueryParam } from '@/lib/cache/table';
+import type { CacheLineage, CompareMode, LongTail, StatsTablePage, StatsTableQuery, WithDeltas } from '@/types';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface BundleRow {
+interface BundleRow extends WithDeltas {
   bundle: string;
   impressions: number;
   revenue: number;
@@ -54,7 +61,7 @@ interface BundleRow {
   winRate: number;
 }
 
-interface BundleSummary {
+interface BundleSummary extends WithDeltas {
   totalBundles: number;
   totalRevenue: number;
   totalImpressions: number;
@@ -68,10 +75,14 @@ interface BundleAPIResponse {
   period: number;
   startDate: string;
   endDate: string;
+  page: StatsTablePage;
+  longTail: LongTail<Omit<BundleRow, 'bundle' | 'deltas'>> | null;
+  lineage?: CacheLineage;
 }
 
 type SortField = 'bundle' | 'revenue' | 'impressions' | 'ecpm' | 'bidRequests' | 'fillRate';
-type SortDirection = 'asc' | 'desc';
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100, 250];
 
 // ---------------------------------------------------------------------------
 // Loading Skeleton
@@ -119,14 +130,33 @@ function LoadingSkeleton() {
 
 export default function BundlesPage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
   const [searchQuery, setSearchQuery] = useState('');
-  const [sortField, setSortField] = useState<SortField>('revenue');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [minImpressions, setMinImpressions] = useState('');
+  const [minRevenue, setMinRevenue] = useState('');
+  const [tableQuery, setTableQuery] = useState<StatsTableQuery>(defaultTableQuery());
+
+  // Search and filters run on the server; wait for typing to pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setTableQuery((q) => ({
+        ...q,
+        search: searchQuery.trim().toLowerCase(),
+        minImpressions: Number(minImpressions) || 0,
+        minRevenue: Number(minRevenue) || 0,
+        offset: 0,
+      }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, minImpressions, minRevenue]);
 
   const { data, isLoading, isError, error } = useQuery<BundleAPIResponse>({
-    queryKey: ['bundles', period],
+    queryKey: ['bundles', period, source, compare, tableQuery],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/bundles?period=${period}`);
+      const res = await fetch(
+        `/api/stats/bundles?period=${period}&source=${source}${compareParam(compare)}${tableQueryParam(tableQuery)}`
+      );
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body.error || 'Failed to fetch bundle data');
@@ -134,48 +164,21 @@ export default function BundlesPage() {
       return res.json();
     },
     staleTime: 5 * 60 * 1000, // 5 minutes – API call is expensive
+    placeholderData: (previous) => previous,
   });
 
-  // Filter and sort bundles
-  const filteredBundles = useMemo(() => {
-    if (!data?.bundles) return [];
-
-    let result = data.bundles;
-
-    // Search filter
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      result = result.filter((b) => b.bundle.toLowerCase().includes(q));
-    }
-
-    // Sort
-    result = [...result].sort((a, b) => {
-      let aVal: string | number = a[sortField];
-      let bVal: string | number = b[sortField];
-
-      if (typeof aVal === 'string') {
-        aVal = aVal.toLowerCase();
-        bVal = (bVal as string).toLowerCase();
-        return sortDirection === 'asc'
-          ? aVal.localeCompare(bVal as string)
-          : (bVal as string).localeCompare(aVal);
-      }
-
-      return sortDirection === 'asc'
-        ? (aVal as number) - (bVal as number)
-        : (bVal as number) - (aVal as number);
-    });
-
-    return result;
-  }, [data?.bundles, searchQuery, sortField, sortDirection]);
+  const bundles = data?.bundles || [];
+  const sortField = tableQuery.sort as SortField;
+  const sortDirection = tableQuery.sortDesc ? 'desc' : 'asc';
 
   const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
-    } else {
-      setSortField(field);
-      setSortDirection('desc');
-    }
+    setTableQuery((q) => ({
+      ...q,
+      sort: field,
+      // Text sorts A-Z first, metrics highest first
+      sortDesc: q.sort === field ? !q.sortDesc : field !== 'bundle',
+      offset: 0,
+    }));
   };
 
   const handlePeriodChange = (_: React.MouseEvent<HTMLElement>, newPeriod: number | null) => {
@@ -208,6 +211,7 @@ export default function BundlesPage() {
     avgECPM: 0,
     overallFillRate: 0,
   };
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
@@ -215,10 +219,12 @@ export default function BundlesPage() {
       <PageHeader
         title="Bundle Analytics"
         subtitle={
-          `Top performing app bundles over the last ${period} days` +
+          `App bundle performance over the last ${period} days` +
           (data?.startDate && data?.endDate ? ` \u2014 ${data.startDate} to ${data.endDate}` : '')
         }
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -275,6 +281,8 @@ export default function BundlesPage() {
           <MetricCard
             title="Total Revenue"
             value={summary.totalRevenue}
+            change={summary.deltas?.totalRevenue ?? undefined}
+            changeLabel={changeLabel}
             icon={<AttachMoneyIcon />}
             format="currency"
           />
@@ -283,6 +291,8 @@ export default function BundlesPage() {
           <MetricCard
             title="Total Impressions"
             value={summary.totalImpressions}
+            change={summary.deltas?.totalImpressions ?? undefined}
+            changeLabel={changeLabel}
             icon={<VisibilityIcon />}
             format="number"
           />
@@ -291,6 +301,8 @@ export default function BundlesPage() {
           <MetricCard
             title="Avg eCPM"
             value={summary.avgECPM}
+            change={summary.deltas?.avgECPM ?? undefined}
+            changeLabel={changeLabel}
             icon={<ShowChartIcon />}
             format="currency"
           />
@@ -323,8 +335,26 @@ export default function BundlesPage() {
                 },
               }}
             />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                type="number"
+                label="Min impressions"
+                value={minImpressions}
+                onChange={(e) => setMinImpressions(e.target.value)}
+                sx={{ width: 150 }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Min revenue ($)"
+                value={minRevenue}
+                onChange={(e) => setMinRevenue(e.target.value)}
+                sx={{ width: 150 }}
+              />
+            </Box>
             <Chip
-              label={`${filteredBundles.length} bundle${filteredBundles.length !== 1 ? 's' : ''} shown`}
+              label={`${(data?.page.totalRows ?? 0).toLocaleString()} bundle${data?.page.totalRows !== 1 ? 's' : ''} match`}
               size="small"
               variant="outlined"
               sx={{ borderColor: 'rgba(255,255,255,0.12)' }}
@@ -332,10 +362,10 @@ export default function BundlesPage() {
           </Box>
 
           {/* Data table */}
-          {filteredBundles.length === 0 ? (
+          {bundles.length === 0 ? (
             <EmptyState
-              title={searchQuery ? 'No bundles match your search' : 'No bundle data available'}
-              subtitle={searchQuery ? 'Try a different search term.' : 'No bundle data available for this period.'}
+              title={tableQuery.search || tableQuery.minImpressions || tableQuery.minRevenue ? 'No bundles match your filters' : 'No bundle data available'}
+              subtitle={tableQuery.search || tableQuery.minImpressions || tableQuery.minRevenue ? 'Try a different search term or lower minimums.' : 'No bundle data available for this period.'}
             />
           ) : (
             <TableContainer sx={{ maxHeight: 620 }}>
@@ -399,9 +429,9 @@ export default function BundlesPage() {
                   </TableRow>
                 </TableHead>
                 <TableBody>
-                  {filteredBundles.map((b, i) => {
-                    // Revenue share bar relative to top bundle
-                    const maxRevenue = filteredBundles[0]?.revenue || 1;
+                  {bundles.map((b, i) => {
+                    // Revenue share bar relative to the page's top bundle
+                    const maxRevenue = Math.max(...bundles.map((x) => x.revenue)) || 1;
                     const revShare = (b.revenue / maxRevenue) * 100;
 
                     return (
@@ -429,7 +459,7 @@ export default function BundlesPage() {
                                 fontWeight: 500,
                               }}
                             >
-                              {i + 1}.
+                              {tableQuery.offset + i + 1}.
                             </Typography>
                             <Typography variant="body2" noWrap sx={{ fontFamily: 'monospace', fontSize: '0.82rem' }}>
                               {b.bundle}
@@ -440,6 +470,7 @@ export default function BundlesPage() {
                           <Box>
                             <Typography variant="body2" fontWeight={600} sx={{ color: 'secondary.main' }}>
                               ${b.revenue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                              <DeltaChip value={b.deltas?.revenue} label={changeLabel} />
                             </Typography>
                             <LinearProgress
                               variant="determinate"
@@ -505,10 +536,35 @@ export default function BundlesPage() {
                       </TableRow>
                     );
                   })}
+                  {data?.longTail && (
+                    <TableRow sx={{ '& td': { borderTop: '2px solid rgba(255,255,255,0.12)', borderBottom: 0, color: 'text.secondary' } }}>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          Long tail ({data.longTail.count.toLocaleString()} other bundle{data.longTail.count !== 1 ? 's' : ''})
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        ${data.longTail.revenue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell align="right">{data.longTail.impressions.toLocaleString()}</TableCell>
+                      <TableCell align="right">${data.longTail.ecpm.toFixed(2)}</TableCell>
+                      <TableCell align="right">{data.longTail.bidRequests.toLocaleString()}</TableCell>
+                      <TableCell align="right">{data.longTail.fillRate.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  )}
                 </TableBody>
               </Table>
             </TableContainer>
           )}
+          <TablePagination
+            component="div"
+            count={data?.page.totalRows ?? 0}
+            page={Math.floor(tableQuery.offset / tableQuery.limit)}
+            onPageChange={(_, p) => setTableQuery((q) => ({ ...q, offset: p * q.limit }))}
+            rowsPerPage={tableQuery.limit}
+            rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+            onRowsPerPageChange={(e) => setTableQuery((q) => ({ ...q, limit: Number(e.target.value), offset: 0 }))}
+          />
         </CardContent>
       </Card>
     </Box>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -20,19 +20,46 @@ import {
   Alert,
   LinearProgress,
   Chip,
+  Collapse,
+  IconButton,
+  InputAdornment,
+  Link,
+  TablePagination,
+  TextField,
+  Tooltip,
 } from '@mui/material';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import EmojiEventsIcon from '@mui/icons-material/EmojiEvents';
 import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
 import PercentIcon from '@mui/icons-material/Percent';
 import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import SearchIcon from '@mui/icons-material/Search';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
 import EmptyState from '@/components/ui/EmptyState';
 import TrendChart from '@/components/ui/TrendChart';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import { defaultTableQuery, tableQueryParam } from '@/lib/cache/table';
+import type {
+  CacheLineage,
+  CompareMode,
+  CreativeBreakdown,
+  CreativeFlag,
+  CreativeReport,
+  CreativeReportRow,
+  LongTail,
+  StatsTablePage,
+  StatsTableQuery,
+  WithDeltas,
+} from '@/types';
 
-interface PartnerCreative {
+interface PartnerCreative extends WithDeltas {
   name: string;
   impressions: number;
   bids: number;
@@ -47,7 +74,7 @@ interface PartnerCreative {
 }
 
 interface CreativeData {
-  summary: {
+  summary: WithDeltas & {
     totalImpressions: number;
     totalBids: number;
     totalWins: number;
@@ -58,27 +85,331 @@ interface CreativeData {
     overallBidRate: number;
   };
   partners: PartnerCreative[];
-  dailyTrend: Array<{
+  dailyTrend: Array<WithDeltas & {
     date: string;
     impressions: number;
     wins: number;
     revenue: number;
   }>;
   period: number;
+  lineage?: CacheLineage;
 }
 
 type SortField = 'name' | 'impressions' | 'wins' | 'winRate' | 'revenue' | 'ecpm' | 'bidRate';
 type SortDir = 'asc' | 'desc';
 
+interface CreativeReportResponse extends CreativeReport {
+  page: StatsTablePage;
+  longTail: LongTail<{ impressions: number; suspicious: number; ivtRate: number }> | null;
+}
+
+type CreativeSortField = 'creativeId' | 'impressions' | 'ivtRate' | 'bundles' | 'publishers';
+type CreativeFilter = 'all' | 'any' | CreativeFlag;
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100, 250];
+
+const FLAG_LABELS: Record<CreativeFlag, string> = {
+  suspicious_traffic: 'Suspicious traffic',
+  bundle_spread: 'Bundle spread',
+};
+
+const BASIS_LABELS = {
+  pixel: 'From the demand ID the pixel passed',
+  publishers: 'Only demand partner with impressions on every publisher this creative served on',
+};
+
+// Anchor of a partner's row in the partner table
+function partnerAnchor(name: string): string {
+  return `partner-${encodeURIComponent(name)}`;
+}
+
+function ivtColor(rate: number, threshold: number): string {
+  if (rate >= threshold) return '#FF5252';
+  if (rate >= threshold / 2) return '#FFB74D';
+  return '#4CAF50';
+}
+
+function BreakdownTable({ title, rows, threshold }: { title: string; rows: CreativeBreakdown[]; threshold: number }) {
+  return (
+    <Box sx={{ flex: 1, minWidth: 260 }}>
+      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+        {title}
+      </Typography>
+      {rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">Not reported by the pixel</Typography>
+      ) : (
+        <Table size="small">
+          <TableBody>
+            {rows.map((r) => (
+              <TableRow key={r.name} sx={{ '&:last-child td': { borderBottom: 0 } }}>
+                <TableCell sx={{ maxWidth: 220, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {r.name}
+                </TableCell>
+                <TableCell align="right">{r.impressions.toLocaleString()}</TableCell>
+                <TableCell align="right" sx={{ color: ivtColor(r.ivtRate, threshold) }}>
+                  {r.ivtRate.toFixed(1)}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+}
+
+function CreativeRow({
+  creative: c,
+  threshold,
+  partnerNames,
+}: {
+  creative: CreativeReportRow;
+  threshold: number;
+  partnerNames: Set<string>;
+}) {
+  const [open, setOpen] = useState(false);
+  const partner = c.demandPartner;
+
+  return (
+    <>
+      <TableRow
+        sx={{ '&:hover': { bgcolor: 'rgba(255,255,255,0.02)' }, cursor: 'pointer' }}
+        onClick={() => setOpen(!open)}
+      >
+        <TableCell sx={{ width: 40, pr: 0 }}>
+          <IconButton size="small" sx={{ color: 'text.secondary' }}>
+            {open ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+          </IconButton>
+        </TableCell>
+        <TableCell sx={{ maxWidth: 220, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontFamily: 'monospace' }}>
+          {c.creativeId}
+        </TableCell>
+        <TableCell>
+          {partner ? (
+            <Tooltip title={`${BASIS_LABELS[partner.basis]} (${partner.confidence}% of impressions)`}>
+              {partnerNames.has(partner.name) ? (
+                <Link href={`#${partnerAnchor(partner.name)}`} underline="hover" onClick={(e) => e.stopPropagation()}>
+                  {partner.name}
+                </Link>
+              ) : (
+                <span>{partner.name}</span>
+              )}
+            </Tooltip>
+          ) : (
+            <Typography variant="body2" color="text.secondary">Unknown</Typography>
+          )}
+        </TableCell>
+        <TableCell align="right">{c.impressions.toLocaleString()}</TableCell>
+        <TableCell align="right" sx={{ fontWeight: 600, color: ivtColor(c.ivtRate, threshold) }}>
+          {c.ivtRate.toFixed(1)}%
+        </TableCell>
+        <TableCell align="right">{c.bundles.toLocaleString()}</TableCell>
+        <TableCell align="right">{c.publishers.toLocaleString()}</TableCell>
+        <TableCell>
+          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+            {c.flags.map((flag) => (
+              <Chip
+                key={flag}
+                label={FLAG_LABELS[flag]}
+                size="small"
+                sx={{
+                  height: 22,
+                  fontSize: '0.7rem',
+                  fontWeight: 600,
+                  bgcolor: flag === 'suspicious_traffic' ? 'rgba(255,82,82,0.15)' : 'rgba(255,183,77,0.15)',
+                  color: flag === 'suspicious_traffic' ? '#FF5252' : '#FFB74D',
+                }}
+              />
+            ))}
+          </Box>
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={8} sx={{ py: 0, borderBottom: open ? undefined : 0 }}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', py: 2 }}>
+              <BreakdownTable title="Top bundles" rows={c.topBundles} threshold={threshold} />
+              <BreakdownTable title="Top publishers" rows={c.topPublishers} threshold={threshold} />
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+// Creative-level report from the creative IDs the IVT pixel collects
+function CreativeReportCard({ period, partnerNames }: { period: number; partnerNames: Set<string> }) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<CreativeFilter>('all');
+  const [tableQuery, setTableQuery] = useState<StatsTableQuery>(defaultTableQuery('impressions'));
+
+  // Search runs on the server; wait for typing to pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setTableQuery((q) => ({ ...q, search: searchQuery.trim().toLowerCase(), offset: 0 }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data, isLoading, error } = useQuery<CreativeReportResponse>({
+    queryKey: ['creative-report', period, filter, tableQuery],
+    queryFn: async () => {
+      const flag = filter === 'all' ? '' : `&flag=${filter}`;
+      const res = await fetch(`/api/ivt/creatives?period=${period}${flag}${tableQueryParam(tableQuery)}`);
+      if (!res.ok) throw new Error('Failed to fetch creative report');
+      return res.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const handleSort = (field: CreativeSortField) => {
+    setTableQuery((q) => ({
+      ...q,
+      sort: field,
+      sortDesc: q.sort === field ? !q.sortDesc : field !== 'creativeId',
+      offset: 0,
+    }));
+  };
+
+  const sortLabel = (field: CreativeSortField, label: string) => (
+    <TableSortLabel
+      active={tableQuery.sort === field}
+      direction={tableQuery.sort === field ? (tableQuery.sortDesc ? 'desc' : 'asc') : field === 'creativeId' ? 'asc' : 'desc'}
+      onClick={() => handleSort(field)}
+    >
+      {label}
+    </TableSortLabel>
+  );
+
+  const threshold = data?.thresholds.suspiciousIvtRate ?? 20;
+  const creatives = data?.creatives || [];
+
+  return (
+    <Card sx={{ mt: 4 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6">Creatives (IVT Pixel)</Typography>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            <TextField
+              size="small"
+              placeholder="Search creative IDs..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              slotProps={{
+                input: {
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon sx={{ color: 'text.secondary', fontSize: 20 }} />
+                    </InputAdornment>
+                  ),
+                },
+              }}
+              sx={{ minWidth: 240 }}
+            />
+            <ToggleButtonGroup
+              value={filter}
+              exclusive
+              onChange={(_, v) => {
+                if (v === null) return;
+                setFilter(v);
+                setTableQuery((q) => ({ ...q, offset: 0 }));
+              }}
+              size="small"
+            >
+              <ToggleButton value="all">All</ToggleButton>
+              <ToggleButton value="any">Flagged</ToggleButton>
+              <ToggleButton value="suspicious_traffic">Suspicious</ToggleButton>
+              <ToggleButton value="bundle_spread">Bundle Spread</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        </Box>
+        {data && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {data.summary.totalCreatives.toLocaleString()} creatives, {data.summary.totalImpressions.toLocaleString()} pixel
+            impressions at {data.summary.ivtRate.toFixed(1)}% IVT; {data.summary.flaggedCreatives.toLocaleString()} flagged,
+            {' '}{data.summary.attributedCreatives.toLocaleString()} with a known demand partner. Creatives with at
+            least {data.thresholds.minImpressions.toLocaleString()} impressions are flagged at {threshold}% IVT or more
+            than {data.thresholds.bundleSpread.toLocaleString()} bundles.
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            Failed to load the creative report.
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Skeleton variant="rounded" height={300} />
+        ) : creatives.length === 0 ? (
+          <EmptyState
+            title={tableQuery.search || filter !== 'all' ? 'No creatives match your filters' : 'No creative data available'}
+            subtitle={tableQuery.search || filter !== 'all'
+              ? 'Try a different search term or filter.'
+              : 'The IVT pixel has not reported creative IDs (crid=) for this period.'}
+          />
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ width: 40 }} />
+                  <TableCell>{sortLabel('creativeId', 'Creative ID')}</TableCell>
+                  <TableCell>Demand Partner</TableCell>
+                  <TableCell align="right">{sortLabel('impressions', 'Impressions')}</TableCell>
+                  <TableCell align="right">{sortLabel('ivtRate', 'IVT Rate')}</TableCell>
+                  <TableCell align="right">{sortLabel('bundles', 'Bundles')}</TableCell>
+                  <TableCell align="right">{sortLabel('publishers', 'Publishers')}</TableCell>
+                  <TableCell>Flags</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {creatives.map((c) => (
+                  <CreativeRow key={c.creativeId} creative={c} threshold={threshold} partnerNames={partnerNames} />
+                ))}
+                {data?.longTail && (
+                  <TableRow sx={{ '& td': { borderTop: '2px solid rgba(255,255,255,0.12)', borderBottom: 0, color: 'text.secondary' } }}>
+                    <TableCell />
+                    <TableCell colSpan={2}>
+                      <Typography variant="body2" fontWeight={600}>
+                        Long tail ({data.longTail.count.toLocaleString()} other creative{data.longTail.count !== 1 ? 's' : ''})
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{data.longTail.impressions.toLocaleString()}</TableCell>
+                    <TableCell align="right">{data.longTail.ivtRate.toFixed(1)}%</TableCell>
+                    <TableCell colSpan={3} />
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+        <TablePagination
+          component="div"
+          count={data?.page.totalRows ?? 0}
+          page={Math.floor(tableQuery.offset / tableQuery.limit)}
+          onPageChange={(_, p) => setTableQuery((q) => ({ ...q, offset: p * q.limit }))}
+          rowsPerPage={tableQuery.limit}
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+          onRowsPerPageChange={(e) => setTableQuery((q) => ({ ...q, limit: Number(e.target.value), offset: 0 }))}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function CreativePerformancePage() {
   const [period, setPeriod] = useState(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
   const [sortField, setSortField] = useState<SortField>('revenue');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
 
   const { data, isLoading, error } = useQuery<CreativeData>({
-    queryKey: ['creative-performance', period],
+    queryKey: ['creative-performance', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/creative?period=${period}`);
+      const res = await fetch(`/api/stats/creative?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch creative data');
       return res.json();
     },
@@ -132,10 +463,12 @@ export default function CreativePerformancePage() {
   };
 
   const maxRevenue = sortedPartners.length > 0 ? Math.max(...sortedPartners.map((p) => p.revenue)) : 1;
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
-      <PageHeader title="Creative Performance">
+      <PageHeader title="Creative Performance" lineage={data?.lineage}>
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -155,8 +488,9 @@ export default function CreativePerformancePage() {
       >
         <Typography variant="body2">
           <strong>Demand Partner Creative Proxy</strong> &mdash; Creative-level data (individual ad creatives)
-          is not available in the current Limelight sync. This view aggregates performance metrics per demand partner
+          is not available in the current Limelight sync. The table below aggregates performance metrics per demand partner
           as a proxy for creative performance. Win rate (wins/bids) indicates how competitive each partner&apos;s creatives are.
+          Individual creatives are reported further down from the creative IDs the IVT pixel collects.
         </Typography>
       </Alert>
 
@@ -172,6 +506,8 @@ export default function CreativePerformancePage() {
           <MetricCard
             title="Total Impressions"
             value={s.totalImpressions}
+            change={s.deltas?.totalImpressions ?? undefined}
+            changeLabel={changeLabel}
             icon={<VisibilityIcon />}
             format="number"
           />
@@ -180,6 +516,8 @@ export default function CreativePerformancePage() {
           <MetricCard
             title="Total Wins"
             value={s.totalWins}
+            change={s.deltas?.totalWins ?? undefined}
+            changeLabel={changeLabel}
             icon={<EmojiEventsIcon />}
             format="number"
           />
@@ -188,6 +526,8 @@ export default function CreativePerformancePage() {
           <MetricCard
             title="Overall Win Rate"
             value={s.overallWinRate}
+            change={s.deltas?.overallWinRate ?? undefined}
+            changeLabel={changeLabel}
             icon={<PercentIcon />}
             format="percent"
           />
@@ -196,6 +536,8 @@ export default function CreativePerformancePage() {
           <MetricCard
             title="Overall eCPM"
             value={s.overallEcpm}
+            change={s.deltas?.overallEcpm ?? undefined}
+            changeLabel={changeLabel}
             icon={<AttachMoneyIcon />}
             format="currency"
           />
@@ -214,11 +556,13 @@ export default function CreativePerformancePage() {
                 date: new Date(day.date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }),
                 impressions: day.impressions,
                 wins: day.wins,
+                prevImpressions: day.previous?.impressions,
               }))}
               xKey="date"
               yKeys={[
                 { key: 'impressions', color: '#6366F1', name: 'Impressions' },
                 { key: 'wins', color: '#00D9A6', name: 'Wins' },
+                ...(compare ? [{ key: 'prevImpressions', color: '#A1A1AA', name: `Impressions ${changeLabel}`, dashed: true }] : []),
               ]}
               height={300}
               formatTooltip={(v) => v >= 1000 ? `${(v/1000).toFixed(1)}K` : v.toLocaleString()}
@@ -315,7 +659,11 @@ export default function CreativePerformancePage() {
                   {sortedPartners.map((p, i) => {
                     const revenueShare = maxRevenue > 0 ? (p.revenue / maxRevenue) * 100 : 0;
                     return (
-                      <TableRow key={i} sx={{ '&:last-child td': { borderBottom: 0 } }}>
+                      <TableRow
+                        key={i}
+                        id={partnerAnchor(p.name)}
+                        sx={{ '&:last-child td': { borderBottom: 0 }, scrollMarginTop: 80, '&:target': { bgcolor: 'rgba(99,102,241,0.12)' } }}
+                      >
                         <TableCell sx={{ maxWidth: 220, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                           {p.name}
                         </TableCell>
@@ -351,6 +699,7 @@ export default function CreativePerformancePage() {
                         </TableCell>
                         <TableCell align="right" sx={{ fontWeight: 600 }}>
                           ${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                          <DeltaChip value={p.deltas?.revenue} label={changeLabel} />
                         </TableCell>
                         <TableCell align="right">
                           ${p.ecpm.toFixed(2)}
@@ -382,6 +731,8 @@ export default function CreativePerformancePage() {
           )}
         </CardContent>
       </Card>
+
+      <CreativeReportCard period={period} partnerNames={new Set(sortedPartners.map((p) => p.name))} />
     </Box>
   );
 }
@@ -19,13 +19,19 @@ import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import ShowChartIcon from '@mui/icons-material/ShowChart';
 import PercentIcon from '@mui/icons-material/Percent';
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
 import EmptyState from '@/components/ui/EmptyState';
 import TrendChart from '@/components/ui/TrendChart';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type { CacheLineage, CompareMode, IntradayStats, WithDeltas } from '@/types';
 
-interface DashboardData {
+interface DashboardData extends WithDeltas {
   totalRevenue: number;
   totalImpressions: number;
   avgECPM: number;
@@ -34,7 +40,7 @@ interface DashboardData {
   impressionChange: number;
   ecpmChange: number;
   fillRateChange: number;
-  topPartners: Array<{
+  topPartners: Array<WithDeltas & {
     name: string;
     revenue: number;
     impressions: number;
@@ -42,35 +48,49 @@ interface DashboardData {
     fillRate: number;
     timeoutRate: number;
   }>;
-  topPublishers: Array<{
+  topPublishers: Array<WithDeltas & {
     name: string;
     revenue: number;
     impressions: number;
     pubPayout: number;
     ecpm: number;
   }>;
-  topBundles: Array<{
+  topBundles: Array<WithDeltas & {
     bundle: string;
     revenue: number;
     impressions: number;
   }>;
-  dailyTrend: Array<{
+  dailyTrend: Array<WithDeltas & {
     date: string;
     revenue: number;
     impressions: number;
   }>;
+  lineage?: CacheLineage;
 }
 
 export default function DashboardPage() {
+  const source = useSourceScope();
+  const [compare, setCompare] = useState<CompareMode | null>(null);
   const { data, isLoading } = useQuery<DashboardData>({
-    queryKey: ['dashboard'],
+    queryKey: ['dashboard', source, compare],
     queryFn: async () => {
-      const res = await fetch('/api/stats/dashboard');
+      const res = await fetch(`/api/stats/dashboard?source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch dashboard data');
       return res.json();
     },
   });
 
+  // Today so far from the hourly sync; the section stays hidden without it
+  const { data: intraday } = useQuery<IntradayStats>({
+    queryKey: ['intraday', source],
+    queryFn: async () => {
+      const res = await fetch(`/api/stats/intraday?source=${source}`);
+      if (!res.ok) throw new Error('Failed to fetch intraday data');
+      return res.json();
+    },
+    refetchInterval: 5 * 60 * 1000,
+  });
+
   if (isLoading) {
     return (
       <Box>
@@ -92,9 +112,15 @@ export default function DashboardPage() {
     topPartners: [], topPublishers: [], topBundles: [], dailyTrend: [],
   };
 
+  // Without a compare mode the cards show the built-in change vs the previous 7 days
+  const changeLabel = compare ? COMPARE_LABELS[compare] : 'vs prev 7 days';
+  const change = (field: string, builtIn: number) => (compare ? d.deltas?.[field] ?? undefined : builtIn);
+
   return (
     <Box>
-      <PageHeader title="Dashboard" subtitle="Last 7 days performance overview" />
+      <PageHeader title="Dashboard" subtitle="Last 7 days performance overview" lineage={data?.lineage}>
+        <CompareSelect value={compare} onChange={setCompare} />
+      </PageHeader>
 
       {/* KPI Cards */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
@@ -102,8 +128,8 @@ export default function DashboardPage() {
           <MetricCard
             title="Total Revenue"
             value={d.totalRevenue}
-            change={d.revenueChange}
-            changeLabel="vs prev 7 days"
+            change={change('totalRevenue', d.revenueChange)}
+            changeLabel={changeLabel}
             icon={<AttachMoneyIcon />}
             format="currency"
           />
@@ -112,8 +138,8 @@ export default function DashboardPage() {
           <MetricCard
             title="Impressions"
             value={d.totalImpressions}
-            change={d.impressionChange}
-            changeLabel="vs prev 7 days"
+            change={change('totalImpressions', d.impressionChange)}
+            changeLabel={changeLabel}
             icon={<VisibilityIcon />}
             format="number"
           />
@@ -122,8 +148,8 @@ export default function DashboardPage() {
           <MetricCard
             title="Avg eCPM"
             value={d.avgECPM}
-            change={d.ecpmChange}
-            changeLabel="vs prev 7 days"
+            change={change('avgECPM', d.ecpmChange)}
+            changeLabel={changeLabel}
             icon={<ShowChartIcon />}
             format="currency"
           />
@@ -132,8 +158,8 @@ export default function DashboardPage() {
           <MetricCard
             title="Fill Rate"
             value={d.fillRate}
-            change={d.fillRateChange}
-            changeLabel="vs prev 7 days"
+            change={change('fillRate', d.fillRateChange)}
+            changeLabel={changeLabel}
             icon={<PercentIcon />}
             format="percent"
           />
@@ -152,11 +178,13 @@ export default function DashboardPage() {
                 date: new Date(day.date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }),
                 revenue: day.revenue,
                 impressions: day.impressions,
+                prevRevenue: day.previous?.revenue,
               }))}
               xKey="date"
               yKeys={[
                 { key: 'revenue', color: '#6366F1', name: 'Revenue' },
                 { key: 'impressions', color: '#00D9A6', name: 'Impressions' },
+                ...(compare ? [{ key: 'prevRevenue', color: '#A1A1AA', name: `Revenue ${changeLabel}`, dashed: true }] : []),
               ]}
               height={300}
               formatTooltip={(v) => v >= 1000 ? `${(v/1000).toFixed(1)}K` : v.toLocaleString()}
@@ -165,6 +193,66 @@ export default function DashboardPage() {
         </Card>
       )}
 
+      {/* Today So Far (hourly sync) */}
+      {intraday && intraday.latestHour !== null && (
+        <Card sx={{ mb: 4 }}>
+          <CardContent>
+            <Typography variant="h6">Today So Far</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {intraday.throughHour !== null
+                ? `00:00-${String(intraday.throughHour + 1).padStart(2, '0')}:00 UTC vs the same hours on ${new Date(intraday.compareDate + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}`
+                : 'Waiting for the first complete hour'}
+            </Typography>
+            <Grid container spacing={3} sx={{ mb: 3 }}>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <MetricCard
+                  title="Revenue"
+                  value={intraday.totals.revenue}
+                  change={intraday.totals.revenueChange}
+                  changeLabel="vs last week"
+                  icon={<AttachMoneyIcon />}
+                  format="currency"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <MetricCard
+                  title="Impressions"
+                  value={intraday.totals.impressions}
+                  change={intraday.totals.impressionChange}
+                  changeLabel="vs last week"
+                  icon={<VisibilityIcon />}
+                  format="number"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <MetricCard
+                  title="eCPM"
+                  value={intraday.totals.ecpm}
+                  change={intraday.totals.ecpmChange}
+                  changeLabel="vs last week"
+                  icon={<ShowChartIcon />}
+                  format="currency"
+                />
+              </Grid>
+            </Grid>
+            <TrendChart
+              data={intraday.hours.map((h) => ({
+                hour: h.label,
+                revenue: h.revenue,
+                lastWeekRevenue: h.lastWeekRevenue,
+              }))}
+              xKey="hour"
+              yKeys={[
+                { key: 'revenue', color: '#6366F1', name: 'Today' },
+                { key: 'lastWeekRevenue', color: '#A1A1AA', name: 'Same day last week', dashed: true },
+              ]}
+              height={260}
+              formatTooltip={(v) => `$${v >= 1000 ? `${(v/1000).toFixed(1)}K` : v.toFixed(2)}`}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Top Partners & Publishers */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
         <Grid size={{ xs: 12, md: 7 }}>
@@ -195,7 +283,10 @@ export default function DashboardPage() {
                           <TableCell sx={{ maxWidth: 250, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                             {p.name}
                           </TableCell>
-                          <TableCell align="right">${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</TableCell>
+                          <TableCell align="right">
+                            ${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            <DeltaChip value={p.deltas?.revenue} label={changeLabel} />
+                          </TableCell>
                           <TableCell align="right">{p.impressions.toLocaleString()}</TableCell>
                           <TableCell align="right">${p.ecpm.toFixed(2)}</TableCell>
                         </TableRow>
@@ -235,7 +326,10 @@ export default function DashboardPage() {
                           <TableCell sx={{ maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                             {p.name}
                           </TableCell>
-                          <TableCell align="right">${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</TableCell>
+                          <TableCell align="right">
+                            ${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            <DeltaChip value={p.deltas?.revenue} label={changeLabel} />
+                          </TableCell>
                           <TableCell align="right">${p.ecpm.toFixed(2)}</TableCell>
                         </TableRow>
                       ))}
@@ -272,6 +366,7 @@ export default function DashboardPage() {
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" color="primary" fontWeight={600}>
                         ${b.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        <DeltaChip value={b.deltas?.revenue} label={changeLabel} />
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
                         {b.impressions.toLocaleString()} imps
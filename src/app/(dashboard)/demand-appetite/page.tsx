@@ -30,6 +30,11 @@ import EmojiEventsIcon from '@mui/icons-material/EmojiEvents';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type { CacheLineage, CompareMode, WithDeltas } from '@/types';
 
 interface PublisherBreakdown {
   name: string;
@@ -37,7 +42,7 @@ interface PublisherBreakdown {
   impressions: number;
 }
 
-interface DemandPartner {
+interface DemandPartner extends WithDeltas {
   name: string;
   revenue: number;
   impressions: number;
@@ -55,7 +60,7 @@ interface DemandPartner {
 
 interface DemandAppetiteData {
   period: number;
-  summary: {
+  summary: WithDeltas & {
     totalPartners: number;
     avgWinRate: number;
     highestBidder: { name: string; avgBidPrice: number } | null;
@@ -63,9 +68,10 @@ interface DemandAppetiteData {
     totalImpressions: number;
   };
   demandPartners: DemandPartner[];
+  lineage?: CacheLineage;
 }
 
-function PartnerRow({ partner, rank }: { partner: DemandPartner; rank: number }) {
+function PartnerRow({ partner, rank, changeLabel }: { partner: DemandPartner; rank: number; changeLabel?: string }) {
   const [open, setOpen] = useState(false);
 
   return (
@@ -119,6 +125,7 @@ function PartnerRow({ partner, rank }: { partner: DemandPartner; rank: number })
         <TableCell align="right">
           <Typography variant="body2" fontWeight={600}>
             ${partner.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            <DeltaChip value={partner.deltas?.revenue} label={changeLabel} />
           </Typography>
         </TableCell>
         <TableCell align="right">
@@ -147,6 +154,7 @@ function PartnerRow({ partner, rank }: { partner: DemandPartner; rank: number })
                     : 'error.main',
             }}
           />
+          <DeltaChip value={partner.deltas?.winRate} label={changeLabel} />
         </TableCell>
         <TableCell align="right">
           <Typography variant="body2">
@@ -276,11 +284,13 @@ function PartnerRow({ partner, rank }: { partner: DemandPartner; rank: number })
 
 export default function DemandAppetitePage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
 
   const { data, isLoading } = useQuery<DemandAppetiteData>({
-    queryKey: ['demand-appetite', period],
+    queryKey: ['demand-appetite', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/demand-appetite?period=${period}`);
+      const res = await fetch(`/api/stats/demand-appetite?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch demand appetite data');
       return res.json();
     },
@@ -315,13 +325,16 @@ export default function DemandAppetitePage() {
     },
     demandPartners: [],
   };
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
       <PageHeader
         title="Demand Appetite"
         subtitle="Analyze demand partner bidding patterns and publisher preferences"
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -361,6 +374,8 @@ export default function DemandAppetitePage() {
           <MetricCard
             title="Avg Win Rate"
             value={`${d.summary.avgWinRate.toFixed(1)}%`}
+            change={d.summary.deltas?.avgWinRate ?? undefined}
+            changeLabel={changeLabel}
             icon={<PercentIcon />}
             subtitle="Across all partners"
           />
@@ -377,6 +392,8 @@ export default function DemandAppetitePage() {
           <MetricCard
             title="Total Revenue"
             value={`$${d.summary.totalRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+            change={d.summary.deltas?.totalRevenue ?? undefined}
+            changeLabel={changeLabel}
             icon={<TrendingUpIcon />}
             subtitle={`${d.summary.totalImpressions.toLocaleString()} impressions`}
           />
@@ -412,7 +429,7 @@ export default function DemandAppetitePage() {
                 </TableHead>
                 <TableBody>
                   {d.demandPartners.map((partner, idx) => (
-                    <PartnerRow key={partner.name} partner={partner} rank={idx + 1} />
+                    <PartnerRow key={partner.name} partner={partner} rank={idx + 1} changeLabel={changeLabel} />
                   ))}
                 </TableBody>
               </Table>
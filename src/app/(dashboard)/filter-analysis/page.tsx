@@ -20,6 +20,7 @@ import {
   Alert,
   Chip,
   LinearProgress,
+  Tooltip,
 } from '@mui/material';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import BlockIcon from '@mui/icons-material/Block';
@@ -30,8 +31,13 @@ import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type { CacheLineage, CompareMode, LossRange, WithDeltas } from '@/types';
 
-interface PartnerFilter {
+interface PartnerFilter extends WithDeltas {
   name: string;
   bidRequests: number;
   bids: number;
@@ -44,13 +50,44 @@ interface PartnerFilter {
   timeoutRate: number;
   bidResponseRate: number;
   fillRate: number;
+  ecpm?: number;
+  ecpmBasis?: 'publisher' | 'partner' | 'network';
   timeoutRevenueLoss: number;
+  timeoutRevenueLossRange?: LossRange;
   lostBids: number;
   lostBidRevenue: number;
+  lostBidRevenueRange?: LossRange;
+}
+
+const ECPM_BASIS_LABELS = {
+  publisher: 'Priced at this partner\'s eCPM on each publisher',
+  partner: 'Priced at this partner\'s own eCPM',
+  network: 'No impressions for this partner; priced at the network eCPM',
+};
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function LossEstimate({ value, range, color, basis }: { value: number; range?: LossRange; color: string; basis?: PartnerFilter['ecpmBasis'] }) {
+  return (
+    <Tooltip title={basis ? ECPM_BASIS_LABELS[basis] : ''}>
+      <Box>
+        <Typography variant="body2" sx={{ color, fontWeight: 600 }}>
+          {formatMoney(value)}
+        </Typography>
+        {range && range.high > range.low && (
+          <Typography variant="caption" color="text.secondary">
+            {formatMoney(range.low)} &ndash; {formatMoney(range.high)}
+          </Typography>
+        )}
+      </Box>
+    </Tooltip>
+  );
 }
 
 interface FilterData {
-  summary: {
+  summary: WithDeltas & {
     totalBidRequests: number;
     totalBids: number;
     totalWins: number;
@@ -59,6 +96,7 @@ interface FilterData {
     totalErrors: number;
     totalLostBids: number;
     estimatedLostRevenue: number;
+    estimatedLostRevenueRange?: LossRange;
     overallLossRate: number;
     averageEcpm: number;
   };
@@ -66,6 +104,7 @@ interface FilterData {
   highBidLowWin: PartnerFilter[];
   highTimeouts: PartnerFilter[];
   period: number;
+  lineage?: CacheLineage;
 }
 
 type SortField = 'name' | 'bidRequests' | 'bids' | 'wins' | 'impressions' | 'lossRate' | 'timeouts' | 'lostBidRevenue';
@@ -73,13 +112,15 @@ type SortDir = 'asc' | 'desc';
 
 export default function FilterAnalysisPage() {
   const [period, setPeriod] = useState(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
   const [sortField, setSortField] = useState<SortField>('lossRate');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
 
   const { data, isLoading, error } = useQuery<FilterData>({
-    queryKey: ['filter-analysis', period],
+    queryKey: ['filter-analysis', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/filters?period=${period}`);
+      const res = await fetch(`/api/stats/filters?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch filter data');
       return res.json();
     },
@@ -141,10 +182,12 @@ export default function FilterAnalysisPage() {
     if (n >= 1000) return `${(n / 1000).toFixed(1)}K`;
     return n.toLocaleString();
   };
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
-      <PageHeader title="Filter Analysis">
+      <PageHeader title="Filter Analysis" lineage={data?.lineage}>
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -165,7 +208,8 @@ export default function FilterAnalysisPage() {
         <Typography variant="body2">
           <strong>Opportunity Analysis</strong> &mdash; FILTER_REASON data is not available in the current sync.
           This view identifies lost opportunities by analyzing partners with high bid counts but low win rates (creative/bid filtering)
-          and partners with high timeouts (request filtering). Loss rate = 1 - (impressions / bids).
+          and partners with high timeouts (request filtering). Loss rate = 1 - (impressions / bids). Lost revenue is priced at each
+          partner&apos;s own eCPM (per publisher where it has impressions), with a range from its day-to-day eCPM.
         </Typography>
       </Alert>
 
@@ -181,8 +225,15 @@ export default function FilterAnalysisPage() {
           <MetricCard
             title="Estimated Lost Revenue"
             value={`$${s.estimatedLostRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+            change={s.deltas?.estimatedLostRevenue ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<AttachMoneyIcon />}
-            subtitle={`From ${formatNum(s.totalLostBids)} lost bids + ${formatNum(s.totalTimeouts)} timeouts`}
+            subtitle={
+              s.estimatedLostRevenueRange && s.estimatedLostRevenueRange.high > s.estimatedLostRevenueRange.low
+                ? `Range ${formatMoney(s.estimatedLostRevenueRange.low)} – ${formatMoney(s.estimatedLostRevenueRange.high)} from ${formatNum(s.totalLostBids)} lost bids + ${formatNum(s.totalTimeouts)} timeouts`
+                : `From ${formatNum(s.totalLostBids)} lost bids + ${formatNum(s.totalTimeouts)} timeouts`
+            }
             accentColor="#FF5252"
           />
         </Grid>
@@ -190,6 +241,9 @@ export default function FilterAnalysisPage() {
           <MetricCard
             title="Overall Loss Rate"
             value={`${s.overallLossRate.toFixed(1)}%`}
+            change={s.deltas?.overallLossRate ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<TrendingDownIcon />}
             subtitle="Bids that did not become impressions"
             accentColor="#FFB74D"
@@ -199,6 +253,9 @@ export default function FilterAnalysisPage() {
           <MetricCard
             title="Total Timeouts"
             value={formatNum(s.totalTimeouts)}
+            change={s.deltas?.totalTimeouts ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<TimerOffIcon />}
             subtitle={`${s.totalBidRequests > 0 ? ((s.totalTimeouts / s.totalBidRequests) * 100).toFixed(1) : '0'}% of bid requests`}
             accentColor="#29B6F6"
@@ -208,6 +265,9 @@ export default function FilterAnalysisPage() {
           <MetricCard
             title="Total Errors"
             value={formatNum(s.totalErrors)}
+            change={s.deltas?.totalErrors ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<BlockIcon />}
             subtitle={`${s.totalBidRequests > 0 ? ((s.totalErrors / s.totalBidRequests) * 100).toFixed(1) : '0'}% of bid requests`}
             accentColor="#9E9E9E"
@@ -265,8 +325,8 @@ export default function FilterAnalysisPage() {
                           }}
                         />
                       </TableCell>
-                      <TableCell align="right" sx={{ color: '#FFB74D', fontWeight: 600 }}>
-                        ${p.lostBidRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      <TableCell align="right">
+                        <LossEstimate value={p.lostBidRevenue} range={p.lostBidRevenueRange} color="#FFB74D" basis={p.ecpmBasis} />
                       </TableCell>
                     </TableRow>
                   ))}
@@ -331,8 +391,8 @@ export default function FilterAnalysisPage() {
                           }}
                         />
                       </TableCell>
-                      <TableCell align="right" sx={{ color: '#29B6F6', fontWeight: 600 }}>
-                        ${p.timeoutRevenueLoss.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      <TableCell align="right">
+                        <LossEstimate value={p.timeoutRevenueLoss} range={p.timeoutRevenueLossRange} color="#29B6F6" basis={p.ecpmBasis} />
                       </TableCell>
                     </TableRow>
                   ))}
@@ -459,6 +519,7 @@ export default function FilterAnalysisPage() {
                                   : '#4CAF50',
                             }}
                           />
+                          <DeltaChip value={p.deltas?.lossRate} invert label={changeLabel} />
                         </TableCell>
                         <TableCell align="right">
                           {p.timeouts.toLocaleString()}
@@ -471,6 +532,7 @@ export default function FilterAnalysisPage() {
                               ({p.timeoutRate.toFixed(1)}%)
                             </Typography>
                           )}
+                          <DeltaChip value={p.deltas?.timeouts} invert label={changeLabel} />
                         </TableCell>
                         <TableCell align="right">
                           <LinearProgress
@@ -0,0 +1,463 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  Typography,
+  Skeleton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  ToggleButtonGroup,
+  ToggleButton,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+} from '@mui/material';
+import AccountBalanceIcon from '@mui/icons-material/AccountBalance';
+import FlagIcon from '@mui/icons-material/Flag';
+import TimelineIcon from '@mui/icons-material/Timeline';
+import RuleIcon from '@mui/icons-material/Rule';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import MetricCard from '@/components/ui/MetricCard';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+import TrendChart from '@/components/ui/TrendChart';
+import type { EntityForecast, ForecastMetric, ForecastScope, RevenueForecast, RevenueTarget } from '@/types';
+
+const METRIC_LABELS: Record<ForecastMetric, string> = {
+  revenue: 'Revenue',
+  impressions: 'Impressions',
+  ecpm: 'eCPM',
+};
+
+const SCOPE_LABELS: Record<ForecastScope, string> = {
+  network: 'Network',
+  demand_partner: 'Demand Partner',
+  publisher: 'Publisher',
+};
+
+function entityKey(e: { scope: ForecastScope; id: number | null; name: string }): string {
+  return e.scope === 'network' ? 'network' : `${e.scope}:${e.id ?? ''}:${e.name}`;
+}
+
+function money(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function formatMetric(metric: ForecastMetric, value: number): string {
+  if (metric === 'revenue') return money(value);
+  if (metric === 'ecpm') return `$${value.toFixed(2)}`;
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+  return value.toLocaleString();
+}
+
+function monthLabel(month: string): string {
+  return new Date(`${month}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+// Targets are for the month the forecast starts in, the day after lastDate
+function forecastMonth(lastDate: string): string {
+  const d = new Date(`${lastDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return `${d.toISOString().slice(0, 7)}-01`;
+}
+
+function TargetChip({ pct }: { pct: number | null }) {
+  if (pct === null) return <Typography variant="body2" color="text.secondary">—</Typography>;
+  const color = pct >= 100 ? 'success' : pct >= 90 ? 'warning' : 'error';
+  return <Chip label={`${pct.toFixed(1)}%`} size="small" color={color} sx={{ fontWeight: 600, fontSize: '0.7rem', height: 22 }} />;
+}
+
+function ForecastChart({ entity, metric, bandLevel }: { entity: EntityForecast; metric: ForecastMetric; bandLevel: number }) {
+  const series = entity.metrics.find((m) => m.metric === metric);
+  const points = series?.points || [];
+  const lastActual = points.filter((p) => p.actual !== null).length - 1;
+
+  // The forecast line starts from the last stored day so the two join up
+  const data = points.map((p, i) => ({
+    date: new Date(`${p.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    actual: p.actual ?? undefined,
+    forecast: p.forecast ?? (i === lastActual ? p.actual ?? undefined : undefined),
+    band: p.lower !== null && p.upper !== null ? [p.lower, p.upper] : undefined,
+  }));
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          {entity.name} — Daily {METRIC_LABELS[metric]}
+        </Typography>
+        {points.length === 0 ? (
+          <EmptyState title="Not enough history" subtitle="A forecast needs at least four weeks of stored days." />
+        ) : (
+          <TrendChart
+            data={data}
+            xKey="date"
+            yKeys={[
+              { key: 'actual', color: '#6366F1', name: 'Actual' },
+              { key: 'forecast', color: '#00D9A6', name: 'Forecast', dashed: true },
+            ]}
+            bands={[{ key: 'band', color: '#00D9A6', name: `${bandLevel}% band` }]}
+            formatTooltip={(v) => formatMetric(metric, v)}
+            height={340}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TargetDialog({
+  entity,
+  month,
+  existing,
+  onClose,
+}: {
+  entity: EntityForecast;
+  month: string;
+  existing: RevenueTarget | undefined;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState(existing ? String(existing.target) : '');
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['revenue-forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['revenue-targets'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/stats/forecast/targets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month, scope: entity.scope, entityId: entity.id, entity: entity.name, target: Number(value) }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to save target');
+      return body;
+    },
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/stats/forecast/targets?id=${id}`, { method: 'DELETE' });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to remove target');
+      return body;
+    },
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+  });
+
+  const error = saveMutation.error || deleteMutation.error;
+  const valid = value.trim() !== '' && Number.isFinite(Number(value)) && Number(value) >= 0;
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{monthLabel(month)} target — {entity.name}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error.message}
+          </Alert>
+        )}
+        <TextField
+          label="Revenue target ($)"
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          helperText={entity.landing ? `Expected to land at ${money(entity.landing.expected)}` : undefined}
+          fullWidth
+          sx={{ mt: 1 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        {existing && (
+          <Button color="error" onClick={() => deleteMutation.mutate(existing.id)} disabled={deleteMutation.isPending} sx={{ mr: 'auto' }}>
+            Remove
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => saveMutation.mutate()} disabled={!valid || saveMutation.isPending}>
+          {saveMutation.isPending ? <CircularProgress size={18} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+function EntityTable({
+  entities,
+  selected,
+  onSelect,
+  onEditTarget,
+}: {
+  entities: EntityForecast[];
+  selected: string;
+  onSelect: (key: string) => void;
+  onEditTarget: (entity: EntityForecast) => void;
+}) {
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Month-End Landing
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Revenue to date plus the forecast of the rest of the month, against each target. Accuracy is the revenue
+          backtest error (WAPE) and how often the actual fell inside the band. Click a row to chart it.
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell align="right">Last 28 Days</TableCell>
+                <TableCell align="right">To Date</TableCell>
+                <TableCell align="right">Expected</TableCell>
+                <TableCell align="right">Range</TableCell>
+                <TableCell align="right">Target</TableCell>
+                <TableCell align="right">vs Target</TableCell>
+                <TableCell align="right">WAPE</TableCell>
+                <TableCell align="right">Coverage</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entities.map((e) => {
+                const key = entityKey(e);
+                const accuracy = e.metrics.find((m) => m.metric === 'revenue')?.accuracy;
+                return (
+                  <TableRow
+                    key={key}
+                    hover
+                    selected={key === selected}
+                    onClick={() => onSelect(key)}
+                    sx={{ cursor: 'pointer', '&:last-child td': { borderBottom: 0 } }}
+                  >
+                    <TableCell sx={{ maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontWeight: 500 }}>
+                      {e.name}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">{SCOPE_LABELS[e.scope]}</Typography>
+                    </TableCell>
+                    <TableCell align="right">{money(e.recentRevenue)}</TableCell>
+                    <TableCell align="right">{e.landing ? money(e.landing.actualToDate) : '—'}</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>{e.landing ? money(e.landing.expected) : '—'}</TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" color="text.secondary">
+                        {e.landing ? `${money(e.landing.low)} – ${money(e.landing.high)}` : '—'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        onClick={(ev) => {
+                          ev.stopPropagation();
+                          onEditTarget(e);
+                        }}
+                        sx={{ textTransform: 'none', minWidth: 0 }}
+                      >
+                        {e.landing?.target != null ? money(e.landing.target) : 'Set'}
+                      </Button>
+                    </TableCell>
+                    <TableCell align="right">
+                      <TargetChip pct={e.landing?.targetPct ?? null} />
+                    </TableCell>
+                    <TableCell align="right">{accuracy ? `${accuracy.wape.toFixed(1)}%` : '—'}</TableCell>
+                    <TableCell align="right">{accuracy ? `${accuracy.coverage.toFixed(0)}%` : '—'}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ForecastPage() {
+  const [horizon, setHorizon] = useState(14);
+  const [metric, setMetric] = useState<ForecastMetric>('revenue');
+  const [selected, setSelected] = useState('network');
+  const [editing, setEditing] = useState<EntityForecast | null>(null);
+
+  const { data, isLoading, error } = useQuery<RevenueForecast>({
+    queryKey: ['revenue-forecast', horizon],
+    queryFn: async () => {
+      const res = await fetch(`/api/stats/forecast?horizon=${horizon}`);
+      if (!res.ok) throw new Error('Failed to fetch revenue forecast');
+      return res.json();
+    },
+  });
+
+  const month = data ? forecastMonth(data.lastDate) : undefined;
+  const { data: targetsData } = useQuery<{ targets: RevenueTarget[] }>({
+    queryKey: ['revenue-targets', month],
+    queryFn: async () => {
+      const res = await fetch(`/api/stats/forecast/targets?month=${month}`);
+      if (!res.ok) throw new Error('Failed to fetch revenue targets');
+      return res.json();
+    },
+    enabled: !!month,
+  });
+
+  const header = (
+    <PageHeader
+      title="Revenue Forecast"
+      subtitle={
+        data
+          ? `Daily forecasts from ${data.lastDate} with ${data.bandLevel}% confidence bands, backtested on stored history`
+          : 'Daily forecasts with confidence bands, backtested on stored history'
+      }
+    >
+      <ToggleButtonGroup value={metric} exclusive onChange={(_, v) => v !== null && setMetric(v)} size="small">
+        {(Object.keys(METRIC_LABELS) as ForecastMetric[]).map((m) => (
+          <ToggleButton key={m} value={m}>
+            {METRIC_LABELS[m]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      <ToggleButtonGroup value={horizon} exclusive onChange={(_, v) => v !== null && setHorizon(v)} size="small">
+        <ToggleButton value={7}>7D</ToggleButton>
+        <ToggleButton value={14}>14D</ToggleButton>
+        <ToggleButton value={30}>30D</ToggleButton>
+      </ToggleButtonGroup>
+    </PageHeader>
+  );
+
+  if (isLoading) {
+    return (
+      <Box>
+        {header}
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          {[1, 2, 3, 4].map((i) => (
+            <Grid size={{ xs: 12, sm: 6, md: 3 }} key={i}>
+              <Skeleton variant="rounded" height={120} />
+            </Grid>
+          ))}
+        </Grid>
+        <Skeleton variant="rounded" height={380} sx={{ mb: 3 }} />
+        <Skeleton variant="rounded" height={300} />
+      </Box>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Box>
+        {header}
+        <Alert severity="error">{error ? (error as Error).message : 'No forecast available'}</Alert>
+      </Box>
+    );
+  }
+
+  const entities = [data.network, ...data.demandPartners, ...data.publishers];
+  const entity = entities.find((e) => entityKey(e) === selected) || data.network;
+  const landing = entity.landing;
+  const accuracy = entity.metrics.find((m) => m.metric === metric)?.accuracy;
+  const existingTarget = (e: EntityForecast) =>
+    targetsData?.targets.find((t) =>
+      t.scope === e.scope && (e.scope === 'network' || ((t.entityId ?? null) === e.id && t.entity === e.name))
+    );
+
+  return (
+    <Box>
+      {header}
+
+      <TextField
+        select
+        size="small"
+        label="Forecast for"
+        value={entityKey(entity)}
+        onChange={(e) => setSelected(e.target.value)}
+        sx={{ minWidth: 320, mb: 3 }}
+      >
+        {entities.map((e) => (
+          <MenuItem key={entityKey(e)} value={entityKey(e)}>
+            {e.scope === 'network' ? e.name : `${e.name} (${SCOPE_LABELS[e.scope]})`}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+          <MetricCard
+            title="Month to Date"
+            value={landing ? money(landing.actualToDate) : '—'}
+            icon={<AccountBalanceIcon />}
+            subtitle={landing ? `${landing.daysElapsed} of ${landing.daysInMonth} days of ${monthLabel(landing.month)}` : undefined}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+          <MetricCard
+            title="Expected Month-End"
+            value={landing ? money(landing.expected) : '—'}
+            icon={<TimelineIcon />}
+            subtitle={landing ? `${money(landing.low)} – ${money(landing.high)}` : 'Not enough history'}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+          <MetricCard
+            title="Target"
+            value={landing?.target != null ? money(landing.target) : 'Not set'}
+            icon={<FlagIcon />}
+            subtitle={landing?.targetPct != null ? 'Expected share of target' : undefined}
+            badge={<TargetChip pct={landing?.targetPct ?? null} />}
+          />
+          <Button size="small" onClick={() => setEditing(entity)} sx={{ textTransform: 'none', mt: 0.5 }}>
+            {landing?.target != null ? 'Edit target' : 'Set target'}
+          </Button>
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+          <MetricCard
+            title={`${METRIC_LABELS[metric]} Backtest Error`}
+            value={accuracy ? `${accuracy.wape.toFixed(1)}%` : '—'}
+            icon={<RuleIcon />}
+            subtitle={
+              accuracy
+                ? `Bias ${accuracy.bias > 0 ? '+' : ''}${accuracy.bias.toFixed(1)}%, ${accuracy.coverage.toFixed(0)}% inside the ${data.bandLevel}% band over ${accuracy.origins} runs`
+                : 'Not enough history to backtest'
+            }
+          />
+        </Grid>
+      </Grid>
+
+      <ForecastChart entity={entity} metric={metric} bandLevel={data.bandLevel} />
+
+      <EntityTable entities={entities} selected={entityKey(entity)} onSelect={setSelected} onEditTarget={setEditing} />
+
+      {editing && month && (
+        <TargetDialog
+          entity={editing}
+          month={month}
+          existing={existingTarget(editing)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Box>
+  );
+}
@@ -2,6 +2,7 @@ import { Box } from '@mui/material';
 import Sidebar from '@/components/layout/Sidebar';
 import TopBar from '@/components/layout/TopBar';
 import FloatingChat from '@/components/layout/FloatingChat';
+import FreshnessBanner from '@/components/layout/FreshnessBanner';
 
 export default function DashboardLayout({
   children,
@@ -23,6 +24,7 @@ export default function DashboardLayout({
       >
         <TopBar />
         <Box sx={{ p: 3, flex: 1, overflow: 'auto' }}>
+          <FreshnessBanner />
           {children}
         </Box>
       </Box>
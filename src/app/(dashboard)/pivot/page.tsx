@@ -0,0 +1,582 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import SaveIcon from '@mui/icons-material/Save';
+import TableChartIcon from '@mui/icons-material/TableChart';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
+import {
+  DEFAULT_PIVOT_CONFIG,
+  PIVOT_DIMENSIONS,
+  PIVOT_METRICS,
+  PIVOT_THRESHOLD_OPS,
+  PivotMetricFormat,
+} from '@/lib/pivot/fields';
+import type { PivotConfig, PivotMetric, PivotResult, PivotRow, PivotThreshold, PivotView } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// Threshold values are edited as text so a half-typed number survives
+interface DraftConfig extends Omit<PivotConfig, 'thresholds'> {
+  thresholds: Array<Omit<PivotThreshold, 'value'> & { value: string }>;
+}
+
+interface PivotSetInfo {
+  setKey: string;
+  label: string;
+  dimensions: string[];
+}
+
+const PERIODS = [7, 14, 30];
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100];
+
+function toDraft(config: PivotConfig): DraftConfig {
+  return { ...config, thresholds: config.thresholds.map((t) => ({ ...t, value: String(t.value) })) };
+}
+
+function fromDraft(draft: DraftConfig): PivotConfig {
+  return { ...draft, thresholds: draft.thresholds.map((t) => ({ ...t, value: Number(t.value) })) };
+}
+
+function formatMetric(value: number | undefined, format: PivotMetricFormat): string {
+  const v = Number(value || 0);
+  if (format === 'currency') return `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  if (format === 'percent') return `${v.toFixed(2)}%`;
+  return Math.round(v).toLocaleString();
+}
+
+const dimensionSpec = (dimension: string) => PIVOT_DIMENSIONS.find((d) => d.dimension === dimension)!;
+const metricSpec = (metric: PivotMetric) => PIVOT_METRICS.find((m) => m.metric === metric)!;
+
+// ---------------------------------------------------------------------------
+// Main Page
+// ---------------------------------------------------------------------------
+
+export default function PivotPage() {
+  const queryClient = useQueryClient();
+  const source = useSourceScope();
+  const [draft, setDraft] = useState<DraftConfig>(toDraft(DEFAULT_PIVOT_CONFIG));
+  const [applied, setApplied] = useState<PivotConfig>(DEFAULT_PIVOT_CONFIG);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+  const [selectedView, setSelectedView] = useState<number | ''>('');
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [message, setMessage] = useState('');
+
+  const { data: setsData } = useQuery<{ sets: PivotSetInfo[] }>({
+    queryKey: ['pivot-sets'],
+    queryFn: async () => {
+      const res = await fetch('/api/stats/pivot');
+      if (!res.ok) throw new Error('Failed to load dimension sets');
+      return res.json();
+    },
+  });
+
+  const { data: viewsData } = useQuery<{ views: PivotView[] }>({
+    queryKey: ['pivot-views'],
+    queryFn: async () => {
+      const res = await fetch('/api/stats/pivot/views');
+      if (!res.ok) throw new Error('Failed to load saved views');
+      return res.json();
+    },
+  });
+
+  const { data, isLoading, isFetching, error } = useQuery<PivotResult>({
+    queryKey: ['pivot', applied, source, page, rowsPerPage],
+    queryFn: async () => {
+      const res = await fetch('/api/stats/pivot', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config: applied, source, limit: rowsPerPage, offset: page * rowsPerPage }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to run pivot');
+      return body;
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/stats/pivot/views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: viewName, config: fromDraft(draft) }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to save view');
+      return body as { view: PivotView };
+    },
+    onSuccess: (result) => {
+      setMessage(`Saved view "${result.view.name}"`);
+      setSelectedView(result.view.id);
+      setSaveOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['pivot-views'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (view: PivotView) => {
+      const res = await fetch(`/api/stats/pivot/views?id=${view.id}`, { method: 'DELETE' });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to delete view');
+      return view;
+    },
+    onSuccess: (view) => {
+      setMessage(`Deleted view "${view.name}"`);
+      setSelectedView('');
+      queryClient.invalidateQueries({ queryKey: ['pivot-views'] });
+    },
+  });
+
+  const views = viewsData?.views || [];
+  const currentView = views.find((v) => v.id === selectedView);
+
+  // A pivot can run when one registered set holds every dimension it uses
+  const usedDimensions = Array.from(new Set([
+    ...draft.dimensions,
+    ...draft.filters.filter((f) => f.values.some((v) => v.trim())).map((f) => f.dimension),
+  ]));
+  const covered = !setsData || setsData.sets.some((s) => usedDimensions.every((d) => s.dimensions.includes(d)));
+
+  const apply = (config: PivotConfig) => {
+    setApplied(config);
+    setPage(0);
+  };
+
+  const loadView = (id: number | '') => {
+    setSelectedView(id);
+    const view = views.find((v) => v.id === id);
+    if (!view) return;
+    setDraft(toDraft(view.config));
+    apply(view.config);
+  };
+
+  const toggleDimension = (dimension: string) => {
+    const dimensions = draft.dimensions.includes(dimension)
+      ? draft.dimensions.filter((d) => d !== dimension)
+      : [...draft.dimensions, dimension];
+    // Sorting on a dimension that is no longer grouped falls back to revenue
+    const droppedSort = draft.dimensions.includes(draft.sort) && !dimensions.includes(draft.sort);
+    setDraft({ ...draft, dimensions, sort: droppedSort ? 'demand_payout' : draft.sort });
+  };
+
+  const toggleMetric = (metric: PivotMetric) => {
+    setDraft({
+      ...draft,
+      metrics: draft.metrics.includes(metric) ? draft.metrics.filter((m) => m !== metric) : [...draft.metrics, metric],
+    });
+  };
+
+  const handleSort = (key: string) => {
+    const sortDesc = applied.sort === key ? !applied.sortDesc : true;
+    setDraft({ ...draft, sort: key, sortDesc });
+    apply({ ...applied, sort: key, sortDesc });
+  };
+
+  const handlePeriodChange = (_: React.MouseEvent<HTMLElement>, period: number | null) => {
+    if (period === null) return;
+    setDraft({ ...draft, period });
+    apply({ ...applied, period });
+  };
+
+  const handleDeleteView = () => {
+    if (currentView && window.confirm(`Delete view "${currentView.name}"?`)) deleteMutation.mutate(currentView);
+  };
+
+  const rows: PivotRow[] = data?.rows || [];
+  const mutationError = saveMutation.error || deleteMutation.error;
+
+  return (
+    <Box>
+      <PageHeader
+        title="Pivot Table"
+        subtitle={
+          `Group stored stats by any dimensions over the last ${applied.period} days` +
+          (data?.startDate && data?.endDate ? ` — ${data.startDate} to ${data.endDate}` : '')
+        }
+      >
+        <ToggleButtonGroup value={applied.period} exclusive onChange={handlePeriodChange} size="small">
+          {PERIODS.map((p) => (
+            <ToggleButton key={p} value={p}>{p} Days</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </PageHeader>
+
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage('')}>
+          {message}
+        </Alert>
+      )}
+      {mutationError && !saveOpen && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      {/* Builder */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>Saved view</Typography>
+            <Select
+              size="small"
+              value={selectedView}
+              displayEmpty
+              onChange={(e) => loadView(e.target.value as number | '')}
+              sx={{ minWidth: 220 }}
+            >
+              <MenuItem value="">
+                <em>None</em>
+              </MenuItem>
+              {views.map((v) => (
+                <MenuItem key={v.id} value={v.id}>{v.name}</MenuItem>
+              ))}
+            </Select>
+            <Button
+              size="small"
+              startIcon={<SaveIcon />}
+              onClick={() => {
+                setViewName(currentView?.name || '');
+                saveMutation.reset();
+                setSaveOpen(true);
+              }}
+            >
+              Save View
+            </Button>
+            {currentView && (
+              <Tooltip title="Delete view">
+                <IconButton size="small" onClick={handleDeleteView} disabled={deleteMutation.isPending}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>Group by (in order)</Typography>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {PIVOT_DIMENSIONS.map((d) => {
+                const position = draft.dimensions.indexOf(d.dimension);
+                return (
+                  <Chip
+                    key={d.dimension}
+                    label={position >= 0 ? `${position + 1}. ${d.label}` : d.label}
+                    color={position >= 0 ? 'primary' : 'default'}
+                    variant={position >= 0 ? 'filled' : 'outlined'}
+                    onClick={() => toggleDimension(d.dimension)}
+                  />
+                );
+              })}
+            </Box>
+          </Box>
+
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>Metrics</Typography>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {PIVOT_METRICS.map((m) => {
+                const selected = draft.metrics.includes(m.metric);
+                return (
+                  <Chip
+                    key={m.metric}
+                    label={m.label}
+                    size="small"
+                    color={selected ? 'primary' : 'default'}
+                    variant={selected ? 'filled' : 'outlined'}
+                    onClick={() => toggleMetric(m.metric)}
+                  />
+                );
+              })}
+            </Box>
+          </Box>
+
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>Filters</Typography>
+            {draft.filters.map((f, i) => (
+              <Box key={i} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}>
+                <Select
+                  size="small"
+                  value={f.dimension}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    filters: draft.filters.map((x, j) => (j === i ? { ...x, dimension: e.target.value } : x)),
+                  })}
+                  sx={{ minWidth: 170 }}
+                >
+                  {PIVOT_DIMENSIONS.map((d) => (
+                    <MenuItem key={d.dimension} value={d.dimension}>{d.label}</MenuItem>
+                  ))}
+                </Select>
+                <Select
+                  size="small"
+                  value={f.mode}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    filters: draft.filters.map((x, j) => (j === i ? { ...x, mode: e.target.value as 'include' | 'exclude' } : x)),
+                  })}
+                  sx={{ minWidth: 120 }}
+                >
+                  <MenuItem value="include">is one of</MenuItem>
+                  <MenuItem value="exclude">is not</MenuItem>
+                </Select>
+                <TextField
+                  size="small"
+                  placeholder="Comma-separated values"
+                  value={f.values.join(',')}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    filters: draft.filters.map((x, j) => (j === i ? { ...x, values: e.target.value.split(',') } : x)),
+                  })}
+                  sx={{ flex: 1 }}
+                />
+                <IconButton size="small" onClick={() => setDraft({ ...draft, filters: draft.filters.filter((_, j) => j !== i) })}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setDraft({ ...draft, filters: [...draft.filters, { dimension: 'DEMAND', mode: 'include', values: [] }] })}
+            >
+              Add Filter
+            </Button>
+          </Box>
+
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>Thresholds</Typography>
+            {draft.thresholds.map((t, i) => (
+              <Box key={i} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}>
+                <Select
+                  size="small"
+                  value={t.metric}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    thresholds: draft.thresholds.map((x, j) => (j === i ? { ...x, metric: e.target.value as PivotMetric } : x)),
+                  })}
+                  sx={{ minWidth: 170 }}
+                >
+                  {PIVOT_METRICS.map((m) => (
+                    <MenuItem key={m.metric} value={m.metric}>{m.label}</MenuItem>
+                  ))}
+                </Select>
+                <Select
+                  size="small"
+                  value={t.op}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    thresholds: draft.thresholds.map((x, j) => (j === i ? { ...x, op: e.target.value as PivotThreshold['op'] } : x)),
+                  })}
+                  sx={{ minWidth: 80 }}
+                >
+                  {PIVOT_THRESHOLD_OPS.map((op) => (
+                    <MenuItem key={op} value={op}>{op}</MenuItem>
+                  ))}
+                </Select>
+                <TextField
+                  size="small"
+                  type="number"
+                  value={t.value}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    thresholds: draft.thresholds.map((x, j) => (j === i ? { ...x, value: e.target.value } : x)),
+                  })}
+                  sx={{ width: 160 }}
+                />
+                <IconButton size="small" onClick={() => setDraft({ ...draft, thresholds: draft.thresholds.filter((_, j) => j !== i) })}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setDraft({ ...draft, thresholds: [...draft.thresholds, { metric: 'impressions', op: '>=', value: '' }] })}
+            >
+              Add Threshold
+            </Button>
+          </Box>
+
+          {!covered && (
+            <Alert severity="warning">
+              No registered dimension set holds {usedDimensions.join(', ')}. An admin can add one on the Dimension Sets page.
+            </Alert>
+          )}
+
+          <Box>
+            <Button
+              variant="contained"
+              startIcon={<PlayArrowIcon />}
+              onClick={() => apply(fromDraft(draft))}
+              disabled={!covered || draft.metrics.length === 0 || draft.thresholds.some((t) => t.value.trim() === '')}
+            >
+              Run
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {(error as Error).message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : !data || data.totalRows === 0 ? (
+        !error && (
+          <EmptyState
+            icon={<TableChartIcon sx={{ fontSize: 56 }} />}
+            title="No rows"
+            subtitle="Nothing in the stored stats matches this pivot. Try a longer period or fewer filters."
+          />
+        )
+      ) : (
+        <Card sx={{ opacity: isFetching ? 0.6 : 1 }}>
+          <CardContent sx={{ p: 0 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', px: 2, pt: 2 }}>
+              <Typography variant="body2" color="text.secondary">
+                {data.totalRows.toLocaleString()} group{data.totalRows !== 1 ? 's' : ''}
+              </Typography>
+              <Chip label={`From ${data.tableName}`} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+            </Box>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    {applied.dimensions.length === 0 && <TableCell>Scope</TableCell>}
+                    {applied.dimensions.map((d) => (
+                      <TableCell key={d}>
+                        <TableSortLabel
+                          active={applied.sort === d}
+                          direction={applied.sort === d && !applied.sortDesc ? 'asc' : 'desc'}
+                          onClick={() => handleSort(d)}
+                        >
+                          {dimensionSpec(d).label}
+                        </TableSortLabel>
+                      </TableCell>
+                    ))}
+                    {applied.metrics.map((m) => (
+                      <TableCell key={m} align="right">
+                        <TableSortLabel
+                          active={applied.sort === m}
+                          direction={applied.sort === m && !applied.sortDesc ? 'asc' : 'desc'}
+                          onClick={() => handleSort(m)}
+                        >
+                          {metricSpec(m).label}
+                        </TableSortLabel>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((row, i) => (
+                    <TableRow key={page * rowsPerPage + i} hover>
+                      {applied.dimensions.length === 0 && <TableCell>All</TableCell>}
+                      {applied.dimensions.map((d) => (
+                        <TableCell key={d} sx={{ fontWeight: 600 }}>
+                          {String(row[dimensionSpec(d).field] ?? '') || '(none)'}
+                        </TableCell>
+                      ))}
+                      {applied.metrics.map((m) => (
+                        <TableCell key={m} align="right">{formatMetric(row[m], metricSpec(m).format)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow sx={{ '& td': { fontWeight: 700, borderTop: '2px solid rgba(255,255,255,0.12)' } }}>
+                    <TableCell colSpan={Math.max(applied.dimensions.length, 1)}>Total</TableCell>
+                    {applied.metrics.map((m) => (
+                      <TableCell key={m} align="right">{formatMetric(data.totals[m], metricSpec(m).format)}</TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={data.totalRows}
+              page={page}
+              onPageChange={(_, p) => setPage(p)}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+              onRowsPerPageChange={(e) => {
+                setRowsPerPage(Number(e.target.value));
+                setPage(0);
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={saveOpen} onClose={() => setSaveOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save Pivot View</DialogTitle>
+        <DialogContent>
+          {saveMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {saveMutation.error.message}
+            </Alert>
+          )}
+          <TextField
+            label="Name"
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            helperText="Saving under an existing name replaces that view"
+            fullWidth
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => saveMutation.mutate()}
+            disabled={!viewName.trim() || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <CircularProgress size={18} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -18,39 +18,91 @@ import {
   ToggleButtonGroup,
   ToggleButton,
   LinearProgress,
+  Autocomplete,
+  TextField,
+  Button,
+  Alert,
 } from '@mui/material';
 import PieChartIcon from '@mui/icons-material/PieChart';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import AccountBalanceIcon from '@mui/icons-material/AccountBalance';
 import GroupsIcon from '@mui/icons-material/Groups';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
 import EmptyState from '@/components/ui/EmptyState';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type {
+  CacheLineage,
+  ChurnSimulation,
+  CompareMode,
+  ConcentrationHistoryPoint,
+  ConcentrationRisk,
+  EntityRef,
+  LorenzPoint,
+  WithDeltas,
+} from '@/types';
 
-interface EntityDistribution {
+interface EntityDistribution extends WithDeltas {
+  id?: number | null;
   name: string;
   revenue: number;
   share: number;
 }
 
-interface ConcentrationSide {
+interface ConcentrationSide extends WithDeltas {
   hhi: number;
   top5Share: number;
   top10Share: number;
-  risk: 'low' | 'medium' | 'high';
+  gini?: number;
+  risk: ConcentrationRisk;
   count: number;
   distribution: EntityDistribution[];
+  lorenz?: LorenzPoint[];
+}
+
+interface ConcentrationHistoryData {
+  demand: ConcentrationHistoryPoint[];
+  publisher: ConcentrationHistoryPoint[];
 }
 
-interface ConcentrationData {
+type HistoryMetric = 'hhi' | 'top5Share' | 'top10Share' | 'gini';
+
+const HISTORY_METRICS: Record<HistoryMetric, string> = {
+  hhi: 'HHI',
+  top5Share: 'Top 5 Share %',
+  top10Share: 'Top 10 Share %',
+  gini: 'Gini',
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#3a3a3c',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: 8,
+};
+
+interface ConcentrationData extends WithDeltas {
   demand: ConcentrationSide;
   publisher: ConcentrationSide;
-  overallRisk: 'low' | 'medium' | 'high';
+  overallRisk: ConcentrationRisk;
   totalRevenue: number;
+  lineage?: CacheLineage;
 }
 
-function RiskBadge({ risk }: { risk: 'low' | 'medium' | 'high' }) {
+function RiskBadge({ risk }: { risk: ConcentrationRisk }) {
   const config = {
     low: { color: 'success' as const, label: 'Low Risk' },
     medium: { color: 'warning' as const, label: 'Medium Risk' },
@@ -63,9 +115,11 @@ function RiskBadge({ risk }: { risk: 'low' | 'medium' | 'high' }) {
 function ConcentrationTable({
   title,
   side,
+  changeLabel,
 }: {
   title: string;
   side: ConcentrationSide;
+  changeLabel?: string;
 }) {
   let cumulative = 0;
   const maxRevenue = side.distribution.length > 0 ? side.distribution[0].revenue : 0;
@@ -90,6 +144,11 @@ function ConcentrationTable({
           <Typography variant="body2" color="text.secondary">
             Top 10 Share: <strong>{side.top10Share.toFixed(1)}%</strong>
           </Typography>
+          {side.gini !== undefined && (
+            <Typography variant="body2" color="text.secondary">
+              Gini: <strong>{side.gini.toFixed(3)}</strong>
+            </Typography>
+          )}
           <Typography variant="body2" color="text.secondary">
             Total Entities: <strong>{side.count}</strong>
           </Typography>
@@ -140,6 +199,7 @@ function ConcentrationTable({
                       </TableCell>
                       <TableCell align="right">
                         ${entity.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        <DeltaChip value={entity.deltas?.revenue} label={changeLabel} />
                       </TableCell>
                       <TableCell align="right">
                         <Typography
@@ -182,13 +242,308 @@ function ConcentrationTable({
   );
 }
 
+function LorenzChart({ title, points }: { title: string; points: LorenzPoint[] }) {
+  // Equality line: every entity holds the same share
+  const data = points.map((p) => ({ ...p, equality: p.population }));
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          {title}
+        </Typography>
+        {points.length <= 1 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No revenue in this period.
+          </Typography>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+              <XAxis
+                dataKey="population"
+                type="number"
+                domain={[0, 100]}
+                unit="%"
+                tick={{ fill: '#9AA0A6', fontSize: 12 }}
+              />
+              <YAxis domain={[0, 100]} unit="%" tick={{ fill: '#9AA0A6', fontSize: 12 }} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend />
+              <Line type="linear" dataKey="equality" stroke="#9AA0A6" strokeDasharray="4 4" dot={false} name="Equal share" />
+              <Line type="monotone" dataKey="revenue" stroke="#6366F1" strokeWidth={2} dot={false} name="Revenue share" />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ConcentrationHistory() {
+  const [metric, setMetric] = useState<HistoryMetric>('hhi');
+
+  const { data, isLoading } = useQuery<ConcentrationHistoryData>({
+    queryKey: ['revenue-concentration-history'],
+    queryFn: async () => {
+      const res = await fetch('/api/stats/concentration/history?days=90');
+      if (!res.ok) throw new Error('Failed to fetch concentration history');
+      return res.json();
+    },
+  });
+
+  // One row per date with both sides
+  const byDate = new Map<string, { date: string; demand?: number; publisher?: number }>();
+  for (const p of data?.demand || []) byDate.set(p.date, { date: p.date, demand: p[metric] });
+  for (const p of data?.publisher || []) byDate.set(p.date, { ...(byDate.get(p.date) || { date: p.date }), publisher: p[metric] });
+  const series = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">Concentration Over Time (last 90 days, all sources)</Typography>
+          <ToggleButtonGroup value={metric} exclusive onChange={(_, v) => v !== null && setMetric(v)} size="small">
+            {(Object.keys(HISTORY_METRICS) as HistoryMetric[]).map((m) => (
+              <ToggleButton key={m} value={m}>
+                {HISTORY_METRICS[m]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+        {isLoading ? (
+          <Skeleton variant="rounded" height={260} />
+        ) : series.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No daily concentration saved yet. It is built as syncs refresh the daily rollups.
+          </Typography>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={series}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+              <XAxis dataKey="date" tick={{ fill: '#9AA0A6', fontSize: 12 }} />
+              <YAxis tick={{ fill: '#9AA0A6', fontSize: 12 }} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend />
+              <Line type="monotone" dataKey="demand" stroke="#6366F1" strokeWidth={2} dot={false} name="Demand partners" />
+              <Line type="monotone" dataKey="publisher" stroke="#FFB74D" strokeWidth={2} dot={false} name="Publishers" />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function money(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function ChurnSimulator({ data, period, source }: { data: ConcentrationData; period: number; source: string }) {
+  const [partners, setPartners] = useState<EntityRef[]>([]);
+  const [publishers, setPublishers] = useState<EntityRef[]>([]);
+
+  const simulation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/stats/concentration/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ period, source, demandPartners: partners, publishers }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Simulation failed');
+      return body as ChurnSimulation;
+    },
+  });
+
+  const options = (side: ConcentrationSide): EntityRef[] =>
+    side.distribution.map((e) => ({ id: e.id ?? null, name: e.name }));
+  const sameEntity = (a: EntityRef, b: EntityRef) => a.id === b.id && a.name === b.name;
+  const result = simulation.data;
+  const revenueChange = result && result.baseline.revenue > 0
+    ? ((result.projected.revenue - result.baseline.revenue) / result.baseline.revenue) * 100
+    : 0;
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Churn Simulator
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Remove demand partners or publishers to see the projected revenue, the new HHI, and how much of the lost
+          volume the remaining partners could absorb at their current bid rates on the same publishers.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Autocomplete
+              multiple
+              size="small"
+              options={options(data.demand)}
+              value={partners}
+              onChange={(_, value) => setPartners(value)}
+              getOptionLabel={(o) => o.name}
+              isOptionEqualToValue={sameEntity}
+              renderInput={(params) => <TextField {...params} label="Remove demand partners" />}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Autocomplete
+              multiple
+              size="small"
+              options={options(data.publisher)}
+              value={publishers}
+              onChange={(_, value) => setPublishers(value)}
+              getOptionLabel={(o) => o.name}
+              isOptionEqualToValue={sameEntity}
+              renderInput={(params) => <TextField {...params} label="Remove publishers" />}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 2 }}>
+            <Button
+              variant="contained"
+              fullWidth
+              disabled={simulation.isPending || (partners.length === 0 && publishers.length === 0)}
+              onClick={() => simulation.mutate()}
+              sx={{ height: 40 }}
+            >
+              {simulation.isPending ? 'Simulating...' : 'Simulate'}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {simulation.isError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {(simulation.error as Error).message}
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <Grid container spacing={3} sx={{ mb: 3 }}>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                <MetricCard
+                  title="Projected Revenue"
+                  value={money(result.projected.revenue)}
+                  change={revenueChange}
+                  changeLabel="vs current"
+                  icon={<AccountBalanceIcon />}
+                  subtitle={`${money(result.lostRevenue)} lost, ${money(result.absorbedRevenue)} absorbed`}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                <MetricCard
+                  title="Volume Absorbed"
+                  value={`${result.absorptionRate.toFixed(1)}%`}
+                  icon={<PieChartIcon />}
+                  subtitle={`${result.absorbedImpressions.toLocaleString()} of ${result.displacedImpressions.toLocaleString()} impressions`}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                <MetricCard
+                  title="Demand HHI"
+                  value={result.projected.demandHhi.toLocaleString()}
+                  icon={<AccountBalanceIcon />}
+                  subtitle={`Now ${result.baseline.demandHhi.toLocaleString()}`}
+                  badge={<RiskBadge risk={result.projected.demandRisk} />}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                <MetricCard
+                  title="Publisher HHI"
+                  value={result.projected.publisherHhi.toLocaleString()}
+                  icon={<GroupsIcon />}
+                  subtitle={`Now ${result.baseline.publisherHhi.toLocaleString()}`}
+                  badge={<RiskBadge risk={result.projected.publisherRisk} />}
+                />
+              </Grid>
+            </Grid>
+
+            <Grid container spacing={3}>
+              <Grid size={{ xs: 12, md: 6 }}>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                  Partners that could absorb the volume
+                </Typography>
+                {result.absorbers.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No remaining partner bids on the affected publishers.
+                  </Typography>
+                ) : (
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Partner</TableCell>
+                          <TableCell align="right">Current</TableCell>
+                          <TableCell align="right">Absorbed</TableCell>
+                          <TableCell align="right">Projected</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {result.absorbers.slice(0, 10).map((a, i) => (
+                          <TableRow key={i} sx={{ '&:last-child td': { borderBottom: 0 } }}>
+                            <TableCell sx={{ maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                              {a.name}
+                            </TableCell>
+                            <TableCell align="right">{money(a.currentRevenue)}</TableCell>
+                            <TableCell align="right" sx={{ color: 'success.main' }}>
+                              +{money(a.absorbedRevenue)}
+                            </TableCell>
+                            <TableCell align="right">{money(a.projectedRevenue)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </Grid>
+              <Grid size={{ xs: 12, md: 6 }}>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                  Publishers affected
+                </Typography>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Publisher</TableCell>
+                        <TableCell align="right">Lost</TableCell>
+                        <TableCell align="right">Absorbed</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {result.publishers.slice(0, 10).map((p, i) => (
+                        <TableRow key={i} sx={{ '&:last-child td': { borderBottom: 0 } }}>
+                          <TableCell sx={{ maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {p.name}
+                          </TableCell>
+                          <TableCell align="right" sx={{ color: 'error.main' }}>
+                            -{money(p.lostRevenue)}
+                          </TableCell>
+                          <TableCell align="right">{money(p.absorbedRevenue)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+            </Grid>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function RevenueConcentrationPage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
 
   const { data, isLoading } = useQuery<ConcentrationData>({
-    queryKey: ['revenue-concentration', period],
+    queryKey: ['revenue-concentration', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/concentration?period=${period}`);
+      const res = await fetch(`/api/stats/concentration?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch concentration data');
       return res.json();
     },
@@ -211,19 +566,22 @@ export default function RevenueConcentrationPage() {
     );
   }
 
-  const d = data || {
-    demand: { hhi: 0, top5Share: 0, top10Share: 0, risk: 'low' as const, count: 0, distribution: [] },
-    publisher: { hhi: 0, top5Share: 0, top10Share: 0, risk: 'low' as const, count: 0, distribution: [] },
-    overallRisk: 'low' as const,
+  const d: ConcentrationData = data || {
+    demand: { hhi: 0, top5Share: 0, top10Share: 0, risk: 'low', count: 0, distribution: [] },
+    publisher: { hhi: 0, top5Share: 0, top10Share: 0, risk: 'low', count: 0, distribution: [] },
+    overallRisk: 'low',
     totalRevenue: 0,
   };
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
       <PageHeader
         title="Revenue Concentration"
-        subtitle="Revenue distribution analysis using Herfindahl-Hirschman Index (HHI) for concentration risk"
+        subtitle="Revenue distribution analysis using the Herfindahl-Hirschman Index (HHI) and Gini coefficient for concentration risk"
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -242,6 +600,9 @@ export default function RevenueConcentrationPage() {
           <MetricCard
             title="Demand HHI"
             value={d.demand.hhi.toLocaleString()}
+            change={d.demand.deltas?.hhi ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<AccountBalanceIcon />}
             subtitle={`${d.demand.count} demand partners`}
             badge={<RiskBadge risk={d.demand.risk} />}
@@ -251,6 +612,9 @@ export default function RevenueConcentrationPage() {
           <MetricCard
             title="Publisher HHI"
             value={d.publisher.hhi.toLocaleString()}
+            change={d.publisher.deltas?.hhi ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<GroupsIcon />}
             subtitle={`${d.publisher.count} publishers`}
             badge={<RiskBadge risk={d.publisher.risk} />}
@@ -283,13 +647,27 @@ export default function RevenueConcentrationPage() {
         </Grid>
       </Grid>
 
+      <ConcentrationHistory />
+
+      {/* Lorenz Curves */}
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        <Grid size={{ xs: 12, md: 6 }}>
+          <LorenzChart title="Demand Partner Lorenz Curve" points={d.demand.lorenz || []} />
+        </Grid>
+        <Grid size={{ xs: 12, md: 6 }}>
+          <LorenzChart title="Publisher Lorenz Curve" points={d.publisher.lorenz || []} />
+        </Grid>
+      </Grid>
+
+      <ChurnSimulator data={d} period={period} source={source} />
+
       {/* Demand Partner Concentration */}
       <Box sx={{ mb: 3 }}>
-        <ConcentrationTable title="Demand Partner Concentration" side={d.demand} />
+        <ConcentrationTable title="Demand Partner Concentration" side={d.demand} changeLabel={changeLabel} />
       </Box>
 
       {/* Publisher Concentration */}
-      <ConcentrationTable title="Publisher Concentration" side={d.publisher} />
+      <ConcentrationTable title="Publisher Concentration" side={d.publisher} changeLabel={changeLabel} />
     </Box>
   );
 }
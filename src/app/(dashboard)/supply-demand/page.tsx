@@ -22,12 +22,17 @@ import {
 } from '@mui/material';
 import { useQuery } from '@tanstack/react-query';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type { CacheLineage, CompareMode, WithDeltas } from '@/types';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface DemandPartner {
+interface DemandPartner extends WithDeltas {
   name: string;
   revenue: number;
   impressions: number;
@@ -41,7 +46,7 @@ interface DemandPartner {
   timeoutRate: number;
 }
 
-interface Publisher {
+interface Publisher extends WithDeltas {
   name: string;
   revenue: number;
   impressions: number;
@@ -72,6 +77,7 @@ interface PartnersData {
   demandPartners: DemandPartner[];
   publishers: Publisher[];
   crossReference: CrossRef[];
+  lineage?: CacheLineage;
 }
 
 // ---------------------------------------------------------------------------
@@ -111,6 +117,8 @@ interface Column<T> {
   align: 'left' | 'right';
   format: (v: number) => string;
   minWidth?: number;
+  // A rise is bad (timeouts)
+  invert?: boolean;
 }
 
 const demandColumns: Column<DemandPartner>[] = [
@@ -119,7 +127,7 @@ const demandColumns: Column<DemandPartner>[] = [
   { id: 'impressions', label: 'Impressions', align: 'right', format: fmtNumber },
   { id: 'ecpm', label: 'eCPM', align: 'right', format: fmtEcpm },
   { id: 'fillRate', label: 'Fill Rate', align: 'right', format: fmtPercent },
-  { id: 'timeoutRate', label: 'Timeout Rate', align: 'right', format: fmtPercent },
+  { id: 'timeoutRate', label: 'Timeout Rate', align: 'right', format: fmtPercent, invert: true },
   { id: 'bidRequests', label: 'Bid Requests', align: 'right', format: fmtNumber },
 ];
 
@@ -129,7 +137,7 @@ const publisherColumns: Column<Publisher>[] = [
   { id: 'impressions', label: 'Impressions', align: 'right', format: fmtNumber },
   { id: 'ecpm', label: 'eCPM', align: 'right', format: fmtEcpm },
   { id: 'fillRate', label: 'Fill Rate', align: 'right', format: fmtPercent },
-  { id: 'timeoutRate', label: 'Timeout Rate', align: 'right', format: fmtPercent },
+  { id: 'timeoutRate', label: 'Timeout Rate', align: 'right', format: fmtPercent, invert: true },
   { id: 'bidRequests', label: 'Bid Requests', align: 'right', format: fmtNumber },
 ];
 
@@ -137,14 +145,16 @@ const publisherColumns: Column<Publisher>[] = [
 // Sortable table component
 // ---------------------------------------------------------------------------
 
-function SortableTable<T extends object>({
+function SortableTable<T extends WithDeltas>({
   rows,
   columns,
   defaultSort,
+  changeLabel,
 }: {
   rows: T[];
   columns: Column<T>[];
   defaultSort: keyof T;
+  changeLabel?: string;
 }) {
   const [orderBy, setOrderBy] = useState<keyof T>(defaultSort);
   const [order, setOrder] = useState<SortDir>('desc');
@@ -240,6 +250,9 @@ function SortableTable<T extends object>({
                     }}
                   >
                     {isName ? String(val) : col.format(Number(val))}
+                    {!isName && (
+                      <DeltaChip value={row.deltas?.[String(col.id)]} invert={col.invert} label={changeLabel} />
+                    )}
                   </TableCell>
                 );
               })}
@@ -386,12 +399,14 @@ function LoadingSkeleton() {
 
 export default function SupplyDemandPage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
   const [activeTab, setActiveTab] = useState<number>(0);
 
   const { data, isLoading } = useQuery<PartnersData>({
-    queryKey: ['partners', period],
+    queryKey: ['partners', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/partners?period=${period}`);
+      const res = await fetch(`/api/stats/partners?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch supply-demand data');
       return res.json();
     },
@@ -406,13 +421,16 @@ export default function SupplyDemandPage() {
   const totalRevenue = d.demandPartners.reduce((s, p) => s + p.revenue, 0);
   const totalImpressions = d.demandPartners.reduce((s, p) => s + p.impressions, 0);
   const totalBidRequests = d.demandPartners.reduce((s, p) => s + p.bidRequests, 0);
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
 
   return (
     <Box>
       <PageHeader
         title="Supply & Demand Analysis"
         subtitle="Performance matrix across demand partners and publishers"
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -484,6 +502,7 @@ export default function SupplyDemandPage() {
               rows={d.demandPartners}
               columns={demandColumns}
               defaultSort="revenue"
+              changeLabel={changeLabel}
             />
           )}
           {activeTab === 1 && (
@@ -491,6 +510,7 @@ export default function SupplyDemandPage() {
               rows={d.publishers}
               columns={publisherColumns}
               defaultSort="revenue"
+              changeLabel={changeLabel}
             />
           )}
           {activeTab === 2 && (
@@ -15,6 +15,8 @@ import {
   TableHead,
   TableRow,
   Chip,
+  Collapse,
+  IconButton,
   ToggleButtonGroup,
   ToggleButton,
 } from '@mui/material';
@@ -25,11 +27,36 @@ import VerifiedIcon from '@mui/icons-material/Verified';
 import GroupsIcon from '@mui/icons-material/Groups';
 import StarIcon from '@mui/icons-material/Star';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 import { useQuery } from '@tanstack/react-query';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type {
+  CacheLineage,
+  CompareMode,
+  PublisherQualityHistoryPoint,
+  QualityComponentConfig,
+  QualityComponentScore,
+  WithDeltas,
+} from '@/types';
 
-interface PublisherQuality {
+interface PublisherQuality extends WithDeltas {
+  publisherId: number | null;
   publisher: string;
   qualityScore: number;
   bidRate: number;
@@ -40,25 +67,42 @@ interface PublisherQuality {
   bidRequests: number;
   timeouts: number;
   trend: 'improving' | 'stable' | 'declining';
+  components?: QualityComponentScore[];
+}
+
+interface QualityModelSummary {
+  components: Array<QualityComponentConfig & { label: string }>;
+  trendThreshold: number;
+  highThreshold: number;
+  lowThreshold: number;
+}
+
+interface QualityHistoryData {
+  history: PublisherQualityHistoryPoint[];
 }
 
 interface QualityData {
-  summary: {
+  summary: WithDeltas & {
     avgQualityScore: number;
     totalPublishers: number;
     highQuality: number;
     lowQuality: number;
   };
   publishers: PublisherQuality[];
+  model?: QualityModelSummary;
+  lineage?: CacheLineage;
 }
 
-function QualityBadge({ score }: { score: number }) {
+// Thresholds when the payload predates the configurable model
+const DEFAULT_THRESHOLDS = { highThreshold: 70, lowThreshold: 40 };
+
+function QualityBadge({ score, thresholds }: { score: number; thresholds: { highThreshold: number; lowThreshold: number } }) {
   let color: 'success' | 'warning' | 'error' = 'warning';
   let label = 'Medium';
-  if (score > 70) {
+  if (score > thresholds.highThreshold) {
     color = 'success';
     label = 'High';
-  } else if (score < 40) {
+  } else if (score < thresholds.lowThreshold) {
     color = 'error';
     label = 'Low';
   }
@@ -109,13 +153,176 @@ function TrendIcon({ trend }: { trend: 'improving' | 'stable' | 'declining' }) {
   );
 }
 
+function ComponentBreakdown({ components }: { components: QualityComponentScore[] }) {
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Component</TableCell>
+          <TableCell align="right">Value</TableCell>
+          <TableCell align="right">Weight</TableCell>
+          <TableCell align="right">Points</TableCell>
+          <TableCell align="right">vs Avg Publisher</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {components.map((c) => (
+          <TableRow key={c.metric} sx={{ '&:last-child td': { borderBottom: 0 } }}>
+            <TableCell>{c.label}</TableCell>
+            <TableCell align="right">{c.value === null ? 'No data' : `${c.value.toFixed(2)}%`}</TableCell>
+            <TableCell align="right">{c.weight.toFixed(2)}</TableCell>
+            <TableCell align="right">
+              {c.points.toFixed(1)} / {c.maxPoints.toFixed(1)}
+            </TableCell>
+            <TableCell
+              align="right"
+              sx={{
+                fontWeight: 600,
+                color: c.impact > 0 ? 'success.main' : c.impact < 0 ? 'error.main' : 'text.secondary',
+              }}
+            >
+              {c.impact > 0 ? '+' : ''}
+              {c.impact.toFixed(1)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function QualityHistoryChart({ publisher, thresholds }: { publisher: PublisherQuality; thresholds: { highThreshold: number; lowThreshold: number } }) {
+  const { data, isLoading } = useQuery<QualityHistoryData>({
+    queryKey: ['supply-quality-history', publisher.publisherId, publisher.publisher],
+    queryFn: async () => {
+      const params = new URLSearchParams({ publisher: publisher.publisher, days: '90' });
+      if (publisher.publisherId !== null) params.set('publisherId', String(publisher.publisherId));
+      const res = await fetch(`/api/stats/quality/history?${params.toString()}`);
+      if (!res.ok) throw new Error('Failed to fetch quality history');
+      return res.json();
+    },
+  });
+
+  if (isLoading) return <Skeleton variant="rounded" height={220} />;
+  if (!data || data.history.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+        No saved daily scores yet. Scores are saved once a day by the cache refresh.
+      </Typography>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={data.history}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+        <XAxis dataKey="date" tick={{ fill: '#9AA0A6', fontSize: 12 }} />
+        <YAxis domain={[0, 100]} tick={{ fill: '#9AA0A6', fontSize: 12 }} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: '#3a3a3c',
+            border: '1px solid rgba(255,255,255,0.1)',
+            borderRadius: 8,
+          }}
+        />
+        <ReferenceLine y={thresholds.highThreshold} stroke="#4CAF50" strokeDasharray="4 4" />
+        <ReferenceLine y={thresholds.lowThreshold} stroke="#FF5252" strokeDasharray="4 4" />
+        <Line type="monotone" dataKey="qualityScore" stroke="#6366F1" strokeWidth={2} dot={false} name="Quality Score" />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+function PublisherRow({
+  publisher: p,
+  thresholds,
+  changeLabel,
+}: {
+  publisher: PublisherQuality;
+  thresholds: { highThreshold: number; lowThreshold: number };
+  changeLabel?: string;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <TableRow
+        sx={{ '&:hover': { bgcolor: 'rgba(255,255,255,0.02)' }, cursor: 'pointer' }}
+        onClick={() => setOpen(!open)}
+      >
+        <TableCell sx={{ width: 40, pr: 0 }}>
+          <IconButton size="small" sx={{ color: 'text.secondary' }}>
+            {open ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+          </IconButton>
+        </TableCell>
+        <TableCell
+          sx={{
+            maxWidth: 220,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+            fontWeight: 500,
+          }}
+        >
+          {p.publisher}
+        </TableCell>
+        <TableCell>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <QualityBadge score={p.qualityScore} thresholds={thresholds} />
+            <DeltaChip value={p.deltas?.qualityScore} label={changeLabel} />
+          </Box>
+        </TableCell>
+        <TableCell align="right">
+          ${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+          <DeltaChip value={p.deltas?.revenue} label={changeLabel} />
+        </TableCell>
+        <TableCell align="right">{p.impressions.toLocaleString()}</TableCell>
+        <TableCell align="right">{p.bidRate.toFixed(2)}%</TableCell>
+        <TableCell align="right">{p.winRate.toFixed(2)}%</TableCell>
+        <TableCell align="right">{p.fillRate.toFixed(2)}%</TableCell>
+        <TableCell>
+          <TrendIcon trend={p.trend} />
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={9} sx={{ py: 0, borderBottom: open ? undefined : 0 }}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Grid container spacing={3} sx={{ py: 2, px: 2 }}>
+              <Grid size={{ xs: 12, md: 6 }}>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1.5 }}>
+                  Score Breakdown
+                </Typography>
+                {p.components && p.components.length > 0 ? (
+                  <ComponentBreakdown components={p.components} />
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    No breakdown available for this period yet.
+                  </Typography>
+                )}
+              </Grid>
+              <Grid size={{ xs: 12, md: 6 }}>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1.5 }}>
+                  Daily Score (last 90 days, all sources)
+                </Typography>
+                <QualityHistoryChart publisher={p} thresholds={thresholds} />
+              </Grid>
+            </Grid>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+}
+
 export default function SupplyQualityPage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
 
   const { data, isLoading } = useQuery<QualityData>({
-    queryKey: ['supply-quality', period],
+    queryKey: ['supply-quality', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/quality?period=${period}`);
+      const res = await fetch(`/api/stats/quality?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch supply quality data');
       return res.json();
     },
@@ -143,13 +350,22 @@ export default function SupplyQualityPage() {
     summary: { avgQualityScore: 0, totalPublishers: 0, highQuality: 0, lowQuality: 0 },
     publishers: [],
   };
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
+  const thresholds = data?.model ?? DEFAULT_THRESHOLDS;
+  const modelLabels = data?.model?.components.filter((c) => c.weight > 0).map((c) => c.label.toLowerCase());
 
   return (
     <Box>
       <PageHeader
         title="Supply Quality"
-        subtitle="Publisher quality scores based on bid rate, win rate, fill rate, and delivery success"
+        subtitle={
+          modelLabels && modelLabels.length > 0
+            ? `Publisher quality scores based on ${modelLabels.join(', ')}`
+            : 'Publisher quality scores based on bid rate, win rate, fill rate, and delivery success'
+        }
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -168,6 +384,8 @@ export default function SupplyQualityPage() {
           <MetricCard
             title="Avg Quality Score"
             value={d.summary.avgQualityScore.toFixed(1)}
+            change={d.summary.deltas?.avgQualityScore ?? undefined}
+            changeLabel={changeLabel}
             icon={<VerifiedIcon />}
             subtitle={`Last ${period} days`}
           />
@@ -181,7 +399,7 @@ export default function SupplyQualityPage() {
         </Grid>
         <Grid size={{ xs: 12, sm: 6, md: 3 }}>
           <MetricCard
-            title="High Quality (>70)"
+            title={`High Quality (>${thresholds.highThreshold})`}
             value={d.summary.highQuality.toString()}
             icon={<StarIcon />}
             subtitle={
@@ -193,7 +411,7 @@ export default function SupplyQualityPage() {
         </Grid>
         <Grid size={{ xs: 12, sm: 6, md: 3 }}>
           <MetricCard
-            title="Low Quality (<40)"
+            title={`Low Quality (<${thresholds.lowThreshold})`}
             value={d.summary.lowQuality.toString()}
             icon={<WarningAmberIcon />}
             subtitle={
@@ -220,6 +438,7 @@ export default function SupplyQualityPage() {
               <Table size="small">
                 <TableHead>
                   <TableRow>
+                    <TableCell />
                     <TableCell>Publisher</TableCell>
                     <TableCell>Quality Score</TableCell>
                     <TableCell align="right">Revenue</TableCell>
@@ -232,32 +451,7 @@ export default function SupplyQualityPage() {
                 </TableHead>
                 <TableBody>
                   {d.publishers.map((p, i) => (
-                    <TableRow key={i} sx={{ '&:last-child td': { borderBottom: 0 } }}>
-                      <TableCell
-                        sx={{
-                          maxWidth: 220,
-                          overflow: 'hidden',
-                          textOverflow: 'ellipsis',
-                          whiteSpace: 'nowrap',
-                          fontWeight: 500,
-                        }}
-                      >
-                        {p.publisher}
-                      </TableCell>
-                      <TableCell>
-                        <QualityBadge score={p.qualityScore} />
-                      </TableCell>
-                      <TableCell align="right">
-                        ${p.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
-                      </TableCell>
-                      <TableCell align="right">{p.impressions.toLocaleString()}</TableCell>
-                      <TableCell align="right">{p.bidRate.toFixed(2)}%</TableCell>
-                      <TableCell align="right">{p.winRate.toFixed(2)}%</TableCell>
-                      <TableCell align="right">{p.fillRate.toFixed(2)}%</TableCell>
-                      <TableCell>
-                        <TrendIcon trend={p.trend} />
-                      </TableCell>
-                    </TableRow>
+                    <PublisherRow key={i} publisher={p} thresholds={thresholds} changeLabel={changeLabel} />
                   ))}
                 </TableBody>
               </Table>
@@ -0,0 +1,607 @@
+'use client';
+
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Skeleton,
+  Chip,
+  Button,
+  LinearProgress,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import HistoryIcon from '@mui/icons-material/History';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import SyncIcon from '@mui/icons-material/Sync';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type {
+  BackfillItemStatus,
+  BackfillJobStatus,
+  CoverageStatus,
+  ReconciliationReport,
+  SyncCoverage,
+  SyncRun,
+  SyncSetStatus,
+} from '@/types';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+
+const STATUS_COLORS: Record<BackfillItemStatus, string> = {
+  done: '#00D9A6',
+  empty: 'rgba(0,217,166,0.35)',
+  pending: 'rgba(255,255,255,0.12)',
+  failed: '#FF5252',
+};
+
+const COVERAGE_COLORS: Record<CoverageStatus, string> = {
+  complete: '#00D9A6',
+  partial: '#FFB74D',
+  missing: '#FF5252',
+};
+
+const SET_STATUS_STYLES: Record<SyncSetStatus, { bgcolor: string; color: string }> = {
+  done: { bgcolor: 'rgba(0,217,166,0.15)', color: '#00D9A6' },
+  empty: { bgcolor: 'rgba(255,255,255,0.08)', color: '#00D9A6' },
+  partial: { bgcolor: 'rgba(255,183,77,0.15)', color: '#FFB74D' },
+  failed: { bgcolor: 'rgba(255,82,82,0.15)', color: '#FF5252' },
+  skipped: { bgcolor: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.6)' },
+};
+
+const RUNS_PAGE_SIZE = 25;
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function JobStatusChip({ status }: { status: BackfillJobStatus['status'] }) {
+  const color = status === 'completed' ? 'success' : status === 'failed' ? 'error' : 'info';
+  const label = status === 'running' ? 'In progress' : status === 'completed' ? 'Completed' : 'Failed';
+  return <Chip label={label} size="small" color={color} sx={{ fontWeight: 600, fontSize: '0.7rem', height: 22 }} />;
+}
+
+function BackfillJobCard({ job }: { job: BackfillJobStatus }) {
+  const { done, pending, failed, total } = job.totals;
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5, flexWrap: 'wrap', gap: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+            <Typography variant="h6">
+              {job.startDate} &rarr; {job.endDate}
+            </Typography>
+            <JobStatusChip status={job.status} />
+            <Chip label={job.account} size="small" variant="outlined" sx={{ fontSize: '0.7rem', height: 22 }} />
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            Started {format(new Date(job.startedAt), 'MMM d, yyyy HH:mm')}
+            {job.completedAt && ` · Finished ${format(new Date(job.completedAt), 'MMM d, yyyy HH:mm')}`}
+          </Typography>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+          <Chip label={`${done} done`} size="small" sx={{ bgcolor: 'rgba(0,217,166,0.15)', color: '#00D9A6' }} />
+          <Chip label={`${pending} pending`} size="small" variant="outlined" />
+          <Chip label={`${failed} failed`} size="small" sx={{ bgcolor: 'rgba(255,82,82,0.15)', color: '#FF5252' }} />
+          <Chip label={`${job.rowsSynced.toLocaleString()} rows`} size="small" variant="outlined" />
+          {job.rowsRejected > 0 && (
+            <Chip label={`${job.rowsRejected.toLocaleString()} rejected`} size="small" sx={{ bgcolor: 'rgba(255,183,77,0.15)', color: '#FFB74D' }} />
+          )}
+        </Box>
+
+        <LinearProgress
+          variant="determinate"
+          value={total > 0 ? (done / total) * 100 : 0}
+          sx={{
+            height: 6,
+            borderRadius: 3,
+            mb: 2,
+            bgcolor: 'rgba(255,255,255,0.05)',
+            '& .MuiLinearProgress-bar': {
+              borderRadius: 3,
+              background: 'linear-gradient(90deg, #6366F1, #818CF8)',
+            },
+          }}
+        />
+
+        {/* One square per day, colored by the worst dimension set status */}
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+          {job.days.map((day) => (
+            <Tooltip
+              key={day.day}
+              title={
+                <Box>
+                  <Typography variant="caption" fontWeight={700} display="block">
+                    {day.day}
+                  </Typography>
+                  {day.sets.map((s) => (
+                    <Typography key={s.dimensionSet} variant="caption" display="block">
+                      {s.dimensionSet}: {s.status} ({s.rowsSynced.toLocaleString()} rows){s.error ? ` — ${s.errorClass ? `[${s.errorClass}] ` : ''}${s.error}` : ''}
+                    </Typography>
+                  ))}
+                </Box>
+              }
+            >
+              <Box
+                sx={{
+                  width: 18,
+                  height: 18,
+                  borderRadius: 0.5,
+                  bgcolor: STATUS_COLORS[day.status],
+                  cursor: 'default',
+                }}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+
+        {job.errorMessage && (
+          <Typography variant="caption" color="error.main" sx={{ mt: 1.5, display: 'block' }}>
+            {job.errorMessage}
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CoverageCalendar({ coverage }: { coverage: SyncCoverage }) {
+  // Monday-first weeks; blank cells pad the first week
+  const firstWeekday = (new Date(`${coverage.startDate}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const counts = {
+    complete: coverage.days.filter((d) => d.status === 'complete').length,
+    partial: coverage.days.filter((d) => d.status === 'partial').length,
+    missing: coverage.days.filter((d) => d.status === 'missing').length,
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6">
+            {coverage.startDate} &rarr; {coverage.endDate}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {coverage.accounts.length} account(s) · {coverage.sets.map((s) => s.label).join(', ')}
+          </Typography>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <Chip label={`${counts.complete} complete`} size="small" sx={{ bgcolor: 'rgba(0,217,166,0.15)', color: '#00D9A6' }} />
+          <Chip label={`${counts.partial} partial`} size="small" sx={{ bgcolor: 'rgba(255,183,77,0.15)', color: '#FFB74D' }} />
+          <Chip label={`${counts.missing} missing`} size="small" sx={{ bgcolor: 'rgba(255,82,82,0.15)', color: '#FF5252' }} />
+        </Box>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 28px)', gap: 0.5 }}>
+          {['M', 'T', 'W', 'T', 'F', 'S', 'S'].map((d, i) => (
+            <Typography key={i} variant="caption" color="text.secondary" align="center">
+              {d}
+            </Typography>
+          ))}
+          {Array.from({ length: firstWeekday }, (_, i) => (
+            <Box key={`pad-${i}`} />
+          ))}
+          {coverage.days.map((day) => (
+            <Tooltip
+              key={day.day}
+              title={
+                <Box>
+                  <Typography variant="caption" fontWeight={700} display="block">
+                    {day.day} · {day.rows.toLocaleString()} rows
+                  </Typography>
+                  {day.missing.length === 0 ? (
+                    <Typography variant="caption" display="block">Every account and dimension set has data</Typography>
+                  ) : (
+                    day.missing.map((m) => (
+                      <Typography key={m} variant="caption" display="block">
+                        Missing: {m}
+                      </Typography>
+                    ))
+                  )}
+                </Box>
+              }
+            >
+              <Box
+                sx={{
+                  width: 28,
+                  height: 28,
+                  borderRadius: 0.5,
+                  bgcolor: COVERAGE_COLORS[day.status],
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  cursor: 'default',
+                }}
+              >
+                <Typography variant="caption" sx={{ color: '#2e2f30', fontWeight: 600, fontSize: '0.65rem' }}>
+                  {Number(day.day.slice(8))}
+                </Typography>
+              </Box>
+            </Tooltip>
+          ))}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SyncRunsTable({
+  runs,
+  total,
+  page,
+  onPageChange,
+}: {
+  runs: SyncRun[];
+  total: number;
+  page: number;
+  onPageChange: (page: number) => void;
+}) {
+  return (
+    <Card sx={{ mb: 3 }}>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Started</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Date Range</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Rows</TableCell>
+              <TableCell align="right">Duration</TableCell>
+              <TableCell>Dimension Sets</TableCell>
+              <TableCell>Error</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {runs.map((run) => (
+              <TableRow key={run.id} hover>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{format(new Date(run.startedAt), 'MMM d, HH:mm')}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
+                    <Typography variant="body2">{run.syncType}</Typography>
+                    {run.account && <Chip label={run.account} size="small" variant="outlined" sx={{ fontSize: '0.7rem', height: 20 }} />}
+                  </Box>
+                  {run.fileName && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {run.fileName}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  {run.startDate === run.endDate ? run.startDate || '—' : `${run.startDate} → ${run.endDate}`}
+                </TableCell>
+                <TableCell>
+                  <JobStatusChip status={run.status} />
+                </TableCell>
+                <TableCell align="right">
+                  {run.rowsSynced.toLocaleString()}
+                  {run.rowsRejected > 0 && (
+                    <Typography variant="caption" display="block" sx={{ color: '#FFB74D' }}>
+                      {run.rowsRejected.toLocaleString()} rejected
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell align="right">{formatDuration(run.durationMs)}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                    {run.sets.length === 0 ? (
+                      <Typography variant="caption" color="text.secondary">—</Typography>
+                    ) : (
+                      run.sets.map((set) => (
+                        <Tooltip
+                          key={set.setKey}
+                          title={`${set.status}: ${set.daysSynced}/${set.daysTotal} days, ${set.rowsSynced.toLocaleString()} rows${set.emptyDays ? `, ${set.emptyDays} day(s) with no rows` : ''}${set.errors > 0 ? `, ${set.errors} error(s)` : ''}${set.error ? ` — ${set.error}` : ''}`}
+                        >
+                          <Chip label={set.label} size="small" sx={{ ...SET_STATUS_STYLES[set.status], fontSize: '0.7rem', height: 22 }} />
+                        </Tooltip>
+                      ))
+                    )}
+                  </Box>
+                </TableCell>
+                <TableCell sx={{ maxWidth: 280 }}>
+                  {run.errorMessage && (
+                    <Typography variant="caption" color={run.status === 'failed' ? 'error.main' : 'text.secondary'}>
+                      {run.errorClass ? `[${run.errorClass}] ` : ''}{run.errorMessage}
+                    </Typography>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page}
+        rowsPerPage={RUNS_PAGE_SIZE}
+        rowsPerPageOptions={[RUNS_PAGE_SIZE]}
+        onPageChange={(_, p) => onPageChange(p)}
+      />
+    </Card>
+  );
+}
+
+function formatDrift(value: number | null) {
+  return value === null ? '—' : `${Number(value).toFixed(2)}%`;
+}
+
+function ReconciliationCard({ report }: { report: ReconciliationReport }) {
+  const revenueDelta = Number(report.api_revenue) - Number(report.stored_revenue);
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5, flexWrap: 'wrap', gap: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+            <Typography variant="h6">
+              {report.window_start} &rarr; {report.window_end}
+            </Typography>
+            <JobStatusChip status={report.status} />
+            <Chip label={report.account} size="small" variant="outlined" sx={{ fontSize: '0.7rem', height: 22 }} />
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            Checked {format(new Date(report.started_at), 'MMM d, yyyy HH:mm')} · threshold {Number(report.threshold_pct)}%
+          </Typography>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+          <Chip label={`${report.days_checked} days checked`} size="small" variant="outlined" />
+          <Chip
+            label={`${report.days_drifted} drifted`}
+            size="small"
+            sx={report.days_drifted > 0 ? { bgcolor: 'rgba(255,82,82,0.15)', color: '#FF5252' } : { bgcolor: 'rgba(0,217,166,0.15)', color: '#00D9A6' }}
+          />
+          <Chip label={`${report.days_resynced} re-synced`} size="small" variant="outlined" />
+          <Chip
+            label={`Revenue ${revenueDelta >= 0 ? '+' : ''}$${revenueDelta.toFixed(2)}`}
+            size="small"
+            variant="outlined"
+          />
+        </Box>
+
+        {report.error_message && (
+          <Typography variant="caption" color="error.main" sx={{ mb: 1.5, display: 'block' }}>
+            {report.error_class ? `[${report.error_class}] ` : ''}{report.error_message}
+          </Typography>
+        )}
+
+        {report.diffs.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {report.status === 'completed' ? 'Stored stats match Limelight for every day in the window.' : 'No differences recorded.'}
+          </Typography>
+        ) : (
+          <TableContainer sx={{ maxHeight: 320 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Day</TableCell>
+                  <TableCell>Demand Partner</TableCell>
+                  <TableCell align="right">Stored Revenue</TableCell>
+                  <TableCell align="right">Limelight Revenue</TableCell>
+                  <TableCell align="right">Revenue Drift</TableCell>
+                  <TableCell align="right">Impressions Drift</TableCell>
+                  <TableCell>Action</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.diffs.map((diff) => (
+                  <TableRow key={diff.id} hover>
+                    <TableCell>{diff.day}</TableCell>
+                    <TableCell>{diff.demand_partner_name}</TableCell>
+                    <TableCell align="right">${Number(diff.stored_revenue).toFixed(2)}</TableCell>
+                    <TableCell align="right">${Number(diff.api_revenue).toFixed(2)}</TableCell>
+                    <TableCell align="right">{formatDrift(diff.revenue_drift_pct)}</TableCell>
+                    <TableCell align="right">{formatDrift(diff.impressions_drift_pct)}</TableCell>
+                    <TableCell>
+                      {diff.resynced ? (
+                        <Chip label={`Re-synced${diff.backfill_job_id ? ` (#${diff.backfill_job_id})` : ''}`} size="small" sx={{ bgcolor: 'rgba(99,102,241,0.15)', color: '#6366F1', height: 22 }} />
+                      ) : (
+                        <Typography variant="caption" color="text.secondary">Below threshold</Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SyncStatusPage() {
+  const queryClient = useQueryClient();
+  const [runsPage, setRunsPage] = useState(0);
+
+  const { data: runsData, isLoading: runsLoading } = useQuery<{ runs: SyncRun[]; total: number }>({
+    queryKey: ['sync-runs', runsPage],
+    queryFn: async () => {
+      const res = await fetch(`/api/limelight/sync/runs?limit=${RUNS_PAGE_SIZE}&offset=${runsPage * RUNS_PAGE_SIZE}`);
+      if (!res.ok) throw new Error('Failed to fetch sync runs');
+      return res.json();
+    },
+    refetchInterval: 30_000,
+  });
+
+  const { data: coverage, isLoading: coverageLoading, error: coverageError } = useQuery<SyncCoverage>({
+    queryKey: ['sync-coverage'],
+    queryFn: async () => {
+      const res = await fetch('/api/limelight/sync/coverage');
+      if (!res.ok) throw new Error('Failed to fetch sync coverage');
+      return res.json();
+    },
+  });
+
+  const { data, isLoading, error } = useQuery<{ jobs: BackfillJobStatus[] }>({
+    queryKey: ['backfill-jobs'],
+    queryFn: async () => {
+      const res = await fetch('/api/limelight/backfill/jobs');
+      if (!res.ok) throw new Error('Failed to fetch backfill jobs');
+      return res.json();
+    },
+    refetchInterval: 30_000,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/limelight/backfill', { method: 'POST' });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to resume backfill');
+      return body;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['backfill-jobs'] });
+    },
+  });
+
+  const { data: reconcileData, isLoading: reconcileLoading } = useQuery<{ reports: ReconciliationReport[] }>({
+    queryKey: ['reconciliation-reports'],
+    queryFn: async () => {
+      const res = await fetch('/api/limelight/reconcile/reports');
+      if (!res.ok) throw new Error('Failed to fetch reconciliation reports');
+      return res.json();
+    },
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/limelight/reconcile', { method: 'POST' });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Reconciliation failed');
+      return body;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['backfill-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['sync-runs'] });
+    },
+  });
+
+  const runs = runsData?.runs || [];
+  const jobs = data?.jobs || [];
+  const reports = reconcileData?.reports || [];
+  const hasRunning = jobs.some((j) => j.status === 'running');
+
+  return (
+    <Box>
+      <PageHeader title="Sync Status" subtitle="Sync runs, stored-data coverage, backfill progress and reconciliation against Limelight restatements">
+        <Button
+          variant="outlined"
+          startIcon={reconcileMutation.isPending ? <CircularProgress size={16} color="inherit" /> : <CompareArrowsIcon />}
+          onClick={() => reconcileMutation.mutate()}
+          disabled={reconcileMutation.isPending}
+        >
+          {reconcileMutation.isPending ? 'Reconciling...' : 'Reconcile Now'}
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={resumeMutation.isPending ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon />}
+          onClick={() => resumeMutation.mutate()}
+          disabled={!hasRunning || resumeMutation.isPending}
+        >
+          {resumeMutation.isPending ? 'Resuming...' : 'Resume Backfill'}
+        </Button>
+      </PageHeader>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to load backfill jobs. Make sure the sync_backfill_progress table exists in Supabase.
+        </Alert>
+      )}
+
+      {resumeMutation.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {resumeMutation.error.message}
+        </Alert>
+      )}
+
+      {reconcileMutation.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {reconcileMutation.error.message}
+        </Alert>
+      )}
+
+      <Typography variant="h6" sx={{ mb: 2 }}>
+        Coverage
+      </Typography>
+
+      {coverageError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to load coverage. Make sure migration 018_sync_monitoring.sql has been applied.
+        </Alert>
+      )}
+
+      {coverageLoading ? (
+        <Skeleton variant="rounded" height={220} sx={{ mb: 3 }} />
+      ) : coverage ? (
+        <CoverageCalendar coverage={coverage} />
+      ) : null}
+
+      <Typography variant="h6" sx={{ mb: 2 }}>
+        Sync Runs
+      </Typography>
+
+      {runsLoading ? (
+        <Skeleton variant="rounded" height={240} sx={{ mb: 3 }} />
+      ) : runs.length === 0 ? (
+        <EmptyState
+          icon={<SyncIcon sx={{ fontSize: 56 }} />}
+          title="No sync runs yet"
+          subtitle="Runs appear here once the daily sync, a backfill or an upload has started."
+        />
+      ) : (
+        <SyncRunsTable runs={runs} total={runsData?.total || 0} page={runsPage} onPageChange={setRunsPage} />
+      )}
+
+      <Typography variant="h6" sx={{ mt: 4, mb: 2 }}>
+        Backfill Jobs
+      </Typography>
+
+      {isLoading ? (
+        <Skeleton variant="rounded" height={200} />
+      ) : jobs.length === 0 ? (
+        <EmptyState
+          icon={<HistoryIcon sx={{ fontSize: 56 }} />}
+          title="No backfill jobs yet"
+          subtitle='Use "Full Sync" or sync a multi-day range to start a resumable backfill.'
+        />
+      ) : (
+        jobs.map((job) => <BackfillJobCard key={job.id} job={job} />)
+      )}
+
+      <Typography variant="h6" sx={{ mt: 4, mb: 2 }}>
+        Reconciliation
+      </Typography>
+
+      {reconcileLoading ? (
+        <Skeleton variant="rounded" height={160} />
+      ) : reports.length === 0 ? (
+        <EmptyState
+          icon={<CompareArrowsIcon sx={{ fontSize: 56 }} />}
+          title="No reconciliation runs yet"
+          subtitle="The nightly job compares recent days with Limelight and re-syncs restated days."
+        />
+      ) : (
+        reports.map((report) => <ReconciliationCard key={report.id} report={report} />)
+      )}
+    </Box>
+  );
+}
@@ -25,10 +25,15 @@ import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
 import { useQuery } from '@tanstack/react-query';
 import MetricCard from '@/components/ui/MetricCard';
 import PageHeader from '@/components/ui/PageHeader';
+import { useSourceScope } from '@/components/layout/SourceScopeSelect';
 import EmptyState from '@/components/ui/EmptyState';
 import TrendChart from '@/components/ui/TrendChart';
+import DeltaChip from '@/components/ui/DeltaChip';
+import CompareSelect from '@/components/ui/CompareSelect';
+import { COMPARE_LABELS, compareParam } from '@/lib/cache/compare';
+import type { CacheLineage, CompareMode, WithDeltas } from '@/types';
 
-interface PartnerTimeout {
+interface PartnerTimeout extends WithDeltas {
   name: string;
   totalRequests: number;
   timeouts: number;
@@ -40,7 +45,7 @@ interface PartnerTimeout {
   revenue: number;
 }
 
-interface DailyTrend {
+interface DailyTrend extends WithDeltas {
   date: string;
   totalTimeouts: number;
   totalRequests: number;
@@ -49,7 +54,7 @@ interface DailyTrend {
 }
 
 interface TimeoutData {
-  summary: {
+  summary: WithDeltas & {
     totalTimeouts: number;
     avgTimeoutRate: number;
     estimatedRevenueLoss: number;
@@ -59,6 +64,7 @@ interface TimeoutData {
   partners: PartnerTimeout[];
   dailyTrend: DailyTrend[];
   period: number;
+  lineage?: CacheLineage;
 }
 
 function TimeoutRateChip({ rate }: { rate: number }) {
@@ -84,11 +90,13 @@ function TimeoutRateChip({ rate }: { rate: number }) {
 
 export default function TimeoutPage() {
   const [period, setPeriod] = useState<number>(7);
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  const source = useSourceScope();
 
   const { data, isLoading } = useQuery<TimeoutData>({
-    queryKey: ['timeouts', period],
+    queryKey: ['timeouts', period, source, compare],
     queryFn: async () => {
-      const res = await fetch(`/api/stats/timeouts?period=${period}`);
+      const res = await fetch(`/api/stats/timeouts?period=${period}&source=${source}${compareParam(compare)}`);
       if (!res.ok) throw new Error('Failed to fetch timeout data');
       return res.json();
     },
@@ -135,6 +143,8 @@ export default function TimeoutPage() {
     dailyTrend: [],
     period: 7,
   };
+  const changeLabel = compare ? COMPARE_LABELS[compare] : undefined;
+  const summaryDeltas = d.summary.deltas || {};
 
   return (
     <Box>
@@ -142,7 +152,9 @@ export default function TimeoutPage() {
       <PageHeader
         title="Timeout Analysis"
         subtitle={`Analyze bid response timeouts and errors across demand partners \u2014 Last ${d.period} days`}
+        lineage={data?.lineage}
       >
+        <CompareSelect value={compare} onChange={setCompare} />
         <ToggleButtonGroup
           value={period}
           exclusive
@@ -169,6 +181,9 @@ export default function TimeoutPage() {
           <MetricCard
             title="Total Timeouts"
             value={d.summary.totalTimeouts}
+            change={summaryDeltas.totalTimeouts ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<TimerOffIcon />}
             format="number"
           />
@@ -177,6 +192,9 @@ export default function TimeoutPage() {
           <MetricCard
             title="Avg Timeout Rate"
             value={d.summary.avgTimeoutRate}
+            change={summaryDeltas.avgTimeoutRate ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<PercentIcon />}
             format="percent"
           />
@@ -185,6 +203,9 @@ export default function TimeoutPage() {
           <MetricCard
             title="Est. Revenue Loss"
             value={d.summary.estimatedRevenueLoss}
+            change={summaryDeltas.estimatedRevenueLoss ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<AttachMoneyIcon />}
             format="currency"
           />
@@ -193,6 +214,9 @@ export default function TimeoutPage() {
           <MetricCard
             title="Total Errors"
             value={d.summary.totalErrors}
+            change={summaryDeltas.totalErrors ?? undefined}
+            changeLabel={changeLabel}
+            invertChange
             icon={<ErrorOutlineIcon />}
             format="number"
           />
@@ -246,6 +270,7 @@ export default function TimeoutPage() {
                       </TableCell>
                       <TableCell align="right">
                         <TimeoutRateChip rate={p.timeoutRate} />
+                        <DeltaChip value={p.deltas?.timeoutRate} label={changeLabel} invert />
                       </TableCell>
                       <TableCell align="right">
                         {p.errors.toLocaleString()}
@@ -304,11 +329,13 @@ export default function TimeoutPage() {
                     }),
                     timeouts: day.totalTimeouts,
                     errors: day.totalErrors,
+                    prevTimeouts: day.previous?.totalTimeouts,
                   }))}
                   xKey="date"
                   yKeys={[
                     { key: 'timeouts', color: '#FF5252', name: 'Timeouts' },
                     { key: 'errors', color: '#FFB74D', name: 'Errors' },
+                    ...(compare ? [{ key: 'prevTimeouts', color: '#A1A1AA', name: `Timeouts ${changeLabel}`, dashed: true }] : []),
                   ]}
                   height={300}
                   formatTooltip={(v) => v >= 1000 ? `${(v/1000).toFixed(1)}K` : v.toLocaleString()}
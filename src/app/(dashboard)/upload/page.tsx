@@ -0,0 +1,419 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Button,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Grid,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import SaveIcon from '@mui/icons-material/Save';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { ColumnMapping, StatsSourceInfo, SyncLog, UploadMappingTemplate, UploadPreview } from '@/types';
+import { UPLOAD_FIELDS } from '@/lib/upload/fields';
+import PageHeader from '@/components/ui/PageHeader';
+
+const DEFAULT_SOURCE = 'upload';
+
+function buildForm(file: File, source: string, mapping: ColumnMapping | null) {
+  const form = new FormData();
+  form.append('file', file);
+  form.append('source', source);
+  if (mapping) form.append('mapping', JSON.stringify(mapping));
+  return form;
+}
+
+export default function UploadPage() {
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState(DEFAULT_SOURCE);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<UploadPreview | null>(null);
+  // Mapping was edited since the last validation
+  const [dirty, setDirty] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+
+  const { data: sourcesData } = useQuery<{ sources: StatsSourceInfo[] }>({
+    queryKey: ['stats-sources'],
+    queryFn: async () => {
+      const res = await fetch('/api/sources');
+      if (!res.ok) throw new Error('Failed to fetch sources');
+      return res.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const { data: templatesData } = useQuery<{ templates: UploadMappingTemplate[] }>({
+    queryKey: ['upload-templates'],
+    queryFn: async () => {
+      const res = await fetch('/api/upload/templates');
+      if (!res.ok) throw new Error('Failed to fetch templates');
+      return res.json();
+    },
+  });
+
+  const { data: historyData } = useQuery<{ uploads: SyncLog[] }>({
+    queryKey: ['upload-history'],
+    queryFn: async () => {
+      const res = await fetch('/api/upload/history');
+      if (!res.ok) throw new Error('Failed to fetch upload history');
+      return res.json();
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (vars: { file: File; source: string; mapping: ColumnMapping | null }) => {
+      const res = await fetch('/api/upload/preview', { method: 'POST', body: buildForm(vars.file, vars.source, vars.mapping) });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to read file');
+      return body as UploadPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+      setDirty(false);
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error('Choose a file first');
+      const res = await fetch('/api/upload/commit', { method: 'POST', body: buildForm(file, source, mapping) });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Import failed');
+      return body as { rowsSynced: number; invalidRows: number; batchErrors: number };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['upload-history'] });
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/upload/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: templateName, source, mapping }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to save template');
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['upload-templates'] });
+    },
+  });
+
+  const sources = sourcesData?.sources || [];
+  const templates = templatesData?.templates || [];
+  const uploads = historyData?.uploads || [];
+
+  const handleFile = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    commitMutation.reset();
+    if (selected) previewMutation.mutate({ file: selected, source, mapping: null });
+  };
+
+  const applyTemplate = (id: number) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setSource(template.source);
+    setMapping(template.mapping);
+    setTemplateName(template.name);
+    if (file) previewMutation.mutate({ file, source: template.source, mapping: template.mapping });
+  };
+
+  const updateField = (field: keyof ColumnMapping, header: string) => {
+    setMapping((m) => ({ ...m, [field]: header || undefined }));
+    setDirty(true);
+  };
+
+  const canImport = !!file && !!preview && !dirty && preview.validRows > 0 && !commitMutation.isPending;
+
+  return (
+    <Box>
+      <PageHeader title="Report Upload" subtitle="Import Limelight or partner CSV/XLSX exports into the stats table" />
+
+      {/* Step 1: file, source, template */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <Button variant="contained" component="label" startIcon={<UploadFileIcon />}>
+              {file ? 'Change File' : 'Choose File'}
+              <input
+                hidden
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => handleFile(e.target.files?.[0] || null)}
+              />
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+              {file ? `${file.name} (${(file.size / 1024).toFixed(0)} KB)` : 'CSV or XLSX, first row must be the header'}
+            </Typography>
+
+            <FormControl size="small" sx={{ minWidth: 180, ml: 'auto' }}>
+              <InputLabel sx={{ fontSize: '0.8rem' }}>Source</InputLabel>
+              <Select value={source} label="Source" onChange={(e) => setSource(e.target.value)} sx={{ fontSize: '0.8rem' }}>
+                {sources.map((s) => (
+                  <MenuItem key={s.id} value={s.id}>{s.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel sx={{ fontSize: '0.8rem' }}>Mapping Template</InputLabel>
+              <Select
+                value=""
+                label="Mapping Template"
+                onChange={(e) => applyTemplate(Number(e.target.value))}
+                sx={{ fontSize: '0.8rem' }}
+                disabled={templates.length === 0}
+              >
+                {templates.map((t) => (
+                  <MenuItem key={t.id} value={t.id}>{t.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          {previewMutation.isPending && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+              <CircularProgress size={16} />
+              <Typography variant="body2" color="text.secondary">Reading file...</Typography>
+            </Box>
+          )}
+          {previewMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>{previewMutation.error.message}</Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          {/* Step 2: column mapping */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+                <Typography variant="h6">Column Mapping</Typography>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <TextField
+                    size="small"
+                    placeholder="Template name"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    sx={{ width: 200 }}
+                  />
+                  <Button
+                    variant="outlined"
+                    startIcon={<SaveIcon />}
+                    onClick={() => saveTemplateMutation.mutate()}
+                    disabled={!templateName.trim() || saveTemplateMutation.isPending}
+                  >
+                    Save Template
+                  </Button>
+                  <Button
+                    variant="contained"
+                    startIcon={<FactCheckIcon />}
+                    onClick={() => file && previewMutation.mutate({ file, source, mapping })}
+                    disabled={!file || previewMutation.isPending}
+                  >
+                    Validate
+                  </Button>
+                </Box>
+              </Box>
+
+              {saveTemplateMutation.error && (
+                <Alert severity="error" sx={{ mb: 2 }}>{saveTemplateMutation.error.message}</Alert>
+              )}
+              {saveTemplateMutation.isSuccess && (
+                <Alert severity="success" sx={{ mb: 2 }}>Template saved</Alert>
+              )}
+
+              <Grid container spacing={2}>
+                {UPLOAD_FIELDS.map((spec) => (
+                  <Grid key={spec.field} size={{ xs: 12, sm: 6, md: 4, lg: 3 }}>
+                    <FormControl size="small" fullWidth>
+                      <InputLabel sx={{ fontSize: '0.8rem' }}>
+                        {spec.label}{spec.required ? ' *' : ''}
+                      </InputLabel>
+                      <Select
+                        value={mapping[spec.field] || ''}
+                        label={`${spec.label}${spec.required ? ' *' : ''}`}
+                        onChange={(e) => updateField(spec.field, e.target.value)}
+                        sx={{ fontSize: '0.8rem' }}
+                      >
+                        <MenuItem value=""><em>Not mapped</em></MenuItem>
+                        {preview.headers.map((h) => (
+                          <MenuItem key={h} value={h}>{h}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                ))}
+              </Grid>
+            </CardContent>
+          </Card>
+
+          {/* Step 3: validation and import */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5, flexWrap: 'wrap', gap: 1 }}>
+                <Typography variant="h6">Validation</Typography>
+                <Button
+                  variant="contained"
+                  startIcon={commitMutation.isPending ? <CircularProgress size={16} color="inherit" /> : <CloudUploadIcon />}
+                  onClick={() => commitMutation.mutate()}
+                  disabled={!canImport}
+                >
+                  {commitMutation.isPending ? 'Importing...' : `Import ${preview.validRows.toLocaleString()} Rows`}
+                </Button>
+              </Box>
+
+              <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+                <Chip label={`${preview.totalRows.toLocaleString()} rows in file`} size="small" variant="outlined" />
+                <Chip label={`${preview.validRows.toLocaleString()} valid`} size="small" sx={{ bgcolor: 'rgba(0,217,166,0.15)', color: '#00D9A6' }} />
+                <Chip label={`${preview.invalidRows.toLocaleString()} invalid`} size="small" sx={{ bgcolor: 'rgba(255,82,82,0.15)', color: '#FF5252' }} />
+                {preview.mergedDuplicates > 0 && (
+                  <Chip label={`${preview.mergedDuplicates.toLocaleString()} duplicates merged`} size="small" variant="outlined" />
+                )}
+                {preview.dateRange && (
+                  <Chip label={`${preview.dateRange.startDate} → ${preview.dateRange.endDate}`} size="small" sx={{ bgcolor: 'rgba(99,102,241,0.15)', color: '#6366F1' }} />
+                )}
+              </Box>
+
+              {dirty && (
+                <Alert severity="info" sx={{ mb: 2 }}>Mapping changed. Validate again before importing.</Alert>
+              )}
+              {commitMutation.error && (
+                <Alert severity="error" sx={{ mb: 2 }}>{commitMutation.error.message}</Alert>
+              )}
+              {commitMutation.data && (
+                <Alert severity={commitMutation.data.batchErrors > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+                  Imported {commitMutation.data.rowsSynced.toLocaleString()} rows
+                  {commitMutation.data.invalidRows > 0 && `, skipped ${commitMutation.data.invalidRows} invalid`}
+                  {commitMutation.data.batchErrors > 0 && `, ${commitMutation.data.batchErrors} batch(es) failed`}.
+                  Dashboards update on the next cache refresh.
+                </Alert>
+              )}
+
+              {preview.errors.length > 0 && (
+                <TableContainer sx={{ maxHeight: 240, mb: 2 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Row</TableCell>
+                        <TableCell>Field</TableCell>
+                        <TableCell>Problem</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {preview.errors.map((err, i) => (
+                        <TableRow key={i}>
+                          <TableCell>{err.row || '—'}</TableCell>
+                          <TableCell>{err.field || '—'}</TableCell>
+                          <TableCell sx={{ color: '#FF5252' }}>{err.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+
+              {preview.sample.length > 0 && (
+                <>
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>Preview (first {preview.sample.length} rows)</Typography>
+                  <TableContainer sx={{ maxHeight: 320 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          {Object.keys(preview.sample[0]).map((key) => (
+                            <TableCell key={key}>{key}</TableCell>
+                          ))}
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {preview.sample.map((row, i) => (
+                          <TableRow key={i} hover>
+                            {Object.keys(preview.sample[0]).map((key) => (
+                              <TableCell key={key}>{String(row[key] ?? '')}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Import history */}
+      <Card>
+        <CardContent>
+          <Typography variant="h6" sx={{ mb: 1.5 }}>Recent Imports</Typography>
+          {uploads.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No files imported yet.</Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>File</TableCell>
+                    <TableCell>Dates</TableCell>
+                    <TableCell align="right">Rows</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Imported</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {uploads.map((u) => (
+                    <TableRow key={u.id} hover>
+                      <TableCell>{u.file_name || '—'}</TableCell>
+                      <TableCell>{u.start_date} → {u.end_date}</TableCell>
+                      <TableCell align="right">{u.rows_synced.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={u.status}
+                          size="small"
+                          color={u.status === 'completed' ? 'success' : u.status === 'failed' ? 'error' : 'info'}
+                          sx={{ height: 22, fontSize: '0.7rem' }}
+                        />
+                        {u.error_message && (
+                          <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>{u.error_message}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(new Date(u.started_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
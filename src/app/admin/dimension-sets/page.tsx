@@ -0,0 +1,333 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  IconButton,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ViewModuleIcon from '@mui/icons-material/ViewModule';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { DimensionSet } from '@/types';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+
+interface SetForm {
+  label: string;
+  dimensions: string[];
+  sort_order: string;
+  backfill: boolean;
+}
+
+const EMPTY_FORM: SetForm = { label: '', dimensions: [], sort_order: '100', backfill: true };
+
+export default function DimensionSetsPage() {
+  const queryClient = useQueryClient();
+  // null: dialog closed; 'new': adding; otherwise the set being edited
+  const [editing, setEditing] = useState<DimensionSet | 'new' | null>(null);
+  const [form, setForm] = useState<SetForm>(EMPTY_FORM);
+  const [message, setMessage] = useState('');
+
+  const { data, isLoading, error } = useQuery<{ sets: DimensionSet[]; dimensions: string[] }>({
+    queryKey: ['admin-dimension-sets'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/dimension-sets');
+      if (!res.ok) throw new Error('Failed to fetch dimension sets');
+      return res.json();
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['admin-dimension-sets'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isNew = editing === 'new';
+      const payload = {
+        label: form.label,
+        sort_order: Number(form.sort_order),
+        ...(isNew
+          ? { dimensions: form.dimensions, backfill: form.backfill }
+          : { id: (editing as DimensionSet).id }),
+      };
+      const res = await fetch('/api/admin/dimension-sets', {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to save');
+      return body as { set: DimensionSet; backfillJobs?: number[] };
+    },
+    onSuccess: (result) => {
+      const jobs = result.backfillJobs?.length || 0;
+      setMessage(jobs > 0
+        ? `Saved ${result.set.label}. Backfill queued for ${jobs} account${jobs > 1 ? 's' : ''}.`
+        : `Saved ${result.set.label}`);
+      setEditing(null);
+      invalidate();
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (set: DimensionSet) => {
+      const res = await fetch('/api/admin/dimension-sets', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: set.id, is_active: !set.is_active }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to update');
+      return body;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (set: DimensionSet) => {
+      const res = await fetch(`/api/admin/dimension-sets?id=${set.id}`, { method: 'DELETE' });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to delete');
+      return set;
+    },
+    onSuccess: (set) => {
+      setMessage(`Removed ${set.label}. Its table ${set.table_name} is kept.`);
+      invalidate();
+    },
+  });
+
+  const openEditor = (set: DimensionSet | 'new') => {
+    setEditing(set);
+    setForm(set === 'new'
+      ? EMPTY_FORM
+      : { ...EMPTY_FORM, label: set.label, dimensions: set.dimensions, sort_order: String(set.sort_order) });
+    saveMutation.reset();
+  };
+
+  const toggleDimension = (dimension: string) => {
+    setForm({
+      ...form,
+      dimensions: form.dimensions.includes(dimension)
+        ? form.dimensions.filter((d) => d !== dimension)
+        : [...form.dimensions, dimension],
+    });
+  };
+
+  const handleDelete = (set: DimensionSet) => {
+    if (window.confirm(`Remove ${set.label}? It will no longer be synced; ${set.table_name} is kept.`)) {
+      deleteMutation.mutate(set);
+    }
+  };
+
+  const sets = data?.sets || [];
+  const isNew = editing === 'new';
+  const mutationError = saveMutation.error || toggleMutation.error || deleteMutation.error;
+  const canSave = !!form.label.trim() && Number.isInteger(Number(form.sort_order))
+    && (!isNew || form.dimensions.length > 0);
+
+  return (
+    <Box>
+      <PageHeader
+        title="Dimension Sets"
+        subtitle="Breakdowns synced from Limelight every night. Each set is stored in its own table."
+      >
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openEditor('new')}>
+          Add Set
+        </Button>
+      </PageHeader>
+
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage('')}>
+          {message}
+        </Alert>
+      )}
+      {(error || (mutationError && !editing)) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {((error || mutationError) as Error).message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : sets.length === 0 ? (
+        <EmptyState
+          icon={<ViewModuleIcon sx={{ fontSize: 56 }} />}
+          title="No dimension sets"
+          subtitle="Run migration 016 to register the built-in sets."
+        />
+      ) : (
+        <Card>
+          <CardContent sx={{ p: 0 }}>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Set</TableCell>
+                    <TableCell>Dimensions</TableCell>
+                    <TableCell>Table</TableCell>
+                    <TableCell align="right">Order</TableCell>
+                    <TableCell>Last Synced</TableCell>
+                    <TableCell>Active</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sets.map((s) => (
+                    <TableRow key={s.id} hover>
+                      <TableCell sx={{ fontWeight: 600 }}>
+                        {s.label}
+                        {s.is_core && (
+                          <Chip label="Core" size="small" sx={{ ml: 1, bgcolor: '#6366F122', color: '#6366F1' }} />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                          {s.dimensions.map((d) => (
+                            <Chip key={d} label={d} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+                          ))}
+                        </Box>
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{s.table_name}</TableCell>
+                      <TableCell align="right">{s.sort_order}</TableCell>
+                      <TableCell>{s.last_synced_at ? format(new Date(s.last_synced_at), 'MMM d, yyyy HH:mm') : 'Never'}</TableCell>
+                      <TableCell>
+                        <Switch
+                          size="small"
+                          checked={s.is_active}
+                          onChange={() => toggleMutation.mutate(s)}
+                          disabled={s.is_core || toggleMutation.isPending}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openEditor(s)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={s.is_core ? 'The core set cannot be removed' : 'Remove'}>
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleDelete(s)}
+                              disabled={s.is_core || deleteMutation.isPending}
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{isNew ? 'Add Dimension Set' : `Edit ${form.label}`}</DialogTitle>
+        <DialogContent>
+          {saveMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {saveMutation.error.message}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="e.g. Country x OS"
+                fullWidth
+              />
+              <TextField
+                label="Order"
+                type="number"
+                value={form.sort_order}
+                onChange={(e) => setForm({ ...form, sort_order: e.target.value })}
+                helperText="Sync order"
+                sx={{ width: 140 }}
+              />
+            </Box>
+            <Box>
+              <Typography variant="body2" sx={{ fontWeight: 600, mb: 0.5 }}>
+                Dimensions
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {isNew
+                  ? 'Every set is broken down by DATE. Dimensions cannot be changed once the set is created.'
+                  : 'Dimensions cannot be changed; add a new set instead.'}
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 2 }}>
+                {(data?.dimensions || []).map((d) => (
+                  <FormControlLabel
+                    key={d}
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={form.dimensions.includes(d)}
+                        onChange={() => toggleDimension(d)}
+                        disabled={!isNew}
+                      />
+                    }
+                    label={d}
+                  />
+                ))}
+              </Box>
+            </Box>
+            {isNew && (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={form.backfill}
+                    onChange={(e) => setForm({ ...form, backfill: e.target.checked })}
+                  />
+                }
+                label="Backfill the retention window for every account"
+              />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <CircularProgress size={18} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Tab,
+  Tabs,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import BusinessIcon from '@mui/icons-material/Business';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { EntityKind, EntityMetadata, EntityWithAliases } from '@/types';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+
+const KIND_LABELS: Record<EntityKind, string> = {
+  demand_partner: 'Demand Partners',
+  publisher: 'Publishers',
+};
+
+type MetadataForm = { [K in keyof EntityMetadata]: string };
+
+function toForm(entity: EntityWithAliases): MetadataForm {
+  return {
+    contact_name: entity.contact_name || '',
+    contact_email: entity.contact_email || '',
+    rev_share_pct: entity.rev_share_pct === null ? '' : String(entity.rev_share_pct),
+    tier: entity.tier || '',
+    notes: entity.notes || '',
+  };
+}
+
+export default function EntitiesPage() {
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<EntityKind>('demand_partner');
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<EntityWithAliases | null>(null);
+  const [form, setForm] = useState<MetadataForm | null>(null);
+  const [aliasName, setAliasName] = useState('');
+  const [message, setMessage] = useState('');
+
+  const { data, isLoading, error } = useQuery<{ entities: EntityWithAliases[] }>({
+    queryKey: ['admin-entities', kind],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/entities?kind=${kind}`);
+      if (!res.ok) throw new Error('Failed to fetch entities');
+      return res.json();
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/admin/entities', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, account: editing?.account, id: editing?.id, ...form }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to save');
+      return body;
+    },
+    onSuccess: () => {
+      setMessage(`Saved ${editing?.name}`);
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-entities', kind] });
+    },
+  });
+
+  const aliasMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/admin/entities/aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, account: editing?.account, id: editing?.id, name: aliasName }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to add alias');
+      return body as { rowsUpdated: number };
+    },
+    onSuccess: (result) => {
+      setMessage(`Merged "${aliasName}" into ${editing?.name} (${result.rowsUpdated.toLocaleString()} stored rows updated)`);
+      setAliasName('');
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-entities', kind] });
+    },
+  });
+
+  const openEditor = (entity: EntityWithAliases) => {
+    setEditing(entity);
+    setForm(toForm(entity));
+    setAliasName('');
+    saveMutation.reset();
+    aliasMutation.reset();
+  };
+
+  const term = search.trim().toLowerCase();
+  const multiAccount = new Set((data?.entities || []).map((e) => e.account)).size > 1;
+  const entities = (data?.entities || []).filter((e) =>
+    !term ||
+    e.name.toLowerCase().includes(term) ||
+    String(e.id).includes(term) ||
+    e.aliases.some((a) => a.name.toLowerCase().includes(term))
+  );
+
+  return (
+    <Box>
+      <PageHeader
+        title="Partners & Publishers"
+        subtitle="Registry keyed by Limelight IDs. Names follow Limelight; earlier names are kept as aliases."
+      >
+        <TextField
+          size="small"
+          placeholder="Search name, alias or ID"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          sx={{ minWidth: 240 }}
+        />
+      </PageHeader>
+
+      <Tabs value={kind} onChange={(_, v) => setKind(v)} sx={{ mb: 2 }}>
+        {(Object.keys(KIND_LABELS) as EntityKind[]).map((k) => (
+          <Tab key={k} value={k} label={KIND_LABELS[k]} />
+        ))}
+      </Tabs>
+
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage('')}>
+          {message}
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {(error as Error).message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : entities.length === 0 ? (
+        <EmptyState
+          icon={<BusinessIcon sx={{ fontSize: 56 }} />}
+          title={term ? 'No matches' : `No ${KIND_LABELS[kind].toLowerCase()} yet`}
+          subtitle={term ? undefined : 'Entries are created by the nightly sync from Limelight IDs.'}
+        />
+      ) : (
+        <Card>
+          <CardContent sx={{ p: 0 }}>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    {multiAccount && <TableCell>Account</TableCell>}
+                    <TableCell>ID</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Previous Names</TableCell>
+                    <TableCell>Tier</TableCell>
+                    <TableCell align="right">Rev Share</TableCell>
+                    <TableCell>Contact</TableCell>
+                    <TableCell>Last Seen</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entities.map((e) => (
+                    <TableRow key={`${e.account}:${e.id}`} hover>
+                      {multiAccount && <TableCell>{e.account}</TableCell>}
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{e.id}</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>{e.name}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                          {e.aliases.filter((a) => a.name !== e.name).map((a) => (
+                            <Tooltip key={a.name} title={a.last_seen ? `Seen ${a.first_seen} to ${a.last_seen}` : 'Added by hand'}>
+                              <Chip label={a.name} size="small" variant="outlined" />
+                            </Tooltip>
+                          ))}
+                        </Box>
+                      </TableCell>
+                      <TableCell>{e.tier ? <Chip label={e.tier} size="small" /> : '-'}</TableCell>
+                      <TableCell align="right">{e.rev_share_pct !== null ? `${Number(e.rev_share_pct)}%` : '-'}</TableCell>
+                      <TableCell>
+                        {e.contact_name || e.contact_email ? (
+                          <>
+                            <Typography variant="body2">{e.contact_name || ''}</Typography>
+                            <Typography variant="caption" color="text.secondary">{e.contact_email || ''}</Typography>
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell>{e.last_seen || '-'}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openEditor(e)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editing?.name}
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+            Limelight ID {editing?.id} · account {editing?.account}
+          </Typography>
+        </DialogTitle>
+        <DialogContent>
+          {(saveMutation.error || aliasMutation.error) && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {((saveMutation.error || aliasMutation.error) as Error).message}
+            </Alert>
+          )}
+          {form && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TextField
+                  label="Contact Name"
+                  value={form.contact_name}
+                  onChange={(e) => setForm({ ...form, contact_name: e.target.value })}
+                  fullWidth
+                />
+                <TextField
+                  label="Contact Email"
+                  type="email"
+                  value={form.contact_email}
+                  onChange={(e) => setForm({ ...form, contact_email: e.target.value })}
+                  fullWidth
+                />
+              </Box>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TextField
+                  label="Rev Share %"
+                  type="number"
+                  value={form.rev_share_pct}
+                  onChange={(e) => setForm({ ...form, rev_share_pct: e.target.value })}
+                  slotProps={{ htmlInput: { min: 0, max: 100, step: 0.5 } }}
+                  fullWidth
+                />
+                <TextField
+                  label="Tier"
+                  value={form.tier}
+                  onChange={(e) => setForm({ ...form, tier: e.target.value })}
+                  placeholder="e.g. Strategic, Core, Test"
+                  fullWidth
+                />
+              </Box>
+              <TextField
+                label="Notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                multiline
+                minRows={3}
+                fullWidth
+              />
+
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>Merge a name</Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                  Stored rows under this name (e.g. from before a rename) are moved to {editing?.name}.
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    size="small"
+                    placeholder="Previous name"
+                    value={aliasName}
+                    onChange={(e) => setAliasName(e.target.value)}
+                    fullWidth
+                  />
+                  <Button
+                    variant="outlined"
+                    onClick={() => aliasMutation.mutate()}
+                    disabled={!aliasName.trim() || aliasMutation.isPending}
+                  >
+                    {aliasMutation.isPending ? <CircularProgress size={18} /> : 'Merge'}
+                  </Button>
+                </Box>
+              </Box>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <CircularProgress size={18} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
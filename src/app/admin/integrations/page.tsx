@@ -0,0 +1,294 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import VpnKeyIcon from '@mui/icons-material/VpnKey';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { LimelightAccountSummary } from '@/types';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+
+interface AccountForm {
+  slug: string;
+  label: string;
+  api_url: string;
+  client_key: string;
+  secret_key: string;
+}
+
+const EMPTY_FORM: AccountForm = { slug: '', label: '', api_url: '', client_key: '', secret_key: '' };
+
+export default function IntegrationsPage() {
+  const queryClient = useQueryClient();
+  // null: dialog closed; 'new': adding; otherwise the account being edited
+  const [editing, setEditing] = useState<LimelightAccountSummary | 'new' | null>(null);
+  const [form, setForm] = useState<AccountForm>(EMPTY_FORM);
+  const [message, setMessage] = useState('');
+
+  const { data, isLoading, error } = useQuery<{ accounts: LimelightAccountSummary[]; envAccountConfigured: boolean }>({
+    queryKey: ['admin-integrations'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/integrations');
+      if (!res.ok) throw new Error('Failed to fetch accounts');
+      return res.json();
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-integrations'] });
+    queryClient.invalidateQueries({ queryKey: ['stats-sources'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isNew = editing === 'new';
+      const res = await fetch('/api/admin/integrations', {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isNew ? form : { id: (editing as LimelightAccountSummary).id, ...form, slug: undefined }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to save');
+      return body as { account: LimelightAccountSummary };
+    },
+    onSuccess: (result) => {
+      setMessage(`Saved ${result.account.label}`);
+      setEditing(null);
+      invalidate();
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (account: LimelightAccountSummary) => {
+      const res = await fetch('/api/admin/integrations', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: account.id, is_active: !account.is_active }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to update');
+      return body;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (account: LimelightAccountSummary) => {
+      const res = await fetch(`/api/admin/integrations?id=${account.id}`, { method: 'DELETE' });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to delete');
+      return account;
+    },
+    onSuccess: (account) => {
+      setMessage(`Removed ${account.label}. Data already synced from it is kept.`);
+      invalidate();
+    },
+  });
+
+  const openEditor = (account: LimelightAccountSummary | 'new') => {
+    setEditing(account);
+    setForm(account === 'new'
+      ? EMPTY_FORM
+      : { ...EMPTY_FORM, slug: account.slug, label: account.label, api_url: account.api_url || '' });
+    saveMutation.reset();
+  };
+
+  const handleDelete = (account: LimelightAccountSummary) => {
+    if (window.confirm(`Remove ${account.label}? It will no longer be synced.`)) deleteMutation.mutate(account);
+  };
+
+  const accounts = data?.accounts || [];
+  const isNew = editing === 'new';
+  const mutationError = saveMutation.error || toggleMutation.error || deleteMutation.error;
+  const canSave = isNew
+    ? !!(form.slug.trim() && form.label.trim() && form.client_key.trim() && form.secret_key.trim())
+    : !!form.label.trim() && !!form.client_key.trim() === !!form.secret_key.trim();
+
+  return (
+    <Box>
+      <PageHeader
+        title="Integrations"
+        subtitle="Limelight accounts synced every night. Keys are encrypted at rest and never shown again."
+      >
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openEditor('new')}>
+          Add Account
+        </Button>
+      </PageHeader>
+
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage('')}>
+          {message}
+        </Alert>
+      )}
+      {(error || (mutationError && !editing)) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {((error || mutationError) as Error).message}
+        </Alert>
+      )}
+      {data?.envAccountConfigured && !accounts.some((a) => a.slug === 'default') && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          The credentials in LIMELIGHT_CLIENT_KEY / LIMELIGHT_SECRET_KEY are synced as the &quot;default&quot; account.
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : accounts.length === 0 ? (
+        <EmptyState
+          icon={<VpnKeyIcon sx={{ fontSize: 56 }} />}
+          title="No stored accounts"
+          subtitle="Add a Limelight seat to sync it alongside the default account."
+        />
+      ) : (
+        <Card>
+          <CardContent sx={{ p: 0 }}>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Account</TableCell>
+                    <TableCell>Slug</TableCell>
+                    <TableCell>Client Key</TableCell>
+                    <TableCell>API URL</TableCell>
+                    <TableCell>Last Synced</TableCell>
+                    <TableCell>Active</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {accounts.map((a) => (
+                    <TableRow key={a.id} hover>
+                      <TableCell sx={{ fontWeight: 600 }}>{a.label}</TableCell>
+                      <TableCell>
+                        <Chip label={a.slug} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{a.client_key_hint || '-'}</TableCell>
+                      <TableCell>{a.api_url || 'Default'}</TableCell>
+                      <TableCell>{a.last_synced_at ? format(new Date(a.last_synced_at), 'MMM d, yyyy HH:mm') : 'Never'}</TableCell>
+                      <TableCell>
+                        <Switch
+                          size="small"
+                          checked={a.is_active}
+                          onChange={() => toggleMutation.mutate(a)}
+                          disabled={toggleMutation.isPending}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Edit or rotate keys">
+                          <IconButton size="small" onClick={() => openEditor(a)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Remove">
+                          <IconButton size="small" onClick={() => handleDelete(a)} disabled={deleteMutation.isPending}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{isNew ? 'Add Limelight Account' : `Edit ${form.label}`}</DialogTitle>
+        <DialogContent>
+          {saveMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {saveMutation.error.message}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="e.g. EMEA seat"
+                fullWidth
+              />
+              <TextField
+                label="Slug"
+                value={form.slug}
+                onChange={(e) => setForm({ ...form, slug: e.target.value.toLowerCase() })}
+                disabled={!isNew}
+                helperText={isNew ? 'Stored on every synced row; cannot be changed later' : undefined}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              label="API URL"
+              value={form.api_url}
+              onChange={(e) => setForm({ ...form, api_url: e.target.value })}
+              placeholder="Leave empty for the default Limelight endpoint"
+              fullWidth
+            />
+            <Typography variant="caption" color="text.secondary">
+              {isNew ? 'Keys are encrypted before they are stored.' : 'Leave both keys empty to keep the current ones.'}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Client Key"
+                value={form.client_key}
+                onChange={(e) => setForm({ ...form, client_key: e.target.value })}
+                autoComplete="off"
+                fullWidth
+              />
+              <TextField
+                label="Secret Key"
+                type="password"
+                value={form.secret_key}
+                onChange={(e) => setForm({ ...form, secret_key: e.target.value })}
+                autoComplete="new-password"
+                fullWidth
+              />
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <CircularProgress size={18} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
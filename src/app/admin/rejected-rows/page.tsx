@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Tooltip,
+} from '@mui/material';
+import ReportProblemIcon from '@mui/icons-material/ReportProblem';
+import { useQuery } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import type { RejectedRowsReport, RowRejectionRule, StatsSourceInfo } from '@/types';
+import PageHeader from '@/components/ui/PageHeader';
+import EmptyState from '@/components/ui/EmptyState';
+
+const RULE_LABELS: Record<RowRejectionRule, string> = {
+  missing_date: 'Missing date',
+  invalid_date: 'Invalid date',
+  non_numeric: 'Non-numeric metric',
+  negative_metric: 'Negative metric',
+  wins_exceed_bids: 'Wins > bids',
+  impressions_exceed_wins: 'Impressions > wins',
+  unknown_dimension: 'Unknown dimension',
+  invalid_hour: 'Invalid hour',
+};
+
+const RANGE_OPTIONS = [
+  { days: 1, label: 'Yesterday' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+];
+
+export default function RejectedRowsPage() {
+  const [days, setDays] = useState(7);
+  const [rule, setRule] = useState<RowRejectionRule | ''>('');
+  const [source, setSource] = useState('');
+  const [page, setPage] = useState(0);
+
+  const startDate = format(subDays(new Date(), days), 'yyyy-MM-dd');
+
+  const { data: sourcesData } = useQuery<{ sources: StatsSourceInfo[] }>({
+    queryKey: ['stats-sources'],
+    queryFn: async () => {
+      const res = await fetch('/api/sources');
+      if (!res.ok) throw new Error('Failed to fetch sources');
+      return res.json();
+    },
+  });
+
+  const { data, isLoading, error } = useQuery<RejectedRowsReport & { page: number; pageSize: number }>({
+    queryKey: ['rejected-rows', startDate, rule, source, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate, page: String(page) });
+      if (rule) params.set('rule', rule);
+      if (source) params.set('source', source);
+      const res = await fetch(`/api/admin/rejected-rows?${params}`);
+      if (!res.ok) throw new Error('Failed to fetch rejected rows');
+      return res.json();
+    },
+  });
+
+  const rows = data?.rows || [];
+  const byRule = data?.byRule || {};
+
+  return (
+    <Box>
+      <PageHeader
+        title="Rejected Rows"
+        subtitle="Rows that failed validation during sync and were quarantined instead of stored"
+      >
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Range</InputLabel>
+          <Select
+            value={days}
+            label="Range"
+            onChange={(e) => { setDays(Number(e.target.value)); setPage(0); }}
+          >
+            {RANGE_OPTIONS.map((o) => (
+              <MenuItem key={o.days} value={o.days}>{o.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Source</InputLabel>
+          <Select
+            value={source}
+            label="Source"
+            onChange={(e) => { setSource(e.target.value); setPage(0); }}
+          >
+            <MenuItem value="">All sources</MenuItem>
+            {(sourcesData?.sources || []).map((s) => (
+              <MenuItem key={s.id} value={s.id}>{s.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </PageHeader>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {(error as Error).message}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <Chip
+          label="All rules"
+          size="small"
+          onClick={() => { setRule(''); setPage(0); }}
+          color={rule === '' ? 'primary' : 'default'}
+          variant={rule === '' ? 'filled' : 'outlined'}
+        />
+        {(Object.keys(RULE_LABELS) as RowRejectionRule[]).map((r) => (
+          <Chip
+            key={r}
+            label={`${RULE_LABELS[r]} · ${(byRule[r] || 0).toLocaleString()}`}
+            size="small"
+            onClick={() => { setRule(r); setPage(0); }}
+            color={rule === r ? 'primary' : 'default'}
+            variant={rule === r ? 'filled' : 'outlined'}
+          />
+        ))}
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : rows.length === 0 ? (
+        <EmptyState
+          icon={<ReportProblemIcon sx={{ fontSize: 56 }} />}
+          title="No rejected rows"
+          subtitle="Every row synced in this range passed validation."
+        />
+      ) : (
+        <Card>
+          <CardContent sx={{ p: 0 }}>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Day</TableCell>
+                    <TableCell>Source</TableCell>
+                    <TableCell>Dimension Set</TableCell>
+                    <TableCell>Reasons</TableCell>
+                    <TableCell>Raw Row</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((row) => {
+                    const raw = JSON.stringify(row.raw);
+                    return (
+                      <TableRow key={row.id}>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>{row.day}</TableCell>
+                        <TableCell>{row.source}</TableCell>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>{row.dimension_set}</TableCell>
+                        <TableCell>
+                          {row.reasons.map((reason, i) => (
+                            <Typography key={i} variant="body2" sx={{ fontSize: '0.8rem' }}>
+                              <Box component="span" sx={{ color: '#FF5252', fontWeight: 600 }}>
+                                {RULE_LABELS[reason.rule] || reason.rule}
+                              </Box>
+                              {' — '}{reason.message}
+                            </Typography>
+                          ))}
+                        </TableCell>
+                        <TableCell sx={{ maxWidth: 360 }}>
+                          <Tooltip title={<Box component="pre" sx={{ m: 0, fontSize: '0.75rem' }}>{JSON.stringify(row.raw, null, 2)}</Box>}>
+                            <Typography
+                              variant="body2"
+                              sx={{ fontFamily: 'monospace', fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                            >
+                              {raw}
+                            </Typography>
+                          </Tooltip>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={data?.total || 0}
+              page={page}
+              onPageChange={(_, p) => setPage(p)}
+              rowsPerPage={data?.pageSize || 100}
+              rowsPerPageOptions={[]}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </Box>
+  );
+}
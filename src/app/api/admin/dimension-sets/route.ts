@@ -0,0 +1,221 @@
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { NextResponse, NextRequest } from 'next/server';
+import {
+  dimensionSetKey,
+  listDimensionSets,
+  normalizeDimensions,
+  rollupTableName,
+  SET_DIMENSION_COLUMNS,
+} from '@/lib/limelight/dimension-sets';
+import { listLimelightAccounts } from '@/lib/limelight/accounts';
+import { createBackfillJob } from '@/lib/limelight/backfill';
+import { getRetentionCutoff } from '@/lib/limelight/sync';
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// GET - Registered dimension sets plus the dimensions a new set may use
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sets = await listDimensionSets(createServiceClient());
+    return NextResponse.json({ sets, dimensions: Object.keys(SET_DIMENSION_COLUMNS) });
+  } catch (error) {
+    console.error('Admin dimension sets GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Register a set, create its rollup table and (optionally) queue a
+// backfill of the retention window for every active account
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const dimensions = normalizeDimensions(body.dimensions);
+    if (!dimensions) {
+      return NextResponse.json(
+        { error: `dimensions must be one or more of ${Object.keys(SET_DIMENSION_COLUMNS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const setKey = dimensionSetKey(dimensions);
+    const tableName = rollupTableName(dimensions);
+    const label = text(body.label) || dimensions.slice(1).join(' x ');
+
+    const serviceClient = createServiceClient();
+    const { data: set, error: insertError } = await serviceClient
+      .from('dimension_sets')
+      .insert({
+        set_key: setKey,
+        dimensions,
+        table_name: tableName,
+        label,
+        sort_order: Number.isInteger(body.sort_order) ? body.sort_order : 100,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError?.code === '23505') {
+      return NextResponse.json({ error: `Dimension set ${setKey} is already registered` }, { status: 409 });
+    }
+    if (insertError) throw insertError;
+
+    const { error: tableError } = await serviceClient.rpc('create_rollup_table', {
+      p_table: tableName,
+      p_dimensions: dimensions,
+    });
+    if (tableError) {
+      // Without its table the set cannot sync, so do not leave it registered
+      await serviceClient.from('dimension_sets').delete().eq('id', set.id);
+      throw tableError;
+    }
+
+    const backfillJobs: number[] = [];
+    if (body.backfill !== false) {
+      const yesterday = new Date();
+      yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+      const endDate = yesterday.toISOString().split('T')[0];
+      for (const account of await listLimelightAccounts(serviceClient)) {
+        backfillJobs.push(await createBackfillJob(serviceClient, getRetentionCutoff(), endDate, account.slug, [setKey]));
+      }
+    }
+
+    return NextResponse.json({ set, backfillJobs }, { status: 201 });
+  } catch (error) {
+    console.error('Admin dimension sets POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Update label, sort order or active flag. The dimensions (and so the
+// table) of a set are fixed; register a new set instead.
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const id = Number(body.id);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (body.label !== undefined) {
+      if (!text(body.label)) return NextResponse.json({ error: 'label cannot be empty' }, { status: 400 });
+      updates.label = text(body.label);
+    }
+    if (Number.isInteger(body.sort_order)) updates.sort_order = body.sort_order;
+    if (typeof body.is_active === 'boolean') updates.is_active = body.is_active;
+
+    const serviceClient = createServiceClient();
+    if (updates.is_active === false) {
+      const { data: current } = await serviceClient.from('dimension_sets').select('is_core').eq('id', id).single();
+      if (current?.is_core) {
+        return NextResponse.json({ error: 'The core dimension set cannot be deactivated' }, { status: 400 });
+      }
+    }
+
+    const { data: set, error } = await serviceClient
+      .from('dimension_sets')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ set });
+  } catch (error) {
+    console.error('Admin dimension sets PATCH error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Unregister a set. Its rollup table and rows are kept, so
+// registering the same dimensions again picks them back up.
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const id = Number(request.nextUrl.searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+    const { data: current } = await serviceClient.from('dimension_sets').select('is_core').eq('id', id).single();
+    if (current?.is_core) {
+      return NextResponse.json({ error: 'The core dimension set cannot be deleted' }, { status: 400 });
+    }
+
+    const { error } = await serviceClient.from('dimension_sets').delete().eq('id', id);
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin dimension sets DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
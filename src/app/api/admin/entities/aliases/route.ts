@@ -0,0 +1,51 @@
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { NextResponse, NextRequest } from 'next/server';
+import { ENTITY_TABLES, parseEntityKind } from '@/lib/entities/registry';
+
+// POST - Attach a name to an entity by hand, e.g. an old partner name
+// stored before the registry existed. Stored rows under that name are
+// rewritten to the entity's current name and ID.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const kind = parseEntityKind(body.kind);
+    const id = Number(body.id);
+    const account = typeof body.account === 'string' ? body.account : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!kind || !Number.isInteger(id) || !account || !name) {
+      return NextResponse.json({ error: 'kind, account, id and name are required' }, { status: 400 });
+    }
+    const tables = ENTITY_TABLES[kind];
+
+    const serviceClient = createServiceClient();
+    const { error: aliasError } = await serviceClient
+      .from(tables.aliasTable)
+      .upsert({ account, [tables.aliasKey]: id, name }, { onConflict: `account,${tables.aliasKey},name`, ignoreDuplicates: true });
+    if (aliasError) throw aliasError;
+
+    const { data: rowsUpdated, error: applyError } = await serviceClient.rpc(tables.applyFn, { p_account: account, p_id: id });
+    if (applyError) throw applyError;
+
+    return NextResponse.json({ success: true, rowsUpdated: Number(rowsUpdated || 0) });
+  } catch (error) {
+    console.error('Admin entity aliases POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
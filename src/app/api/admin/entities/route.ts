@@ -0,0 +1,127 @@
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { NextResponse, NextRequest } from 'next/server';
+import { ENTITY_TABLES, parseEntityKind } from '@/lib/entities/registry';
+import type { EntityAlias, EntityMetadata, EntityRecord, EntityWithAliases } from '@/types';
+
+// GET - Registry entries of one kind with their alias history
+// Query: ?kind=demand_partner|publisher
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const kind = parseEntityKind(request.nextUrl.searchParams.get('kind'));
+    if (!kind) {
+      return NextResponse.json({ error: 'kind must be demand_partner or publisher' }, { status: 400 });
+    }
+    const tables = ENTITY_TABLES[kind];
+
+    const serviceClient = createServiceClient();
+    const { data: entities, error } = await serviceClient
+      .from(tables.table)
+      .select('*')
+      .order('account', { ascending: true })
+      .order('name', { ascending: true });
+    if (error) throw error;
+
+    const { data: aliases, error: aliasError } = await serviceClient
+      .from(tables.aliasTable)
+      .select('*')
+      .order('last_seen', { ascending: false, nullsFirst: false });
+    if (aliasError) throw aliasError;
+
+    // IDs are only unique within an account
+    const aliasesById = new Map<string, EntityAlias[]>();
+    for (const a of (aliases || []) as Array<EntityAlias & Record<string, unknown>>) {
+      const key = `${a.account}:${a[tables.aliasKey]}`;
+      const list = aliasesById.get(key) || [];
+      list.push({ name: a.name, first_seen: a.first_seen, last_seen: a.last_seen });
+      aliasesById.set(key, list);
+    }
+
+    const result: EntityWithAliases[] = ((entities || []) as EntityRecord[]).map((e) => ({
+      ...e,
+      aliases: aliasesById.get(`${e.account}:${e.id}`) || [],
+    }));
+
+    return NextResponse.json({ entities: result });
+  } catch (error) {
+    console.error('Admin entities GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Update an entity's metadata (the name always comes from Limelight)
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const kind = parseEntityKind(body.kind);
+    const id = Number(body.id);
+    const account = typeof body.account === 'string' ? body.account : '';
+    if (!kind || !Number.isInteger(id) || !account) {
+      return NextResponse.json({ error: 'kind, account and id are required' }, { status: 400 });
+    }
+
+    const revShare = body.rev_share_pct === '' || body.rev_share_pct === null || body.rev_share_pct === undefined
+      ? null
+      : Number(body.rev_share_pct);
+    if (revShare !== null && (!Number.isFinite(revShare) || revShare < 0 || revShare > 100)) {
+      return NextResponse.json({ error: 'rev_share_pct must be between 0 and 100' }, { status: 400 });
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+    const updates: EntityMetadata & { updated_at: string } = {
+      contact_name: text(body.contact_name),
+      contact_email: text(body.contact_email),
+      rev_share_pct: revShare,
+      tier: text(body.tier),
+      notes: text(body.notes),
+      updated_at: new Date().toISOString(),
+    };
+
+    const serviceClient = createServiceClient();
+    const { data, error } = await serviceClient
+      .from(ENTITY_TABLES[kind].table)
+      .update(updates)
+      .eq('account', account)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json({ entity: data });
+  } catch (error) {
+    console.error('Admin entities PATCH error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
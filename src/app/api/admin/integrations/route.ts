@@ -0,0 +1,206 @@
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { NextResponse, NextRequest } from 'next/server';
+import { encryptSecret, secretHint } from '@/lib/integrations/crypto';
+import { ACCOUNT_SLUG_PATTERN } from '@/lib/limelight/accounts';
+
+// Columns safe to return to the browser (never the encrypted keys)
+const SUMMARY_COLUMNS = 'id, slug, label, api_url, client_key_hint, is_active, last_synced_at, created_at, updated_at';
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// GET - List Limelight accounts (credentials are only shown as a hint)
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const serviceClient = createServiceClient();
+    const { data: accounts, error } = await serviceClient
+      .from('limelight_accounts')
+      .select(SUMMARY_COLUMNS)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      accounts: accounts || [],
+      // The env credentials act as the 'default' account unless one is stored under that slug
+      envAccountConfigured: Boolean(process.env.LIMELIGHT_CLIENT_KEY && process.env.LIMELIGHT_SECRET_KEY),
+    });
+  } catch (error) {
+    console.error('Admin integrations GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Add a Limelight account
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const slug = text(body.slug).toLowerCase();
+    const label = text(body.label);
+    const clientKey = text(body.client_key);
+    const secretKey = text(body.secret_key);
+
+    if (!slug || !label || !clientKey || !secretKey) {
+      return NextResponse.json({ error: 'slug, label, client_key and secret_key are required' }, { status: 400 });
+    }
+    if (!ACCOUNT_SLUG_PATTERN.test(slug)) {
+      return NextResponse.json({ error: 'slug may only contain lowercase letters, digits, - and _' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+    const { data: account, error: insertError } = await serviceClient
+      .from('limelight_accounts')
+      .insert({
+        slug,
+        label,
+        api_url: text(body.api_url) || null,
+        client_key_encrypted: encryptSecret(clientKey),
+        secret_key_encrypted: encryptSecret(secretKey),
+        client_key_hint: secretHint(clientKey),
+        created_by: user.id,
+      })
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (insertError?.code === '23505') {
+      return NextResponse.json({ error: `An account with slug "${slug}" already exists` }, { status: 409 });
+    }
+    if (insertError) throw insertError;
+
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (error) {
+    console.error('Admin integrations POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Update label, API URL or active flag; rotate keys when new ones are given
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const id = Number(body.id);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    // The slug is stored on every synced row, so it cannot be changed here
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (body.label !== undefined) {
+      if (!text(body.label)) return NextResponse.json({ error: 'label cannot be empty' }, { status: 400 });
+      updates.label = text(body.label);
+    }
+    if (body.api_url !== undefined) updates.api_url = text(body.api_url) || null;
+    if (typeof body.is_active === 'boolean') updates.is_active = body.is_active;
+
+    const clientKey = text(body.client_key);
+    const secretKey = text(body.secret_key);
+    if (clientKey || secretKey) {
+      if (!clientKey || !secretKey) {
+        return NextResponse.json({ error: 'client_key and secret_key must be rotated together' }, { status: 400 });
+      }
+      updates.client_key_encrypted = encryptSecret(clientKey);
+      updates.secret_key_encrypted = encryptSecret(secretKey);
+      updates.client_key_hint = secretHint(clientKey);
+    }
+
+    const serviceClient = createServiceClient();
+    const { data: account, error } = await serviceClient
+      .from('limelight_accounts')
+      .update(updates)
+      .eq('id', id)
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ account });
+  } catch (error) {
+    console.error('Admin integrations PATCH error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an account. Rows already synced from it are kept.
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const id = Number(request.nextUrl.searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+    const { error } = await serviceClient.from('limelight_accounts').delete().eq('id', id);
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin integrations DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
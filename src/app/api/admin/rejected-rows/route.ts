@@ -0,0 +1,74 @@
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { NextResponse, NextRequest } from 'next/server';
+import { getRetentionCutoff } from '@/lib/limelight/sync';
+import type { LimelightRejectedRow, RejectionSummary, RowRejectionRule } from '@/types';
+
+const PAGE_SIZE = 100;
+
+// GET - Quarantined rows (newest day first) with a count per rule
+// Query: ?startDate=&endDate=&rule=&source=&page=
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify current user is admin
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const startDate = params.get('startDate') || getRetentionCutoff();
+    const endDate = params.get('endDate') || new Date().toISOString().split('T')[0];
+    const rule = params.get('rule');
+    const source = params.get('source');
+    const page = Math.max(0, Number(params.get('page') || 0));
+
+    const serviceClient = createServiceClient();
+    let query = serviceClient
+      .from('limelight_rejected_rows')
+      .select('*', { count: 'exact' })
+      .gte('day', startDate)
+      .lte('day', endDate)
+      .order('day', { ascending: false })
+      .order('id', { ascending: true })
+      .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+    if (rule) query = query.contains('rules', [rule]);
+    if (source) query = query.eq('source', source);
+
+    const { data: rows, count, error } = await query;
+    if (error) throw error;
+
+    const { data: summary, error: summaryError } = await serviceClient.rpc('get_rejected_row_summary', {
+      p_start: startDate,
+      p_end: endDate,
+      p_source: source || null,
+    });
+    if (summaryError) throw summaryError;
+
+    const byRule: RejectionSummary = {};
+    for (const s of (summary || []) as Array<{ rule: RowRejectionRule; row_count: number }>) {
+      byRule[s.rule] = Number(s.row_count);
+    }
+
+    return NextResponse.json({
+      rows: (rows || []) as LimelightRejectedRow[],
+      total: count || 0,
+      byRule,
+      page,
+      pageSize: PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error('Admin rejected rows GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,4 +1,4 @@
-import { fetchAllRows, getDateRanges } from '@/lib/supabase/helpers';
+import { fetchAggregate, getDateRanges } from '@/lib/supabase/helpers';
 import { NextResponse } from 'next/server';
 
 interface Recommendation {
@@ -32,14 +32,10 @@ export async function GET() {
     // Always analyze last 7 days
     const { today, last7Start } = getDateRanges();
 
-    const rows = await fetchAllRows(
-      'limelight_stats',
-      'date,demand_partner_name,publisher,impressions,demand_payout,pub_payout,bid_requests,bids,wins,opportunities,bid_response_timeouts,bid_response_errors',
-      {
-        gte: ['date', last7Start],
-        lte: ['date', today],
-      }
-    );
+    const [partnerRows, publisherRows] = await Promise.all([
+      fetchAggregate('agg_by_demand_partner', last7Start, today),
+      fetchAggregate('agg_by_publisher', last7Start, today),
+    ]);
 
     const recommendations: Recommendation[] = [];
     let recIdCounter = 1;
@@ -61,8 +57,8 @@ export async function GET() {
       }
     >();
 
-    for (const row of rows) {
-      const partner = row.demand_partner_name || 'Unknown';
+    for (const row of partnerRows) {
+      const partner = row.name || 'Unknown';
       if (!partner || partner === '') continue;
 
       const existing = partnerMap.get(partner) || {
@@ -76,14 +72,14 @@ export async function GET() {
         errors: 0,
       };
 
-      existing.revenue += Number(row.demand_payout || 0);
+      existing.revenue += Number(row.revenue || 0);
       existing.impressions += Number(row.impressions || 0);
       existing.bidRequests += Number(row.bid_requests || 0);
       existing.bids += Number(row.bids || 0);
       existing.wins += Number(row.wins || 0);
       existing.opportunities += Number(row.opportunities || 0);
-      existing.timeouts += Number(row.bid_response_timeouts || 0);
-      existing.errors += Number(row.bid_response_errors || 0);
+      existing.timeouts += Number(row.timeouts || 0);
+      existing.errors += Number(row.errors || 0);
 
       partnerMap.set(partner, existing);
     }
@@ -105,8 +101,8 @@ export async function GET() {
       }
     >();
 
-    for (const row of rows) {
-      const publisher = row.publisher || 'Unknown';
+    for (const row of publisherRows) {
+      const publisher = row.name || 'Unknown';
       if (!publisher || publisher === '') continue;
 
       const existing = publisherMap.get(publisher) || {
@@ -120,14 +116,14 @@ export async function GET() {
         errors: 0,
       };
 
-      existing.revenue += Number(row.demand_payout || 0);
+      existing.revenue += Number(row.revenue || 0);
       existing.impressions += Number(row.impressions || 0);
       existing.bidRequests += Number(row.bid_requests || 0);
       existing.bids += Number(row.bids || 0);
       existing.wins += Number(row.wins || 0);
       existing.opportunities += Number(row.opportunities || 0);
-      existing.timeouts += Number(row.bid_response_timeouts || 0);
-      existing.errors += Number(row.bid_response_errors || 0);
+      existing.timeouts += Number(row.timeouts || 0);
+      existing.errors += Number(row.errors || 0);
 
       publisherMap.set(publisher, existing);
     }
@@ -3,7 +3,9 @@ import { refreshAllCaches } from '@/lib/cache/compute';
 
 export const maxDuration = 300;
 
-// GET - Cron job (runs 10 min after sync at 04:10 UTC)
+// GET - Cron job (04:10 UTC). Syncs recompute what they change as they
+// finish, so this only catches up on entries still out of date, e.g. after
+// a sync that ran out of time.
 export async function GET(request: NextRequest) {
   try {
     const authHeader = request.headers.get('authorization');
@@ -13,11 +15,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const start = Date.now();
-    await refreshAllCaches();
-    const durationMs = Date.now() - start;
+    const result = await refreshAllCaches();
 
-    return NextResponse.json({ success: true, durationMs });
+    return NextResponse.json({ success: true, ...result });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Cache refresh failed';
     console.error('Cache refresh error:', message);
@@ -25,14 +25,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Manual trigger
-export async function POST() {
+// POST - Manual trigger; { force: true } recomputes every entry
+export async function POST(request: NextRequest) {
   try {
-    const start = Date.now();
-    await refreshAllCaches();
-    const durationMs = Date.now() - start;
+    const body = await request.json().catch(() => ({}));
+    const result = await refreshAllCaches({ force: body.force === true });
 
-    return NextResponse.json({ success: true, durationMs });
+    return NextResponse.json({ success: true, ...result });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Cache refresh failed';
     console.error('Cache refresh error:', message);
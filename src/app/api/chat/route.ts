@@ -3,8 +3,6 @@ import Anthropic from '@anthropic-ai/sdk';
 import { createClient, createServiceClient } from '@/lib/supabase/server';
 import { SYSTEM_PROMPT, buildPerformanceContext } from '@/lib/claude/prompts';
 
-const PAGE_SIZE = 1000;
-
 function getAnthropicClient(): Anthropic {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
@@ -164,8 +162,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * Fetches performance context using the service client (bypasses RLS).
- * Paginates through limelight_stats since Supabase has a 1000 row limit.
- * Also fetches unresolved alert counts.
+ * Reads per-partner totals from the daily rollups and unresolved alert counts.
  * All queries run in parallel with a 5s timeout to avoid blocking the chat.
  */
 async function getPerformanceContext(): Promise<string> {
@@ -184,8 +181,8 @@ async function getPerformanceContext(): Promise<string> {
       Promise.race([p, new Promise<T>(resolve => setTimeout(() => resolve(fallback), 5000))]);
 
     const [stats, prevStats, alertResult, criticalResult] = await Promise.all([
-      withTimeout(fetchAllStats(serviceClient, formatDate(startDate), formatDate(endDate)), []),
-      withTimeout(fetchAllStats(serviceClient, formatDate(prevStartDate), formatDate(startDate)), []),
+      withTimeout(fetchPartnerTotals(serviceClient, formatDate(startDate), formatDate(endDate)), []),
+      withTimeout(fetchPartnerTotals(serviceClient, formatDate(prevStartDate), formatDate(startDate)), []),
       withTimeout(
         Promise.resolve(serviceClient.from('alerts').select('*', { count: 'exact', head: true }).eq('resolved', false)),
         { count: 0 } as any
@@ -204,14 +201,14 @@ async function getPerformanceContext(): Promise<string> {
     }
 
     // Current period totals
-    const totalRevenue = stats.reduce((s: number, r: any) => s + Number(r.demand_payout || 0), 0);
+    const totalRevenue = stats.reduce((s: number, r: any) => s + Number(r.revenue || 0), 0);
     const totalImpressions = stats.reduce((s: number, r: any) => s + Number(r.impressions || 0), 0);
     const totalBidRequests = stats.reduce((s: number, r: any) => s + Number(r.bid_requests || 0), 0);
     const avgECPM = totalImpressions > 0 ? (totalRevenue / totalImpressions) * 1000 : 0;
     const fillRate = totalBidRequests > 0 ? (totalImpressions / totalBidRequests) * 100 : 0;
 
     // Previous period revenue for comparison
-    const prevRevenue = prevStats.reduce((s: number, r: any) => s + Number(r.demand_payout || 0), 0);
+    const prevRevenue = prevStats.reduce((s: number, r: any) => s + Number(r.revenue || 0), 0);
     const revenueChange = prevRevenue > 0
       ? ((totalRevenue - prevRevenue) / prevRevenue) * 100
       : 0;
@@ -219,12 +216,12 @@ async function getPerformanceContext(): Promise<string> {
     // Partner aggregation
     const partnerMap = new Map<string, { revenue: number; impressions: number; bidRequests: number; timeouts: number }>();
     for (const row of stats) {
-      const name = row.demand_partner_name || 'Unknown';
+      const name = row.name || 'Unknown';
       const existing = partnerMap.get(name) || { revenue: 0, impressions: 0, bidRequests: 0, timeouts: 0 };
-      existing.revenue += Number(row.demand_payout || 0);
+      existing.revenue += Number(row.revenue || 0);
       existing.impressions += Number(row.impressions || 0);
       existing.bidRequests += Number(row.bid_requests || 0);
-      existing.timeouts += Number(row.bid_response_timeouts || 0);
+      existing.timeouts += Number(row.timeouts || 0);
       partnerMap.set(name, existing);
     }
 
@@ -266,40 +263,17 @@ async function getPerformanceContext(): Promise<string> {
 }
 
 /**
- * Paginates through limelight_stats to fetch all rows for a date range.
- * Supabase enforces a max of 1000 rows per request.
+ * Per-partner totals for a date range, from the daily partner rollup.
  */
-async function fetchAllStats(
+async function fetchPartnerTotals(
   client: ReturnType<typeof createServiceClient>,
   startDate: string,
   endDate: string
 ): Promise<any[]> {
-  const allRows: any[] = [];
-  let offset = 0;
-  let hasMore = true;
-
-  while (hasMore) {
-    const { data, error } = await client
-      .from('limelight_stats')
-      .select('demand_partner_name, impressions, demand_payout, bid_requests, bid_response_timeouts')
-      .gte('date', startDate)
-      .lte('date', endDate)
-      .range(offset, offset + PAGE_SIZE - 1);
-
-    if (error) {
-      console.error('Error fetching limelight_stats page:', error);
-      break;
-    }
-
-    if (data && data.length > 0) {
-      allRows.push(...data);
-      offset += PAGE_SIZE;
-      // If we got fewer rows than PAGE_SIZE, there are no more pages
-      hasMore = data.length === PAGE_SIZE;
-    } else {
-      hasMore = false;
-    }
+  const { data, error } = await client.rpc('agg_by_demand_partner', { p_start: startDate, p_end: endDate });
+  if (error) {
+    console.error('Error fetching partner totals:', error);
+    return [];
   }
-
-  return allRows;
+  return data || [];
 }
@@ -0,0 +1,37 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { getDateRange } from '@/lib/limelight/client';
+import { parseStatsRange } from '@/lib/cache/compute';
+import { pageTable, parseTableQuery } from '@/lib/cache/table';
+import { buildCreativeReport, CREATIVE_SORT_FIELDS, CREATIVE_TABLE } from '@/lib/ivt/creatives';
+import type { CreativeFlag } from '@/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+const FLAGS: CreativeFlag[] = ['suspicious_traffic', 'bundle_spread'];
+
+// GET - Creative report from the pixel's creative IDs over ?period=7|14|30
+// (ending yesterday) or a custom ?startDate=&endDate=.
+// ?flag=suspicious_traffic|bundle_spread|any keeps flagged creatives only;
+// ?search=&minImpressions=&sort=&order=&limit=&offset= page the creatives.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
+    const { startDate, endDate } = 'period' in range ? getDateRange(range.period) : range;
+    const query = parseTableQuery(searchParams, CREATIVE_SORT_FIELDS, 'impressions');
+    const flag = searchParams.get('flag');
+
+    const report = await buildCreativeReport(createServiceClient(), startDate, endDate);
+    const creatives = flag === 'any'
+      ? report.creatives.filter((c) => c.flags.length > 0)
+      : FLAGS.includes(flag as CreativeFlag)
+        ? report.creatives.filter((c) => c.flags.includes(flag as CreativeFlag))
+        : report.creatives;
+
+    const { rows, page, longTail } = pageTable(creatives, query, CREATIVE_TABLE);
+    return NextResponse.json({ ...report, creatives: rows, page, longTail });
+  } catch (error) {
+    console.error('[IVT Creatives] API error:', error);
+    return NextResponse.json({ error: 'Failed to generate creative report' }, { status: 500 });
+  }
+}
@@ -40,7 +40,7 @@ export async function GET(request: NextRequest) {
   try {
     const params = request.nextUrl.searchParams;
 
-    // Accept both PRD short params (ts, pub, ua, make, model, crid, ssp, imp)
+    // Accept both PRD short params (ts, pub, ua, make, model, crid, dsp, ssp, imp)
     // and legacy long params (timestamp, pubId, userAgent, deviceMake, etc.)
     const impression = {
       timestamp: parseTimestamp(params.get('ts') || params.get('timestamp')),
@@ -54,6 +54,7 @@ export async function GET(request: NextRequest) {
       os: params.get('os') || null,
       os_version: params.get('osv') || null,
       creative_id: params.get('crid') || params.get('creativeId') || null,
+      demand_id: params.get('dsp') || params.get('demandId') || null,
       origin_ssp_pub_id: params.get('ssp') || params.get('originSspPubId') || null,
       lat: params.get('lat') ? parseFloat(params.get('lat')!) : null,
       lon: params.get('lon') ? parseFloat(params.get('lon')!) : null,
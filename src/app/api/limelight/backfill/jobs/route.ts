@@ -0,0 +1,18 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { getBackfillJobs } from '@/lib/limelight/backfill';
+
+// GET - Recent backfill jobs with per-day done/pending/failed status
+export async function GET(request: NextRequest) {
+  try {
+    const limitParam = Number(request.nextUrl.searchParams.get('limit') || '10');
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 50) : 10;
+
+    const jobs = await getBackfillJobs(createServiceClient(), limit);
+    return NextResponse.json({ jobs });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load backfill jobs';
+    console.error('Backfill jobs GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
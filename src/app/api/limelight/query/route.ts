@@ -1,15 +1,26 @@
 import { NextResponse, NextRequest } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
 import { fetchLimelightStats } from '@/lib/limelight/client';
 import { transformLimelightResponse } from '@/lib/limelight/transformer';
+import { summarizeRejections } from '@/lib/limelight/validation';
+import { DEFAULT_ACCOUNT_SLUG, getLimelightAccount } from '@/lib/limelight/accounts';
+import { aggregateByDimensions } from '@/lib/limelight/dimension-sets';
+import { getRetentionCutoff } from '@/lib/limelight/sync';
+import { LIMELIGHT_SOURCE_ID } from '@/lib/limelight/transformer';
 
 // On-demand query for specific dimension breakdowns
 // Used by pages that need BUNDLE, OS, COUNTRY, SIZE, CHANNEL_TYPE data
+// Optional ?account= picks the Limelight account (default: 'default')
+// Ranges inside the retention window are read from the stored table of a
+// registered dimension set that covers the dimension; ?live=true (or no
+// such set) queries Limelight directly
 export async function GET(request: NextRequest) {
   try {
     const params = request.nextUrl.searchParams;
     const startDate = params.get('startDate');
     const endDate = params.get('endDate');
     const dimension = params.get('dimension'); // e.g., BUNDLE, OS, COUNTRY, SIZE
+    const accountSlug = params.get('account') || DEFAULT_ACCOUNT_SLUG;
 
     if (!startDate || !endDate) {
       return NextResponse.json(
@@ -26,13 +37,50 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const supabase = createServiceClient();
+    const account = await getLimelightAccount(supabase, accountSlug);
+    if (!account) {
+      return NextResponse.json(
+        { error: `Unknown or inactive Limelight account: ${accountSlug}` },
+        { status: 400 }
+      );
+    }
+
+    const dimensions = ['DATE', dimension];
+
+    if (params.get('live') !== 'true' && startDate >= getRetentionCutoff()) {
+      const stored = await aggregateByDimensions(supabase, {
+        dimensions,
+        startDate,
+        endDate,
+        source: LIMELIGHT_SOURCE_ID,
+        account: account.slug,
+      });
+      if (stored) {
+        const filtered = stored.rows.filter(
+          (row) => row.impressions > 0 || row.demand_payout > 0 || row.bid_requests > 0
+        );
+        return NextResponse.json({
+          success: true,
+          account: account.slug,
+          servedFrom: stored.set.table_name,
+          data: filtered,
+          totalRows: stored.rows.length,
+          rejectedRows: 0,
+          rejectedByRule: {},
+          filteredRows: filtered.length,
+        });
+      }
+    }
+
     const rawData = await fetchLimelightStats({
       startDate,
       endDate,
-      dimensions: ['DATE', dimension],
+      dimensions,
+      account,
     });
 
-    const transformed = transformLimelightResponse(rawData);
+    const { rows: transformed, rejected } = transformLimelightResponse(rawData, dimensions);
 
     // Filter out rows with no meaningful data
     const filtered = transformed.filter(
@@ -41,8 +89,12 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      account: account.slug,
+      servedFrom: 'limelight',
       data: filtered,
       totalRows: rawData.length,
+      rejectedRows: rejected.length,
+      rejectedByRule: summarizeRejections(rejected),
       filteredRows: filtered.length,
     });
   } catch (error: unknown) {
@@ -0,0 +1,18 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { getReconciliationReports } from '@/lib/limelight/reconcile';
+
+// GET - Recent reconciliation runs with the per-day/partner differences found
+export async function GET(request: NextRequest) {
+  try {
+    const limitParam = Number(request.nextUrl.searchParams.get('limit') || '7');
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 30) : 7;
+
+    const reports = await getReconciliationReports(createServiceClient(), limit);
+    return NextResponse.json({ reports });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load reconciliation reports';
+    console.error('Reconciliation reports GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
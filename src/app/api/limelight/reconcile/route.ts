@@ -0,0 +1,56 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { classifyError } from '@/lib/limelight/errors';
+import { reconcileAllAccounts } from '@/lib/limelight/reconcile';
+import { runBackfill } from '@/lib/limelight/backfill';
+
+export const maxDuration = 300;
+
+// Safety margin: stop picking up new work 20s before maxDuration
+const SAFE_TIMEOUT_MS = 280_000;
+
+// Compare the rolling window with Limelight (every account), then spend the remaining time
+// re-syncing the drifted days (anything left is picked up by the backfill cron)
+async function reconcileAndResync() {
+  const functionStart = Date.now();
+  const supabase = createServiceClient();
+
+  const result = await reconcileAllAccounts(supabase, functionStart + SAFE_TIMEOUT_MS);
+  const backfill = result.resyncJobIds.length > 0
+    ? await runBackfill(supabase, functionStart + SAFE_TIMEOUT_MS)
+    : null;
+
+  return { success: true, ...result, backfill, durationMs: Date.now() - functionStart };
+}
+
+// GET - Nightly reconciliation (Vercel Cron, 03:20 UTC so re-synced days land before the 04:10 cache refresh)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await reconcileAndResync());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Reconciliation failed';
+    console.error('Limelight reconcile GET error:', message);
+    return NextResponse.json({ error: message, errorClass: classifyError(error) }, { status: 500 });
+  }
+}
+
+// POST - Manual reconciliation (from the Sync Status page)
+export async function POST() {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    return NextResponse.json(await reconcileAndResync());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Reconciliation failed';
+    console.error('Limelight reconcile POST error:', message);
+    return NextResponse.json({ error: message, errorClass: classifyError(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { getSyncCoverage } from '@/lib/limelight/monitoring';
+import { getRetentionCutoff } from '@/lib/limelight/sync';
+import { getYesterdayDate } from '@/lib/limelight/client';
+
+// GET - Per-day stored-row coverage across accounts and dimension sets.
+// Defaults to the retention window; the range is capped at 90 days.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const endDate = params.get('endDate') || getYesterdayDate();
+    const startDate = params.get('startDate') || getRetentionCutoff();
+
+    const dateFormat = /^\d{4}-\d{2}-\d{2}$/;
+    if (!dateFormat.test(startDate) || !dateFormat.test(endDate) || startDate > endDate) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD with startDate <= endDate' }, { status: 400 });
+    }
+    const spanDays = (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000;
+    if (spanDays >= 90) {
+      return NextResponse.json({ error: 'Coverage covers at most 90 days at a time' }, { status: 400 });
+    }
+
+    const coverage = await getSyncCoverage(createServiceClient(), startDate, endDate);
+    return NextResponse.json(coverage);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load sync coverage';
+    console.error('Sync coverage GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { createRequestBudget } from '@/lib/limelight/client';
+import { classifyError } from '@/lib/limelight/errors';
+import { listLimelightAccounts } from '@/lib/limelight/accounts';
+import { syncHourlyDay, cleanupOldHourlyStats, HOURLY_SYNC_ENABLED, HOURLY_LAG_HOURS } from '@/lib/limelight/hourly';
+import { evaluateHourlyAlerts } from '@/lib/alerts/hourly';
+import { storeAlerts } from '@/lib/alerts/store';
+
+export const maxDuration = 300;
+
+// Safety margin: stop picking up new work 20s before maxDuration
+const SAFE_TIMEOUT_MS = 280_000;
+
+// Pull today's hourly breakdown for every account (and yesterday's too
+// while its last hours may still be settling), then evaluate hourly alerts
+async function syncHourly() {
+  const functionStart = Date.now();
+  const supabase = createServiceClient();
+  const accounts = await listLimelightAccounts(supabase);
+  if (accounts.length === 0) throw new Error('No Limelight account is configured');
+
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  const days = [today];
+  if (now.getUTCHours() < HOURLY_LAG_HOURS + 1) {
+    const yesterday = new Date(now);
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+    days.unshift(yesterday.toISOString().split('T')[0]);
+  }
+
+  const results = [];
+  for (const account of accounts) {
+    const budget = createRequestBudget({ deadline: functionStart + SAFE_TIMEOUT_MS });
+    for (const day of days) {
+      if (Date.now() - functionStart > SAFE_TIMEOUT_MS) {
+        results.push({ account: account.slug, day, synced: 0, rejected: 0, error: 'Skipped: out of time' });
+        continue;
+      }
+      try {
+        const result = await syncHourlyDay(supabase, day, account, budget);
+        results.push({ account: account.slug, day, synced: result.synced, rejected: result.rejected, error: null });
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`[Hourly] ${account.slug} failed for ${day} (${classifyError(err)}):`, message);
+        results.push({ account: account.slug, day, synced: 0, rejected: 0, error: message });
+      }
+    }
+  }
+
+  if (results.every((r) => r.error)) {
+    throw new Error(`Hourly sync failed for every account: ${results[0].error}`);
+  }
+
+  const evaluation = await evaluateHourlyAlerts(supabase, now);
+  const alertsStored = await storeAlerts(supabase, evaluation.alerts, 'hourly');
+  const cleaned = await cleanupOldHourlyStats(supabase);
+
+  return {
+    success: true,
+    results,
+    throughHour: evaluation.throughHour,
+    alerts: evaluation.alerts.length,
+    alertsStored,
+    cleaned,
+    durationMs: Date.now() - functionStart,
+  };
+}
+
+// GET - Hourly sync (Vercel Cron, every hour at :15; no-op unless LIMELIGHT_HOURLY_SYNC=true)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!HOURLY_SYNC_ENABLED) {
+      return NextResponse.json({ success: true, skipped: 'Hourly sync is disabled (LIMELIGHT_HOURLY_SYNC)' });
+    }
+
+    return NextResponse.json(await syncHourly());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Hourly sync failed';
+    console.error('Limelight hourly sync GET error:', message);
+    return NextResponse.json({ error: message, errorClass: classifyError(error) }, { status: 500 });
+  }
+}
+
+// POST - Manual hourly sync; runs even when the cron is disabled
+export async function POST() {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    return NextResponse.json(await syncHourly());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Hourly sync failed';
+    console.error('Limelight hourly sync POST error:', message);
+    return NextResponse.json({ error: message, errorClass: classifyError(error) }, { status: 500 });
+  }
+}
@@ -1,7 +1,15 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
-import { fetchLimelightStats, getYesterdayDate, getDateRange, SYNC_DIMENSIONS, EXTRA_SYNC_DIMENSION_SETS } from '@/lib/limelight/client';
-import { transformLimelightResponse } from '@/lib/limelight/transformer';
+import { getYesterdayDate, getDateRange, createRequestBudget, SYNC_DIMENSIONS } from '@/lib/limelight/client';
+import { classifyError } from '@/lib/limelight/errors';
+import { syncSingleDay, syncAdditionalSources, cleanupOldStats, getDatesBetween } from '@/lib/limelight/sync';
+import { createBackfillJob, runBackfill } from '@/lib/limelight/backfill';
+import { mergeRejectionSummaries } from '@/lib/limelight/validation';
+import { listLimelightAccounts, LimelightAccount } from '@/lib/limelight/accounts';
+import { listDimensionSets, CORE_DIMENSION_SET_KEY } from '@/lib/limelight/dimension-sets';
+import { refreshDailyRollups, getRollupRetentionCutoff, ROLLUP_RETENTION_DAYS } from '@/lib/limelight/rollups';
+import { refreshCachesAfterSync } from '@/lib/cache/compute';
+import type { DimensionSet, RejectionSummary, SyncSetResult } from '@/types';
 
 // Allow up to 300s for sync (Vercel Pro max)
 export const maxDuration = 300;
@@ -13,6 +21,7 @@ const SAFE_TIMEOUT_MS = 280_000;
 // POST - Manual sync (from UI "Sync Now" button)
 export async function POST(request: NextRequest) {
   try {
+    const functionStart = Date.now();
     const body = await request.json().catch(() => ({}));
     const { startDate, endDate, fullSync } = body;
 
@@ -33,13 +42,49 @@ export async function POST(request: NextRequest) {
       syncEnd = getYesterdayDate();
     }
 
+    // Multi-day ranges go through the resumable backfill queue. Days past
+    // the raw stats retention still land in the rollups, which keep longer
+    if (syncStart !== syncEnd) {
+      if (syncStart < getRollupRetentionCutoff()) {
+        return NextResponse.json(
+          { error: `startDate is outside the ${ROLLUP_RETENTION_DAYS}-day rollup retention window (oldest: ${getRollupRetentionCutoff()})` },
+          { status: 400 }
+        );
+      }
+
+      // One job per account, so each seat's progress and failures are tracked apart
+      const supabase = createServiceClient();
+      const accounts = await listLimelightAccounts(supabase);
+      if (accounts.length === 0) {
+        return NextResponse.json({ error: 'No Limelight account is configured' }, { status: 400 });
+      }
+      const jobIds: number[] = [];
+      for (const account of accounts) {
+        jobIds.push(await createBackfillJob(supabase, syncStart, syncEnd, account.slug));
+      }
+      const result = await runBackfill(supabase, functionStart + SAFE_TIMEOUT_MS);
+      if (result.rowsSynced > 0) refreshCachesAfterSync('manual backfill');
+      return NextResponse.json({
+        success: true,
+        backfillJobIds: jobIds,
+        rowsSynced: result.rowsSynced,
+        rowsRejected: result.rowsRejected,
+        rejectedByRule: result.rejectedByRule,
+        errors: result.failedItems,
+        timedOut: result.timedOut,
+        durationMs: Date.now() - functionStart,
+        dateRange: { startDate: syncStart, endDate: syncEnd },
+      });
+    }
+
     const result = await performSync(syncStart, syncEnd);
+    refreshCachesAfterSync('manual sync');
     return NextResponse.json(result);
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Sync failed';
     console.error('Limelight sync POST error:', message);
     return NextResponse.json(
-      { error: message },
+      { error: message, errorClass: classifyError(error) },
       { status: 500 }
     );
   }
@@ -56,88 +101,120 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Sync yesterday's data
+    // Sync yesterday's data (Limelight, then any other registered source),
+    // then spend the remaining time on pending backfills
+    const functionStart = Date.now();
     const yesterday = getYesterdayDate();
     const result = await performSync(yesterday, yesterday);
-    return NextResponse.json(result);
+
+    const otherSources = result.timedOut
+      ? []
+      : await syncAdditionalSources(createServiceClient(), yesterday, createRequestBudget({ deadline: functionStart + SAFE_TIMEOUT_MS }));
+
+    const backfill = result.timedOut
+      ? null
+      : await runBackfill(createServiceClient(), functionStart + SAFE_TIMEOUT_MS);
+
+    refreshCachesAfterSync('daily sync');
+    return NextResponse.json({ ...result, otherSources, backfill });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Sync failed';
     console.error('Limelight sync GET error:', message);
     return NextResponse.json(
-      { error: message },
+      { error: message, errorClass: classifyError(error) },
       { status: 500 }
     );
   }
 }
 
 /**
- * Generate array of date strings between start and end (inclusive).
+ * Sync startDate..endDate for every active Limelight account, one
+ * sync_logs row and request budget per account. A failing account does
+ * not stop the others; the run only throws when every account failed.
  */
-function getDatesBetween(startDate: string, endDate: string): string[] {
-  const dates: string[] = [];
-  const current = new Date(startDate + 'T00:00:00Z');
-  const end = new Date(endDate + 'T00:00:00Z');
-  while (current <= end) {
-    dates.push(current.toISOString().split('T')[0]);
-    current.setUTCDate(current.getUTCDate() + 1);
-  }
-  return dates;
-}
+async function performSync(startDate: string, endDate: string) {
+  const supabase = createServiceClient();
+  const functionStart = Date.now();
+  const accounts = await listLimelightAccounts(supabase);
+  if (accounts.length === 0) throw new Error('No Limelight account is configured');
+  const extraSets = (await listDimensionSets(supabase, true)).filter((set) => !set.is_core);
+
+  let totalSynced = 0;
+  let totalErrors = 0;
+  let totalRejected = 0;
+  const rejectedByRule: RejectionSummary = {};
+  let timedOut = false;
+  let firstError: unknown = null;
+  const accountResults = [];
+
+  for (const account of accounts) {
+    if (Date.now() - functionStart > SAFE_TIMEOUT_MS) {
+      console.warn(`[Sync] Approaching timeout before account ${account.slug}. Stopping gracefully.`);
+      timedOut = true;
+      break;
+    }
 
-/**
- * Sync a single day's data from Limelight.
- */
-async function syncSingleDay(
-  supabase: ReturnType<typeof createServiceClient>,
-  day: string,
-  dimensions: string[] = SYNC_DIMENSIONS
-): Promise<{ synced: number; errors: number }> {
-  const rawData = await fetchLimelightStats({
-    startDate: day,
-    endDate: day,
-    dimensions,
-  });
-
-  const transformed = transformLimelightResponse(rawData);
-  if (transformed.length === 0) {
-    return { synced: 0, errors: 0 };
+    try {
+      const result = await syncAccount(supabase, account, extraSets, startDate, endDate, functionStart);
+      totalSynced += result.rowsSynced;
+      totalErrors += result.errors;
+      totalRejected += result.rowsRejected;
+      mergeRejectionSummaries(rejectedByRule, result.rejectedByRule);
+      timedOut = timedOut || result.timedOut;
+      accountResults.push({ account: account.slug, ...result, error: null });
+    } catch (error: unknown) {
+      firstError = firstError || error;
+      accountResults.push({ account: account.slug, error: error instanceof Error ? error.message : 'Unknown error', errorClass: classifyError(error) });
+    }
+    if (timedOut) break;
   }
 
-  const BATCH_SIZE = 500;
-  let synced = 0;
-  let errors = 0;
-
-  for (let i = 0; i < transformed.length; i += BATCH_SIZE) {
-    const batch = transformed.slice(i, i + BATCH_SIZE);
-
-    const { error: upsertError } = await supabase
-      .from('limelight_stats')
-      .upsert(batch, {
-        onConflict: 'date,demand_partner_name,supply_partner_name,publisher,bundle,ad_unit_type,os,country',
-        ignoreDuplicates: false,
-      });
-
-    if (upsertError) {
-      console.error(`[Sync] Upsert error on ${day}:`, upsertError.message);
-      errors++;
-      continue;
-    }
+  if (firstError && accountResults.every((r) => r.error)) throw firstError;
 
-    synced += batch.length;
+  if (!timedOut && extraSets.length > 0) {
+    await supabase
+      .from('dimension_sets')
+      .update({ last_synced_at: new Date().toISOString() })
+      .in('id', extraSets.map((set) => set.id));
   }
 
-  return { synced, errors };
+  // Rebuild the daily rollups for the synced days, then clean up data
+  // outside the retention window
+  if (totalSynced > 0) await refreshDailyRollups(supabase, startDate, endDate);
+  await cleanupOldStats(supabase);
+
+  const days = getDatesBetween(startDate, endDate);
+  return {
+    success: true,
+    rowsSynced: totalSynced,
+    rowsRejected: totalRejected,
+    rejectedByRule,
+    daysProcessed: Math.min(...accountResults.map((r) => ('daysProcessed' in r ? r.daysProcessed : 0))),
+    totalDays: days.length,
+    errors: totalErrors + accountResults.filter((r) => r.error).length,
+    timedOut,
+    durationMs: Date.now() - functionStart,
+    dateRange: { startDate, endDate },
+    accounts: accountResults,
+  };
 }
 
-async function performSync(startDate: string, endDate: string) {
-  const supabase = createServiceClient();
-  const functionStart = Date.now();
+async function syncAccount(
+  supabase: ReturnType<typeof createServiceClient>,
+  account: LimelightAccount,
+  extraSets: DimensionSet[],
+  startDate: string,
+  endDate: string,
+  functionStart: number
+) {
+  const budget = createRequestBudget({ deadline: functionStart + SAFE_TIMEOUT_MS });
 
   // Log sync start
   const { data: syncLog } = await supabase
     .from('sync_logs')
     .insert({
       sync_type: 'limelight',
+      account: account.slug,
       start_date: startDate,
       end_date: endDate,
       status: 'running',
@@ -145,15 +222,25 @@ async function performSync(startDate: string, endDate: string) {
     .select()
     .single();
 
+  // Per-set outcome for the Sync page; a set the run never reached stays 'skipped'
+  const days = getDatesBetween(startDate, endDate);
+  const setResults: Record<string, SyncSetResult> = {};
+  for (const setKey of [CORE_DIMENSION_SET_KEY, ...extraSets.map((set) => set.set_key)]) {
+    setResults[setKey] = { status: 'skipped', rowsSynced: 0, daysSynced: 0, daysTotal: days.length, emptyDays: 0, errors: 0, error: null };
+  }
+  let currentSet = CORE_DIMENSION_SET_KEY;
+
   try {
     // Process day-by-day to avoid timeouts from large dimension data
-    const days = getDatesBetween(startDate, endDate);
-    console.log(`[Sync] Starting: ${startDate} to ${endDate} (${days.length} days)`);
+    console.log(`[Sync] Starting ${account.slug}: ${startDate} to ${endDate} (${days.length} days)`);
 
     let totalSynced = 0;
     let totalErrors = 0;
+    let totalRejected = 0;
+    const rejectedByRule: RejectionSummary = {};
     let daysProcessed = 0;
     let timedOut = false;
+    const options = { budget, syncLogId: syncLog?.id ?? null, account };
 
     // Phase 1: Sync core dimensions (DATE, DEMAND, PUBLISHER)
     console.log(`[Sync] Phase 1: Core dimensions (${SYNC_DIMENSIONS.join(', ')})`);
@@ -165,48 +252,43 @@ async function performSync(startDate: string, endDate: string) {
       }
 
       console.log(`[Sync] Processing ${day} (core)...`);
-      const result = await syncSingleDay(supabase, day, SYNC_DIMENSIONS);
+      const result = await syncSingleDay(supabase, day, SYNC_DIMENSIONS, options);
       totalSynced += result.synced;
       totalErrors += result.errors;
+      totalRejected += result.rejected;
+      mergeRejectionSummaries(rejectedByRule, result.rejectedByRule);
+      recordSetDay(setResults[CORE_DIMENSION_SET_KEY], result);
       daysProcessed++;
-      console.log(`[Sync] ${day} (core): ${result.synced} rows synced`);
+      console.log(`[Sync] ${day} (core): ${result.empty ? 'no rows returned' : `${result.synced} rows synced`}`);
     }
 
-    // Phase 2: Sync extra dimension sets (BUNDLE, SIZE, etc.) for pre-caching
+    // Phase 2: Sync the registered extra dimension sets, each into its own rollup table
     if (!timedOut) {
-      for (const dimSet of EXTRA_SYNC_DIMENSION_SETS) {
-        console.log(`[Sync] Phase 2: Extra dimensions (${dimSet.join(', ')})`);
+      for (const dimSet of extraSets) {
+        currentSet = dimSet.set_key;
+        console.log(`[Sync] Phase 2: ${dimSet.label} (${dimSet.set_key} -> ${dimSet.table_name})`);
         for (const day of days) {
           if (Date.now() - functionStart > SAFE_TIMEOUT_MS) {
-            console.warn(`[Sync] Approaching timeout during extra sync (${dimSet.join(',')}). Stopping gracefully.`);
+            console.warn(`[Sync] Approaching timeout during extra sync (${dimSet.set_key}). Stopping gracefully.`);
             timedOut = true;
             break;
           }
 
-          console.log(`[Sync] Processing ${day} (${dimSet.join(',')})...`);
-          const result = await syncSingleDay(supabase, day, dimSet);
+          console.log(`[Sync] Processing ${day} (${dimSet.set_key})...`);
+          const result = await syncSingleDay(supabase, day, dimSet.dimensions, { ...options, dimensionSet: dimSet });
           totalSynced += result.synced;
           totalErrors += result.errors;
-          console.log(`[Sync] ${day} (${dimSet.join(',')}): ${result.synced} rows synced`);
+          totalRejected += result.rejected;
+          mergeRejectionSummaries(rejectedByRule, result.rejectedByRule);
+          recordSetDay(setResults[dimSet.set_key], result);
+          console.log(`[Sync] ${day} (${dimSet.set_key}): ${result.empty ? 'no rows returned' : `${result.synced} rows synced`}`);
         }
         if (timedOut) break;
       }
     }
 
-    // Phase 3: Clean up data older than 30 days
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - 30);
-    const cutoff = cutoffDate.toISOString().split('T')[0];
-    const { count: deletedCount } = await supabase
-      .from('limelight_stats')
-      .delete({ count: 'exact' })
-      .lt('date', cutoff);
-    if (deletedCount && deletedCount > 0) {
-      console.log(`[Sync] Cleaned up ${deletedCount} rows older than ${cutoff}`);
-    }
-
     const durationMs = Date.now() - functionStart;
-    console.log(`[Sync] Done: ${totalSynced} rows synced, ${totalErrors} errors, ${daysProcessed}/${days.length} core days in ${durationMs}ms`);
+    console.log(`[Sync] Done ${account.slug}: ${totalSynced} rows synced, ${totalRejected} rejected, ${totalErrors} errors, ${daysProcessed}/${days.length} core days in ${durationMs}ms`);
 
     // Update sync log
     if (syncLog) {
@@ -214,6 +296,9 @@ async function performSync(startDate: string, endDate: string) {
         .from('sync_logs')
         .update({
           rows_synced: totalSynced,
+          rows_rejected: totalRejected,
+          rejection_summary: rejectedByRule,
+          set_results: setResults,
           status: 'completed',
           error_message: timedOut
             ? `Processed ${daysProcessed}/${days.length} days before timeout. Extra dimensions may be partial. Re-run to continue.`
@@ -223,19 +308,24 @@ async function performSync(startDate: string, endDate: string) {
         .eq('id', syncLog.id);
     }
 
+    // No-op for the env account, which has no stored row
+    await supabase
+      .from('limelight_accounts')
+      .update({ last_synced_at: new Date().toISOString() })
+      .eq('slug', account.slug);
+
     return {
-      success: true,
       rowsSynced: totalSynced,
+      rowsRejected: totalRejected,
+      rejectedByRule,
       daysProcessed,
-      totalDays: days.length,
       errors: totalErrors,
       timedOut,
-      durationMs,
-      dateRange: { startDate, endDate },
     };
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    console.error('[Sync] Fatal error:', message);
+    const errorClass = classifyError(error);
+    console.error(`[Sync] Fatal error for ${account.slug} (${errorClass}):`, message);
 
     if (syncLog) {
       await supabase
@@ -243,6 +333,11 @@ async function performSync(startDate: string, endDate: string) {
         .update({
           status: 'failed',
           error_message: message,
+          error_class: errorClass,
+          set_results: {
+            ...setResults,
+            [currentSet]: { ...setResults[currentSet], status: 'failed', error: message },
+          },
           completed_at: new Date().toISOString(),
         })
         .eq('id', syncLog.id);
@@ -251,3 +346,17 @@ async function performSync(startDate: string, endDate: string) {
     throw error;
   }
 }
+
+/**
+ * Fold one synced day into a set's result. A set is 'done' once every day
+ * synced without batch errors ('empty' if none of them had rows) and
+ * 'partial' until then.
+ */
+function recordSetDay(setResult: SyncSetResult, day: { synced: number; errors: number; empty: boolean }) {
+  setResult.rowsSynced += day.synced;
+  setResult.errors += day.errors;
+  setResult.daysSynced++;
+  if (day.empty) setResult.emptyDays = (setResult.emptyDays || 0) + 1;
+  if (setResult.daysSynced < setResult.daysTotal || setResult.errors > 0) setResult.status = 'partial';
+  else setResult.status = setResult.emptyDays === setResult.daysTotal ? 'empty' : 'done';
+}
@@ -0,0 +1,21 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { getSyncRuns } from '@/lib/limelight/monitoring';
+
+// GET - Sync run history (every sync_logs type), newest first, paged
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const limitParam = Number(params.get('limit') || '25');
+    const offsetParam = Number(params.get('offset') || '0');
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 100) : 25;
+    const offset = Number.isFinite(offsetParam) ? Math.max(offsetParam, 0) : 0;
+
+    const { runs, total } = await getSyncRuns(createServiceClient(), { limit, offset, syncType: params.get('type') });
+    return NextResponse.json({ runs, total, limit, offset });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load sync runs';
+    console.error('Sync runs GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { listStatsSources } from '@/lib/sources';
+import { listLimelightAccountLabels } from '@/lib/limelight/accounts';
+import { LIMELIGHT_SOURCE_ID } from '@/lib/limelight/transformer';
+
+// GET - Registered stats sources (for the source scope picker)
+// Limelight lists its accounts when there is more than one, since only
+// then are per-account caches computed (see refreshAllCaches)
+export async function GET() {
+  try {
+    const accounts = await listLimelightAccountLabels(createServiceClient());
+    const sources = listStatsSources().map((s) =>
+      s.id === LIMELIGHT_SOURCE_ID && accounts.length > 1 ? { ...s, accounts } : s
+    );
+    return NextResponse.json({ sources });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to list sources';
+    console.error('Sources GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
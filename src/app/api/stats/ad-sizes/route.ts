@@ -1,21 +1,33 @@
-import { readCache } from '@/lib/cache/compute';
+import { AD_SIZE_SORT_FIELDS, AD_SIZE_TABLE, getStatsCache, parseStatsRange, rangeDays } from '@/lib/cache/compute';
+import { parseCompareMode } from '@/lib/cache/compare';
+import { pageTable, parseTableQuery } from '@/lib/cache/table';
+import { parseSourceScope } from '@/lib/sources';
 import { NextRequest, NextResponse } from 'next/server';
 
+// GET - ?period=7|14|30 from the refreshed caches, or a custom ?startDate=&endDate=;
+// ?compare=previous|month|year adds deltas against that window.
+// ?search=&minImpressions=&minRevenue=&sort=&order=&limit=&offset= page the
+// full size list; longTail totals the filtered sizes outside the page.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const period = parseInt(searchParams.get('period') || '7', 10);
-    const days = [7, 14, 30].includes(period) ? period : 7;
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
+    const query = parseTableQuery(searchParams, AD_SIZE_SORT_FIELDS);
 
-    if (days === 7) {
-      const cached = await readCache('ad_sizes_7');
-      if (cached) {
-        return NextResponse.json(cached);
-      }
+    const cached = await getStatsCache(
+      'ad_sizes', range, parseSourceScope(searchParams.get('source')), parseCompareMode(searchParams.get('compare'))
+    );
+    if (cached) {
+      const { rows, page, longTail } = pageTable(cached.sizes, query, AD_SIZE_TABLE);
+      return NextResponse.json({ ...cached, sizes: rows, page, longTail });
     }
 
+    const days = rangeDays(range);
     return NextResponse.json({
       period: days, totalSizes: 0, totalRevenue: 0, totalImpressions: 0, avgECPM: 0, sizes: [],
+      page: { totalRows: 0, limit: query.limit, offset: query.offset },
+      longTail: null,
     });
   } catch (error) {
     console.error('[Ad Sizes] API error:', error);
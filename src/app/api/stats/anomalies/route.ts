@@ -0,0 +1,28 @@
+import { getDailyAnomalies } from '@/lib/anomalies/daily';
+import { addDays } from '@/lib/anomalies/model';
+import type { AnomalyDimension } from '@/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DIMENSIONS: AnomalyDimension[] = ['demand_partner', 'publisher', 'bundle'];
+
+// GET - ?date=YYYY-MM-DD (default yesterday)&dimension=demand_partner|publisher|bundle:
+// the anomalies saved for that day, worst first, each with its expected
+// value, usual range and explanation
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || addDays(new Date().toISOString().split('T')[0], -1);
+    if (!ISO_DATE.test(date)) return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+    const dimension = searchParams.get('dimension');
+    if (dimension && !DIMENSIONS.includes(dimension as AnomalyDimension)) {
+      return NextResponse.json({ error: `dimension must be one of ${DIMENSIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const anomalies = await getDailyAnomalies(date, (dimension as AnomalyDimension) || undefined);
+    return NextResponse.json({ date, anomalies });
+  } catch (error) {
+    console.error('Anomalies API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,26 +1,35 @@
-import { readCache } from '@/lib/cache/compute';
+import { BUNDLE_SORT_FIELDS, BUNDLE_TABLE, getStatsCache, parseStatsRange, rangeDays } from '@/lib/cache/compute';
+import { parseCompareMode } from '@/lib/cache/compare';
+import { pageTable, parseTableQuery } from '@/lib/cache/table';
+import { parseSourceScope } from '@/lib/sources';
 import { NextRequest, NextResponse } from 'next/server';
 
+// GET - ?period=7|14|30 from the refreshed caches, or a custom ?startDate=&endDate=;
+// ?compare=previous|month|year adds deltas against that window.
+// ?search=&minImpressions=&minRevenue=&sort=&order=&limit=&offset= page the
+// full bundle list; longTail totals the filtered bundles outside the page.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const periodParam = searchParams.get('period');
-    const period = periodParam ? parseInt(periodParam, 10) : 7;
-    const safePeriod = [7, 14, 30].includes(period) ? period : 7;
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
+    const query = parseTableQuery(searchParams, BUNDLE_SORT_FIELDS);
 
-    // For default 7-day period, use cache
-    if (safePeriod === 7) {
-      const cached = await readCache('bundles_7');
-      if (cached) {
-        return NextResponse.json(cached);
-      }
+    const cached = await getStatsCache(
+      'bundles', range, parseSourceScope(searchParams.get('source')), parseCompareMode(searchParams.get('compare'))
+    );
+    if (cached) {
+      const { rows, page, longTail } = pageTable(cached.bundles, query, BUNDLE_TABLE);
+      return NextResponse.json({ ...cached, bundles: rows, page, longTail });
     }
 
-    // No cache - return empty state
+    const days = rangeDays(range);
     return NextResponse.json({
       bundles: [],
       summary: { totalBundles: 0, totalRevenue: 0, totalImpressions: 0, avgECPM: 0, overallFillRate: 0 },
-      period: safePeriod,
+      period: days,
+      page: { totalRows: 0, limit: query.limit, offset: query.offset },
+      longTail: null,
     });
   } catch (error) {
     console.error('[Bundles API] Error:', error);
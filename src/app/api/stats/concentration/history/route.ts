@@ -0,0 +1,22 @@
+import { getConcentrationHistory } from '@/lib/concentration/history';
+import { NextRequest, NextResponse } from 'next/server';
+
+const DEFAULT_HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 730;
+
+// GET - ?days=90: daily HHI, top-N share and Gini of demand partners and
+// publishers across all sources
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '', 10) || DEFAULT_HISTORY_DAYS, 1), MAX_HISTORY_DAYS);
+    const start = new Date();
+    start.setDate(start.getDate() - days);
+
+    const history = await getConcentrationHistory(start.toISOString().split('T')[0]);
+    return NextResponse.json({ days, ...history });
+  } catch (error) {
+    console.error('Revenue Concentration history API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
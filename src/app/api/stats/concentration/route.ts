@@ -1,19 +1,24 @@
-import { readCache } from '@/lib/cache/compute';
+import { getStatsCache, parseStatsRange } from '@/lib/cache/compute';
+import { parseCompareMode } from '@/lib/cache/compare';
+import { parseSourceScope } from '@/lib/sources';
 import { NextRequest, NextResponse } from 'next/server';
 
+// GET - ?period=7|14|30 from the refreshed caches, or a custom ?startDate=&endDate=;
+// ?compare=previous|month|year adds deltas against that window
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const period = Number(searchParams.get('period') || '7');
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
 
-    if (period === 7 || ![7, 14, 30].includes(period)) {
-      const cached = await readCache('concentration_7');
-      if (cached) return NextResponse.json(cached);
-    }
+    const cached = await getStatsCache(
+      'concentration', range, parseSourceScope(searchParams.get('source')), parseCompareMode(searchParams.get('compare'))
+    );
+    if (cached) return NextResponse.json(cached);
 
     return NextResponse.json({
-      demand: { hhi: 0, top5Share: 0, top10Share: 0, risk: 'low', count: 0, distribution: [] },
-      publisher: { hhi: 0, top5Share: 0, top10Share: 0, risk: 'low', count: 0, distribution: [] },
+      demand: { hhi: 0, top5Share: 0, top10Share: 0, gini: 0, risk: 'low', count: 0, distribution: [], lorenz: [] },
+      publisher: { hhi: 0, top5Share: 0, top10Share: 0, gini: 0, risk: 'low', count: 0, distribution: [], lorenz: [] },
       overallRisk: 'low', totalRevenue: 0,
     });
   } catch (error) {
@@ -0,0 +1,61 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { parseSourceScope, splitSourceScope } from '@/lib/sources';
+import { getDateRange } from '@/lib/limelight/client';
+import { CACHED_PERIODS } from '@/lib/cache/compute';
+import { simulateChurn } from '@/lib/concentration/simulate';
+import type { EntityRef } from '@/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_REMOVED = 50;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseEntities(value: any): EntityRef[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_REMOVED) return null;
+  const entities: EntityRef[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry.name !== 'string' || !entry.name) return null;
+    const id = entry.id === null || entry.id === undefined ? null : Number(entry.id);
+    if (id !== null && !Number.isInteger(id)) return null;
+    entities.push({ id, name: entry.name });
+  }
+  return entities;
+}
+
+// POST - Churn "what-if": projected revenue and concentration without the
+// given demand partners and/or publishers
+// Body: { demandPartners?: EntityRef[], publishers?: EntityRef[], period?, startDate?, endDate?, source? }
+// Without explicit dates the window is the period (7, 14 or 30 days), ending yesterday.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const demandPartners = parseEntities(body.demandPartners);
+    const publishers = parseEntities(body.publishers);
+    if (!demandPartners || !publishers) {
+      return NextResponse.json(
+        { error: `demandPartners and publishers must be lists of up to ${MAX_REMOVED} { id, name } entries` },
+        { status: 400 }
+      );
+    }
+    if (demandPartners.length === 0 && publishers.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one demand partner or publisher to remove' }, { status: 400 });
+    }
+
+    let { startDate, endDate } = getDateRange(CACHED_PERIODS.includes(body.period) ? body.period : 7);
+    if (body.startDate !== undefined || body.endDate !== undefined) {
+      if (!ISO_DATE.test(String(body.startDate)) || !ISO_DATE.test(String(body.endDate)) || body.startDate > body.endDate) {
+        return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD with startDate <= endDate' }, { status: 400 });
+      }
+      startDate = body.startDate;
+      endDate = body.endDate;
+    }
+
+    const { source, account } = splitSourceScope(parseSourceScope(body.source ?? null));
+    const result = await simulateChurn(createServiceClient(), { startDate, endDate, source, account, demandPartners, publishers });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Churn simulation API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,9 +1,19 @@
-import { readCache } from '@/lib/cache/compute';
-import { NextResponse } from 'next/server';
+import { getStatsCache, parseStatsRange } from '@/lib/cache/compute';
+import { parseCompareMode } from '@/lib/cache/compare';
+import { parseSourceScope } from '@/lib/sources';
+import { NextRequest, NextResponse } from 'next/server';
 
-export async function GET() {
+// GET - Last 7 days by default; accepts the same period, range and compare
+// parameters as the other stats endpoints
+export async function GET(request: NextRequest) {
   try {
-    const cached = await readCache('dashboard');
+    const { searchParams } = request.nextUrl;
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
+
+    const cached = await getStatsCache(
+      'dashboard', range, parseSourceScope(searchParams.get('source')), parseCompareMode(searchParams.get('compare'))
+    );
     if (cached) {
       return NextResponse.json(cached);
     }
@@ -1,19 +1,24 @@
-import { readCache } from '@/lib/cache/compute';
+import { getStatsCache, parseStatsRange, rangeDays } from '@/lib/cache/compute';
+import { parseCompareMode } from '@/lib/cache/compare';
+import { parseSourceScope } from '@/lib/sources';
 import { NextRequest, NextResponse } from 'next/server';
 
+// GET - ?period=7|14|30 from the refreshed caches, or a custom ?startDate=&endDate=;
+// ?compare=previous|month|year adds deltas against that window
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const period = parseInt(searchParams.get('period') || '7', 10);
-    const days = [7, 14, 30].includes(period) ? period : 7;
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
 
-    if (days === 7) {
-      const cached = await readCache('filters_7');
-      if (cached) return NextResponse.json(cached);
-    }
+    const cached = await getStatsCache(
+      'filters', range, parseSourceScope(searchParams.get('source')), parseCompareMode(searchParams.get('compare'))
+    );
+    if (cached) return NextResponse.json(cached);
 
+    const days = rangeDays(range);
     return NextResponse.json({
-      summary: { totalBidRequests: 0, totalBids: 0, totalWins: 0, totalImpressions: 0, totalTimeouts: 0, totalErrors: 0, totalLostBids: 0, estimatedLostRevenue: 0, overallLossRate: 0, averageEcpm: 0 },
+      summary: { totalBidRequests: 0, totalBids: 0, totalWins: 0, totalImpressions: 0, totalTimeouts: 0, totalErrors: 0, totalLostBids: 0, estimatedLostRevenue: 0, estimatedLostRevenueRange: { low: 0, expected: 0, high: 0 }, overallLossRate: 0, averageEcpm: 0 },
       partners: [], highBidLowWin: [], highTimeouts: [], period: days,
     });
   } catch (error) {
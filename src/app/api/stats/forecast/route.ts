@@ -0,0 +1,22 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { MAX_FORECAST_HORIZON, MIN_FORECAST_HORIZON, addDays } from '@/lib/forecast/model';
+import { buildRevenueForecast } from '@/lib/forecast/revenue';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET - ?horizon=7..30 (default 14): daily revenue, impression and eCPM
+// forecasts from yesterday on for the network and the top demand partners
+// and publishers, with bands, backtest accuracy and month-end landing
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requested = Number(searchParams.get('horizon') || 14);
+    const horizon = Math.min(Math.max(Number.isFinite(requested) ? Math.round(requested) : 14, MIN_FORECAST_HORIZON), MAX_FORECAST_HORIZON);
+    const lastDate = addDays(new Date().toISOString().split('T')[0], -1);
+
+    const forecast = await buildRevenueForecast(createServiceClient(), lastDate, horizon);
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('Forecast API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
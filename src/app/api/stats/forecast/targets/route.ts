@@ -0,0 +1,119 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { TARGETS_TABLE } from '@/lib/forecast/revenue';
+import type { ForecastScope, RevenueTarget } from '@/types';
+
+const MONTH = /^\d{4}-\d{2}-01$/;
+const SCOPES: ForecastScope[] = ['network', 'demand_partner', 'publisher'];
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toTarget(row: Record<string, any>): RevenueTarget {
+  return {
+    id: row.id,
+    month: row.month,
+    scope: row.scope,
+    entityId: Number(row.entity_id) || null,
+    entity: row.entity,
+    target: Number(row.target),
+  };
+}
+
+// GET - Revenue targets, optionally for one month (?month=YYYY-MM-01)
+export async function GET(request: NextRequest) {
+  try {
+    const month = request.nextUrl.searchParams.get('month');
+    let query = createServiceClient()
+      .from(TARGETS_TABLE)
+      .select('*')
+      .order('month', { ascending: false })
+      .order('scope', { ascending: true })
+      .order('entity', { ascending: true });
+    if (month) query = query.eq('month', month);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ targets: (data || []).map(toTarget) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load revenue targets';
+    console.error('Revenue targets GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST - Set a month's target for the network or an entity (overwrites
+// the existing one). Signed-in users only.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json().catch(() => ({}));
+    const month = typeof body.month === 'string' ? body.month : '';
+    if (!MONTH.test(month)) {
+      return NextResponse.json({ error: 'month must be YYYY-MM-01' }, { status: 400 });
+    }
+    const scope = body.scope as ForecastScope;
+    if (!SCOPES.includes(scope)) {
+      return NextResponse.json({ error: `scope must be one of ${SCOPES.join(', ')}` }, { status: 400 });
+    }
+    const entity = scope === 'network' ? '' : typeof body.entity === 'string' ? body.entity.trim() : '';
+    if (scope !== 'network' && !entity) {
+      return NextResponse.json({ error: 'entity is required' }, { status: 400 });
+    }
+    const entityId = scope === 'network' ? 0 : Number(body.entityId) || 0;
+    const target = Number(body.target);
+    if (!Number.isFinite(target) || target < 0) {
+      return NextResponse.json({ error: 'target must be a non-negative number' }, { status: 400 });
+    }
+
+    const { data, error } = await createServiceClient()
+      .from(TARGETS_TABLE)
+      .upsert(
+        {
+          month,
+          scope,
+          entity_id: entityId,
+          entity,
+          target,
+          created_by: user.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'month,scope,entity_id,entity' }
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ target: toTarget(data) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to save revenue target';
+    console.error('Revenue targets POST error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a target (?id=). Signed-in users only.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const id = Number(request.nextUrl.searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const { error } = await createServiceClient()
+      .from(TARGETS_TABLE)
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to delete revenue target';
+    console.error('Revenue targets DELETE error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
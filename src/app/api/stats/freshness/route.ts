@@ -0,0 +1,15 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { getDataFreshness } from '@/lib/limelight/monitoring';
+import { NextResponse } from 'next/server';
+
+// GET - Latest synced day and cache refresh time, flagged when either is
+// older than the daily cron jobs should have left them
+export async function GET() {
+  try {
+    const freshness = await getDataFreshness(createServiceClient());
+    return NextResponse.json(freshness);
+  } catch (error) {
+    console.error('Freshness API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { parseSourceScope, splitSourceScope } from '@/lib/sources';
+import { lastCompleteHour, sameDayLastWeek } from '@/lib/limelight/hourly';
+import { NextRequest, NextResponse } from 'next/server';
+import type { IntradayHour, IntradayStats } from '@/types';
+
+interface HourlyTotalsRow {
+  date: string;
+  hour: number;
+  impressions: number | null;
+  revenue: number | null;
+}
+
+function calcChange(current: number, previous: number): number {
+  if (previous === 0) return 0;
+  return Math.round(((current - previous) / previous) * 10000) / 100;
+}
+
+function ecpm(revenue: number, impressions: number): number {
+  return impressions > 0 ? Math.round((revenue / impressions) * 1000 * 100) / 100 : 0;
+}
+
+// GET - Today so far (UTC) vs the same weekday last week, read live from
+// limelight_stats_hourly. Empty until the hourly sync has run.
+export async function GET(request: NextRequest) {
+  try {
+    const scope = parseSourceScope(request.nextUrl.searchParams.get('source'));
+    const { source, account } = splitSourceScope(scope);
+
+    const now = new Date();
+    const date = now.toISOString().split('T')[0];
+    const compareDate = sameDayLastWeek(date);
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('agg_hourly_totals', {
+      p_dates: [date, compareDate],
+      p_source: source,
+      p_account: account,
+    });
+    if (error) throw error;
+
+    const today = new Map<number, HourlyTotalsRow>();
+    const lastWeek = new Map<number, HourlyTotalsRow>();
+    for (const row of (data || []) as HourlyTotalsRow[]) {
+      (row.date === date ? today : lastWeek).set(Number(row.hour), row);
+    }
+
+    const latestHour = today.size > 0 ? Math.max(...today.keys()) : null;
+    const complete = lastCompleteHour(date, now);
+    // Compare whole hours only, so a half-filled hour does not read as a drop
+    const throughHour = latestHour !== null && complete !== null ? Math.min(latestHour, complete) : null;
+
+    const hours: IntradayHour[] = [];
+    const totals = { revenue: 0, impressions: 0, lastWeekRevenue: 0, lastWeekImpressions: 0 };
+    for (let hour = 0; hour < 24; hour++) {
+      const current = today.get(hour);
+      const previous = lastWeek.get(hour);
+      const hasData = latestHour !== null && hour <= latestHour;
+      const entry: IntradayHour = {
+        hour,
+        label: `${String(hour).padStart(2, '0')}:00`,
+        revenue: hasData ? Number(current?.revenue || 0) : null,
+        impressions: hasData ? Number(current?.impressions || 0) : null,
+        lastWeekRevenue: Number(previous?.revenue || 0),
+        lastWeekImpressions: Number(previous?.impressions || 0),
+      };
+      hours.push(entry);
+
+      if (throughHour !== null && hour <= throughHour) {
+        totals.revenue += entry.revenue || 0;
+        totals.impressions += entry.impressions || 0;
+        totals.lastWeekRevenue += entry.lastWeekRevenue;
+        totals.lastWeekImpressions += entry.lastWeekImpressions;
+      }
+    }
+
+    const currentEcpm = ecpm(totals.revenue, totals.impressions);
+    const lastWeekEcpm = ecpm(totals.lastWeekRevenue, totals.lastWeekImpressions);
+
+    const result: IntradayStats = {
+      date,
+      compareDate,
+      latestHour,
+      throughHour,
+      hours,
+      totals: {
+        revenue: Math.round(totals.revenue * 100) / 100,
+        impressions: totals.impressions,
+        ecpm: currentEcpm,
+        lastWeekRevenue: Math.round(totals.lastWeekRevenue * 100) / 100,
+        lastWeekImpressions: totals.lastWeekImpressions,
+        lastWeekEcpm,
+        revenueChange: calcChange(totals.revenue, totals.lastWeekRevenue),
+        impressionChange: calcChange(totals.impressions, totals.lastWeekImpressions),
+        ecpmChange: calcChange(currentEcpm, lastWeekEcpm),
+      },
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Intraday API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
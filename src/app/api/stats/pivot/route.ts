@@ -0,0 +1,62 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { parseSourceScope, splitSourceScope } from '@/lib/sources';
+import { getDateRange } from '@/lib/limelight/client';
+import { listDimensionSets } from '@/lib/limelight/dimension-sets';
+import { normalizePivotConfig } from '@/lib/pivot/fields';
+import { PIVOT_DEFAULT_LIMIT, PIVOT_MAX_LIMIT, pivotDimensions, runPivot } from '@/lib/pivot/query';
+import { NextRequest, NextResponse } from 'next/server';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Active dimension sets, so the page can tell which combinations it can pivot on
+export async function GET() {
+  try {
+    const sets = await listDimensionSets(createServiceClient(), true);
+    return NextResponse.json({
+      sets: sets.map((s) => ({ setKey: s.set_key, label: s.label, dimensions: s.dimensions })),
+    });
+  } catch (error) {
+    console.error('Pivot API GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Run a pivot over stored stats
+// Body: { config: PivotConfig, source?, startDate?, endDate?, limit?, offset? }
+// Without explicit dates the range is the config's period, ending yesterday.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { config, errors } = normalizePivotConfig(body.config);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    let { startDate, endDate } = getDateRange(config.period);
+    if (body.startDate !== undefined || body.endDate !== undefined) {
+      if (!ISO_DATE.test(String(body.startDate)) || !ISO_DATE.test(String(body.endDate)) || body.startDate > body.endDate) {
+        return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD with startDate <= endDate' }, { status: 400 });
+      }
+      startDate = body.startDate;
+      endDate = body.endDate;
+    }
+
+    const limit = Number.isInteger(body.limit) ? Math.min(Math.max(body.limit, 1), PIVOT_MAX_LIMIT) : PIVOT_DEFAULT_LIMIT;
+    const offset = Number.isInteger(body.offset) && body.offset > 0 ? body.offset : 0;
+    const { source, account } = splitSourceScope(parseSourceScope(body.source ?? null));
+
+    const query = { ...config, startDate, endDate, source, account, limit, offset };
+    const result = await runPivot(createServiceClient(), query);
+    if (!result) {
+      return NextResponse.json(
+        { error: `No dimension set holds ${pivotDimensions(query).join(', ')}. An admin can register one on the Dimension Sets page.` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Pivot API POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
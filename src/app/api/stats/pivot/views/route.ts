@@ -0,0 +1,80 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { normalizePivotConfig } from '@/lib/pivot/fields';
+
+// GET - Saved pivot views
+export async function GET() {
+  try {
+    const { data, error } = await createServiceClient()
+      .from('pivot_views')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ views: data || [] });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load pivot views';
+    console.error('Pivot views GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST - Save a pivot view (overwrites a view with the same name)
+export async function POST(request: NextRequest) {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const { config, errors } = normalizePivotConfig(body.config);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const { data, error } = await createServiceClient()
+      .from('pivot_views')
+      .upsert(
+        { name, config, created_by: user.id, updated_at: new Date().toISOString() },
+        { onConflict: 'name' }
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ view: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to save pivot view';
+    console.error('Pivot views POST error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a view (?id=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const id = Number(request.nextUrl.searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const { error } = await createServiceClient()
+      .from('pivot_views')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to delete pivot view';
+    console.error('Pivot views DELETE error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { getPublisherQualityHistory } from '@/lib/quality/history';
+import { NextRequest, NextResponse } from 'next/server';
+
+const DEFAULT_HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 730;
+
+// GET - ?publisher=<name>&publisherId=<id>&days=90: saved daily quality
+// scores of one publisher across all sources, with their components
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const publisher = searchParams.get('publisher');
+    if (!publisher) return NextResponse.json({ error: 'publisher is required' }, { status: 400 });
+
+    const idParam = searchParams.get('publisherId');
+    const publisherId = idParam ? Number(idParam) : null;
+    if (publisherId !== null && !Number.isInteger(publisherId)) {
+      return NextResponse.json({ error: 'publisherId must be an integer' }, { status: 400 });
+    }
+
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '', 10) || DEFAULT_HISTORY_DAYS, 1), MAX_HISTORY_DAYS);
+    const start = new Date();
+    start.setDate(start.getDate() - days);
+
+    const history = await getPublisherQualityHistory(publisherId, publisher, start.toISOString().split('T')[0]);
+    return NextResponse.json({ publisher, publisherId, days, history });
+  } catch (error) {
+    console.error('Supply Quality history API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
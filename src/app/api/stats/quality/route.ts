@@ -1,15 +1,20 @@
-import { readCache } from '@/lib/cache/compute';
+import { getStatsCache, parseStatsRange } from '@/lib/cache/compute';
+import { parseCompareMode } from '@/lib/cache/compare';
+import { parseSourceScope } from '@/lib/sources';
 import { NextRequest, NextResponse } from 'next/server';
 
+// GET - ?period=7|14|30 from the refreshed caches, or a custom ?startDate=&endDate=;
+// ?compare=previous|month|year adds deltas against that window
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const period = Number(searchParams.get('period') || '7');
+    const range = parseStatsRange(searchParams);
+    if ('error' in range) return NextResponse.json({ error: range.error }, { status: 400 });
 
-    if (period === 7 || ![7, 14, 30].includes(period)) {
-      const cached = await readCache('quality_7');
-      if (cached) return NextResponse.json(cached);
-    }
+    const cached = await getStatsCache(
+      'quality', range, parseSourceScope(searchParams.get('source')), parseCompareMode(searchParams.get('compare'))
+    );
+    if (cached) return NextResponse.json(cached);
 
     return NextResponse.json({ summary: { avgQualityScore: 0, totalPublishers: 0, highQuality: 0, lowQuality: 0 }, publishers: [] });
   } catch (error) {
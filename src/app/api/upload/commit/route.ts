@@ -0,0 +1,86 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { parseUploadFile, readUploadForm, UploadFormError, UPLOAD_SYNC_TYPE } from '@/lib/upload/parse';
+import { applyMapping, validateMapping } from '@/lib/upload/mapping';
+import { upsertStatsRows } from '@/lib/limelight/sync';
+import { refreshDailyRollups } from '@/lib/limelight/rollups';
+import { refreshCachesAfterSync } from '@/lib/cache/compute';
+
+export const maxDuration = 300;
+
+// POST - Import the valid rows of an uploaded report into limelight_stats.
+// Rows are upserted on the same key as the sync; invalid rows are skipped.
+// Signed-in users only: the rows go in through the service client.
+export async function POST(request: NextRequest) {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { file, source, mapping } = readUploadForm(await request.formData());
+    if (!mapping) throw new UploadFormError('mapping is required');
+
+    const { headers, records } = await parseUploadFile(file);
+    const mappingProblems = validateMapping(mapping, headers);
+    if (mappingProblems.length > 0) throw new UploadFormError(mappingProblems.join('; '));
+
+    const mapped = applyMapping(records, mapping, source);
+    if (mapped.rows.length === 0) {
+      return NextResponse.json({ error: 'No valid rows to import', errors: mapped.errors }, { status: 400 });
+    }
+
+    const supabase = createServiceClient();
+    const { data: syncLog } = await supabase
+      .from('sync_logs')
+      .insert({
+        sync_type: UPLOAD_SYNC_TYPE,
+        start_date: mapped.dateRange?.startDate,
+        end_date: mapped.dateRange?.endDate,
+        file_name: file.name,
+        status: 'running',
+      })
+      .select()
+      .single();
+
+    const result = await upsertStatsRows(supabase, mapped.rows, `upload ${file.name}`);
+    if (result.synced > 0 && mapped.dateRange) {
+      await refreshDailyRollups(supabase, mapped.dateRange.startDate, mapped.dateRange.endDate);
+    }
+
+    const notes = [
+      mapped.invalidRows > 0 ? `${mapped.invalidRows} invalid row(s) skipped` : null,
+      result.errors > 0 ? `${result.errors} batch(es) had errors` : null,
+    ].filter(Boolean);
+
+    if (syncLog) {
+      await supabase
+        .from('sync_logs')
+        .update({
+          rows_synced: result.synced,
+          status: result.synced === 0 ? 'failed' : 'completed',
+          error_message: notes.length > 0 ? notes.join(', ') : null,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', syncLog.id);
+    }
+
+    console.log(`[Upload] ${file.name} (${source}): ${result.synced} rows imported, ${mapped.invalidRows} invalid`);
+    if (result.synced > 0) refreshCachesAfterSync(`upload ${file.name}`);
+
+    return NextResponse.json({
+      success: result.errors === 0,
+      syncLogId: syncLog?.id ?? null,
+      rowsSynced: result.synced,
+      batchErrors: result.errors,
+      invalidRows: mapped.invalidRows,
+      mergedDuplicates: mapped.mergedDuplicates,
+      dateRange: mapped.dateRange,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Import failed';
+    if (error instanceof UploadFormError) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    console.error('Upload commit error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
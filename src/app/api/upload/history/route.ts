@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { UPLOAD_SYNC_TYPE } from '@/lib/upload/parse';
+
+// GET - Recent manual imports (sync_logs rows with sync_type = 'upload')
+export async function GET() {
+  try {
+    const { data, error } = await createServiceClient()
+      .from('sync_logs')
+      .select('*')
+      .eq('sync_type', UPLOAD_SYNC_TYPE)
+      .order('started_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ uploads: data || [] });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load upload history';
+    console.error('Upload history GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse, NextRequest } from 'next/server';
+import type { UploadPreview } from '@/types';
+import { parseUploadFile, readUploadForm, UploadFormError } from '@/lib/upload/parse';
+import { applyMapping, suggestMapping, validateMapping } from '@/lib/upload/mapping';
+import { UPLOAD_FIELDS } from '@/lib/upload/fields';
+
+const SAMPLE_ROWS = 20;
+
+// POST - Parse an uploaded report and validate it against a column mapping.
+// Without a mapping, one is suggested from the headers.
+export async function POST(request: NextRequest) {
+  try {
+    const { file, source, mapping: requested } = readUploadForm(await request.formData());
+    const { headers, records } = await parseUploadFile(file);
+
+    if (records.length === 0) {
+      return NextResponse.json({ error: 'The file has no data rows' }, { status: 400 });
+    }
+
+    const mapping = requested || suggestMapping(headers);
+    const mappingProblems = validateMapping(mapping, headers);
+    const mapped = mappingProblems.length === 0 ? applyMapping(records, mapping, source) : null;
+
+    const preview: UploadPreview = {
+      fileName: file.name,
+      headers,
+      mapping,
+      totalRows: records.length,
+      validRows: mapped ? mapped.rows.length : 0,
+      invalidRows: mapped ? mapped.invalidRows : 0,
+      mergedDuplicates: mapped ? mapped.mergedDuplicates : 0,
+      dateRange: mapped ? mapped.dateRange : null,
+      sample: mapped
+        ? mapped.rows.slice(0, SAMPLE_ROWS).map((row) => ({
+            source: row.source,
+            ...Object.fromEntries(UPLOAD_FIELDS.map((f) => [f.field, row[f.field]])),
+          }))
+        : records.slice(0, SAMPLE_ROWS),
+      errors: mapped
+        ? mapped.errors
+        : mappingProblems.map((message) => ({ row: 0, message })),
+    };
+
+    return NextResponse.json(preview);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to read file';
+    if (error instanceof UploadFormError) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    console.error('Upload preview error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { listStatsSources } from '@/lib/sources';
+import { UPLOAD_FIELDS } from '@/lib/upload/fields';
+
+// GET - Saved column mapping templates
+export async function GET() {
+  try {
+    const { data, error } = await createServiceClient()
+      .from('upload_mapping_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ templates: data || [] });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load templates';
+    console.error('Upload templates GET error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST - Save a mapping template (overwrites a template with the same name)
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const source = typeof body.source === 'string' ? body.source : '';
+    const mapping = body.mapping && typeof body.mapping === 'object' ? body.mapping : null;
+
+    if (!name || !mapping) {
+      return NextResponse.json({ error: 'name and mapping are required' }, { status: 400 });
+    }
+    if (!listStatsSources().some((s) => s.id === source)) {
+      return NextResponse.json({ error: `Unknown source "${source}"` }, { status: 400 });
+    }
+
+    // Keep only known fields with string headers
+    const cleanMapping = Object.fromEntries(
+      UPLOAD_FIELDS
+        .filter((f) => typeof mapping[f.field] === 'string' && mapping[f.field])
+        .map((f) => [f.field, mapping[f.field]])
+    );
+
+    const { data, error } = await createServiceClient()
+      .from('upload_mapping_templates')
+      .upsert(
+        { name, source, mapping: cleanMapping, created_by: user.id, updated_at: new Date().toISOString() },
+        { onConflict: 'name' }
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ template: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to save template';
+    console.error('Upload templates POST error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a template (?id=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const id = Number(request.nextUrl.searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const { error } = await createServiceClient()
+      .from('upload_mapping_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to delete template';
+    console.error('Upload templates DELETE error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
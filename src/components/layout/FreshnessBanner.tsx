@@ -0,0 +1,53 @@
+'use client';
+
+import { Alert, Button } from '@mui/material';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { DataFreshness } from '@/types';
+
+// Warns on every dashboard page when the stored stats or the dashboard
+// caches are behind what the daily cron jobs should have produced
+export default function FreshnessBanner() {
+  const { data } = useQuery<DataFreshness>({
+    queryKey: ['data-freshness'],
+    queryFn: async () => {
+      const res = await fetch('/api/stats/freshness');
+      if (!res.ok) throw new Error('Failed to fetch data freshness');
+      return res.json();
+    },
+    refetchInterval: 5 * 60_000,
+  });
+
+  if (!data || (!data.statsStale && !data.cacheStale)) return null;
+
+  const problems: string[] = [];
+  if (data.statsStale) {
+    problems.push(
+      data.latestDate
+        ? `Stats are synced through ${data.latestDate}, expected ${data.expectedDate}.`
+        : 'No Limelight stats have been synced yet.'
+    );
+  }
+  if (data.cacheStale) {
+    problems.push(
+      data.cacheUpdatedAt
+        ? `Dashboard caches were last refreshed ${format(new Date(data.cacheUpdatedAt), 'MMM d, HH:mm')}.`
+        : 'Dashboard caches have never been refreshed.'
+    );
+  }
+
+  return (
+    <Alert
+      severity="warning"
+      sx={{ mb: 2 }}
+      action={
+        <Button component={Link} href="/sync" color="inherit" size="small">
+          Sync Status
+        </Button>
+      }
+    >
+      Data may be out of date. {problems.join(' ')}
+    </Alert>
+  );
+}
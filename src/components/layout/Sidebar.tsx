@@ -28,6 +28,14 @@ import PieChartIcon from '@mui/icons-material/PieChart';
 import DescriptionIcon from '@mui/icons-material/Description';
 import ShieldIcon from '@mui/icons-material/Shield';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import SyncIcon from '@mui/icons-material/Sync';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import ReportProblemIcon from '@mui/icons-material/ReportProblem';
+import BusinessIcon from '@mui/icons-material/Business';
+import VpnKeyIcon from '@mui/icons-material/VpnKey';
+import ViewModuleIcon from '@mui/icons-material/ViewModule';
+import TableChartIcon from '@mui/icons-material/TableChart';
+import TimelineIcon from '@mui/icons-material/Timeline';
 import { createClient } from '@/lib/supabase/client';
 import { useEffect, useState } from 'react';
 
@@ -48,6 +56,8 @@ const navItems: NavItem[] = [
   { label: 'Bundle Analytics', path: '/bundles', icon: <AppsIcon /> },
   { label: 'Demand Appetite', path: '/demand-appetite', icon: <TrendingUpIcon /> },
   { label: 'Revenue Concentration', path: '/revenue-concentration', icon: <PieChartIcon /> },
+  { label: 'Revenue Forecast', path: '/forecast', icon: <TimelineIcon /> },
+  { label: 'Pivot Table', path: '/pivot', icon: <TableChartIcon /> },
   { label: 'Recommendations', path: '/recommendations', icon: <LightbulbIcon />, section: 'Optimization' },
   { label: 'Task Manager', path: '/tasks', icon: <TaskAltIcon /> },
   { label: 'Supply Quality', path: '/supply-quality', icon: <VerifiedIcon /> },
@@ -57,6 +67,16 @@ const navItems: NavItem[] = [
   { label: 'IVT Monitoring', path: '/ivt', icon: <ShieldIcon />, section: 'Tools' },
   { label: 'App-Ads.txt', path: '/app-ads-txt', icon: <DescriptionIcon /> },
   { label: 'Ads.txt', path: '/ads-txt', icon: <DescriptionIcon /> },
+  { label: 'Sync Status', path: '/sync', icon: <SyncIcon /> },
+  { label: 'Report Upload', path: '/upload', icon: <UploadFileIcon /> },
+];
+
+const adminNavItems: NavItem[] = [
+  { label: 'User Management', path: '/admin/users', icon: <AdminPanelSettingsIcon /> },
+  { label: 'Partners & Publishers', path: '/admin/entities', icon: <BusinessIcon /> },
+  { label: 'Rejected Rows', path: '/admin/rejected-rows', icon: <ReportProblemIcon /> },
+  { label: 'Integrations', path: '/admin/integrations', icon: <VpnKeyIcon /> },
+  { label: 'Dimension Sets', path: '/admin/dimension-sets', icon: <ViewModuleIcon /> },
 ];
 
 export default function Sidebar() {
@@ -192,37 +212,42 @@ export default function Sidebar() {
             >
               Admin
             </Typography>
-            <ListItem disablePadding sx={{ mb: 0.25 }}>
-              <ListItemButton
-                onClick={() => router.push('/admin/users')}
-                sx={{
-                  borderRadius: 1.5,
-                  mx: 0.5,
-                  py: 0.8,
-                  bgcolor: pathname === '/admin/users' ? 'rgba(99, 102, 241, 0.12)' : 'transparent',
-                  color: pathname === '/admin/users' ? 'primary.main' : 'text.secondary',
-                  '&:hover': {
-                    bgcolor: pathname === '/admin/users' ? 'rgba(99, 102, 241, 0.16)' : 'rgba(255,255,255,0.04)',
-                  },
-                }}
-              >
-                <ListItemIcon
-                  sx={{
-                    minWidth: 36,
-                    color: pathname === '/admin/users' ? 'primary.main' : 'text.secondary',
-                  }}
-                >
-                  <AdminPanelSettingsIcon />
-                </ListItemIcon>
-                <ListItemText
-                  primary="User Management"
-                  primaryTypographyProps={{
-                    fontSize: '0.835rem',
-                    fontWeight: pathname === '/admin/users' ? 600 : 400,
-                  }}
-                />
-              </ListItemButton>
-            </ListItem>
+            {adminNavItems.map((item) => {
+              const isActive = pathname === item.path;
+              return (
+                <ListItem key={item.path} disablePadding sx={{ mb: 0.25 }}>
+                  <ListItemButton
+                    onClick={() => router.push(item.path)}
+                    sx={{
+                      borderRadius: 1.5,
+                      mx: 0.5,
+                      py: 0.8,
+                      bgcolor: isActive ? 'rgba(99, 102, 241, 0.12)' : 'transparent',
+                      color: isActive ? 'primary.main' : 'text.secondary',
+                      '&:hover': {
+                        bgcolor: isActive ? 'rgba(99, 102, 241, 0.16)' : 'rgba(255,255,255,0.04)',
+                      },
+                    }}
+                  >
+                    <ListItemIcon
+                      sx={{
+                        minWidth: 36,
+                        color: isActive ? 'primary.main' : 'text.secondary',
+                      }}
+                    >
+                      {item.icon}
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={item.label}
+                      primaryTypographyProps={{
+                        fontSize: '0.835rem',
+                        fontWeight: isActive ? 600 : 400,
+                      }}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              );
+            })}
           </>
         )}
       </List>
@@ -0,0 +1,85 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { FormControl, Select, MenuItem } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import type { StatsSourceInfo } from '@/types';
+
+// Scope value meaning "every source combined" (matches ALL_SOURCES in src/lib/sources)
+const ALL_SOURCES = 'all';
+const STORAGE_KEY = 'adsyield.sourceScope';
+
+// The selected scope lives in localStorage so it survives reloads and is
+// shared by every page; useSyncExternalStore keeps all readers in step.
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function getSnapshot() {
+  return window.localStorage.getItem(STORAGE_KEY) || ALL_SOURCES;
+}
+
+function getServerSnapshot() {
+  return ALL_SOURCES;
+}
+
+function setSourceScope(source: string) {
+  window.localStorage.setItem(STORAGE_KEY, source);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Currently selected stats source ('all' for every source combined,
+ * 'limelight:<account>' for a single Limelight account).
+ * Pass it to /api/stats/* as ?source= and include it in the query key.
+ */
+export function useSourceScope(): string {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+export default function SourceScopeSelect() {
+  const source = useSourceScope();
+
+  const { data } = useQuery<{ sources: StatsSourceInfo[] }>({
+    queryKey: ['stats-sources'],
+    queryFn: async () => {
+      const res = await fetch('/api/sources');
+      if (!res.ok) throw new Error('Failed to fetch sources');
+      return res.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const sources = data?.sources || [];
+  // Each source followed by its accounts, if it has more than one
+  const options = sources.flatMap((s) => [
+    { value: s.id, label: s.label, nested: false },
+    ...(s.accounts || []).map((a) => ({ value: `${s.id}:${a.slug}`, label: a.label, nested: true })),
+  ]);
+  // A stored scope that is no longer registered falls back to all sources
+  const value = source === ALL_SOURCES || options.some((o) => o.value === source) ? source : ALL_SOURCES;
+
+  return (
+    <FormControl size="small" sx={{ minWidth: 150, mr: 1 }}>
+      <Select
+        value={value}
+        onChange={(e) => setSourceScope(e.target.value)}
+        sx={{ fontSize: '0.8rem', height: 32 }}
+      >
+        <MenuItem value={ALL_SOURCES}>All sources</MenuItem>
+        {options.map((o) => (
+          <MenuItem key={o.value} value={o.value} sx={o.nested ? { pl: 4, fontSize: '0.85rem' } : undefined}>
+            {o.label}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   AppBar,
   Toolbar,
@@ -20,9 +21,11 @@ import SyncIcon from '@mui/icons-material/Sync';
 import LogoutIcon from '@mui/icons-material/Logout';
 import HistoryIcon from '@mui/icons-material/History';
 import { createClient } from '@/lib/supabase/client';
+import SourceScopeSelect from './SourceScopeSelect';
 
 export default function TopBar() {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [syncing, setSyncing] = useState(false);
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' | 'info' }>({
@@ -54,10 +57,13 @@ export default function TopBar() {
 
       setSnackbar({
         open: true,
-        message: `Sync complete: ${data.rowsSynced} rows synced${data.errors ? ` (${data.errors} errors)` : ''}`,
+        message: data.backfillJobIds?.length
+          ? `Backfill ${data.timedOut ? 'in progress' : 'complete'}: ${data.rowsSynced} rows synced${data.timedOut ? ', remaining days continue in the background' : ''}${data.errors ? ` (${data.errors} errors)` : ''}`
+          : `Sync complete: ${data.rowsSynced} rows synced${data.errors ? ` (${data.errors} errors)` : ''}`,
         severity: data.errors ? 'error' : 'success',
       });
 
+      queryClient.invalidateQueries({ queryKey: ['data-freshness'] });
       router.refresh();
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Sync failed';
@@ -86,6 +92,8 @@ export default function TopBar() {
         }}
       >
         <Toolbar sx={{ justifyContent: 'flex-end', gap: 1 }}>
+          <SourceScopeSelect />
+
           <Tooltip title="Sync yesterday's data from Limelight">
             <Chip
               icon={
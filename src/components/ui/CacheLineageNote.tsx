@@ -0,0 +1,31 @@
+'use client';
+
+import { Tooltip, Typography } from '@mui/material';
+import { format } from 'date-fns';
+import type { CacheLineage } from '@/types';
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00`), 'MMM d');
+}
+
+// One-line summary of the stored stats a page's cached payload was built from
+export default function CacheLineageNote({ lineage }: { lineage: CacheLineage }) {
+  const parts = [
+    lineage.sourceStart && lineage.sourceEnd ? `${formatDay(lineage.sourceStart)} to ${formatDay(lineage.sourceEnd)}` : null,
+    lineage.syncLogId !== null ? `sync #${lineage.syncLogId}` : null,
+    `updated ${format(new Date(lineage.updatedAt), 'MMM d, HH:mm')}`,
+  ].filter(Boolean);
+
+  const details = [
+    `Tables: ${lineage.sourceTables.length > 0 ? lineage.sourceTables.join(', ') : 'unknown'}`,
+    lineage.computeMs !== null ? `Computed in ${(lineage.computeMs / 1000).toFixed(1)}s` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Tooltip title={details}>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5, opacity: 0.8 }}>
+        Built on {parts.join(' · ')}
+      </Typography>
+    </Tooltip>
+  );
+}
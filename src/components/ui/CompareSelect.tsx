@@ -0,0 +1,31 @@
+'use client';
+
+import { FormControl, Select, MenuItem } from '@mui/material';
+import type { CompareMode } from '@/types';
+import { COMPARE_LABELS, COMPARE_MODES } from '@/lib/cache/compare';
+
+interface CompareSelectProps {
+  value: CompareMode | null;
+  onChange: (mode: CompareMode | null) => void;
+}
+
+const NONE = 'none';
+
+export default function CompareSelect({ value, onChange }: CompareSelectProps) {
+  return (
+    <FormControl size="small" sx={{ minWidth: 170 }}>
+      <Select
+        value={value || NONE}
+        onChange={(e) => onChange(e.target.value === NONE ? null : (e.target.value as CompareMode))}
+        sx={{ fontSize: '0.8rem', height: 32 }}
+      >
+        <MenuItem value={NONE}>No comparison</MenuItem>
+        {COMPARE_MODES.map((mode) => (
+          <MenuItem key={mode} value={mode}>
+            {COMPARE_LABELS[mode].replace(/^vs/, 'Compare')}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { Chip, Tooltip } from '@mui/material';
+
+interface DeltaChipProps {
+  // Percent change from a stats payload's deltas; null when there is nothing to compare with
+  value: number | null | undefined;
+  // For metrics where a rise is bad (timeouts, loss rates)
+  invert?: boolean;
+  label?: string;
+}
+
+export default function DeltaChip({ value, invert = false, label }: DeltaChipProps) {
+  if (value === undefined) return null;
+
+  if (value === null) {
+    return (
+      <Tooltip title={label ? `No data ${label.replace(/^vs /, 'for ')}` : 'No comparison data'}>
+        <Chip label="new" size="small" variant="outlined" sx={{ height: 20, fontSize: '0.68rem', ml: 0.75 }} />
+      </Tooltip>
+    );
+  }
+
+  const flat = Math.abs(value) < 0.05;
+  const good = invert ? value < 0 : value > 0;
+  const color = flat ? '#A1A1AA' : good ? '#00D9A6' : '#FF5252';
+  const bgcolor = flat ? 'rgba(161,161,170,0.12)' : good ? 'rgba(0,217,166,0.15)' : 'rgba(255,82,82,0.15)';
+
+  const chip = (
+    <Chip
+      label={`${value > 0 ? '+' : ''}${value.toFixed(1)}%`}
+      size="small"
+      sx={{ height: 20, fontSize: '0.68rem', fontWeight: 600, ml: 0.75, bgcolor, color }}
+    />
+  );
+  return label ? <Tooltip title={label}>{chip}</Tooltip> : chip;
+}
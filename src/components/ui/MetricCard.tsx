@@ -16,6 +16,8 @@ interface MetricCardProps {
   format?: 'currency' | 'number' | 'percent' | 'string';
   change?: number;
   changeLabel?: string;
+  // Color a rise red, for metrics where lower is better
+  invertChange?: boolean;
   subtitle?: string;
   badge?: React.ReactNode;
   accentColor?: string;
@@ -45,6 +47,7 @@ export default function MetricCard({
   format = 'string',
   change,
   changeLabel,
+  invertChange = false,
   subtitle,
   badge,
   accentColor,
@@ -55,6 +58,7 @@ export default function MetricCard({
     : String(value);
 
   const sparkData = sparklineData?.map((v, i) => ({ i, v }));
+  const changeColor = change !== undefined && (change >= 0) !== invertChange ? 'success.main' : 'error.main';
 
   return (
     <Card
@@ -84,13 +88,13 @@ export default function MetricCard({
         {change !== undefined && (
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
             {change >= 0 ? (
-              <TrendingUpIcon sx={{ fontSize: 16, color: 'success.main' }} />
+              <TrendingUpIcon sx={{ fontSize: 16, color: changeColor }} />
             ) : (
-              <TrendingDownIcon sx={{ fontSize: 16, color: 'error.main' }} />
+              <TrendingDownIcon sx={{ fontSize: 16, color: changeColor }} />
             )}
             <Typography
               variant="caption"
-              sx={{ color: change >= 0 ? 'success.main' : 'error.main', fontWeight: 600 }}
+              sx={{ color: changeColor, fontWeight: 600 }}
             >
               {change >= 0 ? '+' : ''}{change.toFixed(1)}%
             </Typography>
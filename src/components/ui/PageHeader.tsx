@@ -1,14 +1,18 @@
 'use client';
 
 import { Box, Typography } from '@mui/material';
+import type { CacheLineage } from '@/types';
+import CacheLineageNote from './CacheLineageNote';
 
 interface PageHeaderProps {
   title: string;
   subtitle?: string;
+  // What the page's cached stats were built from, when it shows any
+  lineage?: CacheLineage | null;
   children?: React.ReactNode;
 }
 
-export default function PageHeader({ title, subtitle, children }: PageHeaderProps) {
+export default function PageHeader({ title, subtitle, lineage, children }: PageHeaderProps) {
   return (
     <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
       <Box>
@@ -20,6 +24,7 @@ export default function PageHeader({ title, subtitle, children }: PageHeaderProp
             {subtitle}
           </Typography>
         )}
+        {lineage && <CacheLineageNote lineage={lineage} />}
       </Box>
       {children && (
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
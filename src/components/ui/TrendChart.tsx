@@ -17,12 +17,23 @@ interface YKeyConfig {
   color: string;
   name?: string;
   gradientFill?: boolean;
+  // Dashed line without fill, e.g. a comparison period
+  dashed?: boolean;
+}
+
+// Shaded range, e.g. a forecast's confidence band: each row holds
+// [low, high] under `key`
+interface BandConfig {
+  key: string;
+  color: string;
+  name?: string;
 }
 
 interface TrendChartProps {
   data: Array<Record<string, unknown>>;
   xKey: string;
   yKeys: YKeyConfig[];
+  bands?: BandConfig[];
   height?: number;
   formatXAxis?: (value: string) => string;
   formatTooltip?: (value: number) => string;
@@ -33,6 +44,7 @@ export default function TrendChart({
   data,
   xKey,
   yKeys,
+  bands = [],
   height = 300,
   formatXAxis,
   formatTooltip,
@@ -82,13 +94,25 @@ export default function TrendChart({
               fontSize: 13,
             }}
             formatter={(value, name) => {
-              const v = (value as number) ?? 0;
-              const formatted = formatTooltip ? formatTooltip(v) : v.toLocaleString();
-              return [formatted, name ?? ''];
+              const format = (v: number) => (formatTooltip ? formatTooltip(v) : v.toLocaleString());
+              if (Array.isArray(value)) return [value.map((v) => format(Number(v) || 0)).join(' – '), name ?? ''];
+              return [format((value as number) ?? 0), name ?? ''];
             }}
             labelFormatter={formatXAxis ? (label) => formatXAxis(String(label)) : undefined}
           />
           {showLegend && <Legend />}
+          {bands.map((band) => (
+            <Area
+              key={band.key}
+              type="monotone"
+              dataKey={band.key}
+              stroke="none"
+              fill={band.color}
+              fillOpacity={0.15}
+              activeDot={false}
+              name={band.name || band.key}
+            />
+          ))}
           {yKeys.map((yk) => (
             <Area
               key={yk.key}
@@ -96,7 +120,8 @@ export default function TrendChart({
               dataKey={yk.key}
               stroke={yk.color}
               strokeWidth={2}
-              fill={yk.gradientFill !== false ? `url(#gradient-${yk.key})` : 'transparent'}
+              strokeDasharray={yk.dashed ? '5 5' : undefined}
+              fill={yk.gradientFill !== false && !yk.dashed ? `url(#gradient-${yk.key})` : 'transparent'}
               dot={false}
               name={yk.name || yk.key}
             />
@@ -0,0 +1,53 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { getDailyAnomalies, saveDailyAnomalies } from '@/lib/anomalies/daily';
+import { getSnapshotBuiltAt } from '@/lib/cache/snapshots';
+import { addDays } from '@/lib/anomalies/model';
+import type { AnomalyMetric, MetricAnomaly } from '@/types';
+import type { GeneratedAlert } from './store';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+export interface DailyAlertEvaluation {
+  // Day the anomalies were found on (yesterday, the last complete day)
+  date: string;
+  alerts: GeneratedAlert[];
+}
+
+const ALERT_TYPES: Record<AnomalyMetric, GeneratedAlert['type']> = {
+  revenue: 'revenue',
+  impressions: 'performance',
+  bid_requests: 'performance',
+  ecpm: 'performance',
+  fill_rate: 'performance',
+  timeout_rate: 'technical',
+};
+
+export function anomalyAlert(anomaly: MetricAnomaly): GeneratedAlert {
+  return {
+    type: ALERT_TYPES[anomaly.metric],
+    severity: anomaly.severity,
+    metric: anomaly.metric,
+    partner: anomaly.entity,
+    currentValue: Math.round(anomaly.actual * 100) / 100,
+    previousValue: Math.round(anomaly.expected * 100) / 100,
+    changePct: anomaly.deviationPct,
+    message: anomaly.message,
+  };
+}
+
+/**
+ * Alerts for yesterday's anomalies: each demand partner, publisher and
+ * bundle metric that fell outside what its weekday and month-start pattern
+ * led to expect. The cache refresh detects and saves them once the day is
+ * synced; a day never detected yet is detected (and saved) now, while a
+ * day detected clean is not scanned again.
+ */
+export async function evaluateDailyAlerts(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<DailyAlertEvaluation> {
+  const date = addDays(now.toISOString().split('T')[0], -1);
+  const detected = await getSnapshotBuiltAt(supabase, 'anomalies', date);
+  const anomalies = detected ? await getDailyAnomalies(date) : await saveDailyAnomalies(supabase, date);
+  return { date, alerts: anomalies.map(anomalyAlert) };
+}
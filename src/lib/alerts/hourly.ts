@@ -0,0 +1,137 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { lastCompleteHour, sameDayLastWeek } from '@/lib/limelight/hourly';
+import type { GeneratedAlert } from './store';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Trailing complete hours checked for a partner going silent
+const OUTAGE_WINDOW_HOURS = 3;
+
+// Partners below these same-hours-last-week levels are too small to judge
+// hour by hour
+const MIN_COMPARE_REVENUE = 5;
+const MIN_OUTAGE_REVENUE = 1;
+
+interface PartnerCompareRow {
+  id: number | null;
+  name: string;
+  revenue: number | null;
+  prev_revenue: number | null;
+  impressions: number | null;
+  prev_impressions: number | null;
+  bid_requests: number | null;
+  prev_bid_requests: number | null;
+  timeouts: number | null;
+  prev_timeouts: number | null;
+  recent_revenue: number | null;
+  prev_recent_revenue: number | null;
+}
+
+export interface HourlyAlertEvaluation {
+  date: string;
+  compareDate: string;
+  // Alerts cover hours 0..throughHour (UTC); null when no hour is complete yet
+  throughHour: number | null;
+  alerts: GeneratedAlert[];
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function calcChangePct(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return ((current - previous) / previous) * 100;
+}
+
+/**
+ * Compare each demand partner's revenue today so far with the same hours
+ * on the same weekday last week, from limelight_stats_hourly. Thresholds
+ * are looser than the 7-day alerts since a few hours are noisier, except
+ * for outages: a partner that earned in these hours last week and has
+ * earned nothing in the last few complete hours is flagged right away.
+ */
+export async function evaluateHourlyAlerts(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<HourlyAlertEvaluation> {
+  const date = now.toISOString().split('T')[0];
+  const compareDate = sameDayLastWeek(date);
+  const throughHour = lastCompleteHour(date, now);
+  if (throughHour === null) return { date, compareDate, throughHour, alerts: [] };
+
+  const { data, error } = await supabase.rpc('agg_hourly_partner_compare', {
+    p_date: date,
+    p_compare_date: compareDate,
+    p_through_hour: throughHour,
+    p_recent_hours: OUTAGE_WINDOW_HOURS,
+  });
+  if (error) throw new Error(`Failed to compare hourly stats: ${error.message}`);
+
+  const alerts: GeneratedAlert[] = [];
+  const hours = `00:00-${String(throughHour + 1).padStart(2, '0')}:00 UTC`;
+
+  for (const row of (data || []) as PartnerCompareRow[]) {
+    const partner = row.name || 'Unknown';
+    const revenue = Number(row.revenue || 0);
+    const prevRevenue = Number(row.prev_revenue || 0);
+    const recentRevenue = Number(row.recent_revenue || 0);
+    const prevRecentRevenue = Number(row.prev_recent_revenue || 0);
+
+    // --- Outage: nothing in the last few hours that earned last week ---
+    if (recentRevenue === 0 && prevRecentRevenue >= MIN_OUTAGE_REVENUE) {
+      alerts.push({
+        type: 'technical',
+        severity: 'critical',
+        metric: 'outage',
+        partner,
+        currentValue: 0,
+        previousValue: round2(prevRecentRevenue),
+        changePct: -100,
+        message: `${partner} has earned nothing in the last ${OUTAGE_WINDOW_HOURS} hours (same hours last week: $${prevRecentRevenue.toFixed(2)})`,
+      });
+      continue;
+    }
+
+    // --- Revenue so far vs the same hours last week ---
+    if (prevRevenue >= MIN_COMPARE_REVENUE) {
+      const revenueChange = calcChangePct(revenue, prevRevenue);
+      if (revenueChange < -15) {
+        const severity = revenueChange < -30 ? 'critical' : 'warning';
+        alerts.push({
+          type: 'revenue',
+          severity,
+          metric: 'revenue',
+          partner,
+          currentValue: round2(revenue),
+          previousValue: round2(prevRevenue),
+          changePct: round2(revenueChange),
+          message: `Revenue from ${partner} is down ${Math.abs(Math.round(revenueChange))}% vs last week (${hours}: $${Math.round(prevRevenue)} -> $${Math.round(revenue)})`,
+        });
+      }
+    }
+
+    // --- Timeout rate spike ---
+    const bidRequests = Number(row.bid_requests || 0);
+    const prevBidRequests = Number(row.prev_bid_requests || 0);
+    const timeoutRate = bidRequests > 0 ? (Number(row.timeouts || 0) / bidRequests) * 100 : 0;
+    const prevTimeoutRate = prevBidRequests > 0 ? (Number(row.prev_timeouts || 0) / prevBidRequests) * 100 : 0;
+    if (prevTimeoutRate > 0) {
+      const timeoutChange = calcChangePct(timeoutRate, prevTimeoutRate);
+      if (timeoutChange > 50) {
+        alerts.push({
+          type: 'technical',
+          severity: 'warning',
+          metric: 'timeout_rate',
+          partner,
+          currentValue: round2(timeoutRate),
+          previousValue: round2(prevTimeoutRate),
+          changePct: round2(timeoutChange),
+          message: `Timeout rate for ${partner} is up ${Math.round(timeoutChange)}% vs last week (${prevTimeoutRate.toFixed(1)}% -> ${timeoutRate.toFixed(1)}%)`,
+        });
+      }
+    }
+  }
+
+  return { date, compareDate, throughHour, alerts };
+}
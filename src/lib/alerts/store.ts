@@ -0,0 +1,73 @@
+import { createServiceClient } from '@/lib/supabase/server';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// 'daily' alerts are yesterday's anomalies; 'hourly' ones compare today so
+// far with the same hours last week
+export type AlertGranularity = 'daily' | 'hourly';
+
+export interface GeneratedAlert {
+  type: 'performance' | 'revenue' | 'technical' | 'quality';
+  severity: 'critical' | 'warning' | 'info';
+  metric: string;
+  partner: string;
+  currentValue: number;
+  previousValue: number;
+  changePct: number;
+  message: string;
+}
+
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+
+/**
+ * Critical first, then warning, then info.
+ */
+export function sortAlerts(alerts: GeneratedAlert[]): GeneratedAlert[] {
+  return alerts.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+export function summarizeAlerts(alerts: GeneratedAlert[]) {
+  return {
+    total: alerts.length,
+    critical: alerts.filter((a) => a.severity === 'critical').length,
+    warning: alerts.filter((a) => a.severity === 'warning').length,
+    info: alerts.filter((a) => a.severity === 'info').length,
+  };
+}
+
+/**
+ * Store generated alerts in the alerts table. A failed insert is logged,
+ * not thrown: callers still return the alerts they computed.
+ */
+export async function storeAlerts(
+  supabase: SupabaseClient,
+  alerts: GeneratedAlert[],
+  granularity: AlertGranularity,
+  createdAt: string = new Date().toISOString()
+): Promise<number> {
+  if (alerts.length === 0) return 0;
+
+  const alertRows = alerts.map((alert) => ({
+    type: alert.type,
+    severity: alert.severity,
+    metric: alert.metric,
+    threshold: 0,
+    current_value: alert.currentValue,
+    previous_value: alert.previousValue,
+    change_pct: alert.changePct,
+    message: alert.message,
+    partner: alert.partner,
+    granularity,
+    resolved: false,
+    created_at: createdAt,
+  }));
+
+  const { error: insertError } = await supabase.from('alerts').insert(alertRows);
+  if (insertError) {
+    console.error('[Alerts] Failed to store alerts in DB:', insertError.message);
+    return 0;
+  }
+
+  console.log(`[Alerts] Stored ${alertRows.length} ${granularity} alerts in DB`);
+  return alertRows.length;
+}
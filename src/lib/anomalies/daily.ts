@@ -0,0 +1,153 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { markSnapshotBuilt } from '@/lib/cache/snapshots';
+import type { AnomalyDimension, AnomalyMetric, MetricAnomaly } from '@/types';
+import {
+  ANOMALY_HISTORY_DAYS,
+  ANOMALY_MIN_DAILY_REVENUE,
+  addDays,
+  detectEntityAnomalies,
+  type EntitySeries,
+} from './model';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+// Kept by saveDailyAnomalies (migration 025)
+export const ANOMALY_TABLE = 'daily_anomalies';
+
+const PAGE_SIZE = 1000;
+
+// Per-day series of each dimension, across every source and account
+const DIMENSION_SERIES: Record<AnomalyDimension, string> = {
+  demand_partner: 'agg_by_demand_partner_date',
+  publisher: 'agg_by_publisher_date',
+  bundle: 'agg_by_bundle_date',
+};
+
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+
+function v(val: unknown): number { if (val === undefined || val === null) return 0; const num = Number(val); return isNaN(num) ? 0 : num; }
+
+async function fetchSeries(
+  supabase: SupabaseClient,
+  dimension: AnomalyDimension,
+  startDate: string,
+  endDate: string
+): Promise<EntitySeries[]> {
+  // An entity averaging under half the revenue floor over the window is
+  // not going to be expected to reach it on the day
+  const minRevenue = (ANOMALY_MIN_DAILY_REVENUE * ANOMALY_HISTORY_DAYS) / 2;
+  const series = new Map<string, EntitySeries>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc(DIMENSION_SERIES[dimension], { p_start: startDate, p_end: endDate, p_min_revenue: minRevenue })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`RPC ${DIMENSION_SERIES[dimension]} error: ${error.message}`);
+
+    for (const r of (data || []) as Row[]) {
+      const key = `${r.id ?? ''}:${r.name}`;
+      let s = series.get(key);
+      if (!s) {
+        s = { dimension, id: r.id ?? null, name: r.name, days: new Map() };
+        series.set(key, s);
+      }
+      s.days.set(r.date, {
+        impressions: v(r.impressions),
+        revenue: v(r.revenue),
+        bidRequests: v(r.bid_requests),
+        timeouts: v(r.timeouts),
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return Array.from(series.values());
+}
+
+/**
+ * Every demand partner, publisher and bundle anomaly on one day, worst
+ * first, each scored against the ANOMALY_HISTORY_DAYS before it.
+ */
+export async function detectDailyAnomalies(supabase: SupabaseClient, date: string): Promise<MetricAnomaly[]> {
+  const startDate = addDays(date, -ANOMALY_HISTORY_DAYS);
+  const anomalies: MetricAnomaly[] = [];
+  for (const dimension of Object.keys(DIMENSION_SERIES) as AnomalyDimension[]) {
+    for (const series of await fetchSeries(supabase, dimension, startDate, date)) {
+      anomalies.push(...detectEntityAnomalies(series, date));
+    }
+  }
+  return anomalies.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || Math.abs(b.score) - Math.abs(a.score));
+}
+
+/**
+ * Detect one day's anomalies and save them, replacing any saved earlier for
+ * that day, and mark the day as detected (also when nothing was found).
+ * The cache refresh calls this for yesterday once it is synced and again
+ * when a later sync changes it. Returns the anomalies saved.
+ */
+export async function saveDailyAnomalies(supabase: SupabaseClient, date: string): Promise<MetricAnomaly[]> {
+  const anomalies = await detectDailyAnomalies(supabase, date);
+
+  const { error: deleteError } = await supabase.from(ANOMALY_TABLE).delete().eq('date', date);
+  if (deleteError) throw new Error(`Failed to clear anomalies for ${date}: ${deleteError.message}`);
+  if (anomalies.length === 0) {
+    await markSnapshotBuilt(supabase, 'anomalies', date, 0);
+    return anomalies;
+  }
+
+  const { error } = await supabase.from(ANOMALY_TABLE).insert(anomalies.map((a) => ({
+    date: a.date,
+    dimension: a.dimension,
+    entity_id: a.entityId ?? 0,
+    entity: a.entity,
+    metric: a.metric,
+    severity: a.severity,
+    actual: a.actual,
+    expected: a.expected,
+    lower_bound: a.lower,
+    upper_bound: a.upper,
+    score: a.score,
+    deviation_pct: a.deviationPct,
+    weekday_factor: a.weekdayFactor,
+    month_start_factor: a.monthStartFactor,
+    message: a.message,
+  })));
+  if (error) throw new Error(`Failed to save anomalies for ${date}: ${error.message}`);
+  await markSnapshotBuilt(supabase, 'anomalies', date, anomalies.length);
+  return anomalies;
+}
+
+/**
+ * Saved anomalies of one day, worst first, optionally of one dimension.
+ */
+export async function getDailyAnomalies(date: string, dimension?: AnomalyDimension): Promise<MetricAnomaly[]> {
+  const supabase = createServiceClient();
+  let query = supabase
+    .from(ANOMALY_TABLE)
+    .select('date, dimension, entity_id, entity, metric, severity, actual, expected, lower_bound, upper_bound, score, deviation_pct, weekday_factor, month_start_factor, message')
+    .eq('date', date);
+  if (dimension) query = query.eq('dimension', dimension);
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load anomalies for ${date}: ${error.message}`);
+
+  return (data || [])
+    .map((r): MetricAnomaly => ({
+      date: r.date,
+      dimension: r.dimension as AnomalyDimension,
+      entityId: Number(r.entity_id) || null,
+      entity: r.entity,
+      metric: r.metric as AnomalyMetric,
+      actual: v(r.actual),
+      expected: v(r.expected),
+      lower: v(r.lower_bound),
+      upper: v(r.upper_bound),
+      score: v(r.score),
+      deviationPct: v(r.deviation_pct),
+      severity: r.severity as MetricAnomaly['severity'],
+      weekdayFactor: v(r.weekday_factor),
+      monthStartFactor: r.month_start_factor === null ? null : v(r.month_start_factor),
+      message: r.message,
+    }))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || Math.abs(b.score) - Math.abs(a.score));
+}
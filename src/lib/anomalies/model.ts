@@ -0,0 +1,275 @@
+import type { AnomalyDimension, AnomalyMetric, MetricAnomaly } from '@/types';
+
+// ============================================
+// Settings
+// ============================================
+
+// Days of history behind each expected value: 13 weeks give every weekday
+// 13 samples and take in three month starts
+export const ANOMALY_HISTORY_DAYS = 91;
+// Trailing days the current level is the median of
+const LEVEL_DAYS = 14;
+// Trailing days the spread is measured over
+const SPREAD_DAYS = 28;
+// A series needs this many days of history to be judged at all
+const MIN_HISTORY_DAYS = 21;
+const MIN_WEEKDAY_SAMPLES = 2;
+// The first days of a month are modelled apart from the weekday pattern
+const MONTH_START_DAYS = 2;
+const MIN_MONTH_START_SAMPLES = 2;
+// Floor on the spread as a share of the level, so a very steady series is
+// not flagged for a small move
+const MIN_RELATIVE_SPREAD = 0.05;
+// MAD to standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+// Rates are only judged on days with this many impressions / bid requests
+const MIN_RATE_BASE = 1000;
+
+// Deviations in robust standard deviations
+export const ANOMALY_WARNING_SCORE = Number(process.env.ANOMALY_WARNING_SCORE || 3);
+export const ANOMALY_CRITICAL_SCORE = Number(process.env.ANOMALY_CRITICAL_SCORE || 5);
+// Entities expected to earn less than this on the day are not judged
+export const ANOMALY_MIN_DAILY_REVENUE = Number(process.env.ANOMALY_MIN_DAILY_REVENUE || 25);
+
+// ============================================
+// Metrics
+// ============================================
+
+export interface DailyTotals {
+  impressions: number;
+  revenue: number;
+  bidRequests: number;
+  timeouts: number;
+}
+
+interface AnomalyMetricDefinition {
+  label: string;
+  higherIsBetter: boolean;
+  // Volumes count a missing day as zero; rates skip it
+  volume: boolean;
+  value: (t: DailyTotals) => number | null;
+  format: (value: number) => string;
+}
+
+function money(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function count(value: number): string {
+  return Math.round(value).toLocaleString('en-US');
+}
+
+function percent(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+export const ANOMALY_METRICS: Record<AnomalyMetric, AnomalyMetricDefinition> = {
+  revenue: { label: 'revenue', higherIsBetter: true, volume: true, value: (t) => t.revenue, format: money },
+  impressions: { label: 'impressions', higherIsBetter: true, volume: true, value: (t) => t.impressions, format: count },
+  bid_requests: { label: 'bid requests', higherIsBetter: true, volume: true, value: (t) => t.bidRequests, format: count },
+  ecpm: {
+    label: 'eCPM', higherIsBetter: true, volume: false,
+    value: (t) => (t.impressions >= MIN_RATE_BASE ? (t.revenue / t.impressions) * 1000 : null),
+    format: money,
+  },
+  fill_rate: {
+    label: 'fill rate', higherIsBetter: true, volume: false,
+    value: (t) => (t.bidRequests >= MIN_RATE_BASE ? (t.impressions / t.bidRequests) * 100 : null),
+    format: percent,
+  },
+  timeout_rate: {
+    label: 'timeout rate', higherIsBetter: false, volume: false,
+    value: (t) => (t.bidRequests >= MIN_RATE_BASE ? (t.timeouts / t.bidRequests) * 100 : null),
+    format: percent,
+  },
+};
+
+export const DIMENSION_LABELS: Record<AnomalyDimension, string> = {
+  demand_partner: 'Demand partner',
+  publisher: 'Publisher',
+  bundle: 'Bundle',
+};
+
+// ============================================
+// Model
+// ============================================
+
+interface Point {
+  date: string;
+  value: number;
+}
+
+export interface EntitySeries {
+  dimension: AnomalyDimension;
+  id: number | null;
+  name: string;
+  days: Map<string, DailyTotals>;
+}
+
+interface Expectation {
+  expected: number;
+  // Robust standard deviation on the day
+  spread: number;
+  weekdayFactor: number;
+  monthStartFactor: number | null;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number, digits = 2): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isMonthStart(date: string): boolean {
+  return Number(date.slice(8, 10)) <= MONTH_START_DAYS;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86_400_000);
+}
+
+/**
+ * What a series should read on targetDate, from its history (oldest first,
+ * target excluded). The level is the median of the last LEVEL_DAYS values
+ * with the weekday pattern taken out; each weekday's factor is its median
+ * over the whole history against the overall median. The first days of a
+ * month are left out of both and get a factor of their own from earlier
+ * month starts, measured against the level just before each. The spread is
+ * the MAD of the deseasonalized values over SPREAD_DAYS. Null when there is
+ * too little history or nothing to expect.
+ */
+function expectValue(history: Point[], targetDate: string): Expectation | null {
+  if (history.length < MIN_HISTORY_DAYS) return null;
+  const regular = history.filter((p) => !isMonthStart(p.date));
+  const overall = median(regular.map((p) => p.value));
+  if (overall <= 0) return null;
+
+  const factors = Array.from({ length: 7 }, (_, w) => {
+    const values = regular.filter((p) => weekday(p.date) === w).map((p) => p.value);
+    return values.length >= MIN_WEEKDAY_SAMPLES ? median(values) / overall : 1;
+  });
+  const mean = factors.reduce((s, f) => s + f, 0) / 7;
+  const weekdayFactors = factors.map((f) => f / mean);
+
+  // Weekdays the series is dark on (factor 0) say nothing about the level
+  const deseasonalize = (p: Point) => {
+    const f = weekdayFactors[weekday(p.date)];
+    return f > 0 ? { date: p.date, value: p.value / f } : null;
+  };
+  const flat = regular.map(deseasonalize).filter((p): p is Point => p !== null);
+
+  const level = median(flat.slice(-LEVEL_DAYS).map((p) => p.value));
+  const recent = flat.slice(-SPREAD_DAYS).map((p) => p.value);
+  const center = median(recent);
+  const mad = median(recent.map((x) => Math.abs(x - center))) * MAD_SCALE;
+  const spread = Math.max(mad, level * MIN_RELATIVE_SPREAD);
+
+  let monthStartFactor: number | null = null;
+  if (isMonthStart(targetDate)) {
+    const ratios: number[] = [];
+    for (const p of history.filter((h) => isMonthStart(h.date))) {
+      const point = deseasonalize(p);
+      const before = flat.filter((h) => h.date < p.date && daysBetween(h.date, p.date) <= LEVEL_DAYS).map((h) => h.value);
+      const base = median(before);
+      if (point && before.length >= LEVEL_DAYS / 2 && base > 0) ratios.push(point.value / base);
+    }
+    if (ratios.length >= MIN_MONTH_START_SAMPLES) monthStartFactor = median(ratios);
+  }
+
+  const weekdayFactor = weekdayFactors[weekday(targetDate)];
+  const scale = weekdayFactor * (monthStartFactor ?? 1);
+  if (level * scale <= 0) return null;
+  return { expected: level * scale, spread: spread * scale, weekdayFactor, monthStartFactor };
+}
+
+function explain(series: EntitySeries, metric: AnomalyMetric, date: string, actual: number, e: Expectation, lower: number, upper: number): string {
+  const def = ANOMALY_METRICS[metric];
+  const deviation = ((actual - e.expected) / e.expected) * 100;
+  const day = new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+  const when = e.monthStartFactor !== null ? `a ${day} at the start of a month` : `a ${day}`;
+  return `${DIMENSION_LABELS[series.dimension]} ${series.name} ${def.label} ${Math.abs(Math.round(deviation))}% `
+    + `${deviation < 0 ? 'below' : 'above'} expected for ${when} `
+    + `(${def.format(actual)} vs ${def.format(e.expected)} expected; usual range ${def.format(lower)} to ${def.format(upper)})`;
+}
+
+/**
+ * Score each metric of one entity on targetDate against what its history
+ * (the ANOMALY_HISTORY_DAYS before it) leads to expect. A move the wrong
+ * way is a warning at ANOMALY_WARNING_SCORE robust standard deviations and
+ * critical at ANOMALY_CRITICAL_SCORE; a move the right way past the warning
+ * score is reported as info. Entities expected to earn less than
+ * ANOMALY_MIN_DAILY_REVENUE on the day are skipped.
+ */
+export function detectEntityAnomalies(series: EntitySeries, targetDate: string): MetricAnomaly[] {
+  const seen = Array.from(series.days.keys()).filter((d) => d < targetDate).sort();
+  if (seen.length === 0) return [];
+  // History starts on the first day the entity shows up in the window
+  const dates: string[] = [];
+  for (let d = seen[0]; d < targetDate; d = addDays(d, 1)) dates.push(d);
+
+  function pointsFor(metric: AnomalyMetric): Point[] {
+    const def = ANOMALY_METRICS[metric];
+    const points: Point[] = [];
+    for (const date of dates) {
+      const totals = series.days.get(date);
+      const value = totals ? def.value(totals) : def.volume ? 0 : null;
+      if (value !== null) points.push({ date, value });
+    }
+    return points;
+  }
+
+  const revenue = expectValue(pointsFor('revenue'), targetDate);
+  if (!revenue || revenue.expected < ANOMALY_MIN_DAILY_REVENUE) return [];
+
+  const target = series.days.get(targetDate);
+  const anomalies: MetricAnomaly[] = [];
+  for (const metric of Object.keys(ANOMALY_METRICS) as AnomalyMetric[]) {
+    const def = ANOMALY_METRICS[metric];
+    const actual = target ? def.value(target) : def.volume ? 0 : null;
+    if (actual === null) continue;
+    const e = metric === 'revenue' ? revenue : expectValue(pointsFor(metric), targetDate);
+    if (!e) continue;
+
+    const score = (actual - e.expected) / e.spread;
+    const adverse = def.higherIsBetter ? score < 0 : score > 0;
+    const size = Math.abs(score);
+    const severity = adverse
+      ? size >= ANOMALY_CRITICAL_SCORE ? 'critical' : size >= ANOMALY_WARNING_SCORE ? 'warning' : null
+      : size >= ANOMALY_WARNING_SCORE ? 'info' : null;
+    if (!severity) continue;
+
+    const lower = Math.max(0, e.expected - ANOMALY_WARNING_SCORE * e.spread);
+    const upper = e.expected + ANOMALY_WARNING_SCORE * e.spread;
+    anomalies.push({
+      date: targetDate,
+      dimension: series.dimension,
+      entityId: series.id,
+      entity: series.name,
+      metric,
+      actual: round(actual, 4),
+      expected: round(e.expected, 4),
+      lower: round(lower, 4),
+      upper: round(upper, 4),
+      score: round(score),
+      deviationPct: round(((actual - e.expected) / e.expected) * 100),
+      severity,
+      weekdayFactor: round(e.weekdayFactor, 3),
+      monthStartFactor: e.monthStartFactor === null ? null : round(e.monthStartFactor, 3),
+      message: explain(series, metric, targetDate, actual, e, lower, upper),
+    });
+  }
+  return anomalies;
+}
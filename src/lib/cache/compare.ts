@@ -0,0 +1,133 @@
+// Period-over-period comparison: comparison windows and per-field deltas.
+// Kept free of server imports so the analysis pages can use the same labels.
+import type { CompareMode, MetricDeltas } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+export const COMPARE_MODES: CompareMode[] = ['previous', 'month', 'year'];
+
+export const COMPARE_LABELS: Record<CompareMode, string> = {
+  previous: 'vs previous period',
+  month: 'vs last month',
+  year: 'vs last year',
+};
+
+// String fields that identify a row, so a row is matched with the same
+// partner/publisher/bundle/size (or quality component) in the comparison payload
+const IDENTITY_FIELDS = ['name', 'bundle', 'size', 'publisher', 'demandPartner', 'metric'];
+
+// Numeric fields that are not metrics
+const SKIP_FIELDS = new Set(['period', 'id']);
+
+export function parseCompareMode(value: string | null): CompareMode | null {
+  return COMPARE_MODES.includes(value as CompareMode) ? (value as CompareMode) : null;
+}
+
+// Query-string suffix for a stats request
+export function compareParam(mode: CompareMode | null): string {
+  return mode ? `&compare=${mode}` : '';
+}
+
+function fmt(d: Date): string {
+  return d.toISOString().split('T')[0];
+}
+
+function shiftDays(date: string, n: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return fmt(d);
+}
+
+// Same day n months earlier, clamped to the end of shorter months (Mar 31 -> Feb 28)
+function shiftMonths(date: string, n: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + n);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return fmt(d);
+}
+
+export function comparisonWindow(startDate: string, endDate: string, mode: CompareMode): { startDate: string; endDate: string } {
+  if (mode === 'month') return { startDate: shiftMonths(startDate, -1), endDate: shiftMonths(endDate, -1) };
+  if (mode === 'year') return { startDate: shiftMonths(startDate, -12), endDate: shiftMonths(endDate, -12) };
+  const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86_400_000) + 1;
+  return { startDate: shiftDays(startDate, -days), endDate: shiftDays(startDate, -1) };
+}
+
+function pctChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100;
+}
+
+function isMetricField(key: string): boolean {
+  return !SKIP_FIELDS.has(key) && !key.endsWith('Id');
+}
+
+function isObject(value: unknown): value is Row {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function rowKey(row: Row): string | null {
+  const parts = IDENTITY_FIELDS.filter((f) => typeof row[f] === 'string').map((f) => row[f]);
+  return parts.length > 0 ? parts.join('|') : null;
+}
+
+function compareObject(current: Row, previous: Row | undefined): Row {
+  const result: Row = { ...current };
+  const deltas: MetricDeltas = {};
+
+  for (const [key, value] of Object.entries(current)) {
+    const prev = previous?.[key];
+    if (typeof value === 'number') {
+      if (isMetricField(key)) deltas[key] = typeof prev === 'number' ? pctChange(value, prev) : null;
+    } else if (Array.isArray(value)) {
+      result[key] = compareArray(value, Array.isArray(prev) ? prev : []);
+    } else if (isObject(value)) {
+      result[key] = compareObject(value, isObject(prev) ? prev : undefined);
+    }
+  }
+
+  if (Object.keys(deltas).length > 0) result.deltas = deltas;
+  return result;
+}
+
+function compareArray(current: unknown[], previous: unknown[]): unknown[] {
+  if (!current.every(isObject)) return current;
+  const prevRows = previous.filter(isObject);
+
+  // Daily series line up by position: day 1 against day 1 of the comparison window
+  if (current.length > 0 && typeof current[0].date === 'string') {
+    return current.map((row, i) => {
+      const prev = prevRows[i];
+      const result = compareObject(row, prev);
+      if (prev) {
+        result.previous = Object.fromEntries(
+          Object.entries(prev).filter(([key, value]) => key === 'date' || (typeof value === 'number' && isMetricField(key)))
+        );
+      }
+      return result;
+    });
+  }
+
+  const byKey = new Map<string, Row>();
+  for (const row of prevRows) {
+    const key = rowKey(row);
+    if (key !== null && !byKey.has(key)) byKey.set(key, row);
+  }
+  return current.map((row) => {
+    const key = rowKey(row);
+    return compareObject(row, key !== null ? byKey.get(key) : undefined);
+  });
+}
+
+/**
+ * Annotate a stats payload with deltas against the same payload computed
+ * for the comparison window: every object gets `deltas` for its numeric
+ * fields, rows matched by partner/publisher/bundle/size name.
+ */
+export function attachDeltas<T extends Row>(current: T, previous: Row | null): T {
+  return compareObject(current, previous || undefined) as T;
+}
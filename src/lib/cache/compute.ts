@@ -1,24 +1,74 @@
+import { after } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
+import { accountScope, listStatsSources, splitSourceScope } from '@/lib/sources';
+import { listLimelightAccountLabels } from '@/lib/limelight/accounts';
+import { DAILY_ROLLUPS, DailyRollupName } from '@/lib/limelight/rollups';
+import { QUALITY_METRICS, QUALITY_MODEL, modelUsesIvt, scorePublishers } from '@/lib/quality/model';
+import { saveQualitySnapshot } from '@/lib/quality/history';
+import { saveDailyAnomalies } from '@/lib/anomalies/daily';
+import { concentration, concentrationRisk } from '@/lib/concentration/metrics';
+import type { CacheLineage, CacheRefreshResult, CompareMode } from '@/types';
+import { attachDeltas, comparisonWindow } from './compare';
+import type { TableColumns } from './table';
+import {
+  CACHE_LINEAGE_COLUMNS,
+  CacheDependencies,
+  CacheLineageRow,
+  changeAffects,
+  getLatestSyncLogId,
+  listDataChanges,
+  toCacheLineage,
+} from './lineage';
+import { DailySnapshotKind, getSnapshotBuiltAt } from './snapshots';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type Row = Record<string, any>;
 
 // ─── Cache helpers ───────────────────────────────────────────
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function saveCache(supabase: ReturnType<typeof createServiceClient>, key: string, data: any) {
+// The entry is stored with its lineage. updatedAt is when its inputs were
+// read, so a sync finishing while it was computed still counts as newer.
+async function saveCache(
+  supabase: ReturnType<typeof createServiceClient>,
+  key: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any,
+  lineage: CacheLineage
+) {
   const { error } = await supabase.from('data_cache')
-    .upsert({ key, data, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+    .upsert({
+      key,
+      data,
+      updated_at: lineage.updatedAt,
+      sync_log_id: lineage.syncLogId,
+      source_start: lineage.sourceStart,
+      source_end: lineage.sourceEnd,
+      source_tables: lineage.sourceTables,
+      compute_ms: lineage.computeMs,
+    }, { onConflict: 'key' });
   if (error) console.error(`[Cache] Failed to save ${key}:`, error.message);
   else console.log(`[Cache] Saved: ${key}`);
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function readCache(key: string): Promise<any | null> {
+export async function readCache(key: string, maxAgeMs?: number): Promise<any | null> {
+  return (await readCacheEntry(key, maxAgeMs))?.data ?? null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function readCacheEntry(key: string, maxAgeMs?: number): Promise<{ data: any; lineage: CacheLineage } | null> {
   const supabase = createServiceClient();
-  const { data, error } = await supabase.from('data_cache').select('data').eq('key', key).single();
+  const { data, error } = await supabase.from('data_cache').select(`data, ${CACHE_LINEAGE_COLUMNS}`).eq('key', key).single();
   if (error || !data) return null;
-  return data.data;
+  if (maxAgeMs !== undefined && Date.now() - new Date(data.updated_at).getTime() > maxAgeMs) return null;
+  return { data: data.data, lineage: toCacheLineage(data as CacheLineageRow) };
+}
+
+// Cache key for a source scope: 'bundles_7' holds all sources combined,
+// 'bundles_7@limelight' holds a single source and 'bundles_7@limelight:emea'
+// a single Limelight account
+export function scopedCacheKey(key: string, source: string | null): string {
+  return source ? `${key}@${source}` : key;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────
@@ -26,61 +76,398 @@ export async function readCache(key: string): Promise<any | null> {
 function fmt(d: Date): string { return d.toISOString().split('T')[0]; }
 function calcChange(curr: number, prev: number): number { return prev > 0 ? ((curr - prev) / prev) * 100 : 0; }
 function daysAgo(n: number): Date { const d = new Date(); d.setDate(d.getDate() - n); return d; }
+function shiftDate(date: string, n: number): string { const d = new Date(`${date}T00:00:00Z`); d.setUTCDate(d.getUTCDate() + n); return fmt(d); }
+// Aggregates carry the registry ID when the rows had one; fall back to the name.
+// IDs are only unique per Limelight account, so the registry name is kept in the key.
+function entityKey(id: unknown, name: string): string { return id !== null && id !== undefined ? `id:${id}:${name}` : `name:${name}`; }
 function v(val: unknown): number { if (val === undefined || val === null) return 0; const num = Number(val); return isNaN(num) ? 0 : num; }
 
-// ─── Main refresh (uses SQL aggregate functions via RPC) ─────
+// ─── Periods ─────────────────────────────────────────────────
 
-export async function refreshAllCaches() {
-  const supabase = createServiceClient();
-  console.log('[Cache] Starting full cache refresh via RPC...');
+// Periods precomputed by refreshAllCaches, stored as '<name>_<days>'
+export const CACHED_PERIODS = [7, 14, 30];
 
-  const yesterday = fmt(daysAgo(1));
-  const start7 = fmt(daysAgo(7));
-  const prevStart = fmt(daysAgo(14));
-  const prevEnd = fmt(daysAgo(8));
+// Custom ranges are computed on request and kept briefly under 'range:' keys
+const RANGE_KEY_PREFIX = 'range:';
+const RANGE_CACHE_TTL_MS = 15 * 60_000;
+const MAX_RANGE_DAYS = 366;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export type StatsRange = { period: number } | { startDate: string; endDate: string };
+
+// A window ending yesterday (or at endDate) and the equal-length window before it
+interface StatsWindow {
+  startDate: string;
+  endDate: string;
+  prevStart: string;
+  prevEnd: string;
+  days: number;
+}
+
+function periodWindow(days: number): StatsWindow {
+  return {
+    startDate: fmt(daysAgo(days)),
+    endDate: fmt(daysAgo(1)),
+    prevStart: fmt(daysAgo(days * 2)),
+    prevEnd: fmt(daysAgo(days + 1)),
+    days,
+  };
+}
+
+function rangeWindow(startDate: string, endDate: string): StatsWindow {
+  const days = rangeDays({ startDate, endDate });
+  return { startDate, endDate, prevStart: shiftDate(startDate, -days), prevEnd: shiftDate(startDate, -1), days };
+}
+
+export function rangeDays(range: StatsRange): number {
+  if ('period' in range) return range.period;
+  return Math.round((Date.parse(range.endDate) - Date.parse(range.startDate)) / 86_400_000) + 1;
+}
+
+/**
+ * Read ?period= (7, 14 or 30; anything else falls back to 7) or a custom
+ * ?startDate=&endDate= range from a stats request.
+ */
+export function parseStatsRange(params: URLSearchParams): StatsRange | { error: string } {
+  const startDate = params.get('startDate');
+  const endDate = params.get('endDate');
+  if (startDate || endDate) {
+    if (!startDate || !endDate || !ISO_DATE.test(startDate) || !ISO_DATE.test(endDate) || startDate > endDate) {
+      return { error: 'startDate and endDate must be YYYY-MM-DD with startDate <= endDate' };
+    }
+    if (rangeDays({ startDate, endDate }) > MAX_RANGE_DAYS) {
+      return { error: `A custom range may span at most ${MAX_RANGE_DAYS} days` };
+    }
+    return { startDate, endDate };
+  }
+
+  const period = parseInt(params.get('period') || '7', 10);
+  return { period: CACHED_PERIODS.includes(period) ? period : 7 };
+}
+
+// ─── Aggregate inputs ────────────────────────────────────────
+
+type AggregateName =
+  | 'partners' | 'publishers' | 'dates' | 'bundles' | 'adTypes' | 'cross' | 'partnerDays'
+  | 'prevPublishers' | 'prevDates' | 'ivt' | 'prevIvt';
+type Aggregates = Record<AggregateName, Row[]>;
+
+// The agg_by_* function each aggregate comes from and the daily rollup it
+// reads (or, for data outside the rollups, the table). previous reads the
+// window before the current one.
+type AggregateSource = { rpc: string; previous?: boolean } & ({ rollup: DailyRollupName } | { table: string });
+
+const AGGREGATE_SOURCES: Record<AggregateName, AggregateSource> = {
+  partners: { rpc: 'agg_by_demand_partner', rollup: 'partner' },
+  publishers: { rpc: 'agg_by_publisher', rollup: 'publisher' },
+  dates: { rpc: 'agg_by_date', rollup: 'partner' },
+  bundles: { rpc: 'agg_by_bundle', rollup: 'bundle' },
+  adTypes: { rpc: 'agg_by_ad_unit_type', rollup: 'size' },
+  cross: { rpc: 'agg_by_demand_publisher', rollup: 'partnerPublisher' },
+  partnerDays: { rpc: 'agg_by_demand_partner_date', rollup: 'partner' },
+  prevPublishers: { rpc: 'agg_by_publisher', rollup: 'publisher', previous: true },
+  prevDates: { rpc: 'agg_by_date', rollup: 'partner', previous: true },
+  ivt: { rpc: 'agg_ivt_by_publisher', table: 'ivt_impressions' },
+  prevIvt: { rpc: 'agg_ivt_by_publisher', table: 'ivt_impressions', previous: true },
+};
+
+/**
+ * Fetch the named aggregates for a window, one query at a time so the DB
+ * is not overwhelmed. Aggregates nobody asked for are left empty. Also
+ * returns how long each one took, for the lineage of what is built on it.
+ */
+async function loadAggregates(
+  supabase: ReturnType<typeof createServiceClient>,
+  source: string | null,
+  window: StatsWindow,
+  names: AggregateName[]
+): Promise<{ rows: Aggregates; ms: Partial<Record<AggregateName, number>> }> {
+  const filters = splitSourceScope(source);
 
   // Helper to run a single RPC call with error checking
-  async function rpc(fn: string, params: Record<string, string>): Promise<Row[]> {
-    const { data, error } = await supabase.rpc(fn, params);
+  async function rpc(fn: string, previous: boolean): Promise<Row[]> {
+    const { data, error } = await supabase.rpc(fn, {
+      p_start: previous ? window.prevStart : window.startDate,
+      p_end: previous ? window.prevEnd : window.endDate,
+      p_source: filters.source,
+      p_account: filters.account,
+    });
     if (error) throw new Error(`RPC ${fn} error: ${error.message}`);
     return (data || []) as Row[];
   }
 
-  // Run queries sequentially to avoid overwhelming the DB
-  // Batch 1: current period core queries
-  const partners = await rpc('agg_by_demand_partner', { p_start: start7, p_end: yesterday });
-  const publishers = await rpc('agg_by_publisher', { p_start: start7, p_end: yesterday });
-  const dates = await rpc('agg_by_date', { p_start: start7, p_end: yesterday });
-  console.log(`[Cache] Batch 1 done: ${partners.length} partners, ${publishers.length} publishers, ${dates.length} dates`);
-
-  // Batch 2: current period extra queries
-  const bundles = await rpc('agg_by_bundle', { p_start: start7, p_end: yesterday });
-  const adTypes = await rpc('agg_by_ad_unit_type', { p_start: start7, p_end: yesterday });
-  const cross = await rpc('agg_by_demand_publisher', { p_start: start7, p_end: yesterday });
-  console.log(`[Cache] Batch 2 done: ${bundles.length} bundles, ${adTypes.length} ad types, ${cross.length} cross`);
-
-  // Batch 3: previous period (for comparison)
-  const prevPublishers = await rpc('agg_by_publisher', { p_start: prevStart, p_end: prevEnd });
-  const prevDates = await rpc('agg_by_date', { p_start: prevStart, p_end: prevEnd });
-  console.log(`[Cache] Batch 3 done: prev ${prevPublishers.length} publishers, ${prevDates.length} dates`);
-
-  console.log(`[Cache] Fetched aggregates: ${partners.length} partners, ${publishers.length} publishers, ${bundles.length} bundles, ${adTypes.length} ad types, ${dates.length} dates, ${cross.length} cross`);
-
-  // Compute and save all 10 caches in parallel
-  await Promise.all([
-    saveCache(supabase, 'dashboard', computeDashboard(partners, publishers, bundles, dates, prevDates)),
-    saveCache(supabase, 'bundles_7', computeBundles(bundles)),
-    saveCache(supabase, 'ad_sizes_7', computeAdSizes(adTypes)),
-    saveCache(supabase, 'partners_7', computePartners(partners, publishers, cross)),
-    saveCache(supabase, 'quality_7', computeQuality(publishers, prevPublishers)),
-    saveCache(supabase, 'demand_appetite_7', computeDemandAppetite(partners, cross)),
-    saveCache(supabase, 'timeouts_7', computeTimeouts(partners, dates)),
-    saveCache(supabase, 'concentration_7', computeConcentration(partners, publishers)),
-    saveCache(supabase, 'filters_7', computeFilters(partners, dates)),
-    saveCache(supabase, 'creative_7', computeCreative(partners, dates)),
-  ]);
-
-  console.log('[Cache] All caches refreshed');
+  const rows = {} as Aggregates;
+  const ms: Partial<Record<AggregateName, number>> = {};
+  for (const name of Object.keys(AGGREGATE_SOURCES) as AggregateName[]) {
+    if (!names.includes(name)) {
+      rows[name] = [];
+      continue;
+    }
+    const from = AGGREGATE_SOURCES[name];
+    const started = Date.now();
+    rows[name] = await rpc(from.rpc, !!from.previous);
+    ms[name] = Date.now() - started;
+  }
+  return { rows, ms };
+}
+
+// ─── Cache registry ──────────────────────────────────────────
+
+interface StatsCacheDefinition {
+  inputs: AggregateName[];
+  compute: (a: Aggregates, days: number) => unknown;
+}
+
+// One entry per /api/stats endpoint; the name is the cache key stem
+const STATS_CACHES = {
+  dashboard: {
+    inputs: ['partners', 'publishers', 'bundles', 'dates', 'prevDates'],
+    compute: (a) => computeDashboard(a.partners, a.publishers, a.bundles, a.dates, a.prevDates),
+  },
+  bundles: { inputs: ['bundles'], compute: (a, days) => computeBundles(a.bundles, days) },
+  ad_sizes: { inputs: ['adTypes'], compute: (a, days) => computeAdSizes(a.adTypes, days) },
+  partners: { inputs: ['partners', 'publishers', 'cross'], compute: (a, days) => computePartners(a.partners, a.publishers, a.cross, days) },
+  quality: {
+    inputs: modelUsesIvt(QUALITY_MODEL) ? ['publishers', 'prevPublishers', 'ivt', 'prevIvt'] : ['publishers', 'prevPublishers'],
+    compute: (a) => computeQuality(a.publishers, a.prevPublishers, a.ivt, a.prevIvt),
+  },
+  demand_appetite: { inputs: ['partners', 'cross'], compute: (a, days) => computeDemandAppetite(a.partners, a.cross, days) },
+  timeouts: { inputs: ['partners', 'dates'], compute: (a, days) => computeTimeouts(a.partners, a.dates, days) },
+  concentration: { inputs: ['partners', 'publishers'], compute: (a) => computeConcentration(a.partners, a.publishers) },
+  filters: {
+    inputs: ['partners', 'dates', 'cross', 'partnerDays'],
+    compute: (a, days) => computeFilters(a.partners, a.dates, a.cross, a.partnerDays, days),
+  },
+  creative: { inputs: ['partners', 'dates'], compute: (a, days) => computeCreative(a.partners, a.dates, days) },
+} satisfies Record<string, StatsCacheDefinition>;
+
+export type StatsCacheName = keyof typeof STATS_CACHES;
+
+const STATS_CACHE_NAMES = Object.keys(STATS_CACHES) as StatsCacheName[];
+
+/**
+ * The rollups a cache reads for a window: the dates, from the previous
+ * window when an input needs it, and the rollup tables of its aggregates.
+ */
+function cacheDependencies(name: StatsCacheName, window: StatsWindow): CacheDependencies {
+  const definition: StatsCacheDefinition = STATS_CACHES[name];
+  const tables = new Set<string>();
+  let previous = false;
+  for (const input of definition.inputs) {
+    const from = AGGREGATE_SOURCES[input];
+    previous = previous || !!from.previous;
+    tables.add('rollup' in from ? DAILY_ROLLUPS[from.rollup].table : from.table);
+  }
+  return { startDate: previous ? window.prevStart : window.startDate, endDate: window.endDate, tables: Array.from(tables).sort() };
+}
+
+/**
+ * Compute the named caches for one window from a single load of their
+ * inputs, each saved with its lineage. An entry's compute time counts the
+ * aggregates it reads plus its own compute step.
+ */
+async function computeCaches(
+  supabase: ReturnType<typeof createServiceClient>,
+  source: string | null,
+  window: StatsWindow,
+  entries: Array<{ name: StatsCacheName; key: string; deps: CacheDependencies }>,
+  syncLogId: number | null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<Record<string, { data: any; lineage: CacheLineage }>> {
+  const updatedAt = new Date().toISOString();
+  const inputs = Array.from(new Set(entries.flatMap((e) => STATS_CACHES[e.name].inputs as AggregateName[])));
+  const a = await loadAggregates(supabase, source, window, inputs);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const results: Record<string, { data: any; lineage: CacheLineage }> = {};
+  await Promise.all(entries.map(({ name, key, deps }) => {
+    const definition: StatsCacheDefinition = STATS_CACHES[name];
+    const started = Date.now();
+    const data = definition.compute(a.rows, window.days);
+    const loadMs = definition.inputs.reduce((sum, input) => sum + (a.ms[input] || 0), 0);
+    const lineage: CacheLineage = {
+      syncLogId,
+      sourceStart: deps.startDate,
+      sourceEnd: deps.endDate,
+      sourceTables: deps.tables,
+      computeMs: loadMs + Date.now() - started,
+      updatedAt,
+    };
+    results[key] = { data, lineage };
+    return saveCache(supabase, key, data, lineage);
+  }));
+  return results;
+}
+
+/**
+ * Payload for a stats endpoint, with the lineage of the entry it came
+ * from. Periods read the cache built by refreshAllCaches (null until it
+ * has run); custom ranges are computed with the same compute* function
+ * and kept for a few minutes. With a compare mode the comparison window
+ * is computed the same way and every row gets deltas against it.
+ */
+export async function getStatsCache(
+  name: StatsCacheName,
+  range: StatsRange,
+  source: string | null,
+  compare: CompareMode | null = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<any | null> {
+  const current = await readStatsCache(name, range, source);
+  if (!current) return null;
+  if (!compare) return { ...current.data, lineage: current.lineage };
+
+  const window = 'period' in range ? periodWindow(range.period) : rangeWindow(range.startDate, range.endDate);
+  const comparison = comparisonWindow(window.startDate, window.endDate, compare);
+  const previous = await readStatsCache(name, comparison, source);
+  return {
+    ...attachDeltas(current.data, previous?.data ?? null),
+    comparison: { mode: compare, ...comparison },
+    lineage: current.lineage,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function readStatsCache(name: StatsCacheName, range: StatsRange, source: string | null): Promise<{ data: any; lineage: CacheLineage } | null> {
+  if ('period' in range) return readCacheEntry(scopedCacheKey(`${name}_${range.period}`, source));
+
+  const key = scopedCacheKey(`${RANGE_KEY_PREFIX}${name}_${range.startDate}_${range.endDate}`, source);
+  const cached = await readCacheEntry(key, RANGE_CACHE_TTL_MS);
+  if (cached) return cached;
+
+  const supabase = createServiceClient();
+  const window = rangeWindow(range.startDate, range.endDate);
+  const syncLogId = await getLatestSyncLogId(supabase);
+  const deps = cacheDependencies(name, window);
+  const results = await computeCaches(supabase, source, window, [{ name, key, deps }], syncLogId);
+  return results[key];
+}
+
+// ─── Main refresh (uses SQL aggregate functions via RPC) ─────
+
+// Rollups each daily snapshot reads for its day
+const SNAPSHOT_ROLLUPS: Record<DailySnapshotKind, string[]> = {
+  anomalies: [DAILY_ROLLUPS.partner.table, DAILY_ROLLUPS.publisher.table, DAILY_ROLLUPS.bundle.table],
+  quality: [DAILY_ROLLUPS.publisher.table],
+};
+
+/**
+ * Whether a day's snapshot needs building: it never was, or a sync run
+ * finished since changed that day in the rollups it reads.
+ */
+async function snapshotDue(
+  supabase: ReturnType<typeof createServiceClient>,
+  kind: DailySnapshotKind,
+  date: string,
+  force?: boolean
+): Promise<boolean> {
+  if (force) return true;
+  const builtAt = await getSnapshotBuiltAt(supabase, kind, date);
+  if (!builtAt) return true;
+  const deps = { startDate: date, endDate: date, tables: SNAPSHOT_ROLLUPS[kind] };
+  return (await listDataChanges(supabase, builtAt)).some((change) => changeAffects(change, deps, null));
+}
+
+/**
+ * Recompute the period caches whose inputs changed: entries that are
+ * missing, whose window has moved on (a new day), that read other rollups
+ * before, or whose rollups a sync run finished since has changed (same
+ * source scope, table and dates). force recomputes everything. Also
+ * saves yesterday's publisher quality scores for the quality history and
+ * its anomalies, when the day is new or has changed.
+ */
+export async function refreshAllCaches(options: { force?: boolean } = {}): Promise<CacheRefreshResult> {
+  const start = Date.now();
+  const supabase = createServiceClient();
+  // Combined view first, then one set of caches per registered source, then
+  // one per Limelight account when there is more than one
+  const scopes: (string | null)[] = [null, ...listStatsSources().map((src) => src.id)];
+  const accounts = await listLimelightAccountLabels(supabase);
+  if (accounts.length > 1) scopes.push(...accounts.map((a) => accountScope(a.slug)));
+
+  const syncLogId = await getLatestSyncLogId(supabase);
+
+  const { data: stored, error: lineageError } = await supabase.from('data_cache')
+    .select(CACHE_LINEAGE_COLUMNS)
+    .not('key', 'like', `${RANGE_KEY_PREFIX}%`);
+  if (lineageError) throw new Error(`Failed to read cache lineage: ${lineageError.message}`);
+  const lineage = new Map(((stored || []) as CacheLineageRow[]).map((row) => [row.key, row]));
+
+  // Runs finished since the oldest entry was built
+  const oldest = Array.from(lineage.values()).reduce<string | null>(
+    (min, row) => (min === null || row.updated_at < min ? row.updated_at : min), null
+  );
+  const changes = oldest && !options.force ? await listDataChanges(supabase, oldest) : [];
+
+  let recomputed = 0;
+  let unchanged = 0;
+  for (const source of scopes) {
+    const scope = source || 'all sources';
+    for (const days of CACHED_PERIODS) {
+      const window = periodWindow(days);
+      const due = STATS_CACHE_NAMES
+        .map((name) => ({ name, key: scopedCacheKey(`${name}_${days}`, source), deps: cacheDependencies(name, window) }))
+        .filter(({ key, deps }) => {
+          const entry = lineage.get(key);
+          if (options.force || !entry) return true;
+          if (entry.source_start !== deps.startDate || entry.source_end !== deps.endDate) return true;
+          if ((entry.source_tables || []).join(',') !== deps.tables.join(',')) return true;
+          return changes.some((change) => change.completedAt >= entry.updated_at && changeAffects(change, deps, source));
+        });
+
+      unchanged += STATS_CACHE_NAMES.length - due.length;
+      if (due.length === 0) continue;
+      console.log(`[Cache] Recomputing ${due.length} ${days}d cache(s) (${scope}): ${due.map((e) => e.name).join(', ')}`);
+      await computeCaches(supabase, source, window, due, syncLogId);
+      recomputed += due.length;
+    }
+  }
+
+  // Yesterday's publisher quality scores, for the quality history: once
+  // the day is synced, and again only when a later sync changes it
+  try {
+    if (await snapshotDue(supabase, 'quality', fmt(daysAgo(1)), options.force)) {
+      const saved = await saveQualitySnapshot(supabase, fmt(daysAgo(1)));
+      console.log(`[Cache] Saved ${saved} publisher quality score(s)`);
+    }
+  } catch (error: unknown) {
+    console.error('[Cache] Failed to save quality scores:', error instanceof Error ? error.message : error);
+  }
+
+  // Yesterday's anomalies, which the daily alerts are built from: once the
+  // day is synced, and again only when a later sync changes it
+  try {
+    if (await snapshotDue(supabase, 'anomalies', fmt(daysAgo(1)), options.force)) {
+      const anomalies = await saveDailyAnomalies(supabase, fmt(daysAgo(1)));
+      console.log(`[Cache] Saved ${anomalies.length} anomal${anomalies.length === 1 ? 'y' : 'ies'}`);
+    }
+  } catch (error: unknown) {
+    console.error('[Cache] Failed to save anomalies:', error instanceof Error ? error.message : error);
+  }
+
+  // Expired custom-range entries
+  const { error } = await supabase.from('data_cache')
+    .delete()
+    .like('key', `${RANGE_KEY_PREFIX}%`)
+    .lt('updated_at', new Date(Date.now() - RANGE_CACHE_TTL_MS).toISOString());
+  if (error) console.error('[Cache] Failed to prune custom-range entries:', error.message);
+
+  console.log(`[Cache] Refresh done: ${recomputed} recomputed, ${unchanged} unchanged`);
+  return { recomputed, unchanged, durationMs: Date.now() - start };
+}
+
+/**
+ * Recompute what a finished sync changed once its response has been sent.
+ * Failures are only logged; the refresh cron catches up later.
+ */
+export function refreshCachesAfterSync(trigger: string) {
+  after(async () => {
+    try {
+      await refreshAllCaches();
+    } catch (error: unknown) {
+      console.error(`[Cache] Refresh after ${trigger} failed:`, error instanceof Error ? error.message : error);
+    }
+  });
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -151,22 +538,40 @@ function computeDashboard(partners: Row[], publishers: Row[], bundles: Row[], da
 
 // ─── BUNDLES ────────────────────────────────────────────────────
 
-function computeBundles(data: Row[]) {
+// Bundle metrics from summed totals, for a bundle row or the long tail
+function bundleMetrics(t: Record<string, number>) {
+  const imp = t.impressions, rev = t.revenue, br = t.bidRequests, bi = t.bids, wi = t.wins;
+  return {
+    impressions: imp, revenue: rev, bidRequests: br, bids: bi, wins: wi,
+    opportunities: t.opportunities, timeouts: t.timeouts, errors: t.errors, pubPayout: t.pubPayout,
+    ecpm: imp > 0 ? (rev / imp) * 1000 : 0,
+    fillRate: br > 0 ? (imp / br) * 100 : 0,
+    bidRate: br > 0 ? (bi / br) * 100 : 0,
+    winRate: bi > 0 ? (wi / bi) * 100 : 0,
+  };
+}
+
+export const BUNDLE_TABLE: TableColumns<ReturnType<typeof bundleMetrics>> = {
+  name: 'bundle',
+  sums: ['impressions', 'revenue', 'bidRequests', 'bids', 'wins', 'opportunities', 'timeouts', 'errors', 'pubPayout'],
+  summarize: bundleMetrics,
+};
+
+export const BUNDLE_SORT_FIELDS = ['bundle', 'impressions', 'revenue', 'bidRequests', 'bids', 'wins', 'opportunities',
+  'timeouts', 'errors', 'pubPayout', 'ecpm', 'fillRate', 'bidRate', 'winRate'];
+
+// Every bundle with impressions; the API pages them (see pageTable)
+function computeBundles(data: Row[], days: number) {
   const bList = data
     .filter(r => v(r.impressions) > 0)
-    .map(r => {
-      const imp = v(r.impressions), rev = v(r.revenue), br = v(r.bid_requests);
-      const bi = v(r.bids), wi = v(r.wins);
-      return {
-        bundle: r.name, impressions: imp, revenue: rev, bidRequests: br, bids: bi, wins: wi,
+    .map(r => ({
+      bundle: r.name,
+      ...bundleMetrics({
+        impressions: v(r.impressions), revenue: v(r.revenue), bidRequests: v(r.bid_requests), bids: v(r.bids), wins: v(r.wins),
         opportunities: v(r.opportunities), timeouts: v(r.timeouts), errors: v(r.errors), pubPayout: v(r.pub_payout),
-        ecpm: imp > 0 ? (rev / imp) * 1000 : 0,
-        fillRate: br > 0 ? (imp / br) * 100 : 0,
-        bidRate: br > 0 ? (bi / br) * 100 : 0,
-        winRate: bi > 0 ? (wi / bi) * 100 : 0,
-      };
-    })
-    .sort((a, b) => b.revenue - a.revenue).slice(0, 100);
+      }),
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
 
   const totalRevenue = bList.reduce((s, b) => s + b.revenue, 0);
   const totalImpressions = bList.reduce((s, b) => s + b.impressions, 0);
@@ -178,32 +583,48 @@ function computeBundles(data: Row[]) {
       avgECPM: totalImpressions > 0 ? (totalRevenue / totalImpressions) * 1000 : 0,
       overallFillRate: totalBidRequests > 0 ? (totalImpressions / totalBidRequests) * 100 : 0,
     },
-    period: 7,
+    period: days,
   };
 }
 
 // ─── AD SIZES ───────────────────────────────────────────────────
 
-function computeAdSizes(data: Row[]) {
+// Ad size metrics from summed totals, for a size row or the long tail
+function adSizeMetrics(t: Record<string, number>) {
+  const imp = t.impressions, rev = t.revenue, br = t.bidRequests;
+  return {
+    impressions: imp,
+    revenue: Math.round(rev * 100) / 100,
+    bidRequests: br, bids: t.bids, wins: t.wins,
+    eCPM: imp > 0 ? Math.round((rev / imp) * 1000 * 100) / 100 : 0,
+    fillRate: br > 0 ? Math.round((imp / br) * 100 * 100) / 100 : 0,
+  };
+}
+
+export const AD_SIZE_TABLE: TableColumns<ReturnType<typeof adSizeMetrics>> = {
+  name: 'size',
+  sums: ['impressions', 'revenue', 'bidRequests', 'bids', 'wins'],
+  summarize: adSizeMetrics,
+};
+
+export const AD_SIZE_SORT_FIELDS = ['size', 'impressions', 'revenue', 'bidRequests', 'bids', 'wins', 'eCPM', 'fillRate'];
+
+// Every size with impressions; the API pages them (see pageTable)
+function computeAdSizes(data: Row[], days: number) {
   const sizes = data
     .filter(r => v(r.impressions) > 0)
-    .map(r => {
-      const imp = v(r.impressions), rev = v(r.revenue);
-      const br = v(r.bid_requests), bi = v(r.bids), wi = v(r.wins);
-      return {
-        size: r.name, impressions: imp,
-        revenue: Math.round(rev * 100) / 100,
-        bidRequests: br, bids: bi, wins: wi,
-        eCPM: imp > 0 ? Math.round((rev / imp) * 1000 * 100) / 100 : 0,
-        fillRate: br > 0 ? Math.round((imp / br) * 100 * 100) / 100 : 0,
-      };
-    })
-    .sort((a, b) => b.revenue - a.revenue).slice(0, 50);
+    .map(r => ({
+      size: r.name,
+      ...adSizeMetrics({
+        impressions: v(r.impressions), revenue: v(r.revenue), bidRequests: v(r.bid_requests), bids: v(r.bids), wins: v(r.wins),
+      }),
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
 
   const totalRevenue = sizes.reduce((s, x) => s + x.revenue, 0);
   const totalImpressions = sizes.reduce((s, x) => s + x.impressions, 0);
   return {
-    period: 7, totalSizes: sizes.length,
+    period: days, totalSizes: sizes.length,
     totalRevenue: Math.round(totalRevenue * 100) / 100, totalImpressions,
     avgECPM: totalImpressions > 0 ? Math.round((totalRevenue / totalImpressions) * 1000 * 100) / 100 : 0,
     sizes,
@@ -212,12 +633,12 @@ function computeAdSizes(data: Row[]) {
 
 // ─── PARTNERS ───────────────────────────────────────────────────
 
-function computePartners(partnerData: Row[], publisherData: Row[], crossData: Row[]) {
+function computePartners(partnerData: Row[], publisherData: Row[], crossData: Row[], days: number) {
   const buildPartner = (r: Row) => {
     const imp = v(r.impressions), rev = v(r.revenue), br = v(r.bid_requests);
     const bi = v(r.bids), wi = v(r.wins), to = v(r.timeouts), er = v(r.errors);
     return {
-      name: r.name, revenue: rev, impressions: imp, bidRequests: br, bids: bi, wins: wi, timeouts: to, errors: er,
+      id: r.id ?? null, name: r.name, revenue: rev, impressions: imp, bidRequests: br, bids: bi, wins: wi, timeouts: to, errors: er,
       ecpm: imp > 0 ? (rev / imp) * 1000 : 0,
       fillRate: br > 0 ? (imp / br) * 100 : 0,
       timeoutRate: br > 0 ? (to / br) * 100 : 0,
@@ -228,7 +649,7 @@ function computePartners(partnerData: Row[], publisherData: Row[], crossData: Ro
     const imp = v(r.impressions), rev = v(r.revenue), br = v(r.bid_requests);
     const bi = v(r.bids), wi = v(r.wins), to = v(r.timeouts), er = v(r.errors), pp = v(r.pub_payout);
     return {
-      name: r.name, revenue: rev, impressions: imp, bidRequests: br, bids: bi, wins: wi, timeouts: to, errors: er, pubPayout: pp,
+      id: r.id ?? null, name: r.name, revenue: rev, impressions: imp, bidRequests: br, bids: bi, wins: wi, timeouts: to, errors: er, pubPayout: pp,
       ecpm: imp > 0 ? (rev / imp) * 1000 : 0,
       fillRate: br > 0 ? (imp / br) * 100 : 0,
       timeoutRate: br > 0 ? (to / br) * 100 : 0,
@@ -236,13 +657,14 @@ function computePartners(partnerData: Row[], publisherData: Row[], crossData: Ro
   };
 
   return {
-    period: 7,
+    period: days,
     demandPartners: partnerData.map(r => buildPartner(r)).sort((a, b) => b.revenue - a.revenue),
     publishers: publisherData.map(r => buildPublisher(r)).sort((a, b) => b.revenue - a.revenue),
     crossReference: crossData.map(r => {
       const imp = v(r.impressions), rev = v(r.revenue), br = v(r.bid_requests), to = v(r.timeouts);
       return {
-        demandPartner: r.demand_partner, publisher: r.publisher || 'Unknown',
+        demandPartnerId: r.demand_partner_id ?? null, demandPartner: r.demand_partner,
+        publisherId: r.publisher_id ?? null, publisher: r.publisher || 'Unknown',
         revenue: rev, impressions: imp, bidRequests: br,
         ecpm: imp > 0 ? (rev / imp) * 1000 : 0,
         fillRate: br > 0 ? (imp / br) * 100 : 0,
@@ -254,64 +676,60 @@ function computePartners(partnerData: Row[], publisherData: Row[], crossData: Ro
 
 // ─── QUALITY ────────────────────────────────────────────────────
 
-function normalizeToOptimal(value: number, optimal: number): number {
-  if (optimal <= 0) return 0;
-  return value >= optimal ? 90 : (value / optimal) * 90;
-}
-
-function qScore(a: { bidRequests: number; bids: number; wins: number; impressions: number }): number {
-  const bidRate = a.bidRequests > 0 ? (a.bids / a.bidRequests) * 100 : 0;
-  const winRate = a.bids > 0 ? (a.wins / a.bids) * 100 : 0;
-  const fillRate = a.bidRequests > 0 ? (a.impressions / a.bidRequests) * 100 : 0;
-  const successRate = a.wins > 0 ? (a.impressions / a.wins) * 100 : 0;
-  return Math.min(100, normalizeToOptimal(bidRate, 80) * 0.25 + normalizeToOptimal(winRate, 30) * 0.25 +
-    normalizeToOptimal(fillRate, 70) * 0.20 + normalizeToOptimal(successRate, 100) * 0.30);
-}
-
-function computeQuality(currData: Row[], prevData: Row[]) {
-  const prevMap = new Map<string, Row>();
-  for (const r of prevData) prevMap.set(r.name, r);
+// Scores come from the quality model of this environment (QUALITY_SCORE_MODEL),
+// each with the per-component breakdown behind it
+function computeQuality(currData: Row[], prevData: Row[], ivtData: Row[], prevIvtData: Row[]) {
+  const model = QUALITY_MODEL;
+  const prevScores = new Map<string, number>();
+  for (const s of scorePublishers(prevData, prevIvtData, model)) prevScores.set(entityKey(s.row.id, s.row.name), s.score);
 
-  const publishers = currData.map(r => {
+  const publishers = scorePublishers(currData, ivtData, model).map(({ row: r, score: qs, components }) => {
     const imp = v(r.impressions), br = v(r.bid_requests), bi = v(r.bids), wi = v(r.wins);
     const to = v(r.timeouts), rev = v(r.revenue);
-    const qs = qScore({ bidRequests: br, bids: bi, wins: wi, impressions: imp });
     let trend: 'improving' | 'stable' | 'declining' = 'stable';
-    const prevR = prevMap.get(r.name);
-    if (prevR) {
-      const prevQS = qScore({ bidRequests: v(prevR.bid_requests), bids: v(prevR.bids), wins: v(prevR.wins), impressions: v(prevR.impressions) });
+    const prevQS = prevScores.get(entityKey(r.id, r.name));
+    if (prevQS !== undefined) {
       const diff = qs - prevQS;
-      if (diff > 3) trend = 'improving'; else if (diff < -3) trend = 'declining';
+      if (diff > model.trendThreshold) trend = 'improving'; else if (diff < -model.trendThreshold) trend = 'declining';
     }
     return {
-      publisher: r.name, qualityScore: Math.round(qs * 10) / 10,
+      publisherId: r.id ?? null, publisher: r.name, qualityScore: Math.round(qs * 10) / 10,
       bidRate: br > 0 ? Math.round((bi / br) * 100 * 100) / 100 : 0,
       winRate: bi > 0 ? Math.round((wi / bi) * 100 * 100) / 100 : 0,
       fillRate: br > 0 ? Math.round((imp / br) * 100 * 100) / 100 : 0,
-      revenue: rev, impressions: imp, bidRequests: br, timeouts: to, trend,
+      revenue: rev, impressions: imp, bidRequests: br, timeouts: to, trend, components,
     };
   }).sort((a, b) => b.qualityScore - a.qualityScore);
 
   const total = publishers.length;
   const avgQS = total > 0 ? Math.round((publishers.reduce((s, p) => s + p.qualityScore, 0) / total) * 10) / 10 : 0;
   return {
-    summary: { avgQualityScore: avgQS, totalPublishers: total, highQuality: publishers.filter(p => p.qualityScore > 70).length, lowQuality: publishers.filter(p => p.qualityScore < 40).length },
+    summary: {
+      avgQualityScore: avgQS, totalPublishers: total,
+      highQuality: publishers.filter(p => p.qualityScore > model.highThreshold).length,
+      lowQuality: publishers.filter(p => p.qualityScore < model.lowThreshold).length,
+    },
     publishers,
+    model: {
+      components: model.components.map((c) => ({ ...c, label: QUALITY_METRICS[c.metric].label })),
+      trendThreshold: model.trendThreshold, highThreshold: model.highThreshold, lowThreshold: model.lowThreshold,
+    },
   };
 }
 
 // ─── DEMAND APPETITE ────────────────────────────────────────────
 
-function computeDemandAppetite(partnerData: Row[], crossData: Row[]) {
+function computeDemandAppetite(partnerData: Row[], crossData: Row[], days: number) {
   // Build publisher breakdown per partner from cross aggregates
   const pubByPartner = new Map<string, { name: string; revenue: number; impressions: number }[]>();
   for (const r of crossData) {
     const partner = r.demand_partner;
     const publisher = r.publisher || 'Unknown';
     if (!partner || publisher === 'Unknown' || publisher === '' || !publisher) continue;
-    const list = pubByPartner.get(partner) || [];
+    const key = entityKey(r.demand_partner_id, partner);
+    const list = pubByPartner.get(key) || [];
     list.push({ name: publisher, revenue: v(r.revenue), impressions: v(r.impressions) });
-    pubByPartner.set(partner, list);
+    pubByPartner.set(key, list);
   }
 
   const demandPartners = partnerData
@@ -320,7 +738,7 @@ function computeDemandAppetite(partnerData: Row[], crossData: Row[]) {
       const imp = v(r.impressions), rev = v(r.revenue), br = v(r.bid_requests);
       const bi = v(r.bids), wi = v(r.wins), opp = v(r.opportunities);
       const to = v(r.timeouts);
-      const pubs = pubByPartner.get(nm) || [];
+      const pubs = pubByPartner.get(entityKey(r.id, nm)) || [];
       const topPublishers = pubs.sort((a, b) => b.revenue - a.revenue).slice(0, 5);
       return {
         name: nm, revenue: rev, impressions: imp, bidRequests: br,
@@ -342,7 +760,7 @@ function computeDemandAppetite(partnerData: Row[], crossData: Row[]) {
     : null;
 
   return {
-    period: 7,
+    period: days,
     summary: {
       totalPartners, avgWinRate,
       highestBidder: highestBidder ? { name: highestBidder.name, avgBidPrice: highestBidder.avgBidPrice } : null,
@@ -355,7 +773,7 @@ function computeDemandAppetite(partnerData: Row[], crossData: Row[]) {
 
 // ─── TIMEOUTS ───────────────────────────────────────────────────
 
-function computeTimeouts(partnerData: Row[], dateData: Row[]) {
+function computeTimeouts(partnerData: Row[], dateData: Row[], days: number) {
   const totalImp = partnerData.reduce((s, r) => s + v(r.impressions), 0);
   const totalRev = partnerData.reduce((s, r) => s + v(r.revenue), 0);
   const averageEcpm = totalImp > 0 ? (totalRev / totalImp) * 1000 : 0;
@@ -391,49 +809,100 @@ function computeTimeouts(partnerData: Row[], dateData: Row[]) {
   return {
     summary: { totalTimeouts: sTO, avgTimeoutRate: sTR > 0 ? (sTO / sTR) * 100 : 0,
       estimatedRevenueLoss: (sTO * averageEcpm) / 1000, totalErrors: sER, totalRequests: sTR },
-    partners, dailyTrend, period: 7,
+    partners, dailyTrend, period: days,
   };
 }
 
 // ─── CONCENTRATION ──────────────────────────────────────────────
 
 function computeConcentration(partnerData: Row[], publisherData: Row[]) {
-  const conc = (data: Row[]) => {
-    const total = data.reduce((s, r) => s + v(r.revenue), 0);
-    const dist = data.map(r => ({
-      name: r.name, revenue: v(r.revenue),
-      share: total > 0 ? (v(r.revenue) / total) * 100 : 0,
-    })).sort((a, b) => b.revenue - a.revenue);
-    const hhi = dist.reduce((s, e) => s + e.share * e.share, 0);
+  const side = (data: Row[]) => {
+    const c = concentration(data.map(r => ({ id: r.id, name: r.name, revenue: v(r.revenue) })));
     return {
-      distribution: dist,
-      top5Share: Math.round(dist.slice(0, 5).reduce((s, e) => s + e.share, 0) * 100) / 100,
-      top10Share: Math.round(dist.slice(0, 10).reduce((s, e) => s + e.share, 0) * 100) / 100,
-      hhi: Math.round(hhi), count: dist.length,
+      hhi: c.hhi, top5Share: c.top5Share, top10Share: c.top10Share, gini: c.gini, risk: concentrationRisk(c.hhi),
+      count: c.count, distribution: c.distribution, lorenz: c.lorenz,
     };
   };
-  const risk = (hhi: number): 'low' | 'medium' | 'high' => hhi < 1500 ? 'low' : hhi <= 2500 ? 'medium' : 'high';
 
-  const demand = conc(partnerData);
-  const publisher = conc(publisherData);
-  const dr = risk(demand.hhi), pr = risk(publisher.hhi);
+  const demand = side(partnerData);
+  const publisher = side(publisherData);
   const ro = { low: 0, medium: 1, high: 2 };
 
   return {
-    demand: { hhi: demand.hhi, top5Share: demand.top5Share, top10Share: demand.top10Share, risk: dr, count: demand.count, distribution: demand.distribution },
-    publisher: { hhi: publisher.hhi, top5Share: publisher.top5Share, top10Share: publisher.top10Share, risk: pr, count: publisher.count, distribution: publisher.distribution },
-    overallRisk: ro[dr] >= ro[pr] ? dr : pr,
+    demand,
+    publisher,
+    overallRisk: ro[demand.risk] >= ro[publisher.risk] ? demand.risk : publisher.risk,
     totalRevenue: partnerData.reduce((s, r) => s + v(r.revenue), 0),
   };
 }
 
 // ─── FILTERS ────────────────────────────────────────────────────
 
-function computeFilters(partnerData: Row[], dateData: Row[]) {
+// Ends of a lost-revenue range: the 10th and 90th percentile daily eCPM
+const LOSS_RANGE_PERCENTILES = { low: 10, high: 90 };
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(idx), hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+// How far the daily eCPM strays below and above the eCPM of the whole
+// window, as multipliers of it; null without two days of impressions.
+function ecpmSpread(days: Row[]): { low: number; high: number } | null {
+  const withImp = days.filter(r => v(r.impressions) > 0);
+  const imp = withImp.reduce((s, r) => s + v(r.impressions), 0);
+  const mean = imp > 0 ? (withImp.reduce((s, r) => s + v(r.revenue), 0) / imp) * 1000 : 0;
+  if (withImp.length < 2 || mean <= 0) return null;
+  const ecpms = withImp.map(r => (v(r.revenue) / v(r.impressions)) * 1000).sort((a, b) => a - b);
+  return {
+    low: Math.min(1, percentile(ecpms, LOSS_RANGE_PERCENTILES.low) / mean),
+    high: Math.max(1, percentile(ecpms, LOSS_RANGE_PERCENTILES.high) / mean),
+  };
+}
+
+// Price `total` lost events: those on a publisher where the partner has
+// impressions at its eCPM there, the rest at the partner's own eCPM.
+function priceLoss(total: number, byPublisher: Array<{ count: number; ecpm: number | null }>, fallbackEcpm: number): number {
+  const known = byPublisher.filter(p => p.count > 0 && p.ecpm !== null);
+  const counted = known.reduce((s, p) => s + p.count, 0);
+  // Publisher rows can add up to more than the partner total (bids - impressions is floored per row)
+  const scale = counted > total && counted > 0 ? total / counted : 1;
+  const priced = known.reduce((s, p) => s + p.count * scale * (p.ecpm as number), 0);
+  return (priced + Math.max(0, total - counted * scale) * fallbackEcpm) / 1000;
+}
+
+/**
+ * Lost bids (bids that did not become impressions) and timeouts priced per
+ * partner: at the partner's eCPM on each publisher where it has one, else
+ * at its own eCPM, and only at the network eCPM for partners without any
+ * impressions. Each estimate comes with a low/high range from how the
+ * partner's (or, failing that, the network's) daily eCPM varies.
+ */
+function computeFilters(partnerData: Row[], dateData: Row[], crossData: Row[], partnerDays: Row[], days: number) {
   // Use date totals for average eCPM (includes all data)
   const totalImp = dateData.reduce((s, r) => s + v(r.impressions), 0);
   const totalRev = dateData.reduce((s, r) => s + v(r.revenue), 0);
   const averageEcpm = totalImp > 0 ? (totalRev / totalImp) * 1000 : 0;
+  // With no spread at all the range is the estimate itself
+  const networkSpread = ecpmSpread(dateData) || { low: 1, high: 1 };
+
+  const crossByPartner = new Map<string, Row[]>();
+  for (const r of crossData) {
+    const key = entityKey(r.demand_partner_id, r.demand_partner);
+    if (!crossByPartner.has(key)) crossByPartner.set(key, []);
+    crossByPartner.get(key)!.push(r);
+  }
+  const daysByPartner = new Map<string, Row[]>();
+  for (const r of partnerDays) {
+    const key = entityKey(r.id, r.name);
+    if (!daysByPartner.has(key)) daysByPartner.set(key, []);
+    daysByPartner.get(key)!.push(r);
+  }
+
+  const range = (expected: number, spread: { low: number; high: number }) =>
+    ({ low: expected * spread.low, expected, high: expected * spread.high });
 
   const partners = partnerData
     .filter(r => v(r.bid_requests) > 0)
@@ -442,6 +911,20 @@ function computeFilters(partnerData: Row[], dateData: Row[]) {
       const imp = v(r.impressions), to = v(r.timeouts), er = v(r.errors), rev = v(r.revenue);
       const lossRate = bi > 0 ? (1 - imp / bi) * 100 : 0;
       const lostBids = Math.max(0, bi - imp);
+
+      const key = entityKey(r.id, r.name);
+      const pubs = (crossByPartner.get(key) || []).map(c => ({
+        lostBids: Math.max(0, v(c.bids) - v(c.impressions)),
+        timeouts: v(c.timeouts),
+        ecpm: v(c.impressions) > 0 ? (v(c.revenue) / v(c.impressions)) * 1000 : null,
+      }));
+      const ecpm = imp > 0 ? (rev / imp) * 1000 : averageEcpm;
+      const ecpmBasis: 'publisher' | 'partner' | 'network' =
+        imp === 0 ? 'network' : pubs.some(p => p.ecpm !== null) ? 'publisher' : 'partner';
+      const spread = (imp > 0 && ecpmSpread(daysByPartner.get(key) || [])) || networkSpread;
+
+      const timeoutRevenueLoss = priceLoss(to, pubs.map(p => ({ count: p.timeouts, ecpm: p.ecpm })), ecpm);
+      const lostBidRevenue = priceLoss(lostBids, pubs.map(p => ({ count: p.lostBids, ecpm: p.ecpm })), ecpm);
       return {
         name: r.name, bidRequests: br, bids: bi, wins: wi, impressions: imp,
         timeouts: to, errors: er, revenue: rev,
@@ -449,8 +932,9 @@ function computeFilters(partnerData: Row[], dateData: Row[]) {
         timeoutRate: br > 0 ? (to / br) * 100 : 0,
         bidResponseRate: br > 0 ? (bi / br) * 100 : 0,
         fillRate: br > 0 ? (imp / br) * 100 : 0,
-        timeoutRevenueLoss: (to * averageEcpm) / 1000,
-        lostBids, lostBidRevenue: (lostBids * averageEcpm) / 1000,
+        ecpm, ecpmBasis,
+        timeoutRevenueLoss, timeoutRevenueLossRange: range(timeoutRevenueLoss, spread),
+        lostBids, lostBidRevenue, lostBidRevenueRange: range(lostBidRevenue, spread),
       };
     }).sort((a, b) => b.lossRate - a.lossRate);
 
@@ -465,18 +949,21 @@ function computeFilters(partnerData: Row[], dateData: Row[]) {
   const sER = partners.reduce((s, p) => s + p.errors, 0);
   const sLB = partners.reduce((s, p) => s + p.lostBids, 0);
   const sTLR = partners.reduce((s, p) => s + p.timeoutRevenueLoss + p.lostBidRevenue, 0);
+  const sLow = partners.reduce((s, p) => s + p.timeoutRevenueLossRange.low + p.lostBidRevenueRange.low, 0);
+  const sHigh = partners.reduce((s, p) => s + p.timeoutRevenueLossRange.high + p.lostBidRevenueRange.high, 0);
 
   return {
     summary: { totalBidRequests: sBR, totalBids: sBI, totalWins: sWI, totalImpressions: sIM,
       totalTimeouts: sTO, totalErrors: sER, totalLostBids: sLB, estimatedLostRevenue: sTLR,
+      estimatedLostRevenueRange: { low: sLow, expected: sTLR, high: sHigh },
       overallLossRate: Math.max(0, sBI > 0 ? (1 - sIM / sBI) * 100 : 0), averageEcpm },
-    partners, highBidLowWin, highTimeouts, period: 7,
+    partners, highBidLowWin, highTimeouts, period: days,
   };
 }
 
 // ─── CREATIVE ───────────────────────────────────────────────────
 
-function computeCreative(partnerData: Row[], dateData: Row[]) {
+function computeCreative(partnerData: Row[], dateData: Row[], days: number) {
   const partners = partnerData
     .filter(r => v(r.bids) > 0 || v(r.impressions) > 0)
     .map(r => {
@@ -507,6 +994,6 @@ function computeCreative(partnerData: Row[], dateData: Row[]) {
     summary: { totalImpressions: tI, totalBids: tB, totalWins: tW, totalRevenue: tR, totalBidRequests: tBR,
       overallWinRate: tB > 0 ? (tW / tB) * 100 : 0, overallEcpm: tI > 0 ? (tR / tI) * 1000 : 0,
       overallBidRate: tBR > 0 ? (tB / tBR) * 100 : 0 },
-    partners, dailyTrend, period: 7,
+    partners, dailyTrend, period: days,
   };
 }
@@ -0,0 +1,135 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { listStatsSourceAdapters, splitSourceScope } from '@/lib/sources';
+import { listDimensionSets } from '@/lib/limelight/dimension-sets';
+import { BACKFILL_SYNC_TYPE } from '@/lib/limelight/backfill';
+import { LIMELIGHT_SOURCE_ID } from '@/lib/limelight/transformer';
+import { rollupsFedBy, STATS_TABLE } from '@/lib/limelight/rollups';
+import type { CacheLineage, SyncLog } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// The daily rollups a cache entry reads
+export interface CacheDependencies {
+  startDate: string;
+  endDate: string;
+  tables: string[];
+}
+
+// Daily rollups a finished sync run may have changed. A null field is not
+// known for that run and matches every entry.
+export interface DataChange {
+  syncLogId: number;
+  completedAt: string;
+  startDate: string | null;
+  endDate: string | null;
+  tables: string[] | null;
+  source: string | null;
+  account: string | null;
+}
+
+// data_cache columns describing an entry, as stored
+export interface CacheLineageRow {
+  key: string;
+  updated_at: string;
+  sync_log_id: number | null;
+  source_start: string | null;
+  source_end: string | null;
+  source_tables: string[] | null;
+  compute_ms: number | null;
+}
+
+export const CACHE_LINEAGE_COLUMNS = 'key, updated_at, sync_log_id, source_start, source_end, source_tables, compute_ms';
+
+export function toCacheLineage(row: Omit<CacheLineageRow, 'key'>): CacheLineage {
+  return {
+    syncLogId: row.sync_log_id,
+    sourceStart: row.source_start,
+    sourceEnd: row.source_end,
+    sourceTables: row.source_tables || [],
+    computeMs: row.compute_ms,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Whether an entry built for a source scope and dependencies may be out of
+ * date after a change: the scope must include the change's source (and
+ * account), a table must be shared and the dates must overlap.
+ */
+export function changeAffects(change: DataChange, deps: CacheDependencies, scope: string | null): boolean {
+  if (scope && change.source) {
+    const { source, account } = splitSourceScope(scope);
+    if (source !== change.source) return false;
+    if (account && change.account && account !== change.account) return false;
+  }
+  if (change.tables && !change.tables.some((table) => deps.tables.includes(table))) return false;
+  if (change.startDate && change.startDate > deps.endDate) return false;
+  if (change.endDate && change.endDate < deps.startDate) return false;
+  return true;
+}
+
+/**
+ * Sync runs that finished since the given time, as the daily rollups they
+ * may have changed (those built from the stats tables they wrote). Daily
+ * syncs name their dimension sets; backfill jobs may touch any set, and
+ * other sources and uploads write the core table. A run that completed
+ * without rows changed nothing and is left out.
+ */
+export async function listDataChanges(supabase: SupabaseClient, since: string): Promise<DataChange[]> {
+  const { data, error } = await supabase
+    .from('sync_logs')
+    .select('id, sync_type, account, start_date, end_date, rows_synced, status, set_results, completed_at')
+    .gte('completed_at', since)
+    .order('completed_at', { ascending: true });
+  if (error) throw new Error(`Failed to load finished sync runs: ${error.message}`);
+
+  const logs = (data || []) as SyncLog[];
+  if (logs.length === 0) return [];
+
+  // Includes inactive sets, which older runs may name
+  const sets = await listDimensionSets(supabase);
+  const tables = new Map(sets.map((set) => [set.set_key, set.table_name]));
+  const rollups = (table: string) => rollupsFedBy(table, sets);
+  // Adapter syncs log under their source id; uploads may target any source
+  const sourceIds = new Set(listStatsSourceAdapters().map((src) => src.id));
+
+  return logs
+    .filter((log) => !(log.status === 'completed' && Number(log.rows_synced || 0) === 0))
+    .map((log) => {
+      let logTables: string[] | null = rollups(STATS_TABLE);
+      if (log.set_results) {
+        const written = Object.entries(log.set_results)
+          .filter(([, result]) => result.rowsSynced > 0 || result.status === 'failed')
+          .map(([setKey]) => tables.get(setKey));
+        logTables = written.every((table): table is string => !!table)
+          ? Array.from(new Set(written.flatMap(rollups)))
+          : null;
+      } else if (log.sync_type === BACKFILL_SYNC_TYPE) {
+        logTables = null;
+      }
+
+      const source = log.sync_type === BACKFILL_SYNC_TYPE ? LIMELIGHT_SOURCE_ID : sourceIds.has(log.sync_type) ? log.sync_type : null;
+      return {
+        syncLogId: log.id,
+        completedAt: log.completed_at as string,
+        startDate: log.start_date,
+        endDate: log.end_date,
+        tables: logTables,
+        source,
+        account: log.account,
+      };
+    });
+}
+
+// Latest finished sync run, recorded on every entry computed now
+export async function getLatestSyncLogId(supabase: SupabaseClient): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('sync_logs')
+    .select('id')
+    .not('completed_at', 'is', null)
+    .order('completed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read latest sync run: ${error.message}`);
+  return data?.id ?? null;
+}
@@ -0,0 +1,31 @@
+import { createServiceClient } from '@/lib/supabase/server';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Kept by markSnapshotBuilt (migration 028)
+export const SNAPSHOT_TABLE = 'daily_snapshots';
+
+// Per-day results derived from the daily rollups
+export type DailySnapshotKind = 'anomalies' | 'quality';
+
+/**
+ * When a day's snapshot was last built, or null if it never was. A day
+ * with a marker and no saved rows was looked at and found clean.
+ */
+export async function getSnapshotBuiltAt(supabase: SupabaseClient, kind: DailySnapshotKind, date: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select('built_at')
+    .eq('kind', kind)
+    .eq('date', date)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read ${kind} snapshot marker for ${date}: ${error.message}`);
+  return data?.built_at ?? null;
+}
+
+export async function markSnapshotBuilt(supabase: SupabaseClient, kind: DailySnapshotKind, date: string, rows: number): Promise<void> {
+  const { error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .upsert({ kind, date, rows, built_at: new Date().toISOString() }, { onConflict: 'kind,date' });
+  if (error) throw new Error(`Failed to mark ${kind} snapshot for ${date}: ${error.message}`);
+}
@@ -0,0 +1,103 @@
+// Server-side search, filters, sort and paging for stats tables.
+// Kept free of server imports so the pages can build the same query string.
+import type { LongTail, StatsTablePage, StatsTableQuery } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+export const TABLE_DEFAULT_LIMIT = 50;
+export const TABLE_MAX_LIMIT = 500;
+
+export function defaultTableQuery(sort = 'revenue'): StatsTableQuery {
+  return { search: '', minImpressions: 0, minRevenue: 0, sort, sortDesc: true, limit: TABLE_DEFAULT_LIMIT, offset: 0 };
+}
+
+function nonNegative(value: string | null): number {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : 0;
+}
+
+/**
+ * Read ?search=&minImpressions=&minRevenue=&sort=&order=asc|desc&limit=&offset=
+ * from a stats request. A sort field that is not in sortFields falls back
+ * to the default; limit is clamped to TABLE_MAX_LIMIT.
+ */
+export function parseTableQuery(params: URLSearchParams, sortFields: string[], defaultSort = 'revenue'): StatsTableQuery {
+  const sort = params.get('sort') || defaultSort;
+  const limit = Math.floor(nonNegative(params.get('limit'))) || TABLE_DEFAULT_LIMIT;
+  return {
+    search: (params.get('search') || '').trim().toLowerCase(),
+    minImpressions: nonNegative(params.get('minImpressions')),
+    minRevenue: nonNegative(params.get('minRevenue')),
+    sort: sortFields.includes(sort) ? sort : defaultSort,
+    sortDesc: params.get('order') !== 'asc',
+    limit: Math.min(limit, TABLE_MAX_LIMIT),
+    offset: Math.floor(nonNegative(params.get('offset'))),
+  };
+}
+
+// Query-string suffix for a stats request
+export function tableQueryParam(query: StatsTableQuery): string {
+  const params = new URLSearchParams({
+    sort: query.sort,
+    order: query.sortDesc ? 'desc' : 'asc',
+    limit: String(query.limit),
+    offset: String(query.offset),
+  });
+  if (query.search) params.set('search', query.search);
+  if (query.minImpressions > 0) params.set('minImpressions', String(query.minImpressions));
+  if (query.minRevenue > 0) params.set('minRevenue', String(query.minRevenue));
+  return `&${params.toString()}`;
+}
+
+export interface TableColumns<M> {
+  // Text column searched and sorted by name
+  name: string;
+  // Additive metrics, summed into the long tail
+  sums: string[];
+  // Derived metrics (rates, eCPM) from summed totals
+  summarize: (totals: Record<string, number>) => M;
+}
+
+/**
+ * Search, filter, sort and slice the full rows of a stats table. The long
+ * tail totals every filtered row outside the requested page; null when the
+ * page holds them all.
+ */
+export function pageTable<T extends Row, M>(
+  rows: T[],
+  query: StatsTableQuery,
+  columns: TableColumns<M>
+): { rows: T[]; page: StatsTablePage; longTail: LongTail<M> | null } {
+  const filtered = rows.filter((row) =>
+    (!query.search || String(row[columns.name] ?? '').toLowerCase().includes(query.search))
+    && Number(row.impressions || 0) >= query.minImpressions
+    && Number(row.revenue || 0) >= query.minRevenue
+  );
+
+  const dir = query.sortDesc ? -1 : 1;
+  const sorted = [...filtered].sort((a, b) => {
+    const av = a[query.sort];
+    const bv = b[query.sort];
+    if (typeof av === 'string' || typeof bv === 'string') return dir * String(av ?? '').localeCompare(String(bv ?? ''));
+    return dir * (Number(av || 0) - Number(bv || 0));
+  });
+
+  const pageRows = sorted.slice(query.offset, query.offset + query.limit);
+  const outside = sorted.length - pageRows.length;
+  let longTail: LongTail<M> | null = null;
+  if (outside > 0) {
+    const totals: Record<string, number> = Object.fromEntries(columns.sums.map((field) => [field, 0]));
+    sorted.forEach((row, i) => {
+      if (i >= query.offset && i < query.offset + query.limit) return;
+      for (const field of columns.sums) totals[field] += Number(row[field] || 0);
+    });
+    longTail = { ...columns.summarize(totals), count: outside };
+  }
+
+  return {
+    rows: pageRows,
+    page: { totalRows: sorted.length, limit: query.limit, offset: query.offset },
+    longTail,
+  };
+}
@@ -0,0 +1,49 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { ConcentrationHistoryPoint } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Kept by refresh_daily_concentration() (migration 022)
+export const CONCENTRATION_TABLE = 'daily_concentration';
+
+/**
+ * Rebuild the daily concentration of startDate..endDate from the daily
+ * rollups, once they have been refreshed for those days. Like the rollups,
+ * a failure is logged rather than thrown; the next sync of the same days
+ * rebuilds them.
+ */
+export async function refreshDailyConcentration(supabase: SupabaseClient, startDate: string, endDate: string): Promise<void> {
+  const { error } = await supabase.rpc('refresh_daily_concentration', { p_start: startDate, p_end: endDate });
+  if (error) console.error(`[Concentration] Failed to refresh ${startDate} to ${endDate}:`, error.message);
+}
+
+/**
+ * Daily demand and publisher concentration since startDate, oldest first.
+ */
+export async function getConcentrationHistory(
+  startDate: string
+): Promise<{ demand: ConcentrationHistoryPoint[]; publisher: ConcentrationHistoryPoint[] }> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from(CONCENTRATION_TABLE)
+    .select('date, side, entities, revenue, hhi, top5_share, top10_share, gini')
+    .gte('date', startDate)
+    .order('date', { ascending: true });
+  if (error) throw new Error(`Failed to load concentration history: ${error.message}`);
+
+  const history = { demand: [] as ConcentrationHistoryPoint[], publisher: [] as ConcentrationHistoryPoint[] };
+  for (const r of data || []) {
+    const point: ConcentrationHistoryPoint = {
+      date: r.date,
+      entities: Number(r.entities || 0),
+      revenue: Number(r.revenue || 0),
+      hhi: Number(r.hhi || 0),
+      top5Share: Number(r.top5_share || 0),
+      top10Share: Number(r.top10_share || 0),
+      gini: Number(r.gini || 0),
+    };
+    if (r.side === 'demand') history.demand.push(point);
+    else history.publisher.push(point);
+  }
+  return history;
+}
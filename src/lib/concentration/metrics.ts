@@ -0,0 +1,85 @@
+// Revenue concentration measures shared by the concentration cache and the
+// churn simulator. Kept free of server imports.
+import type { ConcentrationRisk, LorenzPoint } from '@/types';
+
+// Points kept on a Lorenz curve, however many entities there are
+const LORENZ_POINTS = 50;
+
+export interface ConcentrationEntity {
+  id: number | null;
+  name: string;
+  revenue: number;
+  share: number;
+}
+
+export interface Concentration {
+  distribution: ConcentrationEntity[];
+  top5Share: number;
+  top10Share: number;
+  hhi: number;
+  gini: number;
+  lorenz: LorenzPoint[];
+  count: number;
+}
+
+// HHI bands as used by antitrust guidelines
+export function concentrationRisk(hhi: number): ConcentrationRisk {
+  return hhi < 1500 ? 'low' : hhi <= 2500 ? 'medium' : 'high';
+}
+
+function round(value: number, digits: number): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+
+/**
+ * Lorenz curve of revenue over entities, smallest first: each point is the
+ * share of entities against the share of revenue they hold, from (0, 0) to
+ * (100, 100). Evenly thinned to LORENZ_POINTS.
+ */
+function lorenzCurve(ascending: number[], total: number): LorenzPoint[] {
+  const n = ascending.length;
+  const points: LorenzPoint[] = [{ population: 0, revenue: 0 }];
+  if (n === 0 || total <= 0) return points;
+
+  const step = Math.max(1, Math.ceil(n / LORENZ_POINTS));
+  let cumulative = 0;
+  ascending.forEach((revenue, i) => {
+    cumulative += revenue;
+    if ((i + 1) % step === 0 || i === n - 1) {
+      points.push({ population: round(((i + 1) / n) * 100, 2), revenue: round((cumulative / total) * 100, 2) });
+    }
+  });
+  return points;
+}
+
+// Gini coefficient, 0 (all equal) to 1 (one entity holds everything)
+function giniCoefficient(ascending: number[], total: number): number {
+  const n = ascending.length;
+  if (n === 0 || total <= 0) return 0;
+  const weighted = ascending.reduce((sum, revenue, i) => sum + (i + 1) * revenue, 0);
+  return round((2 * weighted) / (n * total) - (n + 1) / n, 4);
+}
+
+/**
+ * Concentration of revenue over a set of entities (demand partners or
+ * publishers): the distribution largest first, top-N shares, HHI (sum of
+ * squared percentage shares, 0..10000), Gini and the Lorenz curve.
+ */
+export function concentration(rows: Array<{ id?: number | null; name: string; revenue: number }>): Concentration {
+  const total = rows.reduce((s, r) => s + r.revenue, 0);
+  const distribution = rows.map((r) => ({
+    id: r.id ?? null,
+    name: r.name,
+    revenue: r.revenue,
+    share: total > 0 ? (r.revenue / total) * 100 : 0,
+  })).sort((a, b) => b.revenue - a.revenue);
+  const ascending = distribution.map((e) => e.revenue).reverse();
+
+  return {
+    distribution,
+    top5Share: round(distribution.slice(0, 5).reduce((s, e) => s + e.share, 0), 2),
+    top10Share: round(distribution.slice(0, 10).reduce((s, e) => s + e.share, 0), 2),
+    hhi: Math.round(distribution.reduce((s, e) => s + e.share * e.share, 0)),
+    gini: giniCoefficient(ascending, total),
+    lorenz: lorenzCurve(ascending, total),
+    count: distribution.length,
+  };
+}
@@ -0,0 +1,201 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { ChurnAbsorber, ChurnPublisherImpact, ChurnSimulation, EntityRef } from '@/types';
+import { concentration, concentrationRisk } from './metrics';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+export interface ChurnScenario {
+  startDate: string;
+  endDate: string;
+  source: string | null;
+  account: string | null;
+  demandPartners: EntityRef[];
+  publishers: EntityRef[];
+}
+
+// IDs are only unique per Limelight account, so the registry name is kept in the key
+function entityKey(id: unknown, name: string): string { return id !== null && id !== undefined ? `id:${id}:${name}` : `name:${name}`; }
+function v(val: unknown): number { if (val === undefined || val === null) return 0; const num = Number(val); return isNaN(num) ? 0 : num; }
+function round(value: number, digits = 2): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+
+function addTo(map: Map<string, number>, key: string, value: number) {
+  map.set(key, (map.get(key) || 0) + value);
+}
+
+/**
+ * Project revenue and concentration if the given demand partners and/or
+ * publishers went away, over a window of stored stats.
+ *
+ * A removed publisher's revenue is lost outright. What a removed partner
+ * won on a publisher that stays is displaced: each remaining partner on
+ * that publisher bids on a share of its requests (its bid rate there), so
+ * at least one of them bids on 1 - prod(1 - bidRate) of the displaced
+ * impressions. Those are absorbed at the remaining partners' eCPM on the
+ * publisher and shared out in proportion to their bid rates. Revenue of a
+ * removed partner that no partner x publisher row accounts for is lost.
+ */
+export async function simulateChurn(supabase: SupabaseClient, scenario: ChurnScenario): Promise<ChurnSimulation> {
+  async function rpc(fn: string): Promise<Row[]> {
+    const { data, error } = await supabase.rpc(fn, {
+      p_start: scenario.startDate,
+      p_end: scenario.endDate,
+      p_source: scenario.source,
+      p_account: scenario.account,
+    });
+    if (error) throw new Error(`RPC ${fn} error: ${error.message}`);
+    return (data || []) as Row[];
+  }
+
+  const partners = await rpc('agg_by_demand_partner');
+  const publishers = await rpc('agg_by_publisher');
+  const cross = await rpc('agg_by_demand_publisher');
+
+  const removedPartners = new Set(scenario.demandPartners.map((e) => entityKey(e.id, e.name)));
+  const removedPublishers = new Set(scenario.publishers.map((e) => entityKey(e.id, e.name)));
+
+  // Revenue each remaining partner / publisher loses with the other side's removals
+  const partnerLoss = new Map<string, number>();
+  const publisherLoss = new Map<string, number>();
+  // Per remaining publisher: what removed partners won there, and the partners left bidding
+  const displaced = new Map<string, { impressions: number; revenue: number }>();
+  const remaining = new Map<string, Row[]>();
+  let overlapRevenue = 0;
+
+  for (const r of cross) {
+    const partnerKey = entityKey(r.demand_partner_id, r.demand_partner);
+    const publisherKey = entityKey(r.publisher_id, r.publisher);
+    const partnerGone = removedPartners.has(partnerKey);
+    const publisherGone = removedPublishers.has(publisherKey);
+    const revenue = v(r.revenue);
+
+    if (partnerGone && publisherGone) overlapRevenue += revenue;
+    else if (publisherGone) addTo(partnerLoss, partnerKey, revenue);
+    else if (partnerGone) {
+      addTo(publisherLoss, publisherKey, revenue);
+      const d = displaced.get(publisherKey) || { impressions: 0, revenue: 0 };
+      d.impressions += v(r.impressions);
+      d.revenue += revenue;
+      displaced.set(publisherKey, d);
+    } else if (v(r.bid_requests) > 0) {
+      const list = remaining.get(publisherKey) || [];
+      list.push(r);
+      remaining.set(publisherKey, list);
+    }
+  }
+
+  // Absorption on each publisher that lost a partner
+  const absorbedRevenueBy = new Map<string, number>();
+  const absorbedImpressionsBy = new Map<string, number>();
+  const publisherAbsorbed = new Map<string, number>();
+  let displacedImpressions = 0;
+  let absorbedImpressions = 0;
+  for (const [publisherKey, d] of displaced) {
+    displacedImpressions += d.impressions;
+    const bidders = (remaining.get(publisherKey) || []).map((r) => ({
+      key: entityKey(r.demand_partner_id, r.demand_partner),
+      bidRate: Math.min(1, v(r.bids) / v(r.bid_requests)),
+      impressions: v(r.impressions),
+      revenue: v(r.revenue),
+    })).filter((b) => b.bidRate > 0);
+    if (bidders.length === 0 || d.impressions <= 0) continue;
+
+    const coverage = 1 - bidders.reduce((p, b) => p * (1 - b.bidRate), 1);
+    const bidderImpressions = bidders.reduce((s, b) => s + b.impressions, 0);
+    const revenuePerImpression = bidderImpressions > 0
+      ? bidders.reduce((s, b) => s + b.revenue, 0) / bidderImpressions
+      : d.revenue / d.impressions;
+    const impressions = d.impressions * coverage;
+    const rateTotal = bidders.reduce((s, b) => s + b.bidRate, 0);
+
+    absorbedImpressions += impressions;
+    addTo(publisherAbsorbed, publisherKey, impressions * revenuePerImpression);
+    for (const b of bidders) {
+      const share = b.bidRate / rateTotal;
+      addTo(absorbedImpressionsBy, b.key, impressions * share);
+      addTo(absorbedRevenueBy, b.key, impressions * revenuePerImpression * share);
+    }
+  }
+
+  // Projected totals of every remaining entity
+  const projectedPartners = partners
+    .filter((r) => !removedPartners.has(entityKey(r.id, r.name)))
+    .map((r) => {
+      const key = entityKey(r.id, r.name);
+      return { row: r, key, revenue: Math.max(0, v(r.revenue) - (partnerLoss.get(key) || 0)) + (absorbedRevenueBy.get(key) || 0) };
+    });
+  const projectedPublishers = publishers
+    .filter((r) => !removedPublishers.has(entityKey(r.id, r.name)))
+    .map((r) => {
+      const key = entityKey(r.id, r.name);
+      return { id: r.id ?? null, name: r.name, revenue: Math.max(0, v(r.revenue) - (publisherLoss.get(key) || 0)) + (publisherAbsorbed.get(key) || 0) };
+    });
+
+  const baselineRevenue = partners.reduce((s, r) => s + v(r.revenue), 0);
+  const removedPartnerRevenue = partners
+    .filter((r) => removedPartners.has(entityKey(r.id, r.name)))
+    .reduce((s, r) => s + v(r.revenue), 0);
+  const removedPublisherRevenue = publishers
+    .filter((r) => removedPublishers.has(entityKey(r.id, r.name)))
+    .reduce((s, r) => s + v(r.revenue), 0);
+  const lostRevenue = removedPartnerRevenue + removedPublisherRevenue - overlapRevenue;
+  const absorbedRevenue = Array.from(absorbedRevenueBy.values()).reduce((s, x) => s + x, 0);
+
+  const baselineDemand = concentration(partners.map((r) => ({ id: r.id, name: r.name, revenue: v(r.revenue) })));
+  const baselinePublisher = concentration(publishers.map((r) => ({ id: r.id, name: r.name, revenue: v(r.revenue) })));
+  const projectedDemand = concentration(projectedPartners.map((p) => ({ id: p.row.id, name: p.row.name, revenue: p.revenue })));
+  const projectedPublisher = concentration(projectedPublishers);
+
+  const absorbers: ChurnAbsorber[] = projectedPartners
+    .filter((p) => (absorbedRevenueBy.get(p.key) || 0) > 0)
+    .map((p) => ({
+      id: p.row.id ?? null,
+      name: p.row.name,
+      currentRevenue: round(v(p.row.revenue)),
+      absorbedImpressions: Math.round(absorbedImpressionsBy.get(p.key) || 0),
+      absorbedRevenue: round(absorbedRevenueBy.get(p.key) || 0),
+      projectedRevenue: round(p.revenue),
+    }))
+    .sort((a, b) => b.absorbedRevenue - a.absorbedRevenue);
+
+  const impacted: ChurnPublisherImpact[] = [
+    ...publishers
+      .filter((r) => removedPublishers.has(entityKey(r.id, r.name)))
+      .map((r) => ({ id: r.id ?? null, name: r.name, lostRevenue: round(v(r.revenue)), absorbedRevenue: 0 })),
+    ...publishers
+      .filter((r) => publisherLoss.has(entityKey(r.id, r.name)))
+      .map((r) => {
+        const key = entityKey(r.id, r.name);
+        return { id: r.id ?? null, name: r.name, lostRevenue: round(publisherLoss.get(key) || 0), absorbedRevenue: round(publisherAbsorbed.get(key) || 0) };
+      }),
+  ].sort((a, b) => (b.lostRevenue - b.absorbedRevenue) - (a.lostRevenue - a.absorbedRevenue));
+
+  return {
+    startDate: scenario.startDate,
+    endDate: scenario.endDate,
+    removed: { demandPartners: scenario.demandPartners, publishers: scenario.publishers },
+    baseline: {
+      revenue: round(baselineRevenue),
+      demandHhi: baselineDemand.hhi,
+      publisherHhi: baselinePublisher.hhi,
+      demandRisk: concentrationRisk(baselineDemand.hhi),
+      publisherRisk: concentrationRisk(baselinePublisher.hhi),
+    },
+    projected: {
+      revenue: round(baselineRevenue - lostRevenue + absorbedRevenue),
+      demandHhi: projectedDemand.hhi,
+      publisherHhi: projectedPublisher.hhi,
+      demandRisk: concentrationRisk(projectedDemand.hhi),
+      publisherRisk: concentrationRisk(projectedPublisher.hhi),
+    },
+    lostRevenue: round(lostRevenue),
+    absorbedRevenue: round(absorbedRevenue),
+    displacedImpressions: Math.round(displacedImpressions),
+    absorbedImpressions: Math.round(absorbedImpressions),
+    absorptionRate: displacedImpressions > 0 ? round((absorbedImpressions / displacedImpressions) * 100) : 0,
+    absorbers,
+    publishers: impacted,
+  };
+}
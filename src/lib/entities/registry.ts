@@ -0,0 +1,122 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { TransformedRow } from '@/lib/limelight/transformer';
+import type { EntityKind } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+interface EntityTables {
+  table: string;
+  aliasTable: string;
+  // Column in the alias table pointing at the entity
+  aliasKey: string;
+  registerFn: string;
+  applyFn: string;
+}
+
+export const ENTITY_TABLES: Record<EntityKind, EntityTables> = {
+  demand_partner: {
+    table: 'demand_partners',
+    aliasTable: 'demand_partner_aliases',
+    aliasKey: 'partner_id',
+    registerFn: 'register_demand_partners',
+    applyFn: 'apply_demand_partner_name',
+  },
+  publisher: {
+    table: 'publishers',
+    aliasTable: 'publisher_aliases',
+    aliasKey: 'publisher_id',
+    registerFn: 'register_publishers',
+    applyFn: 'apply_publisher_name',
+  },
+};
+
+export function parseEntityKind(value: unknown): EntityKind | null {
+  return value === 'demand_partner' || value === 'publisher' ? value : null;
+}
+
+const METRIC_FIELDS = [
+  'opportunities', 'bid_requests', 'bids', 'wins', 'impressions',
+  'pub_payout', 'demand_payout', 'demand_service_fee',
+  'bid_response_timeouts', 'bid_response_errors',
+] as const;
+
+/**
+ * Record every (ID, name) pair in the batch and return the current
+ * registry name per ID. Renames and first sightings rewrite stored rows
+ * inside the database function.
+ */
+async function registerEntities(
+  supabase: SupabaseClient,
+  kind: EntityKind,
+  entries: Map<number, string>,
+  day: string,
+  account: string
+): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  if (entries.size === 0) return names;
+
+  const { data, error } = await supabase.rpc(ENTITY_TABLES[kind].registerFn, {
+    p_account: account,
+    p_entries: Array.from(entries.entries()).map(([id, name]) => ({ id, name, day })),
+  });
+  if (error) throw new Error(`Failed to register ${kind} entities: ${error.message}`);
+
+  for (const row of (data || []) as Array<{ id: number; name: string }>) {
+    names.set(Number(row.id), row.name);
+  }
+  return names;
+}
+
+// Unique key of a limelight_stats row
+function statsRowKey(row: TransformedRow): string {
+  return [
+    row.source, row.account, row.date, row.demand_partner_name, row.supply_partner_name,
+    row.publisher, row.bundle, row.ad_unit_type, row.os, row.country,
+  ].join('\u0001');
+}
+
+/**
+ * Register the demand partners and publishers in a batch of Limelight rows
+ * pulled from one account (IDs are only unique within a seat) and rewrite
+ * each row's names to the registry's current name for its ID, so stored
+ * stats never hold two names for the same entity. Rows that end up sharing
+ * a unique key (limelight_stats' unless `keyOf` says otherwise) are summed,
+ * since one upsert cannot touch a key twice.
+ */
+export async function resolveEntityNames<T extends TransformedRow>(
+  supabase: SupabaseClient,
+  rows: T[],
+  day: string,
+  account: string,
+  keyOf: (row: T) => string = statsRowKey
+): Promise<T[]> {
+  const partners = new Map<number, string>();
+  const publishers = new Map<number, string>();
+  for (const row of rows) {
+    if (row.demand_partner_id !== null && row.demand_partner_name) partners.set(row.demand_partner_id, row.demand_partner_name);
+    if (row.publisher_id !== null && row.publisher) publishers.set(row.publisher_id, row.publisher);
+  }
+  if (partners.size === 0 && publishers.size === 0) return rows;
+
+  const partnerNames = await registerEntities(supabase, 'demand_partner', partners, day, account);
+  const publisherNames = await registerEntities(supabase, 'publisher', publishers, day, account);
+
+  const byKey = new Map<string, T>();
+  for (const row of rows) {
+    const resolved: T = {
+      ...row,
+      demand_partner_name: (row.demand_partner_id !== null && partnerNames.get(row.demand_partner_id)) || row.demand_partner_name,
+      publisher: (row.publisher_id !== null && publisherNames.get(row.publisher_id)) || row.publisher,
+    };
+
+    const key = keyOf(resolved);
+    const existing = byKey.get(key);
+    if (existing) {
+      for (const field of METRIC_FIELDS) existing[field] += resolved[field];
+    } else {
+      byKey.set(key, resolved);
+    }
+  }
+
+  return Array.from(byKey.values());
+}
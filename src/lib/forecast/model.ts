@@ -0,0 +1,193 @@
+import type { ForecastAccuracy, ForecastPoint } from '@/types';
+
+// ============================================
+// Settings
+// ============================================
+
+// Stored days each forecast is fitted on
+export const FORECAST_HISTORY_DAYS = 182;
+export const MIN_FORECAST_HORIZON = 7;
+export const MAX_FORECAST_HORIZON = 30;
+// Confidence of the bands, and its normal quantile
+export const FORECAST_BAND_LEVEL = 80;
+const BAND_Z = 1.2816;
+// A series needs this many days to be forecast at all
+const MIN_FIT_DAYS = 28;
+// Weekday factors come from the most recent weeks only, so a shifted
+// weekly pattern is picked up
+const SEASON_DAYS = 56;
+const MIN_WEEKDAY_SAMPLES = 2;
+// Floor on a weekday factor, so a dark weekday does not divide by zero
+const MIN_WEEKDAY_FACTOR = 0.05;
+// Damped trend: smoothing weights tried on each fit, and the damping
+const ALPHAS = [0.1, 0.2, 0.3, 0.5];
+const BETAS = [0.01, 0.05, 0.1];
+const PHI = 0.9;
+// Floor on the spread of one-day log errors
+const MIN_LOG_SPREAD = 0.02;
+// Weekly backtest origins, newest first
+const BACKTEST_ORIGINS = 6;
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+interface FittedModel {
+  lastDate: string;
+  level: number;
+  trend: number;
+  weekdayFactors: number[];
+  // Robust standard deviation of one-day-ahead log errors
+  logSpread: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((s, x) => s + x, 0) / values.length : 0;
+}
+
+function round(value: number, digits = 2): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Median of each weekday over the recent weeks against the overall median,
+// scaled to average 1
+function weekdayFactors(points: SeriesPoint[]): number[] {
+  const recent = points.slice(-SEASON_DAYS);
+  const overall = median(recent.map((p) => p.value));
+  if (overall <= 0) return Array(7).fill(1);
+  const factors = Array.from({ length: 7 }, (_, w) => {
+    const values = recent.filter((p) => weekday(p.date) === w).map((p) => p.value);
+    return values.length >= MIN_WEEKDAY_SAMPLES ? Math.max(median(values) / overall, MIN_WEEKDAY_FACTOR) : 1;
+  });
+  const avg = mean(factors);
+  return factors.map((f) => f / avg);
+}
+
+// Damped-trend exponential smoothing of a deseasonalized series; the
+// squared error and log errors are of each one-day-ahead prediction after
+// the first two weeks used to start it
+function smooth(values: number[], alpha: number, beta: number) {
+  let level = mean(values.slice(0, 7));
+  let trend = (mean(values.slice(7, 14)) - level) / 7;
+  let sse = 0;
+  const logErrors: number[] = [];
+  for (let t = 0; t < values.length; t++) {
+    const predicted = level + PHI * trend;
+    if (t >= 14) {
+      sse += (values[t] - predicted) ** 2;
+      if (values[t] > 0 && predicted > 0) logErrors.push(Math.log(values[t] / predicted));
+    }
+    const nextLevel = alpha * values[t] + (1 - alpha) * predicted;
+    trend = beta * (nextLevel - level) + (1 - beta) * PHI * trend;
+    level = nextLevel;
+  }
+  return { level, trend, sse, logErrors };
+}
+
+function fit(points: SeriesPoint[]): FittedModel | null {
+  if (points.length < MIN_FIT_DAYS) return null;
+  const factors = weekdayFactors(points);
+  const values = points.map((p) => p.value / factors[weekday(p.date)]);
+
+  let best: ReturnType<typeof smooth> | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      const result = smooth(values, alpha, beta);
+      if (!best || result.sse < best.sse) best = result;
+    }
+  }
+  if (!best) return null;
+
+  const center = median(best.logErrors);
+  const logSpread = Math.max(median(best.logErrors.map((e) => Math.abs(e - center))) * 1.4826, MIN_LOG_SPREAD);
+  return {
+    lastDate: points[points.length - 1].date,
+    level: best.level,
+    trend: best.trend,
+    weekdayFactors: factors,
+    logSpread,
+  };
+}
+
+// The next `days` days after the model's last date, each with its band;
+// the band widens with the square root of the days ahead
+function project(model: FittedModel, days: number): ForecastPoint[] {
+  const points: ForecastPoint[] = [];
+  let damped = 0;
+  for (let i = 1; i <= days; i++) {
+    damped += PHI ** i;
+    const date = addDays(model.lastDate, i);
+    const forecast = Math.max(0, model.level + damped * model.trend) * model.weekdayFactors[weekday(date)];
+    const width = Math.exp(BAND_Z * model.logSpread * Math.sqrt(i));
+    points.push({ date, actual: null, forecast, lower: forecast / width, upper: forecast * width });
+  }
+  return points;
+}
+
+/**
+ * Forecast a daily series (oldest first, one point per day) `days` ahead:
+ * weekday factors from the last eight weeks times a damped trend fitted on
+ * the deseasonalized series, with the smoothing weights that best predict
+ * it a day ahead. Bands come from the spread of those one-day errors.
+ * Null when the series is too short.
+ */
+export function forecastSeries(points: SeriesPoint[], days: number): ForecastPoint[] | null {
+  const model = fit(points);
+  return model ? project(model, days) : null;
+}
+
+/**
+ * Rolling-origin backtest: refit on the history up to each of the last
+ * BACKTEST_ORIGINS weekly origins, forecast `horizon` days from there and
+ * compare with what was stored. Null when no origin leaves enough history.
+ */
+export function backtestSeries(points: SeriesPoint[], horizon: number): ForecastAccuracy | null {
+  let origins = 0;
+  let absError = 0;
+  let signedError = 0;
+  let actualTotal = 0;
+  let inside = 0;
+  let compared = 0;
+
+  for (let k = 0; k < BACKTEST_ORIGINS; k++) {
+    const origin = points.length - horizon - k * 7;
+    if (origin < MIN_FIT_DAYS) break;
+    const forecast = forecastSeries(points.slice(0, origin), horizon);
+    if (!forecast) break;
+    origins++;
+    for (let i = 0; i < horizon; i++) {
+      const actual = points[origin + i].value;
+      const f = forecast[i];
+      absError += Math.abs(actual - f.forecast!);
+      signedError += f.forecast! - actual;
+      actualTotal += actual;
+      if (actual >= f.lower! && actual <= f.upper!) inside++;
+      compared++;
+    }
+  }
+  if (origins === 0 || actualTotal <= 0) return null;
+
+  return {
+    origins,
+    horizon,
+    wape: round((absError / actualTotal) * 100),
+    bias: round((signedError / actualTotal) * 100),
+    coverage: round((inside / compared) * 100, 1),
+  };
+}
@@ -0,0 +1,209 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type {
+  EntityForecast,
+  ForecastMetric,
+  ForecastPoint,
+  ForecastScope,
+  MetricForecast,
+  MonthLanding,
+  RevenueForecast,
+} from '@/types';
+import { FORECAST_BAND_LEVEL, FORECAST_HISTORY_DAYS, addDays, backtestSeries, forecastSeries, type SeriesPoint } from './model';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+// Kept through /api/stats/forecast/targets (migration 026)
+export const TARGETS_TABLE = 'revenue_targets';
+
+// Demand partners and publishers forecast one by one
+export const FORECAST_TOP_ENTITIES = Number(process.env.FORECAST_TOP_ENTITIES || 10);
+// Days the top entities are ranked on
+const RANKING_DAYS = 28;
+// Stored days shown before the forecast
+const SHOWN_HISTORY_DAYS = 60;
+// eCPM is only taken from days with this many impressions
+const MIN_ECPM_IMPRESSIONS = 1000;
+const PAGE_SIZE = 1000;
+
+const METRICS: ForecastMetric[] = ['revenue', 'impressions', 'ecpm'];
+
+function v(val: unknown): number { if (val === undefined || val === null) return 0; const num = Number(val); return isNaN(num) ? 0 : num; }
+function round(value: number, digits = 2): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+
+interface DayTotals { revenue: number; impressions: number }
+
+interface Series {
+  scope: ForecastScope;
+  id: number | null;
+  name: string;
+  days: Map<string, DayTotals>;
+}
+
+// One point per day from the series' first day to lastDate; volumes count
+// a missing day as zero, eCPM skips days with too few impressions
+function seriesPoints(days: Map<string, DayTotals>, metric: ForecastMetric, lastDate: string): SeriesPoint[] {
+  const first = Array.from(days.keys()).sort()[0];
+  const points: SeriesPoint[] = [];
+  if (!first) return points;
+  for (let date = first; date <= lastDate; date = addDays(date, 1)) {
+    const t = days.get(date) || { revenue: 0, impressions: 0 };
+    if (metric === 'ecpm') {
+      if (t.impressions >= MIN_ECPM_IMPRESSIONS) points.push({ date, value: (t.revenue / t.impressions) * 1000 });
+    } else {
+      points.push({ date, value: t[metric] });
+    }
+  }
+  return points;
+}
+
+function roundPoint(p: ForecastPoint, digits: number): ForecastPoint {
+  const r = (x: number | null) => (x === null ? null : round(x, digits));
+  return { date: p.date, actual: r(p.actual), forecast: r(p.forecast), lower: r(p.lower), upper: r(p.upper) };
+}
+
+/**
+ * Revenue landing of the month the forecast starts in: what is stored for
+ * the month so far plus the forecast of its remaining days. The range adds
+ * up the daily bands, which treats the days' errors as moving together, so
+ * it is on the wide side.
+ */
+function monthLanding(points: SeriesPoint[], lastDate: string, target: number | null): MonthLanding | null {
+  const firstForecast = addDays(lastDate, 1);
+  const month = `${firstForecast.slice(0, 7)}-01`;
+  const [year, mon] = firstForecast.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, mon, 0)).getUTCDate();
+  const daysElapsed = Number(firstForecast.slice(8, 10)) - 1;
+
+  const forecast = forecastSeries(points, daysInMonth - daysElapsed);
+  if (!forecast) return null;
+  const actualToDate = points.filter((p) => p.date >= month && p.date <= lastDate).reduce((s, p) => s + p.value, 0);
+  const expected = actualToDate + forecast.reduce((s, p) => s + p.forecast!, 0);
+  return {
+    month,
+    daysElapsed,
+    daysInMonth,
+    actualToDate: round(actualToDate),
+    expected: round(expected),
+    low: round(actualToDate + forecast.reduce((s, p) => s + p.lower!, 0)),
+    high: round(actualToDate + forecast.reduce((s, p) => s + p.upper!, 0)),
+    target,
+    targetPct: target && target > 0 ? round((expected / target) * 100, 1) : null,
+  };
+}
+
+function forecastEntity(series: Series, lastDate: string, horizon: number, target: number | null): EntityForecast {
+  const shownFrom = addDays(lastDate, -SHOWN_HISTORY_DAYS + 1);
+  const rankedFrom = addDays(lastDate, -RANKING_DAYS + 1);
+  let recentRevenue = 0;
+  for (const [date, t] of series.days) if (date >= rankedFrom) recentRevenue += t.revenue;
+
+  const metrics: MetricForecast[] = METRICS.map((metric) => {
+    const points = seriesPoints(series.days, metric, lastDate);
+    const digits = metric === 'impressions' ? 0 : metric === 'ecpm' ? 4 : 2;
+    const history: ForecastPoint[] = points
+      .filter((p) => p.date >= shownFrom)
+      .map((p) => ({ date: p.date, actual: p.value, forecast: null, lower: null, upper: null }));
+    const forecast = forecastSeries(points, horizon) || [];
+    return {
+      metric,
+      points: [...history, ...forecast].map((p) => roundPoint(p, digits)),
+      accuracy: backtestSeries(points, horizon),
+    };
+  });
+
+  return {
+    scope: series.scope,
+    id: series.id,
+    name: series.name,
+    recentRevenue: round(recentRevenue),
+    metrics,
+    landing: monthLanding(seriesPoints(series.days, 'revenue', lastDate), lastDate, target),
+  };
+}
+
+async function fetchEntitySeries(
+  supabase: SupabaseClient,
+  scope: 'demand_partner' | 'publisher',
+  startDate: string,
+  endDate: string
+): Promise<Series[]> {
+  // Rank on the recent days, then read the daily series of only those
+  // entities that could be in the top: anything that earned less over the
+  // whole window than the last of the top did recently is left out
+  const { data: ranked, error: rankError } = await supabase.rpc(
+    scope === 'demand_partner' ? 'agg_by_demand_partner' : 'agg_by_publisher',
+    { p_start: addDays(endDate, -RANKING_DAYS + 1), p_end: endDate }
+  );
+  if (rankError) throw new Error(`Failed to rank ${scope} revenue: ${rankError.message}`);
+  const top = ((ranked || []) as Row[])
+    .map((r) => ({ key: `${r.id ?? ''}:${r.name}`, revenue: v(r.revenue) }))
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, FORECAST_TOP_ENTITIES);
+  if (top.length === 0) return [];
+  const topKeys = new Set(top.map((t) => t.key));
+
+  const fn = scope === 'demand_partner' ? 'agg_by_demand_partner_date' : 'agg_by_publisher_date';
+  const series = new Map<string, Series>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc(fn, { p_start: startDate, p_end: endDate, p_min_revenue: top[top.length - 1].revenue })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`RPC ${fn} error: ${error.message}`);
+    for (const r of (data || []) as Row[]) {
+      const key = `${r.id ?? ''}:${r.name}`;
+      if (!topKeys.has(key)) continue;
+      let s = series.get(key);
+      if (!s) {
+        s = { scope, id: r.id ?? null, name: r.name, days: new Map() };
+        series.set(key, s);
+      }
+      s.days.set(r.date, { revenue: v(r.revenue), impressions: v(r.impressions) });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return top.map((t) => series.get(t.key)).filter((s): s is Series => !!s);
+}
+
+function targetKey(scope: ForecastScope, id: number | null, name: string): string {
+  return `${scope}:${id ?? 0}:${scope === 'network' ? '' : name}`;
+}
+
+/**
+ * Revenue, impression and eCPM forecasts `horizon` days past lastDate for
+ * the network and the top demand partners and publishers, each backtested
+ * on the stored history, with the month-end revenue landing set against
+ * the month's targets. Reads every source and account.
+ */
+export async function buildRevenueForecast(supabase: SupabaseClient, lastDate: string, horizon: number): Promise<RevenueForecast> {
+  const startDate = addDays(lastDate, -FORECAST_HISTORY_DAYS + 1);
+
+  const { data: dates, error } = await supabase.rpc('agg_by_date', { p_start: startDate, p_end: lastDate });
+  if (error) throw new Error(`RPC agg_by_date error: ${error.message}`);
+  const network: Series = { scope: 'network', id: null, name: 'Network', days: new Map() };
+  for (const r of (dates || []) as Row[]) network.days.set(r.date, { revenue: v(r.revenue), impressions: v(r.impressions) });
+
+  const partners = await fetchEntitySeries(supabase, 'demand_partner', startDate, lastDate);
+  const publishers = await fetchEntitySeries(supabase, 'publisher', startDate, lastDate);
+
+  const month = `${addDays(lastDate, 1).slice(0, 7)}-01`;
+  const { data: targetRows, error: targetError } = await supabase
+    .from(TARGETS_TABLE)
+    .select('scope, entity_id, entity, target')
+    .eq('month', month);
+  if (targetError) throw new Error(`Failed to load revenue targets: ${targetError.message}`);
+  const targets = new Map<string, number>();
+  for (const t of targetRows || []) targets.set(targetKey(t.scope, Number(t.entity_id) || null, t.entity), v(t.target));
+  const targetOf = (s: Series) => targets.get(targetKey(s.scope, s.id, s.name)) ?? null;
+
+  return {
+    lastDate,
+    horizon,
+    bandLevel: FORECAST_BAND_LEVEL,
+    network: forecastEntity(network, lastDate, horizon, targetOf(network)),
+    demandPartners: partners.map((s) => forecastEntity(s, lastDate, horizon, targetOf(s))),
+    publishers: publishers.map((s) => forecastEntity(s, lastDate, horizon, targetOf(s))),
+  };
+}
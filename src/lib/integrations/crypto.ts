@@ -0,0 +1,45 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+// Encryption for integration credentials stored in the database.
+// AES-256-GCM with a key from INTEGRATIONS_ENCRYPTION_KEY (32 bytes, hex or
+// base64). Payload format: v1:<iv>:<auth tag>:<ciphertext>, all base64.
+
+const PAYLOAD_VERSION = 'v1';
+const IV_BYTES = 12;
+
+function getKey(): Buffer {
+  const raw = process.env.INTEGRATIONS_ENCRYPTION_KEY || '';
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('INTEGRATIONS_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)');
+  }
+  return key;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [PAYLOAD_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Throws if the payload is malformed, was encrypted with another key or
+ * has been tampered with.
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Last characters of a secret for display, e.g. "••••3f9a".
+ */
+export function secretHint(secret: string): string {
+  return `••••${secret.slice(-4)}`;
+}
@@ -0,0 +1,236 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { TableColumns } from '@/lib/cache/table';
+import type { CreativeBreakdown, CreativeFlag, CreativePartner, CreativeReport, CreativeReportRow } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+const PAGE_SIZE = 1000;
+const TOP_BREAKDOWN = 5;
+
+// A creative at or above this IVT rate (with enough impressions to judge) is
+// serving on suspicious traffic
+export const CREATIVE_SUSPICIOUS_IVT_RATE = Number(process.env.CREATIVE_SUSPICIOUS_IVT_RATE || 20);
+export const CREATIVE_MIN_IMPRESSIONS = Number(process.env.CREATIVE_MIN_IMPRESSIONS || 100);
+// Floor on the bundle spread fence, so a network of narrowly targeted
+// creatives does not flag every creative on a handful of bundles
+const MIN_SPREAD_BUNDLES = 20;
+// Share of a creative's pixel impressions that must carry one demand ID
+const PIXEL_PARTNER_SHARE = 80;
+
+function v(val: unknown): number { if (val === undefined || val === null) return 0; const num = Number(val); return isNaN(num) ? 0 : num; }
+function round(value: number, digits = 2): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+function rate(suspicious: number, impressions: number): number { return impressions > 0 ? round((suspicious / impressions) * 100) : 0; }
+
+export const CREATIVE_TABLE: TableColumns<{ impressions: number; suspicious: number; ivtRate: number }> = {
+  name: 'creativeId',
+  sums: ['impressions', 'suspicious'],
+  summarize: (t) => ({ impressions: t.impressions, suspicious: t.suspicious, ivtRate: rate(t.suspicious, t.impressions) }),
+};
+
+export const CREATIVE_SORT_FIELDS = ['creativeId', 'impressions', 'suspicious', 'ivtRate', 'bundles', 'publishers'];
+
+interface Counts { impressions: number; suspicious: number }
+
+interface CreativeAccumulator extends Counts {
+  bundles: Map<string, Counts>;
+  publishers: Map<string, Counts>;
+  demandIds: Map<string, number>;
+}
+
+function addCounts(map: Map<string, Counts>, key: string, impressions: number, suspicious: number) {
+  const c = map.get(key) || { impressions: 0, suspicious: 0 };
+  c.impressions += impressions;
+  c.suspicious += suspicious;
+  map.set(key, c);
+}
+
+// Distinct bundles / publishers, leaving out impressions the pixel sent without one
+function distinct(map: Map<string, Counts>): number {
+  return map.has('') ? map.size - 1 : map.size;
+}
+
+function topOf(map: Map<string, Counts>): CreativeBreakdown[] {
+  return Array.from(map.entries())
+    .filter(([name]) => name !== '')
+    .sort((a, b) => b[1].impressions - a[1].impressions)
+    .slice(0, TOP_BREAKDOWN)
+    .map(([name, c]) => ({ name, impressions: c.impressions, ivtRate: rate(c.suspicious, c.impressions) }));
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+// Tukey's far-out fence (Q3 + 3 x IQR) over the bundle counts of creatives
+// with enough impressions to judge
+function bundleSpreadFence(counts: number[]): number {
+  if (counts.length < 4) return MIN_SPREAD_BUNDLES;
+  const sorted = [...counts].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  return Math.max(MIN_SPREAD_BUNDLES, Math.ceil(q3 + 3 * (q3 - q1)));
+}
+
+async function fetchCreativeRows(supabase: SupabaseClient, startDate: string, endDate: string): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('agg_ivt_by_creative', { p_start: startDate, p_end: endDate })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`RPC agg_ivt_by_creative error: ${error.message}`);
+    rows.push(...((data || []) as Row[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Registry names of the numeric demand IDs the pixel passed. An ID reused
+// by partners of different accounts keeps every name.
+async function demandPartnerNames(supabase: SupabaseClient, demandIds: string[]): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(demandIds.filter((id) => /^\d+$/.test(id)).map(Number)));
+  const names = new Map<string, string>();
+  if (ids.length === 0) return names;
+
+  const { data, error } = await supabase.from('demand_partners').select('id, name').in('id', ids);
+  if (error) throw new Error(`Failed to load demand partners: ${error.message}`);
+  const byId = new Map<string, Set<string>>();
+  for (const r of data || []) {
+    const set = byId.get(String(r.id)) || new Set<string>();
+    set.add(r.name);
+    byId.set(String(r.id), set);
+  }
+  for (const [id, set] of byId) names.set(id, Array.from(set).sort().join(' / '));
+  return names;
+}
+
+/**
+ * Creative-level report over startDate..endDate from the pixel impressions
+ * that carry a creative ID: volume and IVT rate per creative, where it
+ * served, and flags for creatives on suspicious traffic or on an unusual
+ * spread of bundles.
+ *
+ * The demand partner comes from the pixel's demand ID when one ID carries
+ * most of the creative's impressions. Otherwise it is inferred from the
+ * stored stats when exactly one partner won impressions on every publisher
+ * the creative served on.
+ */
+export async function buildCreativeReport(supabase: SupabaseClient, startDate: string, endDate: string): Promise<CreativeReport> {
+  const rows = await fetchCreativeRows(supabase, startDate, endDate);
+
+  const creatives = new Map<string, CreativeAccumulator>();
+  for (const r of rows) {
+    const impressions = v(r.impressions);
+    const suspicious = v(r.suspicious);
+    let c = creatives.get(r.creative_id);
+    if (!c) {
+      c = { impressions: 0, suspicious: 0, bundles: new Map(), publishers: new Map(), demandIds: new Map() };
+      creatives.set(r.creative_id, c);
+    }
+    c.impressions += impressions;
+    c.suspicious += suspicious;
+    addCounts(c.bundles, r.bundle || '', impressions, suspicious);
+    addCounts(c.publishers, r.pub_id || '', impressions, suspicious);
+    if (r.demand_id) c.demandIds.set(r.demand_id, (c.demandIds.get(r.demand_id) || 0) + impressions);
+  }
+
+  const allDemandIds = Array.from(creatives.values()).flatMap((c) => Array.from(c.demandIds.keys()));
+  const partnerNames = await demandPartnerNames(supabase, allDemandIds);
+
+  // Demand partners that won impressions on each publisher, keyed by the
+  // publisher ID and name the pixel's pub_id may carry
+  const { data: cross, error: crossError } = await supabase.rpc('agg_by_demand_publisher', { p_start: startDate, p_end: endDate });
+  if (crossError) throw new Error(`RPC agg_by_demand_publisher error: ${crossError.message}`);
+  const partnerRefs = new Map<string, { id: number | null; name: string }>();
+  const partnersByPublisher = new Map<string, Set<string>>();
+  for (const r of (cross || []) as Row[]) {
+    if (v(r.impressions) <= 0) continue;
+    const partnerKey = `${r.demand_partner_id ?? ''}:${r.demand_partner}`;
+    partnerRefs.set(partnerKey, { id: r.demand_partner_id ?? null, name: r.demand_partner });
+    for (const key of [r.publisher_id !== null && r.publisher_id !== undefined ? String(r.publisher_id) : null, r.publisher]) {
+      if (!key) continue;
+      const set = partnersByPublisher.get(key) || new Set<string>();
+      set.add(partnerKey);
+      partnersByPublisher.set(key, set);
+    }
+  }
+
+  function inferPartner(c: CreativeAccumulator): CreativePartner | null {
+    const [topId, topImpressions] = Array.from(c.demandIds.entries()).sort((a, b) => b[1] - a[1])[0] || [null, 0];
+    if (topId && c.impressions > 0 && (topImpressions / c.impressions) * 100 >= PIXEL_PARTNER_SHARE) {
+      const numeric = /^\d+$/.test(topId) ? Number(topId) : null;
+      return {
+        id: numeric,
+        name: partnerNames.get(topId) || topId,
+        basis: 'pixel',
+        confidence: round((topImpressions / c.impressions) * 100, 1),
+      };
+    }
+
+    let candidates: string[] | null = null;
+    let matched = 0;
+    for (const [pubId, counts] of c.publishers) {
+      const partners = partnersByPublisher.get(pubId);
+      if (!pubId || !partners) continue;
+      matched += counts.impressions;
+      candidates = (candidates ?? Array.from(partners)).filter((key) => partners.has(key));
+    }
+    if (!candidates || candidates.length !== 1 || c.impressions <= 0) return null;
+    const partner = partnerRefs.get(candidates[0])!;
+    return { ...partner, basis: 'publishers', confidence: round((matched / c.impressions) * 100, 1) };
+  }
+
+  const spreadFence = bundleSpreadFence(
+    Array.from(creatives.values())
+      .filter((c) => c.impressions >= CREATIVE_MIN_IMPRESSIONS)
+      .map((c) => distinct(c.bundles))
+  );
+
+  const report: CreativeReportRow[] = Array.from(creatives.entries()).map(([creativeId, c]) => {
+    const ivtRate = rate(c.suspicious, c.impressions);
+    const flags: CreativeFlag[] = [];
+    if (c.impressions >= CREATIVE_MIN_IMPRESSIONS) {
+      if (ivtRate >= CREATIVE_SUSPICIOUS_IVT_RATE) flags.push('suspicious_traffic');
+      if (distinct(c.bundles) > spreadFence) flags.push('bundle_spread');
+    }
+    return {
+      creativeId,
+      impressions: c.impressions,
+      suspicious: c.suspicious,
+      ivtRate,
+      bundles: distinct(c.bundles),
+      publishers: distinct(c.publishers),
+      topBundles: topOf(c.bundles),
+      topPublishers: topOf(c.publishers),
+      demandPartner: inferPartner(c),
+      flags,
+    };
+  });
+
+  const totalImpressions = report.reduce((s, r) => s + r.impressions, 0);
+  const suspiciousImpressions = report.reduce((s, r) => s + r.suspicious, 0);
+
+  return {
+    startDate,
+    endDate,
+    summary: {
+      totalCreatives: report.length,
+      totalImpressions,
+      suspiciousImpressions,
+      ivtRate: rate(suspiciousImpressions, totalImpressions),
+      flaggedCreatives: report.filter((r) => r.flags.length > 0).length,
+      attributedCreatives: report.filter((r) => r.demandPartner).length,
+    },
+    thresholds: {
+      suspiciousIvtRate: CREATIVE_SUSPICIOUS_IVT_RATE,
+      minImpressions: CREATIVE_MIN_IMPRESSIONS,
+      bundleSpread: spreadFence,
+    },
+    creatives: report,
+  };
+}
@@ -0,0 +1,100 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { decryptSecret } from '@/lib/integrations/crypto';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Account the env credentials (LIMELIGHT_CLIENT_KEY / LIMELIGHT_SECRET_KEY)
+// belong to; rows synced before multi-account support carry this slug
+export const DEFAULT_ACCOUNT_SLUG = 'default';
+
+// Slugs are stored in limelight_stats.account and used in ?source= scopes
+export const ACCOUNT_SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// A Limelight seat with decrypted credentials. Server-side only.
+export interface LimelightAccount {
+  slug: string;
+  label: string;
+  // null uses LIMELIGHT_API_URL
+  apiUrl: string | null;
+  clientKey: string;
+  secretKey: string;
+}
+
+interface AccountRow {
+  slug: string;
+  label: string;
+  api_url: string | null;
+  client_key_encrypted: string;
+  secret_key_encrypted: string;
+}
+
+function envAccount(): LimelightAccount | null {
+  const clientKey = process.env.LIMELIGHT_CLIENT_KEY || '';
+  const secretKey = process.env.LIMELIGHT_SECRET_KEY || '';
+  if (!clientKey || !secretKey) return null;
+  return { slug: DEFAULT_ACCOUNT_SLUG, label: 'Default account', apiUrl: null, clientKey, secretKey };
+}
+
+function decryptAccount(row: AccountRow): LimelightAccount | null {
+  try {
+    return {
+      slug: row.slug,
+      label: row.label,
+      apiUrl: row.api_url,
+      clientKey: decryptSecret(row.client_key_encrypted),
+      secretKey: decryptSecret(row.secret_key_encrypted),
+    };
+  } catch (err: unknown) {
+    // A wrong or rotated encryption key must not stop the other accounts
+    console.error(`[Limelight] Cannot decrypt credentials for account ${row.slug}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Every active Limelight account to sync, env account first. The env
+ * account is skipped when a stored account takes over the 'default' slug.
+ */
+export async function listLimelightAccounts(supabase: SupabaseClient): Promise<LimelightAccount[]> {
+  const { data, error } = await supabase
+    .from('limelight_accounts')
+    .select('slug, label, api_url, client_key_encrypted, secret_key_encrypted')
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load Limelight accounts: ${error.message}`);
+
+  const stored = ((data || []) as AccountRow[])
+    .map(decryptAccount)
+    .filter((a): a is LimelightAccount => a !== null);
+
+  const fallback = envAccount();
+  if (fallback && !(data || []).some((row) => row.slug === DEFAULT_ACCOUNT_SLUG)) {
+    return [fallback, ...stored];
+  }
+  return stored;
+}
+
+export async function getLimelightAccount(supabase: SupabaseClient, slug: string): Promise<LimelightAccount | null> {
+  const accounts = await listLimelightAccounts(supabase);
+  return accounts.find((a) => a.slug === slug) || null;
+}
+
+/**
+ * Slug and label of every active account, for scope pickers. Never
+ * decrypts anything.
+ */
+export async function listLimelightAccountLabels(supabase: SupabaseClient): Promise<Array<{ slug: string; label: string }>> {
+  const { data, error } = await supabase
+    .from('limelight_accounts')
+    .select('slug, label')
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load Limelight accounts: ${error.message}`);
+
+  const stored = (data || []) as Array<{ slug: string; label: string }>;
+  const fallback = envAccount();
+  if (fallback && !stored.some((a) => a.slug === DEFAULT_ACCOUNT_SLUG)) {
+    return [{ slug: fallback.slug, label: fallback.label }, ...stored];
+  }
+  return stored;
+}
@@ -0,0 +1,428 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { fetchAllRows } from '@/lib/supabase/helpers';
+import type { BackfillDayStatus, BackfillItemStatus, BackfillJobStatus, BackfillProgressRow, RejectionSummary, SyncLog } from '@/types';
+import { getDatesBetween, syncSingleDay } from './sync';
+import { listDimensionSets } from './dimension-sets';
+import { createRequestBudget, RequestBudget } from './client';
+import { DEFAULT_ACCOUNT_SLUG, listLimelightAccounts } from './accounts';
+import { classifyError, LimelightBudgetExceededError, LimelightDeadlineError, LimelightErrorClass } from './errors';
+import { mergeRejectionSummaries } from './validation';
+import { refreshDailyRollups } from './rollups';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+export const BACKFILL_SYNC_TYPE = 'backfill';
+
+// A day/dimension-set that fails this many times is left as failed
+const MAX_ATTEMPTS = 3;
+
+// A failed item waits this long before it is retried, so a transient
+// failure does not use up every attempt within one run
+const RETRY_DELAY_MINUTES = Number(process.env.BACKFILL_RETRY_DELAY_MINUTES || 15);
+
+// Work items fetched per queue read
+const QUEUE_PAGE_SIZE = 50;
+
+const INSERT_BATCH_SIZE = 500;
+
+export interface BackfillRunResult {
+  jobsProcessed: number;
+  itemsProcessed: number;
+  rowsSynced: number;
+  rowsRejected: number;
+  rejectedByRule: RejectionSummary;
+  failedItems: number;
+  timedOut: boolean;
+  budgetExhausted: boolean;
+}
+
+/**
+ * Create (or reuse) a backfill job covering startDate..endDate for one
+ * Limelight account. One progress row is written per day and active
+ * dimension set (or only the given sets, e.g. for a newly registered
+ * one); an identical full job that is still running is returned instead
+ * of creating a duplicate.
+ */
+export async function createBackfillJob(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string,
+  account: string = DEFAULT_ACCOUNT_SLUG,
+  setKeys?: string[]
+): Promise<number> {
+  const sets = (await listDimensionSets(supabase, true)).filter((s) => !setKeys || setKeys.includes(s.set_key));
+  if (sets.length === 0) throw new Error('No active dimension set to backfill');
+
+  // Only full jobs are reused; a job for specific sets always starts fresh
+  if (!setKeys) {
+    const { data: existing } = await supabase
+      .from('sync_logs')
+      .select('id')
+      .eq('sync_type', BACKFILL_SYNC_TYPE)
+      .eq('status', 'running')
+      .eq('account', account)
+      .eq('start_date', startDate)
+      .eq('end_date', endDate)
+      .limit(1)
+      .maybeSingle();
+
+    if (existing) {
+      console.log(`[Backfill] Reusing running job ${existing.id} for ${account}, ${startDate} to ${endDate}`);
+      return existing.id;
+    }
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('sync_logs')
+    .insert({
+      sync_type: BACKFILL_SYNC_TYPE,
+      account,
+      start_date: startDate,
+      end_date: endDate,
+      status: 'running',
+    })
+    .select()
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Failed to create backfill job: ${jobError?.message || 'no row returned'}`);
+  }
+
+  const items = getDatesBetween(startDate, endDate).flatMap((day) =>
+    sets.map((set, setOrder) => ({
+      sync_log_id: job.id,
+      day,
+      dimension_set: set.set_key,
+      set_order: setOrder,
+      status: 'pending',
+    }))
+  );
+
+  for (let i = 0; i < items.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('sync_backfill_progress')
+      .upsert(items.slice(i, i + INSERT_BATCH_SIZE), {
+        onConflict: 'sync_log_id,day,dimension_set',
+        ignoreDuplicates: true,
+      });
+    if (error) throw new Error(`Failed to queue backfill items: ${error.message}`);
+  }
+
+  console.log(`[Backfill] Created job ${job.id} for ${account}: ${startDate} to ${endDate} (${items.length} items)`);
+  return job.id;
+}
+
+/**
+ * Next items of a job that still need work: pending ones, plus failed ones
+ * that have retries left and have waited out RETRY_DELAY_MINUTES. Core
+ * dimension set first, oldest day first.
+ */
+async function nextQueueItems(supabase: SupabaseClient, jobId: number): Promise<BackfillProgressRow[]> {
+  const retryBefore = new Date(Date.now() - RETRY_DELAY_MINUTES * 60_000).toISOString();
+  const { data, error } = await supabase
+    .from('sync_backfill_progress')
+    .select('*')
+    .eq('sync_log_id', jobId)
+    .or(`status.eq.pending,and(status.eq.failed,attempts.lt.${MAX_ATTEMPTS},updated_at.lt."${retryBefore}")`)
+    .order('set_order', { ascending: true })
+    .order('day', { ascending: true })
+    .limit(QUEUE_PAGE_SIZE);
+
+  if (error) throw new Error(`Failed to read backfill queue: ${error.message}`);
+  return (data || []) as BackfillProgressRow[];
+}
+
+// Whether a job still has failed items waiting for a retry
+async function hasRetriesLeft(supabase: SupabaseClient, jobId: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('sync_backfill_progress')
+    .select('id')
+    .eq('sync_log_id', jobId)
+    .eq('status', 'failed')
+    .lt('attempts', MAX_ATTEMPTS)
+    .limit(1);
+
+  if (error) throw new Error(`Failed to read backfill queue: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Close a job once its queue is empty. The job is 'failed' if any item
+ * ran out of retries, 'completed' otherwise.
+ */
+async function finalizeJob(supabase: SupabaseClient, jobId: number): Promise<void> {
+  const items = await fetchAllRows('sync_backfill_progress', 'status,rows_synced,rows_rejected,error_class', {
+    eq: ['sync_log_id', String(jobId)],
+  });
+
+  const failedItems = items.filter((i) => i.status === 'failed');
+  const failed = failedItems.length;
+  const rowsSynced = items.reduce((s, i) => s + Number(i.rows_synced || 0), 0);
+  const rowsRejected = items.reduce((s, i) => s + Number(i.rows_rejected || 0), 0);
+
+  await supabase
+    .from('sync_logs')
+    .update({
+      status: failed > 0 ? 'failed' : 'completed',
+      rows_synced: rowsSynced,
+      rows_rejected: rowsRejected,
+      error_message: failed > 0 ? `${failed} of ${items.length} day/dimension set(s) failed after ${MAX_ATTEMPTS} attempts` : null,
+      // Most frequent class among failed items
+      error_class: failed > 0 ? mostCommon(failedItems.map((i) => i.error_class || 'unknown')) : null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+
+  console.log(`[Backfill] Job ${jobId} finished: ${items.length - failed}/${items.length} items done`);
+}
+
+/**
+ * Work through running backfill jobs (oldest first) until the deadline.
+ * Every item is checkpointed as soon as it finishes, so a run cut short by
+ * the deadline loses nothing. Two overlapping runs may sync the same item
+ * twice; that is harmless because rows are upserted. Each account has its
+ * own request budget, so one exhausted seat does not hold up the others.
+ * A failed item is retried once it has waited out RETRY_DELAY_MINUTES,
+ * normally on a later run. The daily rollups of the days that got rows
+ * are rebuilt at the end.
+ */
+export async function runBackfill(supabase: SupabaseClient, deadline: number): Promise<BackfillRunResult> {
+  const result: BackfillRunResult = {
+    jobsProcessed: 0,
+    itemsProcessed: 0,
+    rowsSynced: 0,
+    rowsRejected: 0,
+    rejectedByRule: {},
+    failedItems: 0,
+    timedOut: false,
+    budgetExhausted: false,
+  };
+  const budgets = new Map<string, RequestBudget>();
+  const syncedDays: string[] = [];
+
+  const { data: jobs, error } = await supabase
+    .from('sync_logs')
+    .select('id, rows_synced, account')
+    .eq('sync_type', BACKFILL_SYNC_TYPE)
+    .eq('status', 'running')
+    .order('started_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load backfill jobs: ${error.message}`);
+  if (!jobs || jobs.length === 0) return result;
+
+  const accounts = await listLimelightAccounts(supabase);
+  // Includes inactive sets: a queued item still runs if its set was paused
+  const dimensionSets = await listDimensionSets(supabase);
+
+  for (const job of jobs) {
+    let jobRows = Number(job.rows_synced || 0);
+    let jobBudgetExhausted = false;
+    let jobStopped: string | null = null;
+    result.jobsProcessed++;
+
+    const accountSlug: string = job.account || DEFAULT_ACCOUNT_SLUG;
+    const account = accounts.find((a) => a.slug === accountSlug);
+    if (!account) {
+      // Removed or deactivated seat: nothing can be pulled for this job
+      await supabase
+        .from('sync_logs')
+        .update({
+          status: 'failed',
+          error_message: `Limelight account "${accountSlug}" is not configured or inactive`,
+          error_class: 'auth',
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', job.id);
+      console.warn(`[Backfill] Job ${job.id} failed: account ${accountSlug} is not available`);
+      continue;
+    }
+
+    const budget = budgets.get(accountSlug) || createRequestBudget({ deadline });
+    budgets.set(accountSlug, budget);
+
+    while (true) {
+      const items = await nextQueueItems(supabase, job.id);
+      if (items.length === 0) {
+        // Failed items still waiting for a retry keep the job open
+        if (!(await hasRetriesLeft(supabase, job.id))) await finalizeJob(supabase, job.id);
+        break;
+      }
+
+      for (const item of items) {
+        if (Date.now() > deadline) {
+          result.timedOut = true;
+          break;
+        }
+
+        let status: BackfillItemStatus = 'done';
+        let errorMessage: string | null = null;
+        let errorClass: LimelightErrorClass | null = null;
+        let synced = 0;
+        let rejected = 0;
+
+        try {
+          const dayResult = await syncSingleDay(supabase, item.day, item.dimension_set.split(','), {
+            budget,
+            syncLogId: job.id,
+            account,
+            dimensionSet: dimensionSets.find((s) => s.set_key === item.dimension_set),
+          });
+          synced = dayResult.synced;
+          rejected = dayResult.rejected;
+          mergeRejectionSummaries(result.rejectedByRule, dayResult.rejectedByRule);
+          if (dayResult.errors > 0) {
+            status = 'failed';
+            errorMessage = `${dayResult.errors} batch(es) had errors`;
+          } else if (dayResult.empty) {
+            // Recorded, not retried: a quiet day or a set with no data yet
+            status = 'empty';
+            errorClass = 'empty_day';
+          }
+        } catch (err: unknown) {
+          // Running out of budget is not the item's fault: leave it pending
+          if (err instanceof LimelightBudgetExceededError) {
+            result.budgetExhausted = true;
+            jobBudgetExhausted = true;
+            break;
+          }
+          // Nor is a retry cut off by the deadline
+          if (err instanceof LimelightDeadlineError) {
+            result.timedOut = true;
+            break;
+          }
+          status = 'failed';
+          errorMessage = err instanceof Error ? err.message : 'Unknown error';
+          errorClass = classifyError(err);
+        }
+
+        const { error: progressError } = await supabase
+          .from('sync_backfill_progress')
+          .update({
+            status,
+            rows_synced: synced,
+            rows_rejected: rejected,
+            attempts: item.attempts + 1,
+            error_message: errorMessage,
+            error_class: errorClass,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', item.id);
+
+        jobRows += synced;
+        if (synced > 0) syncedDays.push(item.day);
+        result.itemsProcessed++;
+        result.rowsSynced += synced;
+        result.rowsRejected += rejected;
+        if (status === 'failed') result.failedItems++;
+
+        console.log(`[Backfill] Job ${job.id} ${item.day} (${item.dimension_set}): ${status}, ${synced} rows, ${rejected} rejected`);
+
+        // Without its checkpoint the item would be handed out again and
+        // again; leave the job for the next run
+        if (progressError) {
+          jobStopped = `Failed to record progress for ${item.day} (${item.dimension_set}): ${progressError.message}`;
+          break;
+        }
+      }
+
+      await supabase.from('sync_logs').update({ rows_synced: jobRows }).eq('id', job.id);
+      if (result.timedOut || jobBudgetExhausted || jobStopped) break;
+    }
+
+    if (result.timedOut) {
+      console.warn(`[Backfill] Deadline reached during job ${job.id}. Remaining items resume on the next run.`);
+      break;
+    }
+    if (jobStopped) {
+      console.error(`[Backfill] Job ${job.id} stopped: ${jobStopped}. Remaining items resume on the next run.`);
+    }
+    if (jobBudgetExhausted) {
+      console.warn(`[Backfill] Request budget for ${accountSlug} exhausted during job ${job.id}. Remaining items resume on the next run.`);
+    }
+  }
+
+  if (syncedDays.length > 0) {
+    syncedDays.sort();
+    await refreshDailyRollups(supabase, syncedDays[0], syncedDays[syncedDays.length - 1]);
+  }
+  return result;
+}
+
+/**
+ * Recent backfill jobs with done/pending/failed counts and per-day detail.
+ */
+export async function getBackfillJobs(supabase: SupabaseClient, limit = 10): Promise<BackfillJobStatus[]> {
+  const { data: jobs, error } = await supabase
+    .from('sync_logs')
+    .select('*')
+    .eq('sync_type', BACKFILL_SYNC_TYPE)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load backfill jobs: ${error.message}`);
+
+  const result: BackfillJobStatus[] = [];
+  for (const job of (jobs || []) as SyncLog[]) {
+    const items = (await fetchAllRows(
+      'sync_backfill_progress',
+      'day,dimension_set,set_order,status,rows_synced,attempts,error_message,error_class',
+      { eq: ['sync_log_id', String(job.id)] }
+    )) as BackfillProgressRow[];
+
+    const byDay = new Map<string, BackfillProgressRow[]>();
+    for (const item of items) {
+      const list = byDay.get(item.day) || [];
+      list.push(item);
+      byDay.set(item.day, list);
+    }
+
+    const days: BackfillDayStatus[] = Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, dayItems]) => {
+        const sets = dayItems
+          .sort((a, b) => a.set_order - b.set_order)
+          .map((i) => ({
+            dimensionSet: i.dimension_set,
+            status: i.status,
+            rowsSynced: Number(i.rows_synced || 0),
+            error: i.error_message,
+            errorClass: i.error_class,
+          }));
+        // A day is only done when every dimension set is done or empty
+        const status: BackfillItemStatus = sets.some((s) => s.status === 'failed')
+          ? 'failed'
+          : sets.some((s) => s.status === 'pending')
+            ? 'pending'
+            : sets.every((s) => s.status === 'empty') ? 'empty' : 'done';
+        return { day, status, sets };
+      });
+
+    result.push({
+      id: job.id,
+      account: job.account || DEFAULT_ACCOUNT_SLUG,
+      startDate: job.start_date || '',
+      endDate: job.end_date || '',
+      status: job.status,
+      rowsSynced: job.rows_synced,
+      rowsRejected: Number(job.rows_rejected || 0),
+      errorMessage: job.error_message,
+      startedAt: job.started_at,
+      completedAt: job.completed_at,
+      totals: {
+        done: days.filter((d) => d.status === 'done' || d.status === 'empty').length,
+        pending: days.filter((d) => d.status === 'pending').length,
+        failed: days.filter((d) => d.status === 'failed').length,
+        total: days.length,
+      },
+      days,
+    });
+  }
+
+  return result;
+}
@@ -1,5 +1,19 @@
 import { LimelightAPIResponse } from '@/types';
+import {
+  LimelightError,
+  LimelightAuthError,
+  LimelightRateLimitError,
+  LimelightServerError,
+  LimelightNetworkError,
+  LimelightMalformedPayloadError,
+  LimelightEmptyDayError,
+  LimelightBudgetExceededError,
+  LimelightDeadlineError,
+} from './errors';
+import { createCsvParser, createXmlParser } from './parsers';
+import type { LimelightAccount } from './accounts';
 
+// Default account, used when a request does not name one (see accounts.ts)
 const LIMELIGHT_API_URL = process.env.LIMELIGHT_API_URL || 'http://stats.project-limelight.com/v1/stats';
 const CLIENT_KEY = process.env.LIMELIGHT_CLIENT_KEY || '';
 const SECRET_KEY = process.env.LIMELIGHT_SECRET_KEY || '';
@@ -13,12 +27,8 @@ export const SYNC_DIMENSIONS = ['DATE', 'DEMAND', 'PUBLISHER'];
 // BUNDLE, OS, COUNTRY, SIZE, CHANNEL_TYPE
 export const ON_DEMAND_DIMENSIONS = ['BUNDLE', 'OS', 'COUNTRY', 'SIZE', 'CHANNEL_TYPE'];
 
-// Extra dimension sets to sync nightly (each set is fetched separately)
-// This pre-caches data so dashboard/bundles/ad-sizes pages load instantly from DB
-export const EXTRA_SYNC_DIMENSION_SETS: string[][] = [
-  ['DATE', 'BUNDLE'],
-  ['DATE', 'SIZE'],
-];
+// Extra dimension sets synced nightly are registered in the dimension_sets
+// table (see dimension-sets.ts), each with its own rollup table
 
 const ALL_METRICS = [
   'OPPORTUNITIES',
@@ -33,57 +43,177 @@ const ALL_METRICS = [
   'BID_RESPONSE_ERRORS',
 ];
 
+// Retry policy for transient failures (429, 5xx, network)
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+// A Retry-After longer than this is not worth waiting for inside a function run
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Max Limelight calls (including retries) a single sync run may make
+export const DEFAULT_REQUEST_BUDGET = Number(process.env.LIMELIGHT_REQUEST_BUDGET || 200);
+
+export interface RequestBudget {
+  limit: number;
+  used: number;
+  // Epoch ms the run must finish by; retries never wait past it
+  deadline: number | null;
+}
+
+export function createRequestBudget(options: { limit?: number; deadline?: number } = {}): RequestBudget {
+  return { limit: options.limit ?? DEFAULT_REQUEST_BUDGET, used: 0, deadline: options.deadline ?? null };
+}
+
 export interface FetchStatsParams {
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
   dimensions?: string[];
   metrics?: string[];
   output?: 'json' | 'csv' | 'xml';
+  budget?: RequestBudget;
+  // When false, a SUCCESS response with no rows throws LimelightEmptyDayError
+  allowEmpty?: boolean;
+  // Credentials to pull with; the env-configured account when omitted
+  account?: LimelightAccount;
 }
 
-export async function fetchLimelightStats(params: FetchStatsParams): Promise<LimelightAPIResponse[]> {
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Full-jitter exponential backoff: random delay in [0, min(max, base * 2^attempt)].
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Single GET against the stats endpoint, mapped onto typed errors.
+ */
+async function requestOnce(url: string, accept: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': accept,
+      },
+      cache: 'no-store',
+    });
+  } catch (err: unknown) {
+    throw new LimelightNetworkError(`Limelight API request failed: ${err instanceof Error ? err.message : 'network error'}`, err);
+  }
+
+  if (response.ok) return response;
+
+  const message = `Limelight API HTTP error: ${response.status} ${response.statusText}`;
+  if (response.status === 401 || response.status === 403) throw new LimelightAuthError(message, response.status);
+  if (response.status === 429) throw new LimelightRateLimitError(message, parseRetryAfter(response.headers.get('retry-after')));
+  if (response.status >= 500) throw new LimelightServerError(message, response.status);
+  throw new LimelightError(message, 'api_error', { status: response.status });
+}
+
+/**
+ * GET with retries. Transient errors (429, 5xx, network) are retried with
+ * jittered exponential backoff; a 429 waits at least its Retry-After.
+ * Every attempt counts against the run's request budget, and a retry whose
+ * wait would run past the budget's deadline is not made.
+ */
+async function requestWithRetry(url: string, accept: string, budget?: RequestBudget): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    if (budget) {
+      if (budget.used >= budget.limit) throw new LimelightBudgetExceededError(budget.limit);
+      budget.used++;
+    }
+
+    try {
+      return await requestOnce(url, accept);
+    } catch (err: unknown) {
+      if (!(err instanceof LimelightError) || !err.retryable || attempt >= MAX_RETRIES) throw err;
+
+      let delay = backoffDelay(attempt);
+      if (err instanceof LimelightRateLimitError && err.retryAfterMs !== null) {
+        if (err.retryAfterMs > MAX_RETRY_AFTER_MS) throw err;
+        delay = Math.max(delay, err.retryAfterMs);
+      }
+      if (budget?.deadline && Date.now() + delay > budget.deadline) {
+        throw new LimelightDeadlineError(`Limelight ${err.errorClass} retry would run past the function deadline (${err.message})`, err);
+      }
+
+      console.warn(`[Limelight] ${err.errorClass} (${err.message}), retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+const ACCEPT_HEADERS: Record<NonNullable<FetchStatsParams['output']>, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xml: 'application/xml',
+};
+
+// Element name wrapping each record in XML output
+const XML_ROW_TAG = process.env.LIMELIGHT_XML_ROW_TAG || 'row';
+
+// Rows per batch yielded by streamLimelightStats
+const DEFAULT_STREAM_BATCH_SIZE = 500;
+
+/**
+ * Issue a stats request (with retries) and return the raw response.
+ * Callers decide whether to buffer or stream the body.
+ */
+async function requestLimelightStats(params: FetchStatsParams): Promise<Response> {
   const {
     startDate,
     endDate,
     dimensions = SYNC_DIMENSIONS,
     metrics = ALL_METRICS,
     output = 'json',
+    budget,
+    account,
   } = params;
 
-  const url = new URL(LIMELIGHT_API_URL);
-  url.searchParams.set('clientKey', CLIENT_KEY);
-  url.searchParams.set('secretKey', SECRET_KEY);
+  // The API only accepts credentials in the query string, so the URL is never logged
+  const url = new URL(account?.apiUrl || LIMELIGHT_API_URL);
+  url.searchParams.set('clientKey', account ? account.clientKey : CLIENT_KEY);
+  url.searchParams.set('secretKey', account ? account.secretKey : SECRET_KEY);
   url.searchParams.set('startDate', startDate);
   url.searchParams.set('endDate', endDate);
   url.searchParams.set('breakdown', dimensions.join(','));
   url.searchParams.set('metrics', metrics.join(','));
   url.searchParams.set('output', output);
 
-  console.log(`[Limelight] Fetching: ${startDate} to ${endDate}, dimensions: ${dimensions.join(',')}`);
-
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-    },
-    cache: 'no-store',
-  });
+  console.log(`[Limelight] Fetching${account ? ` (${account.slug})` : ''}: ${startDate} to ${endDate}, dimensions: ${dimensions.join(',')}, output: ${output}`);
 
-  if (!response.ok) {
-    throw new Error(`Limelight API HTTP error: ${response.status} ${response.statusText}`);
-  }
+  return requestWithRetry(url.toString(), ACCEPT_HEADERS[output], budget);
+}
 
-  const data = await response.json();
+/**
+ * Extract rows from a JSON stats body, throwing on API-level errors.
+ */
+function parseJsonPayload(data: unknown): LimelightAPIResponse[] {
+  const payload = data as { status?: string; body?: unknown } | null;
 
   // Check for API-level errors
-  if (data.status === 'FAILED') {
-    throw new Error(`Limelight API error: ${data.body || 'Unknown error'}`);
+  if (payload?.status === 'FAILED') {
+    throw new LimelightError(`Limelight API error: ${payload.body || 'Unknown error'}`, 'api_error');
   }
 
   // SUCCESS response: data is in data.body
-  if (data.status === 'SUCCESS' && Array.isArray(data.body)) {
-    console.log(`[Limelight] Received ${data.body.length} rows`);
-    return data.body;
+  if (payload?.status === 'SUCCESS' && Array.isArray(payload.body)) {
+    return payload.body;
   }
 
   // Fallback: direct array
@@ -91,8 +221,115 @@ export async function fetchLimelightStats(params: FetchStatsParams): Promise<Lim
     return data;
   }
 
-  console.warn('[Limelight] Unexpected response format:', typeof data);
-  return [];
+  throw new LimelightMalformedPayloadError(`Unexpected Limelight response format: ${typeof data}${payload?.status ? ` (status ${payload.status})` : ''}`);
+}
+
+export async function fetchLimelightStats(params: FetchStatsParams): Promise<LimelightAPIResponse[]> {
+  const { startDate, endDate, dimensions = SYNC_DIMENSIONS, output = 'json', allowEmpty = true } = params;
+
+  // CSV/XML bodies are parsed incrementally; collect the batches
+  if (output !== 'json') {
+    const rows: LimelightAPIResponse[] = [];
+    for await (const batch of streamLimelightStats(params)) rows.push(...batch);
+    return rows;
+  }
+
+  const response = await requestLimelightStats(params);
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new LimelightMalformedPayloadError('Limelight API returned a non-JSON body');
+  }
+
+  const rows = parseJsonPayload(data);
+  console.log(`[Limelight] Received ${rows.length} rows`);
+  if (rows.length === 0 && !allowEmpty) {
+    throw new LimelightEmptyDayError(startDate, endDate, dimensions);
+  }
+  return rows;
+}
+
+/**
+ * Stream stats rows in batches without buffering the whole response.
+ * CSV and XML bodies are parsed chunk by chunk as they arrive; JSON cannot
+ * be parsed incrementally, so it is fetched whole and yielded in slices.
+ * Values from CSV/XML arrive as strings; the transformer coerces them.
+ */
+export async function* streamLimelightStats(
+  params: FetchStatsParams & { batchSize?: number }
+): AsyncGenerator<LimelightAPIResponse[]> {
+  const { startDate, endDate, dimensions = SYNC_DIMENSIONS, output = 'json', allowEmpty = true, batchSize = DEFAULT_STREAM_BATCH_SIZE } = params;
+
+  if (output === 'json') {
+    const rows = await fetchLimelightStats(params);
+    for (let i = 0; i < rows.length; i += batchSize) yield rows.slice(i, i + batchSize);
+    return;
+  }
+
+  const response = await requestLimelightStats(params);
+  if (!response.body) {
+    throw new LimelightMalformedPayloadError('Limelight API returned an empty body');
+  }
+
+  const parser = output === 'csv' ? createCsvParser() : createXmlParser(XML_ROW_TAG);
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending: LimelightAPIResponse[] = [];
+  let total = 0;
+  let firstChunk = true;
+  let jsonBody = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Errors come back as a JSON envelope even when CSV/XML was requested
+      if (firstChunk && text.trim()) {
+        firstChunk = false;
+        if (text.trimStart().startsWith('{')) jsonBody = text;
+      } else if (jsonBody) {
+        jsonBody += text;
+      }
+
+      if (!jsonBody) {
+        const records = done ? [...parser.push(text), ...parser.end()] : parser.push(text);
+        pending.push(...(records as LimelightAPIResponse[]));
+        while (pending.length >= batchSize) {
+          total += batchSize;
+          yield pending.slice(0, batchSize);
+          pending = pending.slice(batchSize);
+        }
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (jsonBody) {
+    let data;
+    try {
+      data = JSON.parse(jsonBody);
+    } catch {
+      throw new LimelightMalformedPayloadError(`Limelight API returned neither ${output.toUpperCase()} nor JSON`);
+    }
+    // A JSON envelope with rows (API ignored the output param) is still usable
+    pending = parseJsonPayload(data);
+  }
+
+  if (pending.length > 0) {
+    total += pending.length;
+    yield pending;
+  }
+
+  console.log(`[Limelight] Streamed ${total} rows`);
+  if (total === 0 && !allowEmpty) {
+    throw new LimelightEmptyDayError(startDate, endDate, dimensions);
+  }
 }
 
 export function formatDateForAPI(date: Date): string {
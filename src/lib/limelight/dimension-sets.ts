@@ -0,0 +1,182 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { DimensionAggregateRow, DimensionSet } from '@/types';
+import { SYNC_DIMENSIONS } from './client';
+import type { TransformedRow } from './transformer';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+/**
+ * Stable identifier for a dimension set, e.g. "DATE,BUNDLE".
+ */
+export function dimensionSetKey(dimensions: string[]): string {
+  return dimensions.join(',');
+}
+
+// The core set is the only one stored in limelight_stats
+export const CORE_DIMENSION_SET_KEY = dimensionSetKey(SYNC_DIMENSIONS);
+
+// Dimensions a set can add to DATE, in the order they are stored, with the
+// row columns each one fills. The first column is the one in the table's
+// unique key: demand partners and publishers are keyed by Limelight ID.
+export const SET_DIMENSION_COLUMNS: Record<string, Array<keyof TransformedRow>> = {
+  DEMAND: ['demand_partner_id', 'demand_partner_name'],
+  PUBLISHER: ['publisher_id', 'publisher'],
+  BUNDLE: ['bundle'],
+  SIZE: ['ad_unit_type'],
+  CHANNEL_TYPE: ['channel_type'],
+  OS: ['os'],
+  COUNTRY: ['country'],
+};
+
+const METRIC_COLUMNS = [
+  'opportunities', 'bid_requests', 'bids', 'wins', 'impressions',
+  'pub_payout', 'demand_payout', 'demand_service_fee',
+  'bid_response_timeouts', 'bid_response_errors',
+] as const;
+
+/**
+ * Normalize requested dimensions into a set: DATE first, then the others in
+ * storage order, so "COUNTRY,OS" and "OS,COUNTRY" are the same set. Returns
+ * null for unknown dimensions or a set with nothing besides DATE.
+ */
+export function normalizeDimensions(input: unknown): string[] | null {
+  if (!Array.isArray(input)) return null;
+  const requested = new Set(input.map((d) => String(d).trim().toUpperCase()).filter((d) => d && d !== 'DATE'));
+  if (requested.size === 0) return null;
+  if (Array.from(requested).some((d) => !SET_DIMENSION_COLUMNS[d])) return null;
+  return ['DATE', ...Object.keys(SET_DIMENSION_COLUMNS).filter((d) => requested.has(d))];
+}
+
+/**
+ * Rollup table for a (normalized) set, e.g. stats_os_country.
+ */
+export function rollupTableName(dimensions: string[]): string {
+  return `stats_${dimensions.filter((d) => d !== 'DATE').map((d) => d.toLowerCase()).join('_')}`;
+}
+
+export async function listDimensionSets(supabase: SupabaseClient, activeOnly = false): Promise<DimensionSet[]> {
+  let query = supabase
+    .from('dimension_sets')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('id', { ascending: true });
+  if (activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load dimension sets: ${error.message}`);
+  return (data || []) as DimensionSet[];
+}
+
+export async function getDimensionSet(supabase: SupabaseClient, setKey: string): Promise<DimensionSet | null> {
+  const { data, error } = await supabase
+    .from('dimension_sets')
+    .select('*')
+    .eq('set_key', setKey)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load dimension set ${setKey}: ${error.message}`);
+  return (data as DimensionSet | null) || null;
+}
+
+/**
+ * Smallest active set holding every requested dimension (DATE is in all
+ * of them), so a query reads the narrowest table that can answer it.
+ * The core set wins ties. Null when no registered set covers them.
+ */
+export function pickDimensionSet(sets: DimensionSet[], dimensions: string[]): DimensionSet | null {
+  const candidates = sets.filter((s) => s.is_active && dimensions.every((d) => s.dimensions.includes(d)));
+  candidates.sort((a, b) => a.dimensions.length - b.dimensions.length || Number(b.is_core) - Number(a.is_core));
+  return candidates[0] || null;
+}
+
+/**
+ * Unique key of a row in a set's rollup table (matches the table's
+ * UNIQUE constraint; rows without an entity ID are stored under ID 0).
+ */
+export function rollupRowKey(set: DimensionSet): (row: TransformedRow) => string {
+  const dims = set.dimensions.filter((d) => d !== 'DATE');
+  return (row) => [
+    row.source, row.account, row.date,
+    ...dims.map((d) => row[SET_DIMENSION_COLUMNS[d][0]] ?? 0),
+  ].join('\u0001');
+}
+
+/**
+ * Upsert rows into a set's rollup table on its unique key, in batches.
+ * Only the set's own columns are written. A failing batch is logged and
+ * counted; the remaining batches still run.
+ */
+export async function upsertRollupRows(
+  supabase: SupabaseClient,
+  set: DimensionSet,
+  rows: TransformedRow[],
+  label: string
+): Promise<{ synced: number; errors: number }> {
+  const BATCH_SIZE = 500;
+  const dims = set.dimensions.filter((d) => d !== 'DATE');
+  const conflictKey = ['source', 'account', 'date', ...dims.map((d) => SET_DIMENSION_COLUMNS[d][0])].join(',');
+  let synced = 0;
+  let errors = 0;
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE).map((row) => {
+      const record: Record<string, unknown> = { source: row.source, account: row.account, date: row.date };
+      for (const dim of dims) {
+        for (const column of SET_DIMENSION_COLUMNS[dim]) record[column] = row[column];
+      }
+      if ('demand_partner_id' in record) record.demand_partner_id = row.demand_partner_id ?? 0;
+      if ('publisher_id' in record) record.publisher_id = row.publisher_id ?? 0;
+      for (const metric of METRIC_COLUMNS) record[metric] = row[metric];
+      return record;
+    });
+
+    const { error: upsertError } = await supabase
+      .from(set.table_name)
+      .upsert(batch, { onConflict: conflictKey, ignoreDuplicates: false });
+
+    if (upsertError) {
+      console.error(`[Sync] Upsert error on ${label} (${set.table_name}):`, upsertError.message);
+      errors++;
+      continue;
+    }
+
+    synced += batch.length;
+  }
+
+  return { synced, errors };
+}
+
+export interface DimensionQuery {
+  dimensions: string[];
+  startDate: string;
+  endDate: string;
+  // p_source / p_account filters (see splitSourceScope); null means all
+  source: string | null;
+  account: string | null;
+  limit?: number;
+}
+
+/**
+ * Aggregate stored stats by the requested dimensions, reading whichever
+ * registered set's table covers them. Returns null when no active set
+ * does, so callers can fall back to an on-demand Limelight query.
+ */
+export async function aggregateByDimensions(
+  supabase: SupabaseClient,
+  query: DimensionQuery
+): Promise<{ set: DimensionSet; rows: DimensionAggregateRow[] } | null> {
+  const set = pickDimensionSet(await listDimensionSets(supabase, true), query.dimensions);
+  if (!set) return null;
+
+  const { data, error } = await supabase.rpc('agg_rollup', {
+    p_table: set.table_name,
+    p_group_by: query.dimensions,
+    p_start: query.startDate,
+    p_end: query.endDate,
+    p_source: query.source,
+    p_account: query.account,
+    p_limit: query.limit ?? null,
+  });
+  if (error) throw new Error(`agg_rollup on ${set.table_name} failed: ${error.message}`);
+
+  return { set, rows: (data || []) as DimensionAggregateRow[] };
+}
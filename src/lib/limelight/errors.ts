@@ -0,0 +1,99 @@
+// Error classes for Limelight API calls.
+// errorClass is persisted to sync_logs.error_class so failures can be alerted on.
+
+export type LimelightErrorClass =
+  | 'auth'
+  | 'rate_limit'
+  | 'server_error'
+  | 'network'
+  | 'api_error'
+  | 'malformed_payload'
+  | 'empty_day'
+  | 'budget_exhausted'
+  | 'timeout'
+  | 'unknown';
+
+export class LimelightError extends Error {
+  readonly errorClass: LimelightErrorClass;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, errorClass: LimelightErrorClass, options: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'LimelightError';
+    this.errorClass = errorClass;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+/** 401/403 - bad or revoked client/secret key. Never retried. */
+export class LimelightAuthError extends LimelightError {
+  constructor(message: string, status?: number) {
+    super(message, 'auth', { status });
+    this.name = 'LimelightAuthError';
+  }
+}
+
+/** 429 - retried after Retry-After (or backoff when the header is missing). */
+export class LimelightRateLimitError extends LimelightError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null) {
+    super(message, 'rate_limit', { retryable: true, status: 429 });
+    this.name = 'LimelightRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** 5xx - transient on Limelight's side, retried with backoff. */
+export class LimelightServerError extends LimelightError {
+  constructor(message: string, status: number) {
+    super(message, 'server_error', { retryable: true, status });
+    this.name = 'LimelightServerError';
+  }
+}
+
+/** fetch() itself failed (DNS, connection reset, ...), retried with backoff. */
+export class LimelightNetworkError extends LimelightError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'network', { retryable: true, cause });
+    this.name = 'LimelightNetworkError';
+  }
+}
+
+/** Response body is not JSON or does not have the documented shape. */
+export class LimelightMalformedPayloadError extends LimelightError {
+  constructor(message: string) {
+    super(message, 'malformed_payload');
+    this.name = 'LimelightMalformedPayloadError';
+  }
+}
+
+/** SUCCESS response with no rows for a day that should have data. */
+export class LimelightEmptyDayError extends LimelightError {
+  constructor(startDate: string, endDate: string, dimensions: string[]) {
+    super(`Limelight returned no rows for ${startDate}${endDate !== startDate ? ` to ${endDate}` : ''} (${dimensions.join(',')})`, 'empty_day');
+    this.name = 'LimelightEmptyDayError';
+  }
+}
+
+/** The per-run request budget ran out before the call was made. */
+export class LimelightBudgetExceededError extends LimelightError {
+  constructor(limit: number) {
+    super(`Limelight request budget of ${limit} calls exhausted for this run`, 'budget_exhausted');
+    this.name = 'LimelightBudgetExceededError';
+  }
+}
+
+/** A retry was due but its wait would run past the run's deadline. */
+export class LimelightDeadlineError extends LimelightError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'timeout', { cause });
+    this.name = 'LimelightDeadlineError';
+  }
+}
+
+export function classifyError(error: unknown): LimelightErrorClass {
+  return error instanceof LimelightError ? error.errorClass : 'unknown';
+}
@@ -0,0 +1,175 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { limelightSource } from '@/lib/sources/limelight';
+import { resolveEntityNames } from '@/lib/entities/registry';
+import { RequestBudget } from './client';
+import { LimelightAccount } from './accounts';
+import { LIMELIGHT_SOURCE_ID, RejectedRow, TransformedRow } from './transformer';
+import { parseLimelightHour, summarizeRejections } from './validation';
+import { quarantineRejectedRows } from './sync';
+import { dimensionSetKey } from './dimension-sets';
+import type { LimelightAPIResponse, RejectionSummary } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Breakdown pulled by the hourly sync. Hours are UTC, like Limelight's dates.
+export const HOURLY_DIMENSIONS = ['DATE', 'HOUR', 'DEMAND', 'PUBLISHER'];
+
+// The hourly sync is opt-in: it costs one Limelight request per account per run
+export const HOURLY_SYNC_ENABLED = process.env.LIMELIGHT_HOURLY_SYNC === 'true';
+
+// Enough for "same hour last week" plus a day of slack
+export const HOURLY_RETENTION_DAYS = Number(process.env.LIMELIGHT_HOURLY_RETENTION_DAYS || 9);
+
+// Limelight keeps filling an hour for a while after it ends; hours younger
+// than this are treated as incomplete by the intraday view and alerts
+export const HOURLY_LAG_HOURS = Number(process.env.LIMELIGHT_HOURLY_LAG_HOURS || 1);
+
+// Upsert conflict key for limelight_stats_hourly (matches the UNIQUE constraint)
+const HOURLY_CONFLICT_KEY = 'source,account,date,hour,demand_partner_name,publisher';
+
+type HourlyRow = TransformedRow & { hour: number };
+
+function hourlyRowKey(row: HourlyRow): string {
+  return [row.source, row.account, row.date, row.hour, row.demand_partner_name, row.publisher].join('\u0001');
+}
+
+/**
+ * Latest hour of `day` (UTC) that counts as complete at `now`, or null
+ * when none does yet. Past days are complete through hour 23.
+ */
+export function lastCompleteHour(day: string, now: Date = new Date()): number | null {
+  const cutoff = new Date(now.getTime() - HOURLY_LAG_HOURS * 3600_000);
+  const cutoffDay = cutoff.toISOString().split('T')[0];
+  if (cutoffDay > day) return 23;
+  if (cutoffDay < day) return null;
+  // The hour the cutoff falls in is still open
+  const hour = cutoff.getUTCHours() - 1;
+  return hour >= 0 ? hour : null;
+}
+
+/**
+ * Same weekday one week earlier.
+ */
+export function sameDayLastWeek(day: string): string {
+  const date = new Date(day + 'T00:00:00Z');
+  date.setUTCDate(date.getUTCDate() - 7);
+  return date.toISOString().split('T')[0];
+}
+
+export interface HourlySyncResult {
+  synced: number;
+  errors: number;
+  rejected: number;
+  rejectedByRule: RejectionSummary;
+}
+
+/**
+ * Pull one day's hourly breakdown for one account into limelight_stats_hourly.
+ * The whole day is re-pulled each run, so hours Limelight is still filling
+ * in are corrected on the next one. Names go through the entity registry
+ * like the daily sync; rejected rows are quarantined under the hourly
+ * dimension set.
+ */
+export async function syncHourlyDay(
+  supabase: SupabaseClient,
+  day: string,
+  account: LimelightAccount,
+  budget?: RequestBudget
+): Promise<HourlySyncResult> {
+  const BATCH_SIZE = 500;
+  const result: HourlySyncResult = { synced: 0, errors: 0, rejected: 0, rejectedByRule: {} };
+  const rejected: RejectedRow<LimelightAPIResponse>[] = [];
+
+  const stream = limelightSource.fetchStats({
+    startDate: day,
+    endDate: day,
+    dimensions: HOURLY_DIMENSIONS,
+    budget,
+    // Early in the UTC day there may be nothing yet
+    allowEmpty: true,
+    batchSize: BATCH_SIZE,
+    account,
+  });
+
+  for await (const rawBatch of stream) {
+    // The transformer has no hour column, so rows are transformed one by one
+    // and the (already validated) hour is taken from the raw row
+    const rows: HourlyRow[] = [];
+    for (const raw of rawBatch) {
+      const transformed = limelightSource.transform([raw], HOURLY_DIMENSIONS);
+      rejected.push(...transformed.rejected);
+      for (const row of transformed.rows) {
+        rows.push({ ...row, account: account.slug, hour: parseLimelightHour(raw.HOUR) as number });
+      }
+    }
+
+    const resolved = await resolveEntityNames(supabase, rows, day, account.slug, hourlyRowKey);
+    const records = resolved.map((row) => ({
+      source: row.source,
+      account: row.account,
+      date: row.date,
+      hour: row.hour,
+      demand_partner_id: row.demand_partner_id,
+      demand_partner_name: row.demand_partner_name,
+      publisher_id: row.publisher_id,
+      publisher: row.publisher,
+      opportunities: row.opportunities,
+      bid_requests: row.bid_requests,
+      bids: row.bids,
+      wins: row.wins,
+      impressions: row.impressions,
+      pub_payout: row.pub_payout,
+      demand_payout: row.demand_payout,
+      demand_service_fee: row.demand_service_fee,
+      bid_response_timeouts: row.bid_response_timeouts,
+      bid_response_errors: row.bid_response_errors,
+      synced_at: new Date().toISOString(),
+    }));
+
+    if (records.length === 0) continue;
+    const { error: upsertError } = await supabase
+      .from('limelight_stats_hourly')
+      .upsert(records, { onConflict: HOURLY_CONFLICT_KEY, ignoreDuplicates: false });
+
+    if (upsertError) {
+      console.error(`[Hourly] Upsert error on ${day} (${account.slug}):`, upsertError.message);
+      result.errors++;
+      continue;
+    }
+    result.synced += records.length;
+  }
+
+  await quarantineRejectedRows(supabase, rejected, {
+    source: LIMELIGHT_SOURCE_ID,
+    account: account.slug,
+    day,
+    dimensionSet: dimensionSetKey(HOURLY_DIMENSIONS),
+    syncLogId: null,
+    replace: true,
+  });
+  result.rejected = rejected.length;
+  result.rejectedByRule = summarizeRejections(rejected);
+  if (result.rejected > 0) {
+    console.warn(`[Hourly] ${day} (${account.slug}): ${result.rejected} row(s) rejected`, result.rejectedByRule);
+  }
+
+  return result;
+}
+
+/**
+ * Delete hourly rows older than the hourly retention window.
+ */
+export async function cleanupOldHourlyStats(supabase: SupabaseClient): Promise<number> {
+  const cutoffDate = new Date();
+  cutoffDate.setUTCDate(cutoffDate.getUTCDate() - HOURLY_RETENTION_DAYS);
+  const cutoff = cutoffDate.toISOString().split('T')[0];
+
+  const { count } = await supabase
+    .from('limelight_stats_hourly')
+    .delete({ count: 'exact' })
+    .lt('date', cutoff);
+  if (count && count > 0) {
+    console.log(`[Hourly] Cleaned up ${count} rows older than ${cutoff}`);
+  }
+  return count || 0;
+}
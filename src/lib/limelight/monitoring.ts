@@ -0,0 +1,206 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { fetchAllRows } from '@/lib/supabase/helpers';
+import type {
+  BackfillProgressRow,
+  CoverageDay,
+  DataFreshness,
+  DimensionSet,
+  SyncCoverage,
+  SyncLog,
+  SyncRun,
+  SyncSetResult,
+} from '@/types';
+import { listLimelightAccountLabels } from './accounts';
+import { BACKFILL_SYNC_TYPE } from './backfill';
+import { listDimensionSets } from './dimension-sets';
+import { getDatesBetween } from './sync';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Cron times from vercel.json: the daily sync at 04:00 UTC, the cache
+// refresh at 04:10. Data is only called stale once the grace has passed,
+// so a slow sync does not flash the banner every morning.
+const DAILY_SYNC_UTC_HOUR = 4;
+const CACHE_REFRESH_UTC_MINUTES = 4 * 60 + 10;
+const FRESHNESS_GRACE_HOURS = 2;
+
+function utcDate(d: Date): string {
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Set results of a backfill job, rebuilt from its queue: a set is done when
+ * every day is (empty when none of them had rows), failed when none got
+ * through, partial otherwise.
+ */
+function backfillSetResults(items: BackfillProgressRow[]): Record<string, SyncSetResult> {
+  const results: Record<string, SyncSetResult> = {};
+  for (const item of items) {
+    const result = results[item.dimension_set] || {
+      status: 'skipped', rowsSynced: 0, daysSynced: 0, daysTotal: 0, emptyDays: 0, errors: 0, error: null,
+    };
+    results[item.dimension_set] = result;
+    result.daysTotal++;
+    result.rowsSynced += Number(item.rows_synced || 0);
+    if (item.status === 'done' || item.status === 'empty') result.daysSynced++;
+    if (item.status === 'empty') result.emptyDays = (result.emptyDays || 0) + 1;
+    if (item.status === 'failed') {
+      result.errors++;
+      result.error = result.error || item.error_message;
+    }
+  }
+
+  for (const result of Object.values(results)) {
+    if (result.daysSynced === result.daysTotal) result.status = result.emptyDays === result.daysTotal ? 'empty' : 'done';
+    else if (result.daysSynced > 0) result.status = 'partial';
+    else if (result.errors > 0) result.status = 'failed';
+  }
+  return results;
+}
+
+function toSyncRun(log: SyncLog, setResults: Record<string, SyncSetResult> | null, sets: DimensionSet[]): SyncRun {
+  const order = new Map(sets.map((set, i) => [set.set_key, i]));
+  const labels = new Map(sets.map((set) => [set.set_key, set.label]));
+
+  return {
+    id: log.id,
+    syncType: log.sync_type,
+    account: log.account,
+    startDate: log.start_date,
+    endDate: log.end_date,
+    status: log.status,
+    rowsSynced: Number(log.rows_synced || 0),
+    rowsRejected: Number(log.rows_rejected || 0),
+    durationMs: log.completed_at ? new Date(log.completed_at).getTime() - new Date(log.started_at).getTime() : null,
+    errorMessage: log.error_message,
+    errorClass: log.error_class,
+    fileName: log.file_name,
+    startedAt: log.started_at,
+    completedAt: log.completed_at,
+    // Registry order; sets removed since the run go last under their key
+    sets: Object.entries(setResults || {})
+      .map(([setKey, result]) => ({ setKey, label: labels.get(setKey) || setKey, ...result }))
+      .sort((a, b) => (order.get(a.setKey) ?? sets.length) - (order.get(b.setKey) ?? sets.length)),
+  };
+}
+
+/**
+ * Recent sync_logs rows of every type, newest first, with duration and
+ * per-dimension-set results.
+ */
+export async function getSyncRuns(
+  supabase: SupabaseClient,
+  options: { limit: number; offset: number; syncType?: string | null }
+): Promise<{ runs: SyncRun[]; total: number }> {
+  let query = supabase
+    .from('sync_logs')
+    .select('*', { count: 'exact' })
+    .order('started_at', { ascending: false })
+    .range(options.offset, options.offset + options.limit - 1);
+  if (options.syncType) query = query.eq('sync_type', options.syncType);
+
+  const { data, count, error } = await query;
+  if (error) throw new Error(`Failed to load sync runs: ${error.message}`);
+
+  // Includes inactive sets so older runs keep their labels
+  const sets = await listDimensionSets(supabase);
+  const runs: SyncRun[] = [];
+  for (const log of (data || []) as SyncLog[]) {
+    if (log.sync_type === BACKFILL_SYNC_TYPE) {
+      const items = (await fetchAllRows(
+        'sync_backfill_progress',
+        'dimension_set,status,rows_synced,error_message',
+        { eq: ['sync_log_id', String(log.id)] }
+      )) as BackfillProgressRow[];
+      runs.push(toSyncRun(log, backfillSetResults(items), sets));
+    } else {
+      runs.push(toSyncRun(log, log.set_results, sets));
+    }
+  }
+
+  return { runs, total: count || 0 };
+}
+
+/**
+ * Stored-row coverage per day for every active account and dimension set.
+ * A day is complete when each account/set pair has rows, missing when none
+ * does, and partial in between.
+ */
+export async function getSyncCoverage(supabase: SupabaseClient, startDate: string, endDate: string): Promise<SyncCoverage> {
+  const [accounts, sets] = await Promise.all([
+    listLimelightAccountLabels(supabase),
+    listDimensionSets(supabase, true),
+  ]);
+
+  const { data, error } = await supabase.rpc('get_sync_coverage', { p_start: startDate, p_end: endDate });
+  if (error) throw new Error(`get_sync_coverage failed: ${error.message}`);
+
+  const counts = new Map<string, number>();
+  for (const entry of (data || []) as Array<{ date: string; account: string; set_key: string; rows: number }>) {
+    counts.set(`${entry.date}|${entry.account}|${entry.set_key}`, Number(entry.rows || 0));
+  }
+
+  const expected = accounts.length * sets.length;
+  const days: CoverageDay[] = getDatesBetween(startDate, endDate).map((day) => {
+    let rows = 0;
+    const missing: string[] = [];
+    for (const account of accounts) {
+      for (const set of sets) {
+        const n = counts.get(`${day}|${account.slug}|${set.set_key}`) || 0;
+        rows += n;
+        if (n === 0) missing.push(`${account.label} / ${set.label}`);
+      }
+    }
+    const status = missing.length === 0 ? 'complete' : missing.length === expected ? 'missing' : 'partial';
+    return { day, status, rows, missing };
+  });
+
+  return {
+    startDate,
+    endDate,
+    accounts: accounts.map((a) => a.slug),
+    sets: sets.map((set) => ({ setKey: set.set_key, label: set.label })),
+    days,
+  };
+}
+
+/**
+ * How current the stored stats and the dashboard caches are, against what
+ * the daily cron jobs should have produced by now.
+ */
+export async function getDataFreshness(supabase: SupabaseClient): Promise<DataFreshness> {
+  const now = new Date();
+
+  const [{ data: latest, error: statsError }, { data: cache, error: cacheError }] = await Promise.all([
+    supabase.from('limelight_stats').select('date').eq('source', 'limelight').order('date', { ascending: false }).limit(1).maybeSingle(),
+    // Custom-range entries are written on request, so they say nothing about the refresh
+    supabase.from('data_cache').select('updated_at').not('key', 'like', 'range:%')
+      .order('updated_at', { ascending: false }).limit(1).maybeSingle(),
+  ]);
+  if (statsError) throw new Error(`Failed to read latest stats date: ${statsError.message}`);
+  if (cacheError) throw new Error(`Failed to read cache timestamp: ${cacheError.message}`);
+
+  // Yesterday is expected once today's sync (plus grace) is past, else the day before
+  const syncDay = new Date(now);
+  if (now.getUTCHours() < DAILY_SYNC_UTC_HOUR + FRESHNESS_GRACE_HOURS) syncDay.setUTCDate(syncDay.getUTCDate() - 1);
+  syncDay.setUTCDate(syncDay.getUTCDate() - 1);
+  const expectedDate = utcDate(syncDay);
+
+  // Most recent refresh whose grace has passed
+  const refresh = new Date(now);
+  refresh.setUTCHours(0, CACHE_REFRESH_UTC_MINUTES, 0, 0);
+  if (now.getTime() < refresh.getTime() + FRESHNESS_GRACE_HOURS * 3600_000) refresh.setUTCDate(refresh.getUTCDate() - 1);
+
+  const latestDate: string | null = latest?.date ?? null;
+  const cacheUpdatedAt: string | null = cache?.updated_at ?? null;
+
+  return {
+    latestDate,
+    expectedDate,
+    statsStale: !latestDate || latestDate < expectedDate,
+    cacheUpdatedAt,
+    cacheExpectedAfter: refresh.toISOString(),
+    cacheStale: !cacheUpdatedAt || new Date(cacheUpdatedAt).getTime() < refresh.getTime(),
+    checkedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,170 @@
+// Incremental CSV and XML parsers for Limelight report bodies.
+// Both accept text in arbitrary chunks and return only the records that are
+// complete so far, so a large response never has to be held in memory.
+
+export type RawRecord = Record<string, string>;
+
+export interface IncrementalParser {
+  /** Feed the next chunk of text; returns records completed by it. */
+  push(chunk: string): RawRecord[];
+  /** Signal end of input; returns any trailing record. */
+  end(): RawRecord[];
+}
+
+/**
+ * RFC 4180 CSV parser. The first record is the header row; each following
+ * record is returned as an object keyed by header name. Handles quoted
+ * fields, escaped quotes ("") and CRLF line endings, across chunk boundaries.
+ */
+export function createCsvParser(): IncrementalParser {
+  let header: string[] | null = null;
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  // A quote seen inside a quoted field: either "" (escaped) or the closing quote
+  let pendingQuote = false;
+  let started = false;
+
+  const emitRecord = (out: RawRecord[]) => {
+    fields.push(field);
+    field = '';
+    const record = fields;
+    fields = [];
+    started = false;
+
+    // Skip blank lines
+    if (record.length === 1 && record[0] === '') return;
+
+    if (!header) {
+      // Strip a UTF-8 BOM from the first header cell
+      header = record.map((h, i) => (i === 0 ? h.replace(/^\uFEFF/, '') : h).trim());
+      return;
+    }
+    const obj: RawRecord = {};
+    header.forEach((key, i) => {
+      obj[key] = record[i] ?? '';
+    });
+    out.push(obj);
+  };
+
+  const push = (chunk: string): RawRecord[] => {
+    const out: RawRecord[] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (ch === '"') pendingQuote = true;
+        else field += ch;
+        continue;
+      }
+
+      if (ch === '"' && field === '') {
+        inQuotes = true;
+        started = true;
+      } else if (ch === ',') {
+        fields.push(field);
+        field = '';
+        started = true;
+      } else if (ch === '\n') {
+        emitRecord(out);
+      } else if (ch !== '\r') {
+        field += ch;
+        started = true;
+      }
+    }
+    return out;
+  };
+
+  const end = (): RawRecord[] => {
+    const out: RawRecord[] = [];
+    pendingQuote = false;
+    inQuotes = false;
+    if (started || field !== '' || fields.length > 0) emitRecord(out);
+    return out;
+  };
+
+  return { push, end };
+}
+
+/**
+ * Parse a complete CSV string (small files, e.g. manual uploads).
+ */
+export function parseCsv(text: string): RawRecord[] {
+  const parser = createCsvParser();
+  return [...parser.push(text), ...parser.end()];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Streaming XML parser for flat record documents such as
+ *   <rows><row><DATE>2025-01-01</DATE><IMPRESSIONS>10</IMPRESSIONS></row>...</rows>
+ * Every <rowTag> element becomes one record of its leaf child elements.
+ */
+export function createXmlParser(rowTag = 'row'): IncrementalParser {
+  let buffer = '';
+  const openPattern = new RegExp(`<${rowTag}(\\s[^>]*)?>`);
+  const closeTag = `</${rowTag}>`;
+  const leafPattern = /<([A-Za-z_][\w.-]*)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+
+  const drain = (): RawRecord[] => {
+    const out: RawRecord[] = [];
+    while (true) {
+      const open = openPattern.exec(buffer);
+      if (!open) {
+        // Keep a tail in case an opening tag is split across chunks
+        buffer = buffer.slice(-(rowTag.length + 64));
+        return out;
+      }
+      const bodyStart = open.index + open[0].length;
+      const close = buffer.indexOf(closeTag, bodyStart);
+      if (close === -1) {
+        buffer = buffer.slice(open.index);
+        return out;
+      }
+
+      const body = buffer.slice(bodyStart, close);
+      const record: RawRecord = {};
+      for (const match of body.matchAll(leafPattern)) {
+        record[match[1]] = decodeXml((match[2] ?? '').trim());
+      }
+      out.push(record);
+      buffer = buffer.slice(close + closeTag.length);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      return drain();
+    },
+    end() {
+      const out = drain();
+      buffer = '';
+      return out;
+    },
+  };
+}
@@ -0,0 +1,285 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { ReconciliationDiff, ReconciliationReport, ReconciliationRun } from '@/types';
+import { fetchLimelightStats, getDateRange, createRequestBudget } from './client';
+import { transformLimelightResponse, LIMELIGHT_SOURCE_ID } from './transformer';
+import { getDatesBetween, getRetentionCutoff } from './sync';
+import { createBackfillJob } from './backfill';
+import { classifyError } from './errors';
+import { LimelightAccount, listLimelightAccounts } from './accounts';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Rolling window re-checked every night (ending the day before yesterday)
+export const RECONCILE_WINDOW_DAYS = Number(process.env.LIMELIGHT_RECONCILE_WINDOW_DAYS || 7);
+
+// A day is re-synced when any partner's revenue or impressions drift by more than this
+export const RECONCILE_THRESHOLD_PCT = Number(process.env.LIMELIGHT_RECONCILE_THRESHOLD_PCT || 1);
+
+// Revenue differences below this (USD) are ignored, so tiny partners do not
+// trigger a re-sync over a few cents
+const MIN_REVENUE_DELTA = 1;
+
+// Differences below this are rounding noise and are not recorded at all
+const NOISE_PCT = 0.01;
+
+const RECONCILE_DIMENSIONS = ['DATE', 'DEMAND'];
+const RECONCILE_METRICS = ['IMPRESSIONS', 'DEMAND_PAYOUT'];
+
+interface PartnerDayTotals {
+  impressions: number;
+  revenue: number;
+}
+
+export interface ReconciliationResult {
+  account: string;
+  runId: number;
+  windowStart: string;
+  windowEnd: string;
+  daysChecked: number;
+  daysDrifted: number;
+  resyncJobIds: number[];
+}
+
+/**
+ * Percentage drift of the stored value against Limelight's current value.
+ * A value that exists on only one side counts as 100%.
+ */
+function driftPct(stored: number, api: number): number {
+  if (stored === api) return 0;
+  const base = Math.max(Math.abs(api), Math.abs(stored));
+  return base > 0 ? (Math.abs(api - stored) / base) * 100 : 0;
+}
+
+function totalsKey(day: string, partner: string): string {
+  return `${day}|${partner}`;
+}
+
+/**
+ * Re-pull the RECONCILE_WINDOW_DAYS days before yesterday at DATE,DEMAND level
+ * from one account, compare them with that account's rows in limelight_stats
+ * and queue a one-day backfill job for every day that drifted past the
+ * threshold. Every difference above the noise floor is stored in
+ * reconciliation_diffs so the report shows what changed.
+ */
+export async function reconcileRecentDays(
+  supabase: SupabaseClient,
+  account: LimelightAccount,
+  windowDays: number = RECONCILE_WINDOW_DAYS,
+  thresholdPct: number = RECONCILE_THRESHOLD_PCT,
+  deadline?: number
+): Promise<ReconciliationResult> {
+  // Yesterday is left to the nightly sync, so the window ends the day before
+  const range = getDateRange(windowDays + 1);
+  const days = getDatesBetween(range.startDate, range.endDate).slice(0, -1);
+  // Days older than retention are about to be deleted; nothing to reconcile
+  const cutoff = getRetentionCutoff();
+  const windowStart = days[0] < cutoff ? cutoff : days[0];
+  const windowEnd = days[days.length - 1];
+
+  const { data: run, error: runError } = await supabase
+    .from('reconciliation_runs')
+    .insert({
+      account: account.slug,
+      window_start: windowStart,
+      window_end: windowEnd,
+      threshold_pct: thresholdPct,
+      status: 'running',
+    })
+    .select()
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Failed to create reconciliation run: ${runError?.message || 'no row returned'}`);
+  }
+
+  try {
+    // Limelight's current totals. Rows the sync would reject are left out
+    // here too, so they do not show up as drift on every run.
+    const { rows: apiRows } = transformLimelightResponse(
+      await fetchLimelightStats({
+        startDate: windowStart,
+        endDate: windowEnd,
+        dimensions: RECONCILE_DIMENSIONS,
+        metrics: RECONCILE_METRICS,
+        budget: createRequestBudget({ deadline }),
+        account,
+      }),
+      RECONCILE_DIMENSIONS
+    );
+    const api = new Map<string, PartnerDayTotals>();
+    for (const row of apiRows) {
+      const key = totalsKey(row.date, row.demand_partner_name);
+      const existing = api.get(key) || { impressions: 0, revenue: 0 };
+      existing.impressions += row.impressions;
+      existing.revenue += row.demand_payout;
+      api.set(key, existing);
+    }
+
+    // What we have stored from Limelight (other sources are not compared)
+    const { data: storedRows, error: storedError } = await supabase.rpc('get_partner_day_totals', {
+      p_start: windowStart,
+      p_end: windowEnd,
+      p_source: LIMELIGHT_SOURCE_ID,
+      p_account: account.slug,
+    });
+    if (storedError) throw new Error(`Failed to load stored totals: ${storedError.message}`);
+
+    const stored = new Map<string, PartnerDayTotals>();
+    for (const row of storedRows || []) {
+      stored.set(totalsKey(row.date, row.demand_partner_name), {
+        impressions: Number(row.impressions || 0),
+        revenue: Number(row.revenue || 0),
+      });
+    }
+
+    const diffs: Omit<ReconciliationDiff, 'id' | 'created_at' | 'backfill_job_id'>[] = [];
+    const driftedDays = new Set<string>();
+    const totals = { storedRevenue: 0, apiRevenue: 0, storedImpressions: 0, apiImpressions: 0 };
+
+    for (const key of new Set([...api.keys(), ...stored.keys()])) {
+      // Keys are "YYYY-MM-DD|partner"; partner names may contain '|'
+      const day = key.slice(0, 10);
+      const partner = key.slice(11);
+      const a = api.get(key) || { impressions: 0, revenue: 0 };
+      const s = stored.get(key) || { impressions: 0, revenue: 0 };
+
+      totals.apiRevenue += a.revenue;
+      totals.storedRevenue += s.revenue;
+      totals.apiImpressions += a.impressions;
+      totals.storedImpressions += s.impressions;
+
+      const revenueDrift = driftPct(s.revenue, a.revenue);
+      const impressionsDrift = driftPct(s.impressions, a.impressions);
+      if (revenueDrift < NOISE_PCT && impressionsDrift < NOISE_PCT) continue;
+
+      const exceeds =
+        (revenueDrift > thresholdPct && Math.abs(a.revenue - s.revenue) >= MIN_REVENUE_DELTA) ||
+        impressionsDrift > thresholdPct;
+      if (exceeds) driftedDays.add(day);
+
+      diffs.push({
+        run_id: run.id,
+        day,
+        demand_partner_name: partner,
+        stored_impressions: s.impressions,
+        api_impressions: a.impressions,
+        stored_revenue: Math.round(s.revenue * 10000) / 10000,
+        api_revenue: Math.round(a.revenue * 10000) / 10000,
+        impressions_drift_pct: Math.round(impressionsDrift * 100) / 100,
+        revenue_drift_pct: Math.round(revenueDrift * 100) / 100,
+        resynced: exceeds,
+      });
+    }
+
+    // Re-sync drifted days through the resumable backfill queue
+    const jobByDay = new Map<string, number>();
+    for (const day of Array.from(driftedDays).sort()) {
+      jobByDay.set(day, await createBackfillJob(supabase, day, day, account.slug));
+    }
+
+    if (diffs.length > 0) {
+      const { error: diffError } = await supabase.from('reconciliation_diffs').insert(
+        diffs.map((d) => ({ ...d, backfill_job_id: d.resynced ? jobByDay.get(d.day) ?? null : null }))
+      );
+      if (diffError) throw new Error(`Failed to save reconciliation diffs: ${diffError.message}`);
+    }
+
+    const daysChecked = getDatesBetween(windowStart, windowEnd).length;
+    await supabase
+      .from('reconciliation_runs')
+      .update({
+        status: 'completed',
+        days_checked: daysChecked,
+        days_drifted: driftedDays.size,
+        days_resynced: jobByDay.size,
+        stored_revenue: Math.round(totals.storedRevenue * 10000) / 10000,
+        api_revenue: Math.round(totals.apiRevenue * 10000) / 10000,
+        stored_impressions: totals.storedImpressions,
+        api_impressions: totals.apiImpressions,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+
+    console.log(`[Reconcile] Run ${run.id} (${account.slug}): ${windowStart} to ${windowEnd}, ${diffs.length} diffs, ${driftedDays.size} day(s) re-synced`);
+
+    return {
+      account: account.slug,
+      runId: run.id,
+      windowStart,
+      windowEnd,
+      daysChecked,
+      daysDrifted: driftedDays.size,
+      resyncJobIds: Array.from(jobByDay.values()),
+    };
+  } catch (err: unknown) {
+    await supabase
+      .from('reconciliation_runs')
+      .update({
+        status: 'failed',
+        error_message: err instanceof Error ? err.message : 'Unknown error',
+        error_class: classifyError(err),
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+    throw err;
+  }
+}
+
+/**
+ * Reconcile every active account. A failing account is reported and does
+ * not stop the others; the call only throws when every account failed.
+ * Retries stop at the deadline (epoch ms) when one is given.
+ */
+export async function reconcileAllAccounts(
+  supabase: SupabaseClient,
+  deadline?: number
+): Promise<{ runs: ReconciliationResult[]; failed: Array<{ account: string; error: string }>; resyncJobIds: number[] }> {
+  const accounts = await listLimelightAccounts(supabase);
+  if (accounts.length === 0) throw new Error('No Limelight account is configured');
+
+  const runs: ReconciliationResult[] = [];
+  const failed: Array<{ account: string; error: string }> = [];
+  let firstError: unknown = null;
+
+  for (const account of accounts) {
+    try {
+      runs.push(await reconcileRecentDays(supabase, account, RECONCILE_WINDOW_DAYS, RECONCILE_THRESHOLD_PCT, deadline));
+    } catch (err: unknown) {
+      firstError = firstError || err;
+      failed.push({ account: account.slug, error: err instanceof Error ? err.message : 'Unknown error' });
+      console.error(`[Reconcile] ${account.slug} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  if (runs.length === 0) throw firstError;
+
+  return { runs, failed, resyncJobIds: runs.flatMap((r) => r.resyncJobIds) };
+}
+
+/**
+ * Recent reconciliation runs with their recorded differences.
+ */
+export async function getReconciliationReports(supabase: SupabaseClient, limit = 7): Promise<ReconciliationReport[]> {
+  const { data: runs, error } = await supabase
+    .from('reconciliation_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load reconciliation runs: ${error.message}`);
+  if (!runs || runs.length === 0) return [];
+
+  const { data: diffs, error: diffError } = await supabase
+    .from('reconciliation_diffs')
+    .select('*')
+    .in('run_id', runs.map((r) => r.id))
+    .order('day', { ascending: true })
+    .order('revenue_drift_pct', { ascending: false });
+
+  if (diffError) throw new Error(`Failed to load reconciliation diffs: ${diffError.message}`);
+
+  return (runs as ReconciliationRun[]).map((run) => ({
+    ...run,
+    diffs: ((diffs || []) as ReconciliationDiff[]).filter((d) => d.run_id === run.id),
+  }));
+}
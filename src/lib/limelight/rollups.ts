@@ -0,0 +1,83 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { CONCENTRATION_TABLE, refreshDailyConcentration } from '@/lib/concentration/history';
+import { ANOMALY_TABLE } from '@/lib/anomalies/daily';
+import { SNAPSHOT_TABLE } from '@/lib/cache/snapshots';
+import type { DimensionSet } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Core stats table, which every sync and upload writes
+export const STATS_TABLE = 'limelight_stats';
+
+// Daily rollups kept by refresh_daily_rollups() (migration 020), with the
+// dimensions each one groups by besides DATE. The agg_by_* functions read
+// these rather than the stored stats.
+export const DAILY_ROLLUPS = {
+  partner: { table: 'daily_partner_stats', dimensions: ['DEMAND'] },
+  publisher: { table: 'daily_publisher_stats', dimensions: ['PUBLISHER'] },
+  partnerPublisher: { table: 'daily_partner_publisher_stats', dimensions: ['DEMAND', 'PUBLISHER'] },
+  bundle: { table: 'daily_bundle_stats', dimensions: ['BUNDLE'] },
+  size: { table: 'daily_size_stats', dimensions: ['SIZE'] },
+} satisfies Record<string, { table: string; dimensions: string[] }>;
+
+export type DailyRollupName = keyof typeof DAILY_ROLLUPS;
+
+// Rollups outlive the raw stats, so long windows can still be shown
+export const ROLLUP_RETENTION_DAYS = Number(process.env.ROLLUP_RETENTION_DAYS || 730);
+
+/**
+ * Rollup tables built from a stored stats table. limelight_stats also
+ * holds the bundle and size rows of sources other than Limelight, so it
+ * feeds every rollup; a set's table feeds those whose dimensions it holds.
+ */
+export function rollupsFedBy(table: string, sets: DimensionSet[]): string[] {
+  const rollups = Object.values(DAILY_ROLLUPS);
+  if (table === STATS_TABLE) return rollups.map((rollup) => rollup.table);
+  const set = sets.find((s) => s.table_name === table);
+  if (!set) return [];
+  return rollups
+    .filter((rollup) => rollup.dimensions.every((d) => set.dimensions.includes(d)))
+    .map((rollup) => rollup.table);
+}
+
+/**
+ * Rebuild the daily rollups for startDate..endDate from the stored stats,
+ * after a sync or upload wrote those days, and the daily concentration
+ * built on them. A failure is logged rather than thrown so the rows
+ * already written still count; the next sync of the same days rebuilds
+ * them.
+ */
+export async function refreshDailyRollups(supabase: SupabaseClient, startDate: string, endDate: string): Promise<number> {
+  const started = Date.now();
+  const { data, error } = await supabase.rpc('refresh_daily_rollups', { p_start: startDate, p_end: endDate });
+  if (error) {
+    console.error(`[Rollups] Failed to refresh ${startDate} to ${endDate}:`, error.message);
+    return 0;
+  }
+  const days = Number(data || 0);
+  await refreshDailyConcentration(supabase, startDate, endDate);
+  console.log(`[Rollups] Refreshed ${days} day(s) from ${startDate} to ${endDate} in ${Date.now() - started}ms`);
+  return days;
+}
+
+/**
+ * Oldest date still kept in the rollup tables.
+ */
+export function getRollupRetentionCutoff(): string {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - ROLLUP_RETENTION_DAYS);
+  return cutoffDate.toISOString().split('T')[0];
+}
+
+/**
+ * Delete rollup, daily concentration, anomaly and snapshot marker rows
+ * older than ROLLUP_RETENTION_DAYS.
+ */
+export async function cleanupOldRollups(supabase: SupabaseClient): Promise<void> {
+  const cutoff = getRollupRetentionCutoff();
+
+  for (const table of [...Object.values(DAILY_ROLLUPS).map((rollup) => rollup.table), CONCENTRATION_TABLE, ANOMALY_TABLE, SNAPSHOT_TABLE]) {
+    const { error } = await supabase.from(table).delete().lt('date', cutoff);
+    if (error) console.error(`[Rollups] Failed to clean up ${table}:`, error.message);
+  }
+}
@@ -0,0 +1,309 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { limelightSource } from '@/lib/sources/limelight';
+import { listStatsSourceAdapters, StatsSource } from '@/lib/sources';
+import { resolveEntityNames } from '@/lib/entities/registry';
+import { SYNC_DIMENSIONS, RequestBudget } from './client';
+import { DEFAULT_ACCOUNT_SLUG, LimelightAccount } from './accounts';
+import { classifyError, LimelightEmptyDayError } from './errors';
+import { LIMELIGHT_SOURCE_ID, RejectedRow, TransformedRow } from './transformer';
+import { mergeRejectionSummaries, summarizeRejections } from './validation';
+import { CORE_DIMENSION_SET_KEY, dimensionSetKey, getDimensionSet, listDimensionSets, rollupRowKey, upsertRollupRows } from './dimension-sets';
+import { cleanupOldRollups, refreshDailyRollups } from './rollups';
+import type { DimensionSet, RejectionSummary } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+// Upsert conflict key for limelight_stats (matches the UNIQUE constraint)
+export const STATS_CONFLICT_KEY = 'source,account,date,demand_partner_name,supply_partner_name,publisher,bundle,ad_unit_type,os,country';
+
+// Raw stats older than this are removed after each sync
+export const STATS_RETENTION_DAYS = Number(process.env.LIMELIGHT_RETENTION_DAYS || 30);
+
+/**
+ * Generate array of date strings between start and end (inclusive).
+ */
+export function getDatesBetween(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(startDate + 'T00:00:00Z');
+  const end = new Date(endDate + 'T00:00:00Z');
+  while (current <= end) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Oldest date still kept in limelight_stats.
+ */
+export function getRetentionCutoff(): string {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - STATS_RETENTION_DAYS);
+  return cutoffDate.toISOString().split('T')[0];
+}
+
+/**
+ * Upsert rows into limelight_stats on the unique key, in batches.
+ * A failing batch is logged and counted; the remaining batches still run.
+ */
+export async function upsertStatsRows(
+  supabase: SupabaseClient,
+  rows: TransformedRow[],
+  label: string
+): Promise<{ synced: number; errors: number }> {
+  const BATCH_SIZE = 500;
+  let synced = 0;
+  let errors = 0;
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const { error: upsertError } = await supabase
+      .from('limelight_stats')
+      .upsert(batch, {
+        onConflict: STATS_CONFLICT_KEY,
+        ignoreDuplicates: false,
+      });
+
+    if (upsertError) {
+      console.error(`[Sync] Upsert error on ${label}:`, upsertError.message);
+      errors++;
+      continue;
+    }
+
+    synced += batch.length;
+  }
+
+  return { synced, errors };
+}
+
+/**
+ * Replace the quarantined rows of one day and dimension set with the rows
+ * rejected by the latest pull, so re-syncing a day does not pile up copies.
+ */
+export async function quarantineRejectedRows(
+  supabase: SupabaseClient,
+  rejected: RejectedRow<unknown>[],
+  context: { source: string; account: string; day: string; dimensionSet: string; syncLogId: number | null; replace: boolean }
+): Promise<void> {
+  const BATCH_SIZE = 500;
+
+  if (context.replace) {
+    const { error: deleteError } = await supabase
+      .from('limelight_rejected_rows')
+      .delete()
+      .eq('source', context.source)
+      .eq('account', context.account)
+      .eq('day', context.day)
+      .eq('dimension_set', context.dimensionSet);
+    if (deleteError) console.error(`[Sync] Failed to clear quarantine for ${context.day}:`, deleteError.message);
+  }
+
+  for (let i = 0; i < rejected.length; i += BATCH_SIZE) {
+    const batch = rejected.slice(i, i + BATCH_SIZE).map((r) => ({
+      sync_log_id: context.syncLogId,
+      source: context.source,
+      account: context.account,
+      day: context.day,
+      dimension_set: context.dimensionSet,
+      rules: Array.from(new Set(r.reasons.map((reason) => reason.rule))),
+      reasons: r.reasons,
+      raw: r.raw,
+    }));
+    const { error: insertError } = await supabase.from('limelight_rejected_rows').insert(batch);
+    // Losing quarantine detail must not fail the sync itself
+    if (insertError) console.error(`[Sync] Failed to quarantine rows for ${context.day}:`, insertError.message);
+  }
+}
+
+export interface SyncDayOptions {
+  budget?: RequestBudget;
+  source?: StatsSource;
+  // sync_logs row that rejected rows are attributed to
+  syncLogId?: number | null;
+  // Limelight seat to pull from; the env-configured account when omitted
+  account?: LimelightAccount;
+  // Registry entry for a non-core Limelight set; looked up when omitted
+  dimensionSet?: DimensionSet;
+}
+
+export interface SyncDayResult {
+  synced: number;
+  errors: number;
+  rejected: number;
+  rejectedByRule: RejectionSummary;
+  // Limelight had no rows at all for the day
+  empty: boolean;
+}
+
+/**
+ * Sync a single day's data from a stats source (Limelight by default).
+ * Rows are streamed from the source and upserted batch by batch, so only one
+ * batch is in memory at a time. Safe to re-run: rows are upserted on the
+ * table's unique key. A day with no rows at all comes back as `empty` (a
+ * quiet day, an idle seat or a set with no data yet) rather than as a
+ * zero-row success, so callers can record it. Rows that fail validation are written
+ * to limelight_rejected_rows instead of limelight_stats. Limelight sets
+ * other than the core one go to their own rollup table (see
+ * dimension-sets.ts) and must be registered.
+ */
+export async function syncSingleDay(
+  supabase: SupabaseClient,
+  day: string,
+  dimensions: string[] = SYNC_DIMENSIONS,
+  options: SyncDayOptions = {}
+): Promise<SyncDayResult> {
+  const BATCH_SIZE = 500;
+  const source = options.source || limelightSource;
+  // Only Limelight rows belong to an account
+  const account = source.id === LIMELIGHT_SOURCE_ID ? options.account?.slug || DEFAULT_ACCOUNT_SLUG : '';
+  const result: SyncDayResult = { synced: 0, errors: 0, rejected: 0, rejectedByRule: {}, empty: false };
+  let firstBatch = true;
+
+  let rollup: DimensionSet | null = null;
+  if (source.id === LIMELIGHT_SOURCE_ID && dimensionSetKey(dimensions) !== CORE_DIMENSION_SET_KEY) {
+    rollup = options.dimensionSet || await getDimensionSet(supabase, dimensionSetKey(dimensions));
+    if (!rollup) throw new Error(`Dimension set ${dimensionSetKey(dimensions)} is not registered`);
+  }
+
+  const stream = source.fetchStats({
+    startDate: day,
+    endDate: day,
+    dimensions,
+    budget: options.budget,
+    allowEmpty: false,
+    batchSize: BATCH_SIZE,
+    account: options.account,
+  });
+
+  try {
+    for await (const rawBatch of stream) {
+      const transformed = source.transform(rawBatch, dimensions);
+      const rows = transformed.rows.map((row) => ({ ...row, account }));
+      const rejected = transformed.rejected;
+
+      // Names follow the demand partner / publisher registry (by Limelight ID)
+      const resolved = await resolveEntityNames(supabase, rows, day, account, rollup ? rollupRowKey(rollup) : undefined);
+      const label = `${day} (${account || source.id})`;
+      const upserted = rollup
+        ? await upsertRollupRows(supabase, rollup, resolved, label)
+        : await upsertStatsRows(supabase, resolved, label);
+      result.synced += upserted.synced;
+      result.errors += upserted.errors;
+
+      if (rejected.length > 0 || firstBatch) {
+        await quarantineRejectedRows(supabase, rejected, {
+          source: source.id,
+          account,
+          day,
+          dimensionSet: dimensionSetKey(dimensions),
+          syncLogId: options.syncLogId ?? null,
+          replace: firstBatch,
+        });
+        result.rejected += rejected.length;
+        mergeRejectionSummaries(result.rejectedByRule, summarizeRejections(rejected));
+      }
+      firstBatch = false;
+    }
+  } catch (err: unknown) {
+    if (!(err instanceof LimelightEmptyDayError)) throw err;
+    console.warn(`[Sync] ${day} (${dimensionSetKey(dimensions)}, ${account || source.id}): no rows returned`);
+    result.empty = true;
+  }
+
+  if (result.rejected > 0) {
+    console.warn(`[Sync] ${day} (${dimensionSetKey(dimensions)}, ${account || source.id}): ${result.rejected} row(s) rejected`, result.rejectedByRule);
+  }
+
+  return result;
+}
+
+/**
+ * Sync one day for every registered source other than Limelight (which has
+ * its own phased sync and backfill). Each source gets its own sync_logs row
+ * (sync_type = source id); a failing source does not stop the others.
+ * The day's daily rollups are rebuilt once every source has run.
+ */
+export async function syncAdditionalSources(
+  supabase: SupabaseClient,
+  day: string,
+  budget?: RequestBudget
+): Promise<Array<{ source: string; synced: number; errors: number; rejected: number; error: string | null }>> {
+  const results = [];
+
+  for (const source of listStatsSourceAdapters()) {
+    if (source.id === LIMELIGHT_SOURCE_ID) continue;
+
+    const { data: syncLog } = await supabase
+      .from('sync_logs')
+      .insert({ sync_type: source.id, start_date: day, end_date: day, status: 'running' })
+      .select()
+      .single();
+
+    let synced = 0;
+    let errors = 0;
+    let rejected = 0;
+    const rejectedByRule: RejectionSummary = {};
+    let error: string | null = null;
+    let errorClass: string | null = null;
+
+    try {
+      for (const dims of source.syncDimensionSets) {
+        const result = await syncSingleDay(supabase, day, dims, { budget, source, syncLogId: syncLog?.id ?? null });
+        synced += result.synced;
+        errors += result.errors;
+        rejected += result.rejected;
+        mergeRejectionSummaries(rejectedByRule, result.rejectedByRule);
+      }
+    } catch (err: unknown) {
+      error = err instanceof Error ? err.message : 'Unknown error';
+      errorClass = classifyError(err);
+      console.error(`[Sync] ${source.id} failed for ${day} (${errorClass}):`, error);
+    }
+
+    if (syncLog) {
+      await supabase
+        .from('sync_logs')
+        .update({
+          rows_synced: synced,
+          rows_rejected: rejected,
+          rejection_summary: rejectedByRule,
+          status: error ? 'failed' : 'completed',
+          error_message: error || (errors > 0 ? `${errors} batch(es) had errors` : null),
+          error_class: errorClass,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', syncLog.id);
+    }
+
+    results.push({ source: source.id, synced, errors, rejected, error });
+  }
+
+  if (results.some((r) => r.synced > 0)) await refreshDailyRollups(supabase, day, day);
+  return results;
+}
+
+/**
+ * Delete raw stats, rollup rows of every registered set (active or not)
+ * and quarantined rows older than the retention window, and daily rollups
+ * older than theirs.
+ */
+export async function cleanupOldStats(supabase: SupabaseClient): Promise<number> {
+  const cutoff = getRetentionCutoff();
+  const { count: deletedCount } = await supabase
+    .from('limelight_stats')
+    .delete({ count: 'exact' })
+    .lt('date', cutoff);
+  if (deletedCount && deletedCount > 0) {
+    console.log(`[Sync] Cleaned up ${deletedCount} rows older than ${cutoff}`);
+  }
+
+  for (const set of await listDimensionSets(supabase)) {
+    if (set.is_core) continue;
+    const { error } = await supabase.from(set.table_name).delete().lt('date', cutoff);
+    if (error) console.error(`[Sync] Failed to clean up ${set.table_name}:`, error.message);
+  }
+
+  await supabase.from('limelight_rejected_rows').delete().lt('day', cutoff);
+  await cleanupOldRollups(supabase);
+  return deletedCount || 0;
+}
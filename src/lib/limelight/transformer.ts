@@ -1,10 +1,23 @@
-import { LimelightAPIResponse } from '@/types';
+import { LimelightAPIResponse, RowRejectionReason } from '@/types';
+import { validateLimelightRow } from './validation';
+
+// Value of limelight_stats.source for rows pulled from Limelight
+export const LIMELIGHT_SOURCE_ID = 'limelight';
 
 export interface TransformedRow {
+  // Stats source the row came from (see src/lib/sources)
+  source: string;
+  // Limelight account slug (see limelight_accounts); '' for other sources.
+  // Stamped by the sync, which knows which account it pulled from.
+  account: string;
   date: string;
   demand_partner_name: string;
   supply_partner_name: string;
   publisher: string;
+  // Limelight DEMAND_ID / PUBLISHER_ID (see demand_partners / publishers);
+  // null when the source has no IDs or the dimension was not requested
+  demand_partner_id: number | null;
+  publisher_id: number | null;
   bundle: string;
   ad_unit_type: string;
   channel_type: string;
@@ -22,6 +35,17 @@ export interface TransformedRow {
   bid_response_errors: number;
 }
 
+// A raw row that failed validation, kept as received for the quarantine table
+export interface RejectedRow<Raw = LimelightAPIResponse> {
+  raw: Raw;
+  reasons: RowRejectionReason[];
+}
+
+export interface TransformResult<Raw = LimelightAPIResponse> {
+  rows: TransformedRow[];
+  rejected: RejectedRow<Raw>[];
+}
+
 /**
  * Transform Limelight API response into database-ready rows.
  *
@@ -36,40 +60,69 @@ export interface TransformedRow {
  *
  * All unique constraint columns use '' instead of null to avoid
  * PostgreSQL NULL != NULL issue in UNIQUE constraints.
+ *
+ * Every row is validated first (see validation.ts). Rows that fail are
+ * returned in `rejected` instead of being stored, so bad data never turns
+ * into zeros or empty dimension values. Pass the requested dimensions so
+ * missing dimension values can be detected.
  */
-export function transformLimelightResponse(rows: LimelightAPIResponse[]): TransformedRow[] {
-  return rows
-    .filter((row) => row.DATE)
-    .map((row) => ({
-      date: row.DATE!,
-      // DEMAND dimension returns DEMAND_NAME
-      demand_partner_name: row.DEMAND_NAME || row.DEMAND_PARTNER_NAME || '',
-      // No separate supply partner in API - publisher is the supply side
-      supply_partner_name: '',
-      // PUBLISHER dimension returns PUBLISHER_NAME
-      publisher: row.PUBLISHER_NAME || row.PUBLISHER || '',
-      // BUNDLE dimension returns BUNDLE
-      bundle: row.BUNDLE || row.SUPPLY_SOURCE || '',
-      // SIZE dimension returns SIZE (maps to ad_unit_type)
-      ad_unit_type: row.SIZE || row.AD_UNIT_TYPE || row.AD_UNIT || '',
-      // CHANNEL_TYPE dimension returns CHANNEL_TYPE
-      channel_type: row.CHANNEL_TYPE || '',
-      // OS dimension
-      os: row.OS || '',
-      // COUNTRY dimension
-      country: row.COUNTRY || '',
-      // Metrics
-      opportunities: toNumber(row.OPPORTUNITIES),
-      bid_requests: toNumber(row.BID_REQUESTS),
-      bids: toNumber(row.BIDS),
-      wins: toNumber(row.WINS),
-      impressions: toNumber(row.IMPRESSIONS),
-      pub_payout: toDecimal(row.PUB_PAYOUT),
-      demand_payout: toDecimal(row.DEMAND_PAYOUT),
-      demand_service_fee: toDecimal(row.DEMAND_SERVICE_FEE_PAYOUT),
-      bid_response_timeouts: toNumber(row.BID_RESPONSE_TIMEOUTS),
-      bid_response_errors: toNumber(row.BID_RESPONSE_ERRORS),
-    }));
+export function transformLimelightResponse(rows: LimelightAPIResponse[], dimensions: string[] = []): TransformResult {
+  const result: TransformResult = { rows: [], rejected: [] };
+
+  for (const row of rows) {
+    const reasons = validateLimelightRow(row, dimensions);
+    if (reasons.length > 0) {
+      result.rejected.push({ raw: row, reasons });
+    } else {
+      result.rows.push(toTransformedRow(row));
+    }
+  }
+
+  return result;
+}
+
+function toTransformedRow(row: LimelightAPIResponse): TransformedRow {
+  return {
+    source: LIMELIGHT_SOURCE_ID,
+    account: '',
+    date: String(row.DATE).trim(),
+    // DEMAND dimension returns DEMAND_NAME
+    demand_partner_name: row.DEMAND_NAME || row.DEMAND_PARTNER_NAME || '',
+    // No separate supply partner in API - publisher is the supply side
+    supply_partner_name: '',
+    // PUBLISHER dimension returns PUBLISHER_NAME
+    publisher: row.PUBLISHER_NAME || row.PUBLISHER || '',
+    // Stable IDs; names are display values that can change
+    demand_partner_id: toEntityId(row.DEMAND_ID),
+    publisher_id: toEntityId(row.PUBLISHER_ID),
+    // BUNDLE dimension returns BUNDLE
+    bundle: row.BUNDLE || row.SUPPLY_SOURCE || '',
+    // SIZE dimension returns SIZE (maps to ad_unit_type)
+    ad_unit_type: row.SIZE || row.AD_UNIT_TYPE || row.AD_UNIT || '',
+    // CHANNEL_TYPE dimension returns CHANNEL_TYPE
+    channel_type: row.CHANNEL_TYPE || '',
+    // OS dimension
+    os: row.OS || '',
+    // COUNTRY dimension
+    country: row.COUNTRY || '',
+    // Metrics
+    opportunities: toNumber(row.OPPORTUNITIES),
+    bid_requests: toNumber(row.BID_REQUESTS),
+    bids: toNumber(row.BIDS),
+    wins: toNumber(row.WINS),
+    impressions: toNumber(row.IMPRESSIONS),
+    pub_payout: toDecimal(row.PUB_PAYOUT),
+    demand_payout: toDecimal(row.DEMAND_PAYOUT),
+    demand_service_fee: toDecimal(row.DEMAND_SERVICE_FEE_PAYOUT),
+    bid_response_timeouts: toNumber(row.BID_RESPONSE_TIMEOUTS),
+    bid_response_errors: toNumber(row.BID_RESPONSE_ERRORS),
+  };
+}
+
+function toEntityId(val: string | number | undefined): number | null {
+  if (val === undefined || val === null || val === '') return null;
+  const n = Number(val);
+  return Number.isInteger(n) && n > 0 ? n : null;
 }
 
 function toNumber(val: string | number | undefined): number {
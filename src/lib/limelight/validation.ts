@@ -0,0 +1,144 @@
+import type { LimelightAPIResponse, RejectionSummary, RowRejectionReason } from '@/types';
+
+// Raw metric fields Limelight returns; all must be non-negative numbers
+const METRIC_FIELDS: Array<keyof LimelightAPIResponse> = [
+  'OPPORTUNITIES',
+  'BID_REQUESTS',
+  'BIDS',
+  'WINS',
+  'IMPRESSIONS',
+  'PUB_PAYOUT',
+  'DEMAND_PAYOUT',
+  'DEMAND_SERVICE_FEE_PAYOUT',
+  'BID_RESPONSE_TIMEOUTS',
+  'BID_RESPONSE_ERRORS',
+];
+
+// Raw fields that carry each requested dimension (first non-empty wins,
+// same order as transformLimelightResponse)
+const DIMENSION_FIELDS: Record<string, Array<keyof LimelightAPIResponse>> = {
+  DEMAND: ['DEMAND_NAME', 'DEMAND_PARTNER_NAME'],
+  PUBLISHER: ['PUBLISHER_NAME', 'PUBLISHER'],
+  BUNDLE: ['BUNDLE', 'SUPPLY_SOURCE'],
+  SIZE: ['SIZE', 'AD_UNIT_TYPE', 'AD_UNIT'],
+  CHANNEL_TYPE: ['CHANNEL_TYPE'],
+  OS: ['OS'],
+  COUNTRY: ['COUNTRY'],
+};
+
+// Values Limelight (or a CSV export) uses when it has no real value
+const PLACEHOLDER_VALUES = new Set(['unknown', 'null', 'undefined', 'none', 'n/a', '-', '--', '(unknown)']);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// HOUR as "13", "13:00" or "2026-01-05 13:00:00" (also with a T separator)
+const HOUR_VALUE = /^(?:\d{4}-\d{2}-\d{2}[ T])?(\d{1,2})(?::\d{2}(?::\d{2})?)?$/;
+
+function isBlank(val: unknown): boolean {
+  return val === undefined || val === null || (typeof val === 'string' && val.trim() === '');
+}
+
+/** Parse a raw metric strictly: "12abc" and NaN are not numbers. */
+function parseMetric(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+  const n = Number(val.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Hour of day (0-23) from a raw HOUR value, or null when it is not one.
+ */
+export function parseLimelightHour(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isInteger(val) && val >= 0 && val <= 23 ? val : null;
+  if (typeof val !== 'string') return null;
+  const match = HOUR_VALUE.exec(val.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  return hour <= 23 ? hour : null;
+}
+
+/**
+ * Check one raw Limelight row. Returns every problem found; an empty list
+ * means the row is safe to store. Dimension checks only apply to the
+ * dimensions that were requested, since unrequested ones are absent by design.
+ */
+export function validateLimelightRow(row: LimelightAPIResponse, dimensions: string[] = []): RowRejectionReason[] {
+  const reasons: RowRejectionReason[] = [];
+
+  if (isBlank(row.DATE)) {
+    reasons.push({ rule: 'missing_date', field: 'DATE', message: 'Row has no DATE' });
+  } else {
+    const date = String(row.DATE).trim();
+    if (!ISO_DATE.test(date) || isNaN(Date.parse(date + 'T00:00:00Z'))) {
+      reasons.push({ rule: 'invalid_date', field: 'DATE', message: `DATE "${date}" is not YYYY-MM-DD` });
+    }
+  }
+
+  // Metrics that were not requested are absent and stored as 0
+  const values: Partial<Record<keyof LimelightAPIResponse, number>> = {};
+  for (const field of METRIC_FIELDS) {
+    const raw = row[field];
+    if (isBlank(raw)) continue;
+    const n = parseMetric(raw);
+    if (n === null) {
+      reasons.push({ rule: 'non_numeric', field, message: `${field} is not a number: "${String(raw)}"` });
+    } else if (n < 0) {
+      reasons.push({ rule: 'negative_metric', field, message: `${field} is negative (${n})` });
+    } else {
+      values[field] = n;
+    }
+  }
+
+  const { BIDS: bids, WINS: wins, IMPRESSIONS: impressions } = values;
+  if (wins !== undefined && bids !== undefined && wins > bids) {
+    reasons.push({ rule: 'wins_exceed_bids', field: 'WINS', message: `WINS (${wins}) exceeds BIDS (${bids})` });
+  }
+  if (impressions !== undefined && wins !== undefined && impressions > wins) {
+    reasons.push({ rule: 'impressions_exceed_wins', field: 'IMPRESSIONS', message: `IMPRESSIONS (${impressions}) exceeds WINS (${wins})` });
+  }
+
+  if (dimensions.includes('HOUR') && parseLimelightHour(row.HOUR) === null) {
+    reasons.push({ rule: 'invalid_hour', field: 'HOUR', message: `HOUR "${String(row.HOUR ?? '')}" is not an hour of day` });
+  }
+
+  for (const dimension of dimensions) {
+    const fields = DIMENSION_FIELDS[dimension];
+    if (!fields) continue;
+    const raw = fields.map((f) => row[f]).find((v) => !isBlank(v));
+    const value = raw === undefined ? '' : String(raw).trim();
+
+    if (value === '' || PLACEHOLDER_VALUES.has(value.toLowerCase())) {
+      reasons.push({
+        rule: 'unknown_dimension',
+        field: fields[0],
+        message: value === '' ? `${dimension} is empty` : `${dimension} is a placeholder ("${value}")`,
+      });
+    } else if (dimension === 'COUNTRY' && !/^[A-Za-z]{2,3}$/.test(value)) {
+      reasons.push({ rule: 'unknown_dimension', field: 'COUNTRY', message: `COUNTRY "${value}" is not a country code` });
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Count rejected rows per rule. A row that fails the same rule on two
+ * fields is counted once for that rule.
+ */
+export function summarizeRejections(rejected: Array<{ reasons: RowRejectionReason[] }>): RejectionSummary {
+  const summary: RejectionSummary = {};
+  for (const row of rejected) {
+    for (const rule of new Set(row.reasons.map((r) => r.rule))) {
+      summary[rule] = (summary[rule] || 0) + 1;
+    }
+  }
+  return summary;
+}
+
+export function mergeRejectionSummaries(target: RejectionSummary, other: RejectionSummary): RejectionSummary {
+  for (const [rule, count] of Object.entries(other) as Array<[keyof RejectionSummary, number]>) {
+    target[rule] = (target[rule] || 0) + count;
+  }
+  return target;
+}
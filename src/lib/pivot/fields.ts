@@ -0,0 +1,154 @@
+// Pivot dimensions, metrics and config validation. Kept free of server
+// imports so the pivot page can use the same lists.
+import type { DimensionAggregateRow, PivotConfig, PivotFilter, PivotMetric, PivotThreshold } from '@/types';
+
+export interface PivotDimensionSpec {
+  dimension: string;
+  label: string;
+  // Row column holding the value shown for the dimension
+  field: keyof DimensionAggregateRow;
+}
+
+export const PIVOT_DIMENSIONS: PivotDimensionSpec[] = [
+  { dimension: 'DATE', label: 'Date', field: 'date' },
+  { dimension: 'DEMAND', label: 'Demand Partner', field: 'demand_partner_name' },
+  { dimension: 'PUBLISHER', label: 'Publisher', field: 'publisher' },
+  { dimension: 'BUNDLE', label: 'Bundle', field: 'bundle' },
+  { dimension: 'SIZE', label: 'Ad Size', field: 'ad_unit_type' },
+  { dimension: 'CHANNEL_TYPE', label: 'Channel', field: 'channel_type' },
+  { dimension: 'OS', label: 'OS', field: 'os' },
+  { dimension: 'COUNTRY', label: 'Country', field: 'country' },
+];
+
+export type PivotMetricFormat = 'currency' | 'integer' | 'percent';
+
+export interface PivotMetricSpec {
+  metric: PivotMetric;
+  label: string;
+  format: PivotMetricFormat;
+  // Ratio of summed metrics rather than a sum
+  derived?: boolean;
+}
+
+export const PIVOT_METRICS: PivotMetricSpec[] = [
+  { metric: 'demand_payout', label: 'Revenue', format: 'currency' },
+  { metric: 'pub_payout', label: 'Pub Payout', format: 'currency' },
+  { metric: 'demand_service_fee', label: 'Service Fee', format: 'currency' },
+  { metric: 'impressions', label: 'Impressions', format: 'integer' },
+  { metric: 'opportunities', label: 'Opportunities', format: 'integer' },
+  { metric: 'bid_requests', label: 'Bid Requests', format: 'integer' },
+  { metric: 'bids', label: 'Bids', format: 'integer' },
+  { metric: 'wins', label: 'Wins', format: 'integer' },
+  { metric: 'bid_response_timeouts', label: 'Timeouts', format: 'integer' },
+  { metric: 'bid_response_errors', label: 'Errors', format: 'integer' },
+  { metric: 'ecpm', label: 'eCPM', format: 'currency', derived: true },
+  { metric: 'fill_rate', label: 'Fill Rate', format: 'percent', derived: true },
+  { metric: 'bid_rate', label: 'Bid Rate', format: 'percent', derived: true },
+  { metric: 'win_rate', label: 'Win Rate', format: 'percent', derived: true },
+  { metric: 'timeout_rate', label: 'Timeout Rate', format: 'percent', derived: true },
+];
+
+export const PIVOT_THRESHOLD_OPS: PivotThreshold['op'][] = ['>', '>=', '<', '<=', '=', '<>'];
+
+export const DEFAULT_PIVOT_CONFIG: PivotConfig = {
+  dimensions: ['DEMAND'],
+  metrics: ['demand_payout', 'impressions', 'ecpm', 'fill_rate'],
+  filters: [],
+  thresholds: [],
+  sort: 'demand_payout',
+  sortDesc: true,
+  period: 7,
+};
+
+// Include/exclude lists are matched in SQL; keep them to a sane size
+const MAX_FILTER_VALUES = 500;
+const MAX_PERIOD_DAYS = 90;
+
+const DIMENSION_KEYS = new Set(PIVOT_DIMENSIONS.map((d) => d.dimension));
+const METRIC_KEYS = new Set<string>(PIVOT_METRICS.map((m) => m.metric));
+
+/**
+ * Ratios derived from summed metrics, defined as on the analysis pages
+ * (fill, bid and timeout rates are per bid request; win rate per bid).
+ */
+export function derivePivotMetrics(
+  base: Omit<Record<PivotMetric, number>, 'ecpm' | 'fill_rate' | 'bid_rate' | 'win_rate' | 'timeout_rate'>
+): Record<PivotMetric, number> {
+  const ratio = (a: number, b: number, scale: number) => (b > 0 ? (a / b) * scale : 0);
+  return {
+    ...base,
+    ecpm: ratio(base.demand_payout, base.impressions, 1000),
+    fill_rate: ratio(base.impressions, base.bid_requests, 100),
+    bid_rate: ratio(base.bids, base.bid_requests, 100),
+    win_rate: ratio(base.wins, base.bids, 100),
+    timeout_rate: ratio(base.bid_response_timeouts, base.bid_requests, 100),
+  };
+}
+
+/**
+ * Clean up a pivot config from a request or a saved view. Unknown
+ * dimensions, metrics and operators are reported; empty filters are
+ * dropped, and a sort on something not shown falls back to revenue.
+ */
+export function normalizePivotConfig(input: unknown): { config: PivotConfig; errors: string[] } {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const dimensions: string[] = [];
+  for (const d of Array.isArray(raw.dimensions) ? raw.dimensions : []) {
+    const dimension = String(d).toUpperCase();
+    if (!DIMENSION_KEYS.has(dimension)) errors.push(`Unknown dimension "${d}"`);
+    else if (!dimensions.includes(dimension)) dimensions.push(dimension);
+  }
+
+  const metrics: PivotMetric[] = [];
+  for (const m of Array.isArray(raw.metrics) ? raw.metrics : []) {
+    if (!METRIC_KEYS.has(String(m))) errors.push(`Unknown metric "${m}"`);
+    else if (!metrics.includes(m as PivotMetric)) metrics.push(m as PivotMetric);
+  }
+  if (metrics.length === 0) errors.push('Pick at least one metric');
+
+  const filters: PivotFilter[] = [];
+  for (const f of Array.isArray(raw.filters) ? raw.filters : []) {
+    const dimension = String(f?.dimension || '').toUpperCase();
+    const values = Array.isArray(f?.values)
+      ? Array.from(new Set(f.values.map((v: unknown) => String(v).trim()).filter(Boolean))) as string[]
+      : [];
+    if (!DIMENSION_KEYS.has(dimension)) {
+      errors.push(`Unknown filter dimension "${f?.dimension}"`);
+      continue;
+    }
+    if (values.length === 0) continue;
+    if (values.length > MAX_FILTER_VALUES) {
+      errors.push(`A filter may list at most ${MAX_FILTER_VALUES} values`);
+      continue;
+    }
+    filters.push({ dimension, mode: f.mode === 'exclude' ? 'exclude' : 'include', values });
+  }
+
+  const thresholds: PivotThreshold[] = [];
+  for (const t of Array.isArray(raw.thresholds) ? raw.thresholds : []) {
+    const value = Number(t?.value);
+    if (!METRIC_KEYS.has(String(t?.metric))) errors.push(`Unknown threshold metric "${t?.metric}"`);
+    else if (!PIVOT_THRESHOLD_OPS.includes(t.op)) errors.push(`Unsupported threshold operator "${t.op}"`);
+    else if (t.value === '' || t.value === null || !Number.isFinite(value)) errors.push(`Threshold on ${t.metric} needs a number`);
+    else thresholds.push({ metric: t.metric, op: t.op, value });
+  }
+
+  const sortCandidate = String(raw.sort || '');
+  const sort = METRIC_KEYS.has(sortCandidate) || dimensions.includes(sortCandidate) ? sortCandidate : 'demand_payout';
+
+  const period = Math.round(Number(raw.period));
+  return {
+    config: {
+      dimensions,
+      metrics,
+      filters,
+      thresholds,
+      sort,
+      sortDesc: raw.sortDesc !== false,
+      period: Number.isFinite(period) ? Math.min(Math.max(period, 1), MAX_PERIOD_DAYS) : DEFAULT_PIVOT_CONFIG.period,
+    },
+    errors,
+  };
+}
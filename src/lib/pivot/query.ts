@@ -0,0 +1,77 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { listDimensionSets, pickDimensionSet } from '@/lib/limelight/dimension-sets';
+import type { PivotMetric, PivotQuery, PivotResult, PivotRow } from '@/types';
+import { derivePivotMetrics } from './fields';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+export const PIVOT_DEFAULT_LIMIT = 100;
+export const PIVOT_MAX_LIMIT = 1000;
+
+interface AggPivotResult {
+  total_rows: number;
+  totals: Record<string, number> | null;
+  rows: PivotRow[];
+}
+
+/**
+ * Dimensions a pivot needs columns for: the grouped ones plus any it
+ * filters on. DATE is in every set, so a grand total reads the core table.
+ */
+export function pivotDimensions(query: Pick<PivotQuery, 'dimensions' | 'filters'>): string[] {
+  const used = new Set([...query.dimensions, ...query.filters.map((f) => f.dimension)]);
+  return used.size > 0 ? Array.from(used) : ['DATE'];
+}
+
+/**
+ * Run a pivot over the narrowest registered set holding every dimension
+ * it uses. Grouping, filtering, thresholds, sorting and paging all happen
+ * in agg_pivot. Returns null when no active set covers the dimensions.
+ */
+export async function runPivot(supabase: SupabaseClient, query: PivotQuery): Promise<PivotResult | null> {
+  const set = pickDimensionSet(await listDimensionSets(supabase, true), pivotDimensions(query));
+  if (!set) return null;
+
+  const { data, error } = await supabase.rpc('agg_pivot', {
+    p_table: set.table_name,
+    p_group_by: query.dimensions,
+    p_start: query.startDate,
+    p_end: query.endDate,
+    p_source: query.source,
+    p_account: query.account,
+    p_filters: query.filters,
+    p_thresholds: query.thresholds,
+    p_sort: query.sort,
+    p_sort_desc: query.sortDesc,
+    p_limit: query.limit,
+    p_offset: query.offset,
+  });
+  if (error) throw new Error(`agg_pivot on ${set.table_name} failed: ${error.message}`);
+
+  const result = data as AggPivotResult;
+  const base = result.totals || {};
+  const sum = (metric: PivotMetric) => Number(base[metric] || 0);
+
+  return {
+    setKey: set.set_key,
+    tableName: set.table_name,
+    startDate: query.startDate,
+    endDate: query.endDate,
+    rows: result.rows || [],
+    totalRows: Number(result.total_rows || 0),
+    totals: derivePivotMetrics({
+      opportunities: sum('opportunities'),
+      bid_requests: sum('bid_requests'),
+      bids: sum('bids'),
+      wins: sum('wins'),
+      impressions: sum('impressions'),
+      pub_payout: sum('pub_payout'),
+      demand_payout: sum('demand_payout'),
+      demand_service_fee: sum('demand_service_fee'),
+      bid_response_timeouts: sum('bid_response_timeouts'),
+      bid_response_errors: sum('bid_response_errors'),
+    }),
+    limit: query.limit,
+    offset: query.offset,
+  };
+}
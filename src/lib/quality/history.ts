@@ -0,0 +1,74 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { markSnapshotBuilt } from '@/lib/cache/snapshots';
+import type { PublisherQualityHistoryPoint } from '@/types';
+import { QUALITY_MODEL, modelUsesIvt, scorePublishers } from './model';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+const HISTORY_TABLE = 'publisher_quality_scores';
+
+/**
+ * Score every publisher on one day's totals across all sources and save
+ * the scores, replacing any saved earlier for that day, and mark the day
+ * as scored. The cache refresh calls this for yesterday once it is synced
+ * and again when a later sync changes it. Returns the number of publishers
+ * saved.
+ */
+export async function saveQualitySnapshot(supabase: SupabaseClient, date: string): Promise<number> {
+  const { data: rows, error } = await supabase.rpc('agg_by_publisher', { p_start: date, p_end: date });
+  if (error) throw new Error(`RPC agg_by_publisher error: ${error.message}`);
+  // Not marked: the day has not been synced yet
+  if (!rows || rows.length === 0) return 0;
+
+  let ivtRows: typeof rows = [];
+  if (modelUsesIvt(QUALITY_MODEL)) {
+    const { data, error: ivtError } = await supabase.rpc('agg_ivt_by_publisher', { p_start: date, p_end: date });
+    if (ivtError) throw new Error(`RPC agg_ivt_by_publisher error: ${ivtError.message}`);
+    ivtRows = data || [];
+  }
+
+  const updatedAt = new Date().toISOString();
+  const scores = scorePublishers(rows, ivtRows, QUALITY_MODEL).map(({ row, score, components }) => ({
+    date,
+    publisher_id: row.id ?? 0,
+    publisher: row.name,
+    quality_score: Math.round(score * 10) / 10,
+    impressions: Number(row.impressions || 0),
+    revenue: Number(row.revenue || 0),
+    components,
+    updated_at: updatedAt,
+  }));
+
+  const { error: saveError } = await supabase.from(HISTORY_TABLE).upsert(scores, { onConflict: 'date,publisher_id,publisher' });
+  if (saveError) throw new Error(`Failed to save quality scores for ${date}: ${saveError.message}`);
+  await markSnapshotBuilt(supabase, 'quality', date, scores.length);
+  return scores.length;
+}
+
+/**
+ * Saved daily scores of one publisher, oldest first. Publishers without a
+ * Limelight ID are looked up by name alone.
+ */
+export async function getPublisherQualityHistory(
+  publisherId: number | null,
+  publisher: string,
+  startDate: string
+): Promise<PublisherQualityHistoryPoint[]> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from(HISTORY_TABLE)
+    .select('date, quality_score, impressions, revenue, components')
+    .eq('publisher_id', publisherId ?? 0)
+    .eq('publisher', publisher)
+    .gte('date', startDate)
+    .order('date', { ascending: true });
+  if (error) throw new Error(`Failed to load quality history: ${error.message}`);
+
+  return (data || []).map((r) => ({
+    date: r.date,
+    qualityScore: Number(r.quality_score),
+    impressions: Number(r.impressions || 0),
+    revenue: Number(r.revenue || 0),
+    components: r.components || [],
+  }));
+}
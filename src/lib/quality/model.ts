@@ -0,0 +1,214 @@
+import type { QualityComponentConfig, QualityComponentScore, QualityMetric, QualityModel } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+// ============================================
+// Metrics
+// ============================================
+
+// A component at its optimal rate scores this much out of 100
+const COMPONENT_CEILING = 90;
+
+interface QualityMetricDefinition {
+  label: string;
+  higherIsBetter: boolean;
+  // Defaults for components that leave them out
+  optimal: number;
+  worst?: number;
+}
+
+export const QUALITY_METRICS: Record<QualityMetric, QualityMetricDefinition> = {
+  bidRate: { label: 'Bid Rate', higherIsBetter: true, optimal: 80 },
+  winRate: { label: 'Win Rate', higherIsBetter: true, optimal: 30 },
+  fillRate: { label: 'Fill Rate', higherIsBetter: true, optimal: 70 },
+  successRate: { label: 'Delivery Success', higherIsBetter: true, optimal: 100 },
+  timeoutRate: { label: 'Timeout Rate', higherIsBetter: false, optimal: 5, worst: 50 },
+  errorRate: { label: 'Error Rate', higherIsBetter: false, optimal: 1, worst: 20 },
+  ivtRate: { label: 'IVT Rate', higherIsBetter: false, optimal: 2, worst: 30 },
+};
+
+// ============================================
+// Model
+// ============================================
+
+export const DEFAULT_QUALITY_MODEL: QualityModel = {
+  components: [
+    { metric: 'bidRate', weight: 0.25, optimal: 80 },
+    { metric: 'winRate', weight: 0.25, optimal: 30 },
+    { metric: 'fillRate', weight: 0.20, optimal: 70 },
+    { metric: 'successRate', weight: 0.30, optimal: 100 },
+  ],
+  trendThreshold: 3,
+  highThreshold: 70,
+  lowThreshold: 40,
+};
+
+function positive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function parseComponent(entry: Row): QualityComponentConfig | null {
+  const definition = QUALITY_METRICS[entry?.metric as QualityMetric];
+  if (!definition) return null;
+  if (!(positive(entry.weight) || entry.weight === 0)) return null;
+  const optimal = entry.optimal === undefined ? definition.optimal : entry.optimal;
+  if (!positive(optimal)) return null;
+  if (definition.higherIsBetter) return { metric: entry.metric, weight: entry.weight, optimal };
+
+  const worst = entry.worst === undefined ? definition.worst : entry.worst;
+  if (!positive(worst) || worst <= optimal) return null;
+  return { metric: entry.metric, weight: entry.weight, optimal, worst };
+}
+
+/**
+ * Read a quality model from JSON with any of the fields of
+ * DEFAULT_QUALITY_MODEL, e.g. QUALITY_SCORE_MODEL='{"components":[...],
+ * "trendThreshold":5}'. components replaces the default list, and a
+ * component may leave out optimal and worst to use the metric's defaults.
+ * Invalid entries are logged and skipped; without a usable component the
+ * default components are kept.
+ */
+export function parseQualityModel(raw: string | undefined): QualityModel {
+  if (!raw) return DEFAULT_QUALITY_MODEL;
+
+  let config: Row;
+  try {
+    config = JSON.parse(raw);
+  } catch {
+    console.error('[Quality] QUALITY_SCORE_MODEL is not valid JSON; using the default model');
+    return DEFAULT_QUALITY_MODEL;
+  }
+
+  let components = DEFAULT_QUALITY_MODEL.components;
+  if (Array.isArray(config.components)) {
+    const parsed: QualityComponentConfig[] = [];
+    for (const entry of config.components) {
+      const component = parseComponent(entry);
+      if (component) parsed.push(component);
+      else console.error('[Quality] Skipping invalid quality component:', JSON.stringify(entry));
+    }
+    if (parsed.some((c) => c.weight > 0)) components = parsed;
+    else console.error('[Quality] No weighted quality components configured; using the default components');
+  }
+
+  const number = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return {
+    components,
+    trendThreshold: number(config.trendThreshold, DEFAULT_QUALITY_MODEL.trendThreshold),
+    highThreshold: number(config.highThreshold, DEFAULT_QUALITY_MODEL.highThreshold),
+    lowThreshold: number(config.lowThreshold, DEFAULT_QUALITY_MODEL.lowThreshold),
+  };
+}
+
+// Model for this environment
+export const QUALITY_MODEL = parseQualityModel(process.env.QUALITY_SCORE_MODEL);
+
+// Whether the model reads the pixel IVT data, which is only loaded then
+export function modelUsesIvt(model: QualityModel): boolean {
+  return model.components.some((c) => c.metric === 'ivtRate' && c.weight > 0);
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+function v(val: unknown): number { if (val === undefined || val === null) return 0; const num = Number(val); return isNaN(num) ? 0 : num; }
+function round(value: number, digits: number): number { const f = 10 ** digits; return Math.round(value * f) / f; }
+
+/**
+ * Every metric for one agg_by_publisher row, in percent. IVT comes from an
+ * agg_ivt_by_publisher row matched on pub_id. A lower-is-better rate with
+ * nothing to measure it on is null, so a publisher is neither rewarded nor
+ * penalised for it.
+ */
+export function qualityRates(row: Row, ivt?: Row): Record<QualityMetric, number | null> {
+  const br = v(row.bid_requests), bi = v(row.bids), wi = v(row.wins), imp = v(row.impressions);
+  const ivtImpressions = v(ivt?.impressions);
+  return {
+    bidRate: br > 0 ? (bi / br) * 100 : 0,
+    winRate: bi > 0 ? (wi / bi) * 100 : 0,
+    fillRate: br > 0 ? (imp / br) * 100 : 0,
+    successRate: wi > 0 ? (imp / wi) * 100 : 0,
+    timeoutRate: br > 0 ? (v(row.timeouts) / br) * 100 : null,
+    errorRate: br > 0 ? (v(row.errors) / br) * 100 : null,
+    ivtRate: ivtImpressions > 0 ? (v(ivt?.suspicious) / ivtImpressions) * 100 : null,
+  };
+}
+
+// 0..COMPONENT_CEILING for one rate
+function normalize(value: number, component: QualityComponentConfig): number {
+  if (QUALITY_METRICS[component.metric].higherIsBetter) {
+    return value >= component.optimal ? COMPONENT_CEILING : (value / component.optimal) * COMPONENT_CEILING;
+  }
+  const worst = component.worst ?? QUALITY_METRICS[component.metric].worst ?? 100;
+  if (value <= component.optimal) return COMPONENT_CEILING;
+  if (value >= worst) return 0;
+  return ((worst - value) / (worst - component.optimal)) * COMPONENT_CEILING;
+}
+
+/**
+ * Score one publisher's rates. Weights are shared out over the components
+ * that have data, so with weights summing to 1 the score is the weighted
+ * sum of the normalized rates. impact is left at 0; see scorePublishers.
+ */
+export function scoreRates(
+  rates: Record<QualityMetric, number | null>,
+  model: QualityModel
+): { score: number; components: QualityComponentScore[] } {
+  const totalWeight = model.components.reduce((sum, c) => sum + (rates[c.metric] === null ? 0 : c.weight), 0);
+  const components = model.components.map((c): QualityComponentScore => {
+    const value = rates[c.metric];
+    const share = value === null || totalWeight === 0 ? 0 : c.weight / totalWeight;
+    const normalized = value === null ? 0 : normalize(value, c);
+    return {
+      metric: c.metric,
+      label: QUALITY_METRICS[c.metric].label,
+      value: value === null ? null : round(value, 2),
+      weight: c.weight,
+      normalized: round(normalized, 1),
+      points: normalized * share,
+      maxPoints: COMPONENT_CEILING * share,
+      impact: 0,
+    };
+  });
+  const score = Math.min(100, components.reduce((sum, c) => sum + c.points, 0));
+  return { score, components };
+}
+
+/**
+ * Score agg_by_publisher rows and explain each score: every component's
+ * impact is its points less the average points of that component over the
+ * publishers scored, so for a publisher with data for every component the
+ * impacts add up to how far its score sits from the average.
+ */
+export function scorePublishers(
+  rows: Row[],
+  ivtRows: Row[],
+  model: QualityModel
+): Array<{ row: Row; score: number; components: QualityComponentScore[] }> {
+  const ivtByPub = new Map<string, Row>();
+  for (const r of ivtRows) ivtByPub.set(String(r.pub_id), r);
+
+  const scored = rows.map((row) => {
+    const ivt = (row.id !== null && row.id !== undefined ? ivtByPub.get(String(row.id)) : undefined) ?? ivtByPub.get(row.name);
+    return { row, ...scoreRates(qualityRates(row, ivt), model) };
+  });
+
+  const average = new Map<QualityMetric, number>();
+  for (const c of model.components) {
+    const points = scored.map((s) => s.components.find((x) => x.metric === c.metric)).filter((x) => x && x.value !== null);
+    average.set(c.metric, points.length > 0 ? points.reduce((sum, x) => sum + x!.points, 0) / points.length : 0);
+  }
+
+  for (const s of scored) {
+    s.components = s.components.map((c) => ({
+      ...c,
+      impact: c.value === null ? 0 : round(c.points - (average.get(c.metric) || 0), 2),
+      points: round(c.points, 2),
+      maxPoints: round(c.maxPoints, 2),
+    }));
+  }
+  return scored;
+}
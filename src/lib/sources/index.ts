@@ -0,0 +1,63 @@
+import type { StatsSourceInfo } from '@/types';
+import type { StatsSource } from './types';
+import { limelightSource } from './limelight';
+
+export type { StatsSource, SourceFetchParams } from './types';
+
+// Scope value meaning "every source combined"
+export const ALL_SOURCES = 'all';
+
+// Source id for rows imported by hand from partner reports
+export const UPLOAD_SOURCE_ID = 'upload';
+
+// Registered sources. Add an adapter here to make a new exchange syncable
+// and selectable in the source scope picker.
+const SOURCES: StatsSource[] = [limelightSource];
+
+// Sources that only receive data through manual file uploads (no adapter)
+const MANUAL_SOURCES: StatsSourceInfo[] = [
+  { id: UPLOAD_SOURCE_ID, label: 'Manual uploads', supportedDimensions: [] },
+];
+
+export function listStatsSources(): StatsSourceInfo[] {
+  return [
+    ...SOURCES.map(({ id, label, supportedDimensions }) => ({ id, label, supportedDimensions })),
+    ...MANUAL_SOURCES,
+  ];
+}
+
+export function listStatsSourceAdapters(): StatsSource[] {
+  return [...SOURCES];
+}
+
+export function getStatsSource(id: string): StatsSource | null {
+  return SOURCES.find((s) => s.id === id) || null;
+}
+
+// One Limelight account on its own, e.g. 'limelight:emea'
+const ACCOUNT_SCOPE_PATTERN = /^limelight:[a-z0-9][a-z0-9_-]*$/;
+
+export function accountScope(account: string): string {
+  return `limelight:${account}`;
+}
+
+/**
+ * Normalize a ?source= query param. Unknown or missing values mean all
+ * sources combined; returns null for "all" so callers can skip the filter.
+ * A 'limelight:<account>' scope narrows Limelight to a single account.
+ */
+export function parseSourceScope(value: string | null): string | null {
+  if (!value || value === ALL_SOURCES) return null;
+  if (ACCOUNT_SCOPE_PATTERN.test(value)) return value;
+  return listStatsSources().some((s) => s.id === value) ? value : null;
+}
+
+/**
+ * Split a parsed scope into the p_source / p_account filters used by the
+ * aggregate functions (null means no filter).
+ */
+export function splitSourceScope(scope: string | null): { source: string | null; account: string | null } {
+  if (!scope) return { source: null, account: null };
+  const [source, account] = scope.split(':');
+  return { source, account: account || null };
+}
@@ -0,0 +1,27 @@
+import type { LimelightAPIResponse } from '@/types';
+import {
+  streamLimelightStats,
+  FetchStatsParams,
+  SYNC_DIMENSIONS,
+  ON_DEMAND_DIMENSIONS,
+} from '@/lib/limelight/client';
+import { transformLimelightResponse, LIMELIGHT_SOURCE_ID } from '@/lib/limelight/transformer';
+import type { StatsSource } from './types';
+
+// Response format for sync pulls. 'json' (the default) buffers the whole
+// body; CSV/XML are parsed as a stream so memory stays flat for large
+// breakdowns, and are opted into per environment once verified against the
+// live API.
+export const SYNC_OUTPUT = (process.env.LIMELIGHT_SYNC_OUTPUT || 'json') as NonNullable<FetchStatsParams['output']>;
+
+export const limelightSource: StatsSource<LimelightAPIResponse> = {
+  id: LIMELIGHT_SOURCE_ID,
+  label: 'Limelight',
+  supportedDimensions: [...SYNC_DIMENSIONS, ...ON_DEMAND_DIMENSIONS],
+  // Only the core set: the extra sets come from the dimension_sets registry
+  syncDimensionSets: [SYNC_DIMENSIONS],
+
+  fetchStats: (params) => streamLimelightStats({ ...params, output: SYNC_OUTPUT }),
+
+  transform: transformLimelightResponse,
+};
@@ -0,0 +1,38 @@
+import type { TransformResult } from '@/lib/limelight/transformer';
+import type { RequestBudget } from '@/lib/limelight/client';
+import type { LimelightAccount } from '@/lib/limelight/accounts';
+
+export interface SourceFetchParams {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  dimensions: string[];
+  // Caps the number of upstream calls made by one run
+  budget?: RequestBudget;
+  // When false, a day with no rows is an error rather than an empty result
+  allowEmpty?: boolean;
+  batchSize?: number;
+  // Limelight seat to pull from; other sources ignore it
+  account?: LimelightAccount;
+}
+
+/**
+ * A report source that feeds limelight_stats. Every row it produces is
+ * stored with `source = id`, so dashboards can show one source or all
+ * of them combined.
+ */
+export interface StatsSource<Raw = unknown> {
+  /** Stored in limelight_stats.source; must never change once data exists */
+  id: string;
+  label: string;
+  /** Dimension names this source can break down by */
+  supportedDimensions: string[];
+  /** Dimension sets pulled by the nightly sync, core set first */
+  syncDimensionSets: string[][];
+  /** Pull raw report rows in batches */
+  fetchStats(params: SourceFetchParams): AsyncIterable<Raw[]>;
+  /**
+   * Map raw rows to database rows (unused dimensions as ''). Rows that fail
+   * validation for the requested dimensions come back in `rejected`.
+   */
+  transform(rows: Raw[], dimensions: string[]): TransformResult<Raw>;
+}
@@ -41,6 +41,16 @@ export async function fetchAllRows(
   return allData;
 }
 
+// Run one of the agg_by_* functions (which read the daily rollups) over a
+// date range, across every source and account
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function fetchAggregate(fn: string, startDate: string, endDate: string): Promise<any[]> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc(fn, { p_start: startDate, p_end: endDate });
+  if (error) throw error;
+  return data || [];
+}
+
 // Get date strings for time periods
 export function getDateRanges() {
   const now = new Date();
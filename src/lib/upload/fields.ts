@@ -0,0 +1,36 @@
+// Mapping targets for manual uploads. Kept free of server imports so the
+// upload page can use the same list.
+import type { UploadField } from '@/types';
+
+export type UploadFieldKind = 'date' | 'dimension' | 'integer' | 'decimal';
+
+export interface UploadFieldSpec {
+  field: UploadField;
+  label: string;
+  kind: UploadFieldKind;
+  required?: boolean;
+  // Header names recognized automatically (compared case/punctuation-insensitively)
+  aliases: string[];
+}
+
+export const UPLOAD_FIELDS: UploadFieldSpec[] = [
+  { field: 'date', label: 'Date', kind: 'date', required: true, aliases: ['DATE', 'day', 'report date'] },
+  { field: 'demand_partner_name', label: 'Demand Partner', kind: 'dimension', aliases: ['DEMAND_NAME', 'DEMAND_PARTNER_NAME', 'DEMAND', 'demand partner', 'advertiser', 'buyer', 'dsp'] },
+  { field: 'supply_partner_name', label: 'Supply Partner', kind: 'dimension', aliases: ['SUPPLY_PARTNER_NAME', 'supply partner', 'ssp'] },
+  { field: 'publisher', label: 'Publisher', kind: 'dimension', aliases: ['PUBLISHER_NAME', 'PUBLISHER', 'seller'] },
+  { field: 'bundle', label: 'Bundle', kind: 'dimension', aliases: ['BUNDLE', 'SUPPLY_SOURCE', 'app', 'app bundle', 'bundle id'] },
+  { field: 'ad_unit_type', label: 'Ad Size / Unit', kind: 'dimension', aliases: ['SIZE', 'AD_UNIT_TYPE', 'AD_UNIT', 'ad size', 'size'] },
+  { field: 'channel_type', label: 'Channel Type', kind: 'dimension', aliases: ['CHANNEL_TYPE', 'channel'] },
+  { field: 'os', label: 'OS', kind: 'dimension', aliases: ['OS', 'platform', 'operating system'] },
+  { field: 'country', label: 'Country', kind: 'dimension', aliases: ['COUNTRY', 'geo', 'country code'] },
+  { field: 'opportunities', label: 'Opportunities', kind: 'integer', aliases: ['OPPORTUNITIES'] },
+  { field: 'bid_requests', label: 'Bid Requests', kind: 'integer', aliases: ['BID_REQUESTS', 'requests', 'ad requests'] },
+  { field: 'bids', label: 'Bids', kind: 'integer', aliases: ['BIDS', 'bid responses'] },
+  { field: 'wins', label: 'Wins', kind: 'integer', aliases: ['WINS'] },
+  { field: 'impressions', label: 'Impressions', kind: 'integer', aliases: ['IMPRESSIONS', 'imps', 'paid impressions'] },
+  { field: 'pub_payout', label: 'Publisher Payout', kind: 'decimal', aliases: ['PUB_PAYOUT', 'publisher payout', 'net revenue'] },
+  { field: 'demand_payout', label: 'Revenue (Demand Payout)', kind: 'decimal', aliases: ['DEMAND_PAYOUT', 'revenue', 'gross revenue', 'spend'] },
+  { field: 'demand_service_fee', label: 'Demand Service Fee', kind: 'decimal', aliases: ['DEMAND_SERVICE_FEE_PAYOUT', 'service fee'] },
+  { field: 'bid_response_timeouts', label: 'Timeouts', kind: 'integer', aliases: ['BID_RESPONSE_TIMEOUTS', 'timeouts'] },
+  { field: 'bid_response_errors', label: 'Errors', kind: 'integer', aliases: ['BID_RESPONSE_ERRORS', 'errors'] },
+];
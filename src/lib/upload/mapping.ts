@@ -0,0 +1,200 @@
+import type { ColumnMapping, UploadField, UploadRowError } from '@/types';
+import type { RawRecord } from '@/lib/limelight/parsers';
+import { LIMELIGHT_SOURCE_ID, type TransformedRow } from '@/lib/limelight/transformer';
+import { DEFAULT_ACCOUNT_SLUG } from '@/lib/limelight/accounts';
+import { getRetentionCutoff, STATS_RETENTION_DAYS } from '@/lib/limelight/sync';
+import { UPLOAD_FIELDS, UploadFieldKind } from './fields';
+
+const METRIC_FIELDS = UPLOAD_FIELDS.filter((f) => f.kind === 'integer' || f.kind === 'decimal');
+
+// Errors returned to the client are capped; counts stay exact
+const MAX_REPORTED_ERRORS = 200;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess a mapping from the file's headers. Limelight exports map fully;
+ * partner reports usually need a few columns picked by hand.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const spec of UPLOAD_FIELDS) {
+    const candidates = [spec.field, ...spec.aliases].map(normalizeHeader);
+    const match = candidates
+      .map((c) => headers.find((h) => !used.has(h) && normalizeHeader(h) === c))
+      .find(Boolean);
+    if (match) {
+      mapping[spec.field] = match;
+      used.add(match);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Problems with the mapping itself (as opposed to individual rows).
+ */
+export function validateMapping(mapping: ColumnMapping, headers: string[]): string[] {
+  const problems: string[] = [];
+  if (!mapping.date) problems.push('Map a column to Date');
+  if (!METRIC_FIELDS.some((f) => mapping[f.field])) problems.push('Map at least one metric column');
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header && !headers.includes(header)) problems.push(`Column "${header}" (mapped to ${field}) is not in the file`);
+  }
+  return problems;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Accepts YYYY-MM-DD (optionally with a time part), YYYY/MM/DD, MM/DD/YYYY,
+ * DD.MM.YYYY and Excel serial day numbers.
+ */
+function parseDate(value: string): string | null {
+  const v = value.trim();
+  let m = v.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T].*)?$/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+  m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) return toIsoDate(+m[3], +m[1], +m[2]);
+  m = v.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (m) return toIsoDate(+m[3], +m[2], +m[1]);
+  // Excel serial date (days since 1899-12-30)
+  if (/^\d{5}$/.test(v)) {
+    const d = new Date(Date.UTC(1899, 11, 30) + Number(v) * 86_400_000);
+    return d.toISOString().split('T')[0];
+  }
+  return null;
+}
+
+function parseMetric(value: string, kind: UploadFieldKind): number | null {
+  const cleaned = value.trim().replace(/[$€£,\s]/g, '');
+  if (cleaned === '' || cleaned === '-') return 0;
+  const n = Number(cleaned);
+  if (!Number.isFinite(n) || n < 0) return null;
+  return kind === 'integer' ? Math.round(n) : Math.round(n * 10000) / 10000;
+}
+
+export interface MappedUpload {
+  rows: TransformedRow[];
+  errors: UploadRowError[];
+  errorCount: number;
+  invalidRows: number;
+  mergedDuplicates: number;
+  dateRange: { startDate: string; endDate: string } | null;
+}
+
+/**
+ * Map file records onto limelight_stats rows for the given source.
+ * Invalid rows are reported and left out. Rows that share the same
+ * unique key are summed, since one upsert batch cannot touch a key twice.
+ */
+export function applyMapping(records: RawRecord[], mapping: ColumnMapping, source: string): MappedUpload {
+  const errors: UploadRowError[] = [];
+  let errorCount = 0;
+  let invalidRows = 0;
+  let mergedDuplicates = 0;
+  const cutoff = getRetentionCutoff();
+  const byKey = new Map<string, TransformedRow>();
+  // Limelight exports land on the default account's rows, as the sync writes them
+  const account = source === LIMELIGHT_SOURCE_ID ? DEFAULT_ACCOUNT_SLUG : '';
+
+  const report = (error: UploadRowError) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(error);
+  };
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 1;
+    const get = (field: UploadField) => {
+      const header = mapping[field];
+      return header ? (record[header] ?? '') : '';
+    };
+
+    // Skip fully blank lines (common at the end of exports)
+    if (Object.values(record).every((v) => String(v).trim() === '')) return;
+
+    let valid = true;
+    const date = parseDate(get('date'));
+    if (!date) {
+      report({ row: rowNumber, field: 'date', message: `Invalid date "${get('date')}"` });
+      valid = false;
+    } else if (date < cutoff) {
+      report({ row: rowNumber, field: 'date', message: `${date} is outside the ${STATS_RETENTION_DAYS}-day retention window` });
+      valid = false;
+    }
+
+    const row: TransformedRow = {
+      source,
+      account,
+      date: date || '',
+      demand_partner_name: get('demand_partner_name').trim(),
+      supply_partner_name: get('supply_partner_name').trim(),
+      publisher: get('publisher').trim(),
+      demand_partner_id: null,
+      publisher_id: null,
+      bundle: get('bundle').trim(),
+      ad_unit_type: get('ad_unit_type').trim(),
+      channel_type: get('channel_type').trim(),
+      os: get('os').trim(),
+      country: get('country').trim(),
+      opportunities: 0,
+      bid_requests: 0,
+      bids: 0,
+      wins: 0,
+      impressions: 0,
+      pub_payout: 0,
+      demand_payout: 0,
+      demand_service_fee: 0,
+      bid_response_timeouts: 0,
+      bid_response_errors: 0,
+    };
+
+    for (const spec of METRIC_FIELDS) {
+      if (!mapping[spec.field]) continue;
+      const n = parseMetric(get(spec.field), spec.kind);
+      if (n === null) {
+        report({ row: rowNumber, field: spec.field, message: `${spec.label} must be a non-negative number, got "${get(spec.field)}"` });
+        valid = false;
+      } else {
+        (row[spec.field as keyof TransformedRow] as number) = n;
+      }
+    }
+
+    if (!valid) {
+      invalidRows++;
+      return;
+    }
+
+    const key = [row.date, row.demand_partner_name, row.supply_partner_name, row.publisher, row.bundle, row.ad_unit_type, row.os, row.country].join('\u0001');
+    const existing = byKey.get(key);
+    if (existing) {
+      for (const spec of METRIC_FIELDS) {
+        const field = spec.field as keyof TransformedRow;
+        (existing[field] as number) = Number(existing[field]) + Number(row[field]);
+      }
+      mergedDuplicates++;
+    } else {
+      byKey.set(key, row);
+    }
+  });
+
+  const rows = Array.from(byKey.values());
+  const dates = rows.map((r) => r.date).sort();
+
+  return {
+    rows,
+    errors,
+    errorCount,
+    invalidRows,
+    mergedDuplicates,
+    dateRange: dates.length > 0 ? { startDate: dates[0], endDate: dates[dates.length - 1] } : null,
+  };
+}
@@ -0,0 +1,119 @@
+import ExcelJS from 'exceljs';
+import type { ColumnMapping } from '@/types';
+import { parseCsv, RawRecord } from '@/lib/limelight/parsers';
+import { listStatsSources, UPLOAD_SOURCE_ID } from '@/lib/sources';
+
+// Vercel rejects request bodies above ~4.5 MB
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+// sync_logs.sync_type of manual imports
+export const UPLOAD_SYNC_TYPE = 'upload';
+
+// Bad input from the client; routes answer these with 400
+export class UploadFormError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadFormError';
+  }
+}
+
+export interface ParsedUpload {
+  headers: string[];
+  records: RawRecord[];
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((r) => r.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    // Error cells and shared formulas without a cached result
+    return '';
+  }
+  return String(value);
+}
+
+async function parseXlsx(data: ArrayBuffer): Promise<ParsedUpload> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) throw new UploadFormError('The workbook has no worksheets');
+
+  let headers: string[] = [];
+  const records: RawRecord[] = [];
+
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    // row.values is 1-based; index 0 is always empty
+    const values = (row.values as ExcelJS.CellValue[]).slice(1).map(cellToString);
+    if (rowNumber === 1 || headers.length === 0) {
+      headers = values.map((h) => h.trim());
+      return;
+    }
+    const record: RawRecord = {};
+    headers.forEach((header, i) => {
+      if (header) record[header] = values[i] ?? '';
+    });
+    records.push(record);
+  });
+
+  return { headers: headers.filter(Boolean), records };
+}
+
+/**
+ * Read an uploaded CSV or XLSX report. The first row (first worksheet for
+ * XLSX) holds the column headers.
+ */
+export async function parseUploadFile(file: File): Promise<ParsedUpload> {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadFormError(`File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB; split it and upload the parts`);
+  }
+
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    const text = await file.text();
+    const records = parseCsv(text);
+    const headers = records.length > 0 ? Object.keys(records[0]) : [];
+    return { headers, records };
+  }
+
+  throw new UploadFormError('Unsupported file type. Upload a .csv or .xlsx file');
+}
+
+export interface UploadForm {
+  file: File;
+  source: string;
+  // null when the client has not picked a mapping yet
+  mapping: ColumnMapping | null;
+}
+
+/**
+ * Read the multipart form shared by the preview and commit endpoints:
+ * `file`, `source` (a registered source id) and an optional JSON `mapping`.
+ */
+export function readUploadForm(formData: FormData): UploadForm {
+  const file = formData.get('file');
+  if (!(file instanceof File)) throw new UploadFormError('file is required');
+
+  const source = String(formData.get('source') || UPLOAD_SOURCE_ID);
+  if (!listStatsSources().some((s) => s.id === source)) {
+    throw new UploadFormError(`Unknown source "${source}"`);
+  }
+
+  const rawMapping = formData.get('mapping');
+  let mapping: ColumnMapping | null = null;
+  if (typeof rawMapping === 'string' && rawMapping) {
+    try {
+      mapping = JSON.parse(rawMapping) as ColumnMapping;
+    } catch {
+      throw new UploadFormError('mapping must be valid JSON');
+    }
+  }
+
+  return { file, source, mapping };
+}
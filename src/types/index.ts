@@ -3,10 +3,15 @@
 // ============================================
 export interface LimelightStatsRow {
   id: number;
+  source: string;
+  // Limelight account slug; '' for other sources
+  account: string;
   date: string;
   demand_partner_name: string | null;
   supply_partner_name: string | null;
   publisher: string | null;
+  demand_partner_id: number | null;
+  publisher_id: number | null;
   bundle: string | null;
   ad_unit_type: string | null;
   channel_type: string | null;
@@ -26,18 +31,32 @@ export interface LimelightStatsRow {
   created_at: string;
 }
 
+// ============================================
+// Stats Sources
+// ============================================
+// A stats source as listed by /api/sources
+export interface StatsSourceInfo {
+  id: string;
+  label: string;
+  supportedDimensions: string[];
+  // Limelight seats that can be scoped individually (limelight only)
+  accounts?: Array<{ slug: string; label: string }>;
+}
+
 // ============================================
 // Limelight API Response
 // ============================================
 export interface LimelightAPIResponse {
   DATE?: string;
+  // HOUR dimension (hourly sync only): 0-23, or a time/datetime string
+  HOUR?: number | string;
   // DEMAND dimension fields
-  DEMAND_ID?: number;
+  DEMAND_ID?: number | string; // String when parsed from CSV/XML
   DEMAND_NAME?: string;
   DEMAND_PARTNER_NAME?: string; // Legacy CSV alias
   DEMAND?: string; // Legacy alias
   // PUBLISHER dimension fields
-  PUBLISHER_ID?: number;
+  PUBLISHER_ID?: number | string;
   PUBLISHER_NAME?: string;
   PUBLISHER?: string; // Legacy alias
   // Other dimensions
@@ -191,6 +210,38 @@ export interface DashboardMetrics {
   opportunities: RevenueOpportunity[];
 }
 
+// Today so far vs the same weekday last week, from the hourly sync (UTC hours)
+export interface IntradayHour {
+  hour: number;
+  label: string; // "13:00"
+  // null for hours today that have no data yet
+  revenue: number | null;
+  impressions: number | null;
+  lastWeekRevenue: number;
+  lastWeekImpressions: number;
+}
+
+export interface IntradayStats {
+  date: string;
+  compareDate: string;
+  // Latest hour with data today; null when the hourly sync has nothing yet
+  latestHour: number | null;
+  // Totals compare hours 0..throughHour on both days
+  throughHour: number | null;
+  hours: IntradayHour[];
+  totals: {
+    revenue: number;
+    impressions: number;
+    ecpm: number;
+    lastWeekRevenue: number;
+    lastWeekImpressions: number;
+    lastWeekEcpm: number;
+    revenueChange: number;
+    impressionChange: number;
+    ecpmChange: number;
+  };
+}
+
 // ============================================
 // Supply Quality
 // ============================================
@@ -294,6 +345,122 @@ export interface Alert {
   resolvedAt?: Date;
 }
 
+// ============================================
+// Filter Analysis
+// ============================================
+// A lost-revenue estimate with the range it may fall in
+export interface LossRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+// ============================================
+// Anomaly Detection
+// ============================================
+export type AnomalyDimension = 'demand_partner' | 'publisher' | 'bundle';
+
+export type AnomalyMetric = 'revenue' | 'impressions' | 'bid_requests' | 'ecpm' | 'fill_rate' | 'timeout_rate';
+
+// One day's value of a metric that fell outside the range expected for it
+export interface MetricAnomaly {
+  date: string;
+  dimension: AnomalyDimension;
+  entityId: number | null;
+  entity: string;
+  metric: AnomalyMetric;
+  actual: number;
+  expected: number;
+  // Usual range for the day (expected +/- the warning score in spreads)
+  lower: number;
+  upper: number;
+  // Deviation from expected in robust standard deviations, signed
+  score: number;
+  deviationPct: number;
+  severity: 'critical' | 'warning' | 'info';
+  // Calendar effects behind the expected value
+  weekdayFactor: number;
+  monthStartFactor: number | null;
+  message: string;
+}
+
+// ============================================
+// Forecasting
+// ============================================
+export type ForecastMetric = 'revenue' | 'impressions' | 'ecpm';
+
+export type ForecastScope = 'network' | 'demand_partner' | 'publisher';
+
+// A stored day (actual) or a forecast day (forecast with its band)
+export interface ForecastPoint {
+  date: string;
+  actual: number | null;
+  forecast: number | null;
+  lower: number | null;
+  upper: number | null;
+}
+
+// Rolling-origin backtest over stored history, in percent
+export interface ForecastAccuracy {
+  origins: number;
+  horizon: number;
+  // sum |actual - forecast| / sum actual
+  wape: number;
+  // sum (forecast - actual) / sum actual; positive means over-forecasting
+  bias: number;
+  // Share of actual days inside the forecast band
+  coverage: number;
+}
+
+export interface MetricForecast {
+  metric: ForecastMetric;
+  points: ForecastPoint[];
+  accuracy: ForecastAccuracy | null;
+}
+
+// Where revenue is expected to land by the end of the month being forecast
+export interface MonthLanding {
+  month: string;
+  daysElapsed: number;
+  daysInMonth: number;
+  actualToDate: number;
+  expected: number;
+  low: number;
+  high: number;
+  target: number | null;
+  // expected / target, in percent
+  targetPct: number | null;
+}
+
+export interface EntityForecast {
+  scope: ForecastScope;
+  id: number | null;
+  name: string;
+  // Revenue over the last 28 stored days, which picks the top entities
+  recentRevenue: number;
+  metrics: MetricForecast[];
+  landing: MonthLanding | null;
+}
+
+export interface RevenueForecast {
+  lastDate: string;
+  horizon: number;
+  // Confidence of the bands, in percent
+  bandLevel: number;
+  network: EntityForecast;
+  demandPartners: EntityForecast[];
+  publishers: EntityForecast[];
+}
+
+export interface RevenueTarget {
+  id: number;
+  month: string;
+  scope: ForecastScope;
+  entityId: number | null;
+  entity: string;
+  target: number;
+}
+
 // ============================================
 // Revenue Concentration
 // ============================================
@@ -328,6 +495,8 @@ export interface IVTImpression {
   os: string | null;
   os_version: string | null;
   creative_id: string | null;
+  // Demand partner (Limelight DEMAND_ID) when the pixel passes it
+  demand_id: string | null;
   origin_ssp_pub_id: string | null;
   lat: number | null;
   lon: number | null;
@@ -382,6 +551,60 @@ export interface IVTReportData {
   dailyTrend: Array<{ date: string; total: number; suspicious: number; rate: number }>;
 }
 
+// Pixel impressions of one creative on one bundle or publisher
+export interface CreativeBreakdown {
+  name: string;
+  impressions: number;
+  ivtRate: number;
+}
+
+export type CreativeFlag = 'suspicious_traffic' | 'bundle_spread';
+
+// pixel: the demand ID the pixel passed (dsp=); publishers: the only demand
+// partner that won impressions on every publisher the creative served on
+export type CreativePartnerBasis = 'pixel' | 'publishers';
+
+export interface CreativePartner {
+  id: number | null;
+  name: string;
+  basis: CreativePartnerBasis;
+  // Share of the creative's impressions behind the inference, in percent
+  confidence: number;
+}
+
+export interface CreativeReportRow {
+  creativeId: string;
+  impressions: number;
+  suspicious: number;
+  ivtRate: number;
+  bundles: number;
+  publishers: number;
+  topBundles: CreativeBreakdown[];
+  topPublishers: CreativeBreakdown[];
+  demandPartner: CreativePartner | null;
+  flags: CreativeFlag[];
+}
+
+export interface CreativeReport {
+  startDate: string;
+  endDate: string;
+  summary: {
+    totalCreatives: number;
+    totalImpressions: number;
+    suspiciousImpressions: number;
+    ivtRate: number;
+    flaggedCreatives: number;
+    attributedCreatives: number;
+  };
+  thresholds: {
+    suspiciousIvtRate: number;
+    minImpressions: number;
+    // Distinct bundles above which a creative's spread is unusual
+    bundleSpread: number;
+  };
+  creatives: CreativeReportRow[];
+}
+
 // ============================================
 // Chat Types
 // ============================================
@@ -450,15 +673,609 @@ export interface AppAdsTxtSearchHistoryItem {
 export interface SyncLog {
   id: number;
   sync_type: string;
+  // Limelight account the run pulled from; null for other sync types
+  account: string | null;
   start_date: string | null;
   end_date: string | null;
   rows_synced: number;
+  rows_rejected: number;
+  rejection_summary: RejectionSummary | null;
+  status: 'running' | 'completed' | 'failed';
+  error_message: string | null;
+  error_class: string | null;
+  file_name: string | null;
+  // Daily sync runs only: outcome per dimension set, keyed by set_key
+  set_results: Record<string, SyncSetResult> | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+// 'empty': every day synced, but Limelight had no rows for any of them
+export type SyncSetStatus = 'done' | 'empty' | 'partial' | 'failed' | 'skipped';
+
+export interface SyncSetResult {
+  status: SyncSetStatus;
+  rowsSynced: number;
+  daysSynced: number;
+  daysTotal: number;
+  // Synced days Limelight returned no rows for; missing on older runs
+  emptyDays?: number;
+  errors: number;
+  error: string | null;
+}
+
+export interface SyncRun {
+  id: number;
+  syncType: string;
+  account: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  status: SyncLog['status'];
+  rowsSynced: number;
+  rowsRejected: number;
+  // null while the run is still going
+  durationMs: number | null;
+  errorMessage: string | null;
+  errorClass: string | null;
+  fileName: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  // Empty for runs that do not sync dimension sets (uploads, other sources)
+  sets: Array<SyncSetResult & { setKey: string; label: string }>;
+}
+
+export type CoverageStatus = 'complete' | 'partial' | 'missing';
+
+export interface CoverageDay {
+  day: string;
+  status: CoverageStatus;
+  rows: number;
+  // "<account> / <set label>" pairs with no stored rows for the day
+  missing: string[];
+}
+
+export interface SyncCoverage {
+  startDate: string;
+  endDate: string;
+  accounts: string[];
+  sets: Array<{ setKey: string; label: string }>;
+  days: CoverageDay[];
+}
+
+export interface DataFreshness {
+  // Newest Limelight day in limelight_stats, and the day that should be there by now
+  latestDate: string | null;
+  expectedDate: string;
+  statsStale: boolean;
+  // Newest data_cache write, and the refresh it should have picked up
+  cacheUpdatedAt: string | null;
+  cacheExpectedAfter: string;
+  cacheStale: boolean;
+  checkedAt: string;
+}
+
+// 'empty': synced, but Limelight had no rows for the day and set
+export type BackfillItemStatus = 'pending' | 'done' | 'empty' | 'failed';
+
+export interface BackfillProgressRow {
+  id: number;
+  sync_log_id: number;
+  day: string;
+  dimension_set: string;
+  set_order: number;
+  status: BackfillItemStatus;
+  rows_synced: number;
+  rows_rejected: number;
+  attempts: number;
+  error_message: string | null;
+  error_class: string | null;
+  updated_at: string;
+}
+
+export interface BackfillDayStatus {
+  day: string;
+  status: BackfillItemStatus;
+  sets: Array<{ dimensionSet: string; status: BackfillItemStatus; rowsSynced: number; error: string | null; errorClass: string | null }>;
+}
+
+export interface BackfillJobStatus {
+  id: number;
+  account: string;
+  startDate: string;
+  endDate: string;
+  status: SyncLog['status'];
+  rowsSynced: number;
+  rowsRejected: number;
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  totals: { done: number; pending: number; failed: number; total: number };
+  days: BackfillDayStatus[];
+}
+
+export interface ReconciliationRun {
+  id: number;
+  account: string;
+  window_start: string;
+  window_end: string;
+  threshold_pct: number;
   status: 'running' | 'completed' | 'failed';
+  days_checked: number;
+  days_drifted: number;
+  days_resynced: number;
+  stored_revenue: number;
+  api_revenue: number;
+  stored_impressions: number;
+  api_impressions: number;
   error_message: string | null;
+  error_class: string | null;
   started_at: string;
   completed_at: string | null;
 }
 
+export interface ReconciliationDiff {
+  id: number;
+  run_id: number;
+  day: string;
+  demand_partner_name: string;
+  stored_impressions: number;
+  api_impressions: number;
+  stored_revenue: number;
+  api_revenue: number;
+  impressions_drift_pct: number | null;
+  revenue_drift_pct: number | null;
+  resynced: boolean;
+  backfill_job_id: number | null;
+  created_at: string;
+}
+
+export interface ReconciliationReport extends ReconciliationRun {
+  diffs: ReconciliationDiff[];
+}
+
+// ============================================
+// Manual Report Upload
+// ============================================
+// limelight_stats fields a file column can be mapped onto
+export type UploadField =
+  | 'date'
+  | 'demand_partner_name'
+  | 'supply_partner_name'
+  | 'publisher'
+  | 'bundle'
+  | 'ad_unit_type'
+  | 'channel_type'
+  | 'os'
+  | 'country'
+  | 'opportunities'
+  | 'bid_requests'
+  | 'bids'
+  | 'wins'
+  | 'impressions'
+  | 'pub_payout'
+  | 'demand_payout'
+  | 'demand_service_fee'
+  | 'bid_response_timeouts'
+  | 'bid_response_errors';
+
+// Field -> file column header
+export type ColumnMapping = Partial<Record<UploadField, string>>;
+
+export interface UploadRowError {
+  row: number; // 1-based data row (header excluded)
+  field?: UploadField;
+  message: string;
+}
+
+export interface UploadPreview {
+  fileName: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  mergedDuplicates: number;
+  dateRange: { startDate: string; endDate: string } | null;
+  sample: Array<Record<string, string | number>>;
+  errors: UploadRowError[];
+}
+
+export interface UploadMappingTemplate {
+  id: number;
+  name: string;
+  source: string;
+  mapping: ColumnMapping;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================
+// Row Validation / Quarantine
+// ============================================
+export type RowRejectionRule =
+  | 'missing_date'
+  | 'invalid_date'
+  | 'non_numeric'
+  | 'negative_metric'
+  | 'wins_exceed_bids'
+  | 'impressions_exceed_wins'
+  | 'unknown_dimension'
+  | 'invalid_hour';
+
+export interface RowRejectionReason {
+  rule: RowRejectionRule;
+  field: string; // Raw API field, e.g. WINS or COUNTRY
+  message: string;
+}
+
+// Rejected row count per rule (a row failing two rules counts under both)
+export type RejectionSummary = Partial<Record<RowRejectionRule, number>>;
+
+export interface LimelightRejectedRow {
+  id: number;
+  sync_log_id: number | null;
+  source: string;
+  account: string;
+  day: string | null;
+  dimension_set: string;
+  rules: RowRejectionRule[];
+  reasons: RowRejectionReason[];
+  raw: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface RejectedRowsReport {
+  rows: LimelightRejectedRow[];
+  total: number;
+  byRule: RejectionSummary;
+}
+
+// ============================================
+// Entity Registry (demand partners / publishers)
+// ============================================
+export type EntityKind = 'demand_partner' | 'publisher';
+
+export interface EntityRecord {
+  // IDs are only unique within one Limelight account
+  account: string;
+  id: number; // Limelight DEMAND_ID / PUBLISHER_ID
+  name: string;
+  contact_name: string | null;
+  contact_email: string | null;
+  rev_share_pct: number | null;
+  tier: string | null;
+  notes: string | null;
+  first_seen: string | null;
+  last_seen: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EntityAlias {
+  name: string;
+  first_seen: string | null;
+  last_seen: string | null;
+}
+
+export interface EntityWithAliases extends EntityRecord {
+  aliases: EntityAlias[];
+}
+
+// Fields an admin can edit
+export type EntityMetadata = Pick<EntityRecord, 'contact_name' | 'contact_email' | 'rev_share_pct' | 'tier' | 'notes'>;
+
+// ============================================
+// Limelight Accounts
+// ============================================
+// Admin view of a stored seat; credentials are never sent to the browser
+export interface LimelightAccountSummary {
+  id: number;
+  slug: string;
+  label: string;
+  api_url: string | null;
+  client_key_hint: string | null;
+  is_active: boolean;
+  last_synced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================
+// Dimension Sets
+// ============================================
+// A registered Limelight breakdown. The core set lives in limelight_stats;
+// every other set has its own stats_<dimensions> rollup table.
+export interface DimensionSet {
+  id: number;
+  set_key: string; // e.g. 'DATE,BUNDLE'
+  dimensions: string[]; // DATE first
+  table_name: string;
+  label: string;
+  is_core: boolean;
+  is_active: boolean;
+  sort_order: number;
+  last_synced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One group from agg_rollup: the requested dimension columns plus summed metrics
+export interface DimensionAggregateRow {
+  date?: string;
+  demand_partner_id?: number | null;
+  demand_partner_name?: string;
+  publisher_id?: number | null;
+  publisher?: string;
+  bundle?: string;
+  ad_unit_type?: string;
+  channel_type?: string;
+  os?: string;
+  country?: string;
+  opportunities: number;
+  bid_requests: number;
+  bids: number;
+  wins: number;
+  impressions: number;
+  pub_payout: number;
+  demand_payout: number;
+  demand_service_fee: number;
+  bid_response_timeouts: number;
+  bid_response_errors: number;
+}
+
+// ============================================
+// Stats Cache Lineage
+// ============================================
+// What a data_cache entry was built from, returned with every stats payload
+export interface CacheLineage {
+  // Latest finished sync_logs run when the entry was computed
+  syncLogId: number | null;
+  // Stored-stats dates read, including any previous-period window
+  sourceStart: string | null;
+  sourceEnd: string | null;
+  sourceTables: string[];
+  computeMs: number | null;
+  updatedAt: string;
+}
+
+export interface CacheRefreshResult {
+  recomputed: number;
+  unchanged: number;
+  durationMs: number;
+}
+
+// ============================================
+// Period Comparison
+// ============================================
+// previous: the equal-length window before; month/year: the same dates
+// one month / one year earlier
+export type CompareMode = 'previous' | 'month' | 'year';
+
+// Percent change per numeric field; null when the comparison value was 0
+// or the row did not exist in the comparison window
+export type MetricDeltas = Record<string, number | null>;
+
+// Added to every object in a stats payload when ?compare= is set
+export interface WithDeltas {
+  deltas?: MetricDeltas;
+  // Daily series only: the matching day of the comparison window
+  previous?: Record<string, number | string>;
+}
+
+export interface StatsComparison {
+  mode: CompareMode;
+  startDate: string;
+  endDate: string;
+}
+
+// ============================================
+// Stats Table Paging
+// ============================================
+// Server-side search, minimum-volume filters, sort and paging over a
+// stats table (bundles, ad sizes)
+export interface StatsTableQuery {
+  search: string;
+  minImpressions: number;
+  minRevenue: number;
+  sort: string;
+  sortDesc: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface StatsTablePage {
+  // Rows left after search and filters
+  totalRows: number;
+  limit: number;
+  offset: number;
+}
+
+// Totals of every filtered row outside the current page
+export type LongTail<T> = T & { count: number };
+
+// ============================================
+// Supply Quality Model
+// ============================================
+export type QualityMetric =
+  | 'bidRate'
+  | 'winRate'
+  | 'fillRate'
+  | 'successRate'
+  | 'timeoutRate'
+  | 'errorRate'
+  | 'ivtRate';
+
+// A rate reaching optimal scores the full component; for lower-is-better
+// rates (timeouts, errors, IVT) the score falls to 0 at worst
+export interface QualityComponentConfig {
+  metric: QualityMetric;
+  weight: number;
+  optimal: number;
+  worst?: number;
+}
+
+export interface QualityModel {
+  components: QualityComponentConfig[];
+  // Score change against the previous window that counts as a trend
+  trendThreshold: number;
+  highThreshold: number;
+  lowThreshold: number;
+}
+
+// How one component of a publisher's score came about. points is what it
+// added to the score; impact is how far that is above (or below) the
+// average publisher's points for the same component.
+export interface QualityComponentScore {
+  metric: QualityMetric;
+  label: string;
+  // Rate in percent; null when there is no data for it (e.g. no pixel traffic)
+  value: number | null;
+  weight: number;
+  normalized: number;
+  points: number;
+  maxPoints: number;
+  impact: number;
+}
+
+export interface PublisherQualityHistoryPoint {
+  date: string;
+  qualityScore: number;
+  impressions: number;
+  revenue: number;
+  components: QualityComponentScore[];
+}
+
+// ============================================
+// Revenue Concentration
+// ============================================
+export type ConcentrationRisk = 'low' | 'medium' | 'high';
+
+// Share of entities (smallest first) against the share of revenue they hold, in percent
+export interface LorenzPoint {
+  population: number;
+  revenue: number;
+}
+
+export interface ConcentrationHistoryPoint {
+  date: string;
+  entities: number;
+  revenue: number;
+  hhi: number;
+  top5Share: number;
+  top10Share: number;
+  gini: number;
+}
+
+export interface EntityRef {
+  id: number | null;
+  name: string;
+}
+
+export interface ChurnScenarioTotals {
+  revenue: number;
+  demandHhi: number;
+  publisherHhi: number;
+  demandRisk: ConcentrationRisk;
+  publisherRisk: ConcentrationRisk;
+}
+
+// A remaining demand partner that could pick up impressions the removed
+// partners won on the publishers it already bids on
+export interface ChurnAbsorber extends EntityRef {
+  currentRevenue: number;
+  absorbedImpressions: number;
+  absorbedRevenue: number;
+  projectedRevenue: number;
+}
+
+export interface ChurnPublisherImpact extends EntityRef {
+  lostRevenue: number;
+  absorbedRevenue: number;
+}
+
+export interface ChurnSimulation {
+  startDate: string;
+  endDate: string;
+  removed: { demandPartners: EntityRef[]; publishers: EntityRef[] };
+  baseline: ChurnScenarioTotals;
+  projected: ChurnScenarioTotals;
+  lostRevenue: number;
+  absorbedRevenue: number;
+  // Impressions the removed partners won on publishers that stay, which
+  // other partners could take over
+  displacedImpressions: number;
+  absorbedImpressions: number;
+  absorptionRate: number;
+  absorbers: ChurnAbsorber[];
+  publishers: ChurnPublisherImpact[];
+}
+
+// ============================================
+// Pivot
+// ============================================
+export type PivotMetric =
+  | 'opportunities' | 'bid_requests' | 'bids' | 'wins' | 'impressions'
+  | 'pub_payout' | 'demand_payout' | 'demand_service_fee'
+  | 'bid_response_timeouts' | 'bid_response_errors'
+  | 'ecpm' | 'fill_rate' | 'bid_rate' | 'win_rate' | 'timeout_rate';
+
+export interface PivotFilter {
+  dimension: string;
+  mode: 'include' | 'exclude';
+  values: string[];
+}
+
+export interface PivotThreshold {
+  metric: PivotMetric;
+  op: '>' | '>=' | '<' | '<=' | '=' | '<>';
+  value: number;
+}
+
+// What a saved view stores; the date range is relative so views stay current
+export interface PivotConfig {
+  dimensions: string[];
+  metrics: PivotMetric[];
+  filters: PivotFilter[];
+  thresholds: PivotThreshold[];
+  sort: string; // a metric or a grouped dimension
+  sortDesc: boolean;
+  period: number; // days, ending yesterday
+}
+
+export interface PivotQuery extends Omit<PivotConfig, 'period' | 'metrics'> {
+  startDate: string;
+  endDate: string;
+  source: string | null;
+  account: string | null;
+  limit: number;
+  offset: number;
+}
+
+// Grouped dimension columns plus every metric
+export type PivotRow = DimensionAggregateRow & Record<PivotMetric, number>;
+
+export interface PivotResult {
+  setKey: string;
+  tableName: string;
+  startDate: string;
+  endDate: string;
+  rows: PivotRow[];
+  totalRows: number;
+  totals: Record<PivotMetric, number>;
+  limit: number;
+  offset: number;
+}
+
+export interface PivotView {
+  id: number;
+  name: string;
+  config: PivotConfig;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================
 // User / Auth Types
 // ============================================
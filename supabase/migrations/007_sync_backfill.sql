@@ -0,0 +1,44 @@
+-- ============================================
+-- Resumable Limelight backfill
+-- A backfill job is a sync_logs row (sync_type = 'backfill').
+-- Progress is checkpointed per day and per dimension set so a job
+-- that hits the function timeout resumes on the next cron tick.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.sync_backfill_progress (
+  id BIGSERIAL PRIMARY KEY,
+  sync_log_id INTEGER NOT NULL REFERENCES public.sync_logs(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  dimension_set TEXT NOT NULL,
+  set_order INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'failed')),
+  rows_synced INTEGER DEFAULT 0,
+  attempts INTEGER DEFAULT 0,
+  error_message TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(sync_log_id, day, dimension_set)
+);
+
+-- Work queue lookup: next pending item of a job, core dimension set first
+CREATE INDEX IF NOT EXISTS idx_backfill_progress_queue
+  ON public.sync_backfill_progress(sync_log_id, status, set_order, day);
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_type_status
+  ON public.sync_logs(sync_type, status);
+
+ALTER TABLE public.sync_backfill_progress ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'sync_backfill_progress' AND policyname = 'Authenticated users can read backfill progress') THEN
+    CREATE POLICY "Authenticated users can read backfill progress" ON public.sync_backfill_progress
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'sync_backfill_progress' AND policyname = 'Service role can manage backfill progress') THEN
+    CREATE POLICY "Service role can manage backfill progress" ON public.sync_backfill_progress
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
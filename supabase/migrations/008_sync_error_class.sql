@@ -0,0 +1,19 @@
+-- ============================================
+-- Limelight error classification
+-- error_class holds the typed error of a failed call
+-- (auth, rate_limit, server_error, network, api_error,
+--  malformed_payload, empty_day, budget_exhausted, unknown)
+-- so failed syncs can be alerted on by class.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS error_class TEXT;
+
+ALTER TABLE public.sync_backfill_progress
+  ADD COLUMN IF NOT EXISTS error_class TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_error_class
+  ON public.sync_logs(error_class, started_at DESC)
+  WHERE error_class IS NOT NULL;
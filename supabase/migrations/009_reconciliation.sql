@@ -0,0 +1,96 @@
+-- ============================================
+-- Nightly reconciliation against Limelight restatements
+-- Each run re-pulls a rolling window at DATE,DEMAND level and compares it
+-- with limelight_stats per day and demand partner. Every drifted
+-- day/partner is recorded in reconciliation_diffs; days past the threshold
+-- are re-synced through a backfill job (sync_logs.sync_type = 'backfill').
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_runs (
+  id BIGSERIAL PRIMARY KEY,
+  window_start DATE NOT NULL,
+  window_end DATE NOT NULL,
+  threshold_pct NUMERIC(6,2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  days_checked INTEGER DEFAULT 0,
+  days_drifted INTEGER DEFAULT 0,
+  days_resynced INTEGER DEFAULT 0,
+  stored_revenue NUMERIC(14,4) DEFAULT 0,
+  api_revenue NUMERIC(14,4) DEFAULT 0,
+  stored_impressions BIGINT DEFAULT 0,
+  api_impressions BIGINT DEFAULT 0,
+  error_message TEXT,
+  error_class TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_diffs (
+  id BIGSERIAL PRIMARY KEY,
+  run_id BIGINT NOT NULL REFERENCES public.reconciliation_runs(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  demand_partner_name TEXT NOT NULL,
+  stored_impressions BIGINT DEFAULT 0,
+  api_impressions BIGINT DEFAULT 0,
+  stored_revenue NUMERIC(14,4) DEFAULT 0,
+  api_revenue NUMERIC(14,4) DEFAULT 0,
+  impressions_drift_pct NUMERIC(10,2),
+  revenue_drift_pct NUMERIC(10,2),
+  resynced BOOLEAN DEFAULT false,
+  backfill_job_id INTEGER REFERENCES public.sync_logs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started
+  ON public.reconciliation_runs(started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_diffs_run
+  ON public.reconciliation_diffs(run_id, day);
+
+-- Stored totals per day and demand partner. Only rows of the core
+-- dimension set carry a demand partner; the extra sets (DATE,BUNDLE /
+-- DATE,SIZE) store '' and are excluded so nothing is double counted.
+CREATE OR REPLACE FUNCTION get_partner_day_totals(
+  p_start DATE,
+  p_end DATE
+)
+RETURNS TABLE(date DATE, demand_partner_name TEXT, impressions BIGINT, revenue NUMERIC)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.date,
+    s.demand_partner_name,
+    SUM(s.impressions)::BIGINT AS impressions,
+    SUM(s.demand_payout) AS revenue
+  FROM limelight_stats s
+  WHERE s.date >= p_start
+    AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+  GROUP BY s.date, s.demand_partner_name
+$$;
+
+ALTER TABLE public.reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reconciliation_diffs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_runs' AND policyname = 'Authenticated users can read reconciliation runs') THEN
+    CREATE POLICY "Authenticated users can read reconciliation runs" ON public.reconciliation_runs
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_runs' AND policyname = 'Service role can manage reconciliation runs') THEN
+    CREATE POLICY "Service role can manage reconciliation runs" ON public.reconciliation_runs
+      FOR ALL TO service_role USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_diffs' AND policyname = 'Authenticated users can read reconciliation diffs') THEN
+    CREATE POLICY "Authenticated users can read reconciliation diffs" ON public.reconciliation_diffs
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_diffs' AND policyname = 'Service role can manage reconciliation diffs') THEN
+    CREATE POLICY "Service role can manage reconciliation diffs" ON public.reconciliation_diffs
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
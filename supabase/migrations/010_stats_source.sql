@@ -0,0 +1,175 @@
+-- ============================================
+-- Multiple stats sources in limelight_stats
+-- Every row records the source it came from ('limelight', or another
+-- exchange registered in src/lib/sources). source is part of the unique
+-- key, so two sources reporting the same partner/day do not overwrite
+-- each other. The aggregate functions take an optional p_source;
+-- NULL means all sources combined.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+ALTER TABLE public.limelight_stats
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'limelight';
+
+-- Replace the original unique key with one that includes source
+DO $$
+DECLARE
+  old_constraint TEXT;
+BEGIN
+  FOR old_constraint IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'public.limelight_stats'::regclass
+      AND contype = 'u'
+      AND conname <> 'limelight_stats_source_unique'
+  LOOP
+    EXECUTE format('ALTER TABLE public.limelight_stats DROP CONSTRAINT %I', old_constraint);
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'limelight_stats_source_unique') THEN
+    ALTER TABLE public.limelight_stats ADD CONSTRAINT limelight_stats_source_unique
+      UNIQUE (source, date, demand_partner_name, supply_partner_name, publisher, bundle, ad_unit_type, os, country);
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_limelight_stats_source_date
+  ON public.limelight_stats(source, date);
+
+-- ============================================
+-- Aggregates used by the cache refresh (src/lib/cache/compute.ts)
+-- The two-argument versions are dropped so calls without p_source are
+-- not ambiguous between the old and new signatures.
+-- Each function only reads rows of the dimension set that populates its
+-- grouping column, so rows from other sets are never double counted.
+-- ============================================
+
+DROP FUNCTION IF EXISTS agg_by_demand_partner(DATE, DATE);
+DROP FUNCTION IF EXISTS agg_by_publisher(DATE, DATE);
+DROP FUNCTION IF EXISTS agg_by_date(DATE, DATE);
+DROP FUNCTION IF EXISTS agg_by_bundle(DATE, DATE);
+DROP FUNCTION IF EXISTS agg_by_ad_unit_type(DATE, DATE);
+DROP FUNCTION IF EXISTS agg_by_demand_publisher(DATE, DATE);
+DROP FUNCTION IF EXISTS agg_by_demand_partner(TEXT, TEXT);
+DROP FUNCTION IF EXISTS agg_by_publisher(TEXT, TEXT);
+DROP FUNCTION IF EXISTS agg_by_date(TEXT, TEXT);
+DROP FUNCTION IF EXISTS agg_by_bundle(TEXT, TEXT);
+DROP FUNCTION IF EXISTS agg_by_ad_unit_type(TEXT, TEXT);
+DROP FUNCTION IF EXISTS agg_by_demand_publisher(TEXT, TEXT);
+DROP FUNCTION IF EXISTS get_partner_day_totals(DATE, DATE);
+
+CREATE OR REPLACE FUNCTION agg_by_demand_partner(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_name,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.demand_partner_name
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.publisher,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.publisher <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.publisher
+$$;
+
+-- Daily totals come from the core set (rows with a demand partner)
+CREATE OR REPLACE FUNCTION agg_by_date(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.date,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.date
+  ORDER BY s.date
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_bundle(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.bundle,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.bundle <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.bundle
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_ad_unit_type(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.ad_unit_type,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.ad_unit_type <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.ad_unit_type
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_demand_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(demand_partner TEXT, publisher TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_name, s.publisher,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> '' AND s.publisher <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.demand_partner_name, s.publisher
+$$;
+
+-- Reconciliation compares one source at a time
+CREATE OR REPLACE FUNCTION get_partner_day_totals(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, demand_partner_name TEXT, impressions BIGINT, revenue NUMERIC)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.date,
+    s.demand_partner_name,
+    SUM(s.impressions)::BIGINT AS impressions,
+    SUM(s.demand_payout) AS revenue
+  FROM limelight_stats s
+  WHERE s.date >= p_start
+    AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.date, s.demand_partner_name
+$$;
@@ -0,0 +1,37 @@
+-- ============================================
+-- Manual CSV/XLSX report upload
+-- Column mappings can be saved as named templates and reused for the
+-- next file from the same partner. Each import is recorded in sync_logs
+-- with sync_type = 'upload'.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.upload_mapping_templates (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  source TEXT NOT NULL DEFAULT 'upload',
+  -- { "<limelight_stats field>": "<file column header>" }
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS file_name TEXT;
+
+ALTER TABLE public.upload_mapping_templates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'upload_mapping_templates' AND policyname = 'Authenticated users can read upload templates') THEN
+    CREATE POLICY "Authenticated users can read upload templates" ON public.upload_mapping_templates
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'upload_mapping_templates' AND policyname = 'Service role can manage upload templates') THEN
+    CREATE POLICY "Service role can manage upload templates" ON public.upload_mapping_templates
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
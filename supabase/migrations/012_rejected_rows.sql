@@ -0,0 +1,62 @@
+-- ============================================
+-- Quarantine for rows that fail validation during sync
+-- (negative or non-numeric metrics, wins > bids, impressions > wins,
+-- missing dates and unknown dimension values). Rejected rows are kept
+-- as received instead of being stored as zeros in limelight_stats.
+-- Each re-sync of a day/dimension set replaces that slice.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.limelight_rejected_rows (
+  id BIGSERIAL PRIMARY KEY,
+  sync_log_id INTEGER REFERENCES public.sync_logs(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'limelight',
+  -- Day that was requested (the row's own DATE may be missing or invalid)
+  day DATE NOT NULL,
+  dimension_set TEXT NOT NULL,
+  -- Distinct rule codes, for filtering and counting
+  rules TEXT[] NOT NULL,
+  -- [{ "rule", "field", "message" }]
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  raw JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rejected_rows_slice
+  ON public.limelight_rejected_rows(source, day, dimension_set);
+CREATE INDEX IF NOT EXISTS idx_rejected_rows_sync_log
+  ON public.limelight_rejected_rows(sync_log_id);
+CREATE INDEX IF NOT EXISTS idx_rejected_rows_rules
+  ON public.limelight_rejected_rows USING GIN (rules);
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS rows_rejected INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rejection_summary JSONB;
+
+ALTER TABLE public.sync_backfill_progress
+  ADD COLUMN IF NOT EXISTS rows_rejected INTEGER DEFAULT 0;
+
+ALTER TABLE public.limelight_rejected_rows ENABLE ROW LEVEL SECURITY;
+
+-- Admin-only: read through the service role after a role check
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'limelight_rejected_rows' AND policyname = 'Service role can manage rejected rows') THEN
+    CREATE POLICY "Service role can manage rejected rows" ON public.limelight_rejected_rows
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
+
+-- Rejected row count per rule for the admin view
+CREATE OR REPLACE FUNCTION get_rejected_row_summary(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(rule TEXT, row_count BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT r.rule, COUNT(*)::BIGINT
+  FROM limelight_rejected_rows t, UNNEST(t.rules) AS r(rule)
+  WHERE t.day >= p_start AND t.day <= p_end
+    AND (p_source IS NULL OR t.source = p_source)
+  GROUP BY r.rule
+$$;
@@ -0,0 +1,380 @@
+-- ============================================
+-- Demand partner and publisher registry
+-- Keyed by Limelight's DEMAND_ID / PUBLISHER_ID so a rename in Limelight
+-- no longer splits a partner's history. Every name an ID has been seen
+-- under is kept as an alias. limelight_stats rows point at the registry
+-- and always carry the entity's current name; the aggregate functions
+-- group by ID and report the registry name.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.demand_partners (
+  id BIGINT PRIMARY KEY, -- Limelight DEMAND_ID
+  name TEXT NOT NULL,    -- Current display name
+  contact_name TEXT,
+  contact_email TEXT,
+  rev_share_pct NUMERIC(5,2),
+  tier TEXT,
+  notes TEXT,
+  first_seen DATE,
+  last_seen DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.demand_partner_aliases (
+  partner_id BIGINT NOT NULL REFERENCES public.demand_partners(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  first_seen DATE,
+  last_seen DATE,
+  PRIMARY KEY (partner_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.publishers (
+  id BIGINT PRIMARY KEY, -- Limelight PUBLISHER_ID
+  name TEXT NOT NULL,    -- Current display name
+  contact_name TEXT,
+  contact_email TEXT,
+  rev_share_pct NUMERIC(5,2),
+  tier TEXT,
+  notes TEXT,
+  first_seen DATE,
+  last_seen DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.publisher_aliases (
+  publisher_id BIGINT NOT NULL REFERENCES public.publishers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  first_seen DATE,
+  last_seen DATE,
+  PRIMARY KEY (publisher_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_demand_partner_aliases_name ON public.demand_partner_aliases(name);
+CREATE INDEX IF NOT EXISTS idx_publisher_aliases_name ON public.publisher_aliases(name);
+
+-- NULL for sources without Limelight IDs and for dimension sets that do
+-- not include the entity
+ALTER TABLE public.limelight_stats
+  ADD COLUMN IF NOT EXISTS demand_partner_id BIGINT,
+  ADD COLUMN IF NOT EXISTS publisher_id BIGINT;
+
+CREATE INDEX IF NOT EXISTS idx_stats_demand_partner_id ON public.limelight_stats(demand_partner_id);
+CREATE INDEX IF NOT EXISTS idx_stats_publisher_id ON public.limelight_stats(publisher_id);
+
+ALTER TABLE public.demand_partners ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.demand_partner_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.publishers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.publisher_aliases ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'demand_partners' AND policyname = 'Authenticated users can read demand partners') THEN
+    CREATE POLICY "Authenticated users can read demand partners" ON public.demand_partners
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'demand_partners' AND policyname = 'Service role can manage demand partners') THEN
+    CREATE POLICY "Service role can manage demand partners" ON public.demand_partners
+      FOR ALL TO service_role USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'demand_partner_aliases' AND policyname = 'Authenticated users can read demand partner aliases') THEN
+    CREATE POLICY "Authenticated users can read demand partner aliases" ON public.demand_partner_aliases
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'demand_partner_aliases' AND policyname = 'Service role can manage demand partner aliases') THEN
+    CREATE POLICY "Service role can manage demand partner aliases" ON public.demand_partner_aliases
+      FOR ALL TO service_role USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'publishers' AND policyname = 'Authenticated users can read publishers') THEN
+    CREATE POLICY "Authenticated users can read publishers" ON public.publishers
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'publishers' AND policyname = 'Service role can manage publishers') THEN
+    CREATE POLICY "Service role can manage publishers" ON public.publishers
+      FOR ALL TO service_role USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'publisher_aliases' AND policyname = 'Authenticated users can read publisher aliases') THEN
+    CREATE POLICY "Authenticated users can read publisher aliases" ON public.publisher_aliases
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'publisher_aliases' AND policyname = 'Service role can manage publisher aliases') THEN
+    CREATE POLICY "Service role can manage publisher aliases" ON public.publisher_aliases
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
+
+-- ============================================
+-- Stored rows follow the registry name
+-- Rewrites every Limelight row stored under one of the entity's aliases
+-- (or already pointing at its ID) to the current name and ID. Where a row
+-- under the current name already exists for the same key, that row came
+-- from a later pull and the alias row is dropped instead of double counted.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_demand_partner_name(p_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_name TEXT;
+  v_updated INTEGER;
+BEGIN
+  SELECT name INTO v_name FROM demand_partners WHERE id = p_id;
+  IF v_name IS NULL THEN RETURN 0; END IF;
+
+  DELETE FROM limelight_stats o
+  USING limelight_stats n
+  WHERE o.source = 'limelight'
+    AND o.demand_partner_name <> v_name
+    AND (o.demand_partner_id = p_id OR (o.demand_partner_id IS NULL AND o.demand_partner_name IN (
+      SELECT a.name FROM demand_partner_aliases a WHERE a.partner_id = p_id)))
+    AND n.source = o.source AND n.date = o.date
+    AND n.demand_partner_name = v_name
+    AND n.supply_partner_name = o.supply_partner_name AND n.publisher = o.publisher
+    AND n.bundle = o.bundle AND n.ad_unit_type = o.ad_unit_type
+    AND n.os = o.os AND n.country = o.country;
+
+  UPDATE limelight_stats o
+  SET demand_partner_name = v_name, demand_partner_id = p_id
+  WHERE o.source = 'limelight'
+    AND (o.demand_partner_id = p_id OR (o.demand_partner_id IS NULL AND o.demand_partner_name IN (
+      SELECT a.name FROM demand_partner_aliases a WHERE a.partner_id = p_id)))
+    AND (o.demand_partner_name <> v_name OR o.demand_partner_id IS NULL);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END
+$$;
+
+CREATE OR REPLACE FUNCTION apply_publisher_name(p_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_name TEXT;
+  v_updated INTEGER;
+BEGIN
+  SELECT name INTO v_name FROM publishers WHERE id = p_id;
+  IF v_name IS NULL THEN RETURN 0; END IF;
+
+  DELETE FROM limelight_stats o
+  USING limelight_stats n
+  WHERE o.source = 'limelight'
+    AND o.publisher <> v_name
+    AND (o.publisher_id = p_id OR (o.publisher_id IS NULL AND o.publisher IN (
+      SELECT a.name FROM publisher_aliases a WHERE a.publisher_id = p_id)))
+    AND n.source = o.source AND n.date = o.date
+    AND n.publisher = v_name
+    AND n.demand_partner_name = o.demand_partner_name AND n.supply_partner_name = o.supply_partner_name
+    AND n.bundle = o.bundle AND n.ad_unit_type = o.ad_unit_type
+    AND n.os = o.os AND n.country = o.country;
+
+  UPDATE limelight_stats o
+  SET publisher = v_name, publisher_id = p_id
+  WHERE o.source = 'limelight'
+    AND (o.publisher_id = p_id OR (o.publisher_id IS NULL AND o.publisher IN (
+      SELECT a.name FROM publisher_aliases a WHERE a.publisher_id = p_id)))
+    AND (o.publisher <> v_name OR o.publisher_id IS NULL);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END
+$$;
+
+-- ============================================
+-- Registration from sync
+-- p_entries: [{ "id": 12, "name": "Acme", "day": "2026-01-31" }]
+-- New IDs are created, every (id, name) pair is recorded as an alias, and
+-- a name seen on a day at or after the entity's last_seen becomes its
+-- current name. New and renamed entities have their stored rows rewritten.
+-- Returns the current name of every ID in the input.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION register_demand_partners(p_entries JSONB)
+RETURNS TABLE(id BIGINT, name TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_apply BIGINT;
+BEGIN
+  CREATE TEMP TABLE IF NOT EXISTS _entity_entries (id BIGINT, name TEXT, day DATE) ON COMMIT DROP;
+  TRUNCATE _entity_entries;
+  INSERT INTO _entity_entries
+  SELECT (e->>'id')::BIGINT, e->>'name', (e->>'day')::DATE
+  FROM jsonb_array_elements(p_entries) e
+  WHERE e->>'id' IS NOT NULL AND COALESCE(e->>'name', '') <> '';
+
+  -- IDs whose stored rows need rewriting: new ones (to attach rows synced
+  -- before the registry) and renamed ones
+  CREATE TEMP TABLE IF NOT EXISTS _entity_apply (id BIGINT) ON COMMIT DROP;
+  TRUNCATE _entity_apply;
+
+  INSERT INTO _entity_apply
+  SELECT DISTINCT x.id FROM _entity_entries x
+  WHERE NOT EXISTS (SELECT 1 FROM demand_partners dp WHERE dp.id = x.id);
+
+  -- Latest name per ID in this batch
+  INSERT INTO _entity_apply
+  SELECT latest.id
+  FROM (
+    SELECT DISTINCT ON (x.id) x.id, x.name, x.day FROM _entity_entries x ORDER BY x.id, x.day DESC
+  ) latest
+  JOIN demand_partners dp ON dp.id = latest.id
+  WHERE dp.name <> latest.name AND latest.day >= COALESCE(dp.last_seen, latest.day);
+
+  INSERT INTO demand_partners AS dp (id, name, first_seen, last_seen)
+  SELECT DISTINCT ON (x.id) x.id, x.name, MIN(x.day) OVER (PARTITION BY x.id), MAX(x.day) OVER (PARTITION BY x.id)
+  FROM _entity_entries x
+  ORDER BY x.id, x.day DESC
+  ON CONFLICT (id) DO UPDATE SET
+    name = CASE WHEN EXCLUDED.last_seen >= COALESCE(dp.last_seen, EXCLUDED.last_seen) THEN EXCLUDED.name ELSE dp.name END,
+    first_seen = LEAST(dp.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(dp.last_seen, EXCLUDED.last_seen),
+    updated_at = CASE WHEN dp.name <> EXCLUDED.name AND EXCLUDED.last_seen >= COALESCE(dp.last_seen, EXCLUDED.last_seen) THEN NOW() ELSE dp.updated_at END;
+
+  INSERT INTO demand_partner_aliases AS a (partner_id, name, first_seen, last_seen)
+  SELECT x.id, x.name, MIN(x.day), MAX(x.day)
+  FROM _entity_entries x
+  GROUP BY x.id, x.name
+  ON CONFLICT (partner_id, name) DO UPDATE SET
+    first_seen = LEAST(a.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(a.last_seen, EXCLUDED.last_seen);
+
+  FOR v_apply IN SELECT r.id FROM _entity_apply r LOOP
+    PERFORM apply_demand_partner_name(v_apply);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT dp.id, dp.name FROM demand_partners dp
+  WHERE dp.id IN (SELECT DISTINCT x.id FROM _entity_entries x);
+END
+$$;
+
+CREATE OR REPLACE FUNCTION register_publishers(p_entries JSONB)
+RETURNS TABLE(id BIGINT, name TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_apply BIGINT;
+BEGIN
+  CREATE TEMP TABLE IF NOT EXISTS _entity_entries (id BIGINT, name TEXT, day DATE) ON COMMIT DROP;
+  TRUNCATE _entity_entries;
+  INSERT INTO _entity_entries
+  SELECT (e->>'id')::BIGINT, e->>'name', (e->>'day')::DATE
+  FROM jsonb_array_elements(p_entries) e
+  WHERE e->>'id' IS NOT NULL AND COALESCE(e->>'name', '') <> '';
+
+  CREATE TEMP TABLE IF NOT EXISTS _entity_apply (id BIGINT) ON COMMIT DROP;
+  TRUNCATE _entity_apply;
+
+  INSERT INTO _entity_apply
+  SELECT DISTINCT x.id FROM _entity_entries x
+  WHERE NOT EXISTS (SELECT 1 FROM publishers p WHERE p.id = x.id);
+
+  INSERT INTO _entity_apply
+  SELECT latest.id
+  FROM (
+    SELECT DISTINCT ON (x.id) x.id, x.name, x.day FROM _entity_entries x ORDER BY x.id, x.day DESC
+  ) latest
+  JOIN publishers p ON p.id = latest.id
+  WHERE p.name <> latest.name AND latest.day >= COALESCE(p.last_seen, latest.day);
+
+  INSERT INTO publishers AS p (id, name, first_seen, last_seen)
+  SELECT DISTINCT ON (x.id) x.id, x.name, MIN(x.day) OVER (PARTITION BY x.id), MAX(x.day) OVER (PARTITION BY x.id)
+  FROM _entity_entries x
+  ORDER BY x.id, x.day DESC
+  ON CONFLICT (id) DO UPDATE SET
+    name = CASE WHEN EXCLUDED.last_seen >= COALESCE(p.last_seen, EXCLUDED.last_seen) THEN EXCLUDED.name ELSE p.name END,
+    first_seen = LEAST(p.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(p.last_seen, EXCLUDED.last_seen),
+    updated_at = CASE WHEN p.name <> EXCLUDED.name AND EXCLUDED.last_seen >= COALESCE(p.last_seen, EXCLUDED.last_seen) THEN NOW() ELSE p.updated_at END;
+
+  INSERT INTO publisher_aliases AS a (publisher_id, name, first_seen, last_seen)
+  SELECT x.id, x.name, MIN(x.day), MAX(x.day)
+  FROM _entity_entries x
+  GROUP BY x.id, x.name
+  ON CONFLICT (publisher_id, name) DO UPDATE SET
+    first_seen = LEAST(a.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(a.last_seen, EXCLUDED.last_seen);
+
+  FOR v_apply IN SELECT r.id FROM _entity_apply r LOOP
+    PERFORM apply_publisher_name(v_apply);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT p.id, p.name FROM publishers p
+  WHERE p.id IN (SELECT DISTINCT x.id FROM _entity_entries x);
+END
+$$;
+
+-- ============================================
+-- Aggregates grouped by entity ID
+-- Rows without an ID (other sources, data synced before the registry)
+-- are grouped by name as before. The return types gain id columns, so
+-- the previous versions are dropped first.
+-- ============================================
+
+DROP FUNCTION IF EXISTS agg_by_demand_partner(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_publisher(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_demand_publisher(DATE, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION agg_by_demand_partner(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_id,
+    COALESCE(dp.name, s.demand_partner_name),
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  LEFT JOIN demand_partners dp ON dp.id = s.demand_partner_id
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.publisher_id,
+    COALESCE(p.name, s.publisher),
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  LEFT JOIN publishers p ON p.id = s.publisher_id
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.publisher <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.publisher_id, COALESCE(p.name, s.publisher)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_demand_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL)
+RETURNS TABLE(demand_partner_id BIGINT, demand_partner TEXT, publisher_id BIGINT, publisher TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name),
+    s.publisher_id, COALESCE(p.name, s.publisher),
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  LEFT JOIN demand_partners dp ON dp.id = s.demand_partner_id
+  LEFT JOIN publishers p ON p.id = s.publisher_id
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> '' AND s.publisher <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+  GROUP BY s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name), s.publisher_id, COALESCE(p.name, s.publisher)
+$$;
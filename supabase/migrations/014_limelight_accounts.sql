@@ -0,0 +1,446 @@
+-- ============================================
+-- Multiple Limelight accounts (seats)
+-- Credentials are stored in limelight_accounts, encrypted by the app
+-- (AES-256-GCM, key in INTEGRATIONS_ENCRYPTION_KEY); only the service
+-- role can read the table. Every Limelight row records the account it
+-- came from. Existing rows belong to 'default', the account configured
+-- through LIMELIGHT_CLIENT_KEY / LIMELIGHT_SECRET_KEY.
+-- Demand partner and publisher IDs are only unique within one seat, so
+-- the registry is re-keyed by (account, id).
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.limelight_accounts (
+  id BIGSERIAL PRIMARY KEY,
+  -- Stored in limelight_stats.account; must never change once data exists
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9][a-z0-9_-]*$'),
+  label TEXT NOT NULL,
+  -- NULL uses LIMELIGHT_API_URL
+  api_url TEXT,
+  client_key_encrypted TEXT NOT NULL,
+  secret_key_encrypted TEXT NOT NULL,
+  -- Last characters of the client key, for display only
+  client_key_hint TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_synced_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.limelight_accounts ENABLE ROW LEVEL SECURITY;
+
+-- No read policy for authenticated users: credentials stay server-side
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'limelight_accounts' AND policyname = 'Service role can manage limelight accounts') THEN
+    CREATE POLICY "Service role can manage limelight accounts" ON public.limelight_accounts
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
+
+-- ============================================
+-- account column ('' for sources other than Limelight)
+-- ============================================
+
+ALTER TABLE public.limelight_stats
+  ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT '';
+
+UPDATE public.limelight_stats SET account = 'default'
+WHERE source = 'limelight' AND account = '';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'limelight_stats_account_unique') THEN
+    ALTER TABLE public.limelight_stats DROP CONSTRAINT IF EXISTS limelight_stats_source_unique;
+    ALTER TABLE public.limelight_stats ADD CONSTRAINT limelight_stats_account_unique
+      UNIQUE (source, account, date, demand_partner_name, supply_partner_name, publisher, bundle, ad_unit_type, os, country);
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_limelight_stats_source_account_date
+  ON public.limelight_stats(source, account, date);
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS account TEXT;
+
+ALTER TABLE public.reconciliation_runs
+  ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT 'default';
+
+ALTER TABLE public.limelight_rejected_rows
+  ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT '';
+
+UPDATE public.limelight_rejected_rows SET account = 'default'
+WHERE source = 'limelight' AND account = '';
+
+-- ============================================
+-- Registry keyed by (account, id)
+-- ============================================
+
+ALTER TABLE public.demand_partners ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE public.demand_partner_aliases ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE public.publishers ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE public.publisher_aliases ADD COLUMN IF NOT EXISTS account TEXT NOT NULL DEFAULT 'default';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'demand_partners_account_pkey') THEN
+    ALTER TABLE public.demand_partner_aliases DROP CONSTRAINT IF EXISTS demand_partner_aliases_partner_id_fkey;
+    ALTER TABLE public.demand_partner_aliases DROP CONSTRAINT IF EXISTS demand_partner_aliases_pkey;
+    ALTER TABLE public.demand_partners DROP CONSTRAINT IF EXISTS demand_partners_pkey;
+    ALTER TABLE public.demand_partners ADD CONSTRAINT demand_partners_account_pkey PRIMARY KEY (account, id);
+    ALTER TABLE public.demand_partner_aliases ADD CONSTRAINT demand_partner_aliases_account_pkey
+      PRIMARY KEY (account, partner_id, name);
+    ALTER TABLE public.demand_partner_aliases ADD CONSTRAINT demand_partner_aliases_account_fkey
+      FOREIGN KEY (account, partner_id) REFERENCES public.demand_partners(account, id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'publishers_account_pkey') THEN
+    ALTER TABLE public.publisher_aliases DROP CONSTRAINT IF EXISTS publisher_aliases_publisher_id_fkey;
+    ALTER TABLE public.publisher_aliases DROP CONSTRAINT IF EXISTS publisher_aliases_pkey;
+    ALTER TABLE public.publishers DROP CONSTRAINT IF EXISTS publishers_pkey;
+    ALTER TABLE public.publishers ADD CONSTRAINT publishers_account_pkey PRIMARY KEY (account, id);
+    ALTER TABLE public.publisher_aliases ADD CONSTRAINT publisher_aliases_account_pkey
+      PRIMARY KEY (account, publisher_id, name);
+    ALTER TABLE public.publisher_aliases ADD CONSTRAINT publisher_aliases_account_fkey
+      FOREIGN KEY (account, publisher_id) REFERENCES public.publishers(account, id) ON DELETE CASCADE;
+  END IF;
+END
+$$;
+
+DROP FUNCTION IF EXISTS apply_demand_partner_name(BIGINT);
+DROP FUNCTION IF EXISTS apply_publisher_name(BIGINT);
+DROP FUNCTION IF EXISTS register_demand_partners(JSONB);
+DROP FUNCTION IF EXISTS register_publishers(JSONB);
+
+CREATE OR REPLACE FUNCTION apply_demand_partner_name(p_account TEXT, p_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_name TEXT;
+  v_updated INTEGER;
+BEGIN
+  SELECT name INTO v_name FROM demand_partners WHERE account = p_account AND id = p_id;
+  IF v_name IS NULL THEN RETURN 0; END IF;
+
+  DELETE FROM limelight_stats o
+  USING limelight_stats n
+  WHERE o.source = 'limelight' AND o.account = p_account
+    AND o.demand_partner_name <> v_name
+    AND (o.demand_partner_id = p_id OR (o.demand_partner_id IS NULL AND o.demand_partner_name IN (
+      SELECT a.name FROM demand_partner_aliases a WHERE a.account = p_account AND a.partner_id = p_id)))
+    AND n.source = o.source AND n.account = o.account AND n.date = o.date
+    AND n.demand_partner_name = v_name
+    AND n.supply_partner_name = o.supply_partner_name AND n.publisher = o.publisher
+    AND n.bundle = o.bundle AND n.ad_unit_type = o.ad_unit_type
+    AND n.os = o.os AND n.country = o.country;
+
+  UPDATE limelight_stats o
+  SET demand_partner_name = v_name, demand_partner_id = p_id
+  WHERE o.source = 'limelight' AND o.account = p_account
+    AND (o.demand_partner_id = p_id OR (o.demand_partner_id IS NULL AND o.demand_partner_name IN (
+      SELECT a.name FROM demand_partner_aliases a WHERE a.account = p_account AND a.partner_id = p_id)))
+    AND (o.demand_partner_name <> v_name OR o.demand_partner_id IS NULL);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END
+$$;
+
+CREATE OR REPLACE FUNCTION apply_publisher_name(p_account TEXT, p_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_name TEXT;
+  v_updated INTEGER;
+BEGIN
+  SELECT name INTO v_name FROM publishers WHERE account = p_account AND id = p_id;
+  IF v_name IS NULL THEN RETURN 0; END IF;
+
+  DELETE FROM limelight_stats o
+  USING limelight_stats n
+  WHERE o.source = 'limelight' AND o.account = p_account
+    AND o.publisher <> v_name
+    AND (o.publisher_id = p_id OR (o.publisher_id IS NULL AND o.publisher IN (
+      SELECT a.name FROM publisher_aliases a WHERE a.account = p_account AND a.publisher_id = p_id)))
+    AND n.source = o.source AND n.account = o.account AND n.date = o.date
+    AND n.publisher = v_name
+    AND n.demand_partner_name = o.demand_partner_name AND n.supply_partner_name = o.supply_partner_name
+    AND n.bundle = o.bundle AND n.ad_unit_type = o.ad_unit_type
+    AND n.os = o.os AND n.country = o.country;
+
+  UPDATE limelight_stats o
+  SET publisher = v_name, publisher_id = p_id
+  WHERE o.source = 'limelight' AND o.account = p_account
+    AND (o.publisher_id = p_id OR (o.publisher_id IS NULL AND o.publisher IN (
+      SELECT a.name FROM publisher_aliases a WHERE a.account = p_account AND a.publisher_id = p_id)))
+    AND (o.publisher <> v_name OR o.publisher_id IS NULL);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END
+$$;
+
+-- Same rules as in 013, scoped to one account
+CREATE OR REPLACE FUNCTION register_demand_partners(p_account TEXT, p_entries JSONB)
+RETURNS TABLE(id BIGINT, name TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_apply BIGINT;
+BEGIN
+  CREATE TEMP TABLE IF NOT EXISTS _entity_entries (id BIGINT, name TEXT, day DATE) ON COMMIT DROP;
+  TRUNCATE _entity_entries;
+  INSERT INTO _entity_entries
+  SELECT (e->>'id')::BIGINT, e->>'name', (e->>'day')::DATE
+  FROM jsonb_array_elements(p_entries) e
+  WHERE e->>'id' IS NOT NULL AND COALESCE(e->>'name', '') <> '';
+
+  CREATE TEMP TABLE IF NOT EXISTS _entity_apply (id BIGINT) ON COMMIT DROP;
+  TRUNCATE _entity_apply;
+
+  INSERT INTO _entity_apply
+  SELECT DISTINCT x.id FROM _entity_entries x
+  WHERE NOT EXISTS (SELECT 1 FROM demand_partners dp WHERE dp.account = p_account AND dp.id = x.id);
+
+  INSERT INTO _entity_apply
+  SELECT latest.id
+  FROM (
+    SELECT DISTINCT ON (x.id) x.id, x.name, x.day FROM _entity_entries x ORDER BY x.id, x.day DESC
+  ) latest
+  JOIN demand_partners dp ON dp.account = p_account AND dp.id = latest.id
+  WHERE dp.name <> latest.name AND latest.day >= COALESCE(dp.last_seen, latest.day);
+
+  INSERT INTO demand_partners AS dp (account, id, name, first_seen, last_seen)
+  SELECT DISTINCT ON (x.id) p_account, x.id, x.name, MIN(x.day) OVER (PARTITION BY x.id), MAX(x.day) OVER (PARTITION BY x.id)
+  FROM _entity_entries x
+  ORDER BY x.id, x.day DESC
+  ON CONFLICT (account, id) DO UPDATE SET
+    name = CASE WHEN EXCLUDED.last_seen >= COALESCE(dp.last_seen, EXCLUDED.last_seen) THEN EXCLUDED.name ELSE dp.name END,
+    first_seen = LEAST(dp.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(dp.last_seen, EXCLUDED.last_seen),
+    updated_at = CASE WHEN dp.name <> EXCLUDED.name AND EXCLUDED.last_seen >= COALESCE(dp.last_seen, EXCLUDED.last_seen) THEN NOW() ELSE dp.updated_at END;
+
+  INSERT INTO demand_partner_aliases AS a (account, partner_id, name, first_seen, last_seen)
+  SELECT p_account, x.id, x.name, MIN(x.day), MAX(x.day)
+  FROM _entity_entries x
+  GROUP BY x.id, x.name
+  ON CONFLICT (account, partner_id, name) DO UPDATE SET
+    first_seen = LEAST(a.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(a.last_seen, EXCLUDED.last_seen);
+
+  FOR v_apply IN SELECT r.id FROM _entity_apply r LOOP
+    PERFORM apply_demand_partner_name(p_account, v_apply);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT dp.id, dp.name FROM demand_partners dp
+  WHERE dp.account = p_account AND dp.id IN (SELECT DISTINCT x.id FROM _entity_entries x);
+END
+$$;
+
+CREATE OR REPLACE FUNCTION register_publishers(p_account TEXT, p_entries JSONB)
+RETURNS TABLE(id BIGINT, name TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_apply BIGINT;
+BEGIN
+  CREATE TEMP TABLE IF NOT EXISTS _entity_entries (id BIGINT, name TEXT, day DATE) ON COMMIT DROP;
+  TRUNCATE _entity_entries;
+  INSERT INTO _entity_entries
+  SELECT (e->>'id')::BIGINT, e->>'name', (e->>'day')::DATE
+  FROM jsonb_array_elements(p_entries) e
+  WHERE e->>'id' IS NOT NULL AND COALESCE(e->>'name', '') <> '';
+
+  CREATE TEMP TABLE IF NOT EXISTS _entity_apply (id BIGINT) ON COMMIT DROP;
+  TRUNCATE _entity_apply;
+
+  INSERT INTO _entity_apply
+  SELECT DISTINCT x.id FROM _entity_entries x
+  WHERE NOT EXISTS (SELECT 1 FROM publishers p WHERE p.account = p_account AND p.id = x.id);
+
+  INSERT INTO _entity_apply
+  SELECT latest.id
+  FROM (
+    SELECT DISTINCT ON (x.id) x.id, x.name, x.day FROM _entity_entries x ORDER BY x.id, x.day DESC
+  ) latest
+  JOIN publishers p ON p.account = p_account AND p.id = latest.id
+  WHERE p.name <> latest.name AND latest.day >= COALESCE(p.last_seen, latest.day);
+
+  INSERT INTO publishers AS p (account, id, name, first_seen, last_seen)
+  SELECT DISTINCT ON (x.id) p_account, x.id, x.name, MIN(x.day) OVER (PARTITION BY x.id), MAX(x.day) OVER (PARTITION BY x.id)
+  FROM _entity_entries x
+  ORDER BY x.id, x.day DESC
+  ON CONFLICT (account, id) DO UPDATE SET
+    name = CASE WHEN EXCLUDED.last_seen >= COALESCE(p.last_seen, EXCLUDED.last_seen) THEN EXCLUDED.name ELSE p.name END,
+    first_seen = LEAST(p.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(p.last_seen, EXCLUDED.last_seen),
+    updated_at = CASE WHEN p.name <> EXCLUDED.name AND EXCLUDED.last_seen >= COALESCE(p.last_seen, EXCLUDED.last_seen) THEN NOW() ELSE p.updated_at END;
+
+  INSERT INTO publisher_aliases AS a (account, publisher_id, name, first_seen, last_seen)
+  SELECT p_account, x.id, x.name, MIN(x.day), MAX(x.day)
+  FROM _entity_entries x
+  GROUP BY x.id, x.name
+  ON CONFLICT (account, publisher_id, name) DO UPDATE SET
+    first_seen = LEAST(a.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(a.last_seen, EXCLUDED.last_seen);
+
+  FOR v_apply IN SELECT r.id FROM _entity_apply r LOOP
+    PERFORM apply_publisher_name(p_account, v_apply);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT p.id, p.name FROM publishers p
+  WHERE p.account = p_account AND p.id IN (SELECT DISTINCT x.id FROM _entity_entries x);
+END
+$$;
+
+-- ============================================
+-- Aggregates with an optional account filter
+-- p_account NULL means every account; it only narrows Limelight rows,
+-- so it is used together with p_source = 'limelight'.
+-- ============================================
+
+DROP FUNCTION IF EXISTS agg_by_demand_partner(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_publisher(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_date(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_bundle(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_ad_unit_type(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS agg_by_demand_publisher(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS get_partner_day_totals(DATE, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION agg_by_demand_partner(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_id,
+    COALESCE(dp.name, s.demand_partner_name),
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  LEFT JOIN demand_partners dp ON dp.account = s.account AND dp.id = s.demand_partner_id
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.publisher_id,
+    COALESCE(p.name, s.publisher),
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  LEFT JOIN publishers p ON p.account = s.account AND p.id = s.publisher_id
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.publisher <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.publisher_id, COALESCE(p.name, s.publisher)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_date(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.date,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.date
+  ORDER BY s.date
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_bundle(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.bundle,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.bundle <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.bundle
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_ad_unit_type(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.ad_unit_type,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.ad_unit_type <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.ad_unit_type
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_demand_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(demand_partner_id BIGINT, demand_partner TEXT, publisher_id BIGINT, publisher TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name),
+    s.publisher_id, COALESCE(p.name, s.publisher),
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout), SUM(s.pub_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.bids)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.opportunities)::BIGINT,
+    SUM(s.bid_response_timeouts)::BIGINT, SUM(s.bid_response_errors)::BIGINT
+  FROM limelight_stats s
+  LEFT JOIN demand_partners dp ON dp.account = s.account AND dp.id = s.demand_partner_id
+  LEFT JOIN publishers p ON p.account = s.account AND p.id = s.publisher_id
+  WHERE s.date >= p_start AND s.date <= p_end
+    AND s.demand_partner_name <> '' AND s.publisher <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name), s.publisher_id, COALESCE(p.name, s.publisher)
+$$;
+
+CREATE OR REPLACE FUNCTION get_partner_day_totals(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, demand_partner_name TEXT, impressions BIGINT, revenue NUMERIC)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.date,
+    s.demand_partner_name,
+    SUM(s.impressions)::BIGINT AS impressions,
+    SUM(s.demand_payout) AS revenue
+  FROM limelight_stats s
+  WHERE s.date >= p_start
+    AND s.date <= p_end
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.date, s.demand_partner_name
+$$;
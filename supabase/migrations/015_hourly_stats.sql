@@ -0,0 +1,125 @@
+-- ============================================
+-- Hourly stats for today's intraday view and same-day alerts
+-- Filled by the optional hourly sync (LIMELIGHT_HOURLY_SYNC=true) with
+-- DATE,HOUR,DEMAND,PUBLISHER breakdowns. Hours are UTC, like Limelight's
+-- dates. Only kept for a short window: the daily table stays the source
+-- of truth once a day is complete.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.limelight_stats_hourly (
+  id BIGSERIAL PRIMARY KEY,
+  source TEXT NOT NULL DEFAULT 'limelight',
+  account TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  hour SMALLINT NOT NULL CHECK (hour BETWEEN 0 AND 23),
+  demand_partner_id BIGINT,
+  demand_partner_name TEXT NOT NULL DEFAULT '',
+  publisher_id BIGINT,
+  publisher TEXT NOT NULL DEFAULT '',
+  opportunities BIGINT DEFAULT 0,
+  bid_requests BIGINT DEFAULT 0,
+  bids BIGINT DEFAULT 0,
+  wins BIGINT DEFAULT 0,
+  impressions BIGINT DEFAULT 0,
+  pub_payout DECIMAL(14,4) DEFAULT 0,
+  demand_payout DECIMAL(14,4) DEFAULT 0,
+  demand_service_fee DECIMAL(14,4) DEFAULT 0,
+  bid_response_timeouts BIGINT DEFAULT 0,
+  bid_response_errors BIGINT DEFAULT 0,
+  synced_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT limelight_stats_hourly_unique
+    UNIQUE (source, account, date, hour, demand_partner_name, publisher)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stats_hourly_date
+  ON public.limelight_stats_hourly(date, hour);
+
+ALTER TABLE public.limelight_stats_hourly ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'limelight_stats_hourly' AND policyname = 'Authenticated users can read hourly stats') THEN
+    CREATE POLICY "Authenticated users can read hourly stats" ON public.limelight_stats_hourly
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'limelight_stats_hourly' AND policyname = 'Service role can manage hourly stats') THEN
+    CREATE POLICY "Service role can manage hourly stats" ON public.limelight_stats_hourly
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
+
+-- Alerts from the hourly evaluation are told apart from the 7-day ones
+ALTER TABLE public.alerts
+  ADD COLUMN IF NOT EXISTS partner TEXT,
+  ADD COLUMN IF NOT EXISTS granularity TEXT NOT NULL DEFAULT 'daily';
+
+-- ============================================
+-- Totals per hour for a set of days (today and the same day last week)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION agg_hourly_totals(p_dates DATE[], p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, hour SMALLINT, impressions BIGINT, revenue NUMERIC, bid_requests BIGINT, wins BIGINT, timeouts BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.date, s.hour,
+    SUM(s.impressions)::BIGINT, SUM(s.demand_payout),
+    SUM(s.bid_requests)::BIGINT, SUM(s.wins)::BIGINT, SUM(s.bid_response_timeouts)::BIGINT
+  FROM limelight_stats_hourly s
+  WHERE s.date = ANY(p_dates)
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.date, s.hour
+  ORDER BY s.date, s.hour
+$$;
+
+-- ============================================
+-- Per-partner comparison of one day against another, over hours
+-- 0..p_through_hour. The "recent" columns cover only the last
+-- p_recent_hours of that range, so an outage shows up even when the
+-- partner had a good morning.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION agg_hourly_partner_compare(
+  p_date DATE,
+  p_compare_date DATE,
+  p_through_hour SMALLINT,
+  p_recent_hours SMALLINT,
+  p_source TEXT DEFAULT NULL,
+  p_account TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id BIGINT, name TEXT,
+  revenue NUMERIC, prev_revenue NUMERIC,
+  impressions BIGINT, prev_impressions BIGINT,
+  bid_requests BIGINT, prev_bid_requests BIGINT,
+  timeouts BIGINT, prev_timeouts BIGINT,
+  recent_revenue NUMERIC, prev_recent_revenue NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    s.demand_partner_id,
+    COALESCE(dp.name, s.demand_partner_name),
+    SUM(s.demand_payout) FILTER (WHERE s.date = p_date),
+    SUM(s.demand_payout) FILTER (WHERE s.date = p_compare_date),
+    SUM(s.impressions) FILTER (WHERE s.date = p_date)::BIGINT,
+    SUM(s.impressions) FILTER (WHERE s.date = p_compare_date)::BIGINT,
+    SUM(s.bid_requests) FILTER (WHERE s.date = p_date)::BIGINT,
+    SUM(s.bid_requests) FILTER (WHERE s.date = p_compare_date)::BIGINT,
+    SUM(s.bid_response_timeouts) FILTER (WHERE s.date = p_date)::BIGINT,
+    SUM(s.bid_response_timeouts) FILTER (WHERE s.date = p_compare_date)::BIGINT,
+    SUM(s.demand_payout) FILTER (WHERE s.date = p_date AND s.hour > p_through_hour - p_recent_hours),
+    SUM(s.demand_payout) FILTER (WHERE s.date = p_compare_date AND s.hour > p_through_hour - p_recent_hours)
+  FROM limelight_stats_hourly s
+  LEFT JOIN demand_partners dp ON dp.account = s.account AND dp.id = s.demand_partner_id
+  WHERE s.date IN (p_date, p_compare_date)
+    AND s.hour <= p_through_hour
+    AND s.demand_partner_name <> ''
+    AND (p_source IS NULL OR s.source = p_source)
+    AND (p_account IS NULL OR s.account = p_account)
+  GROUP BY s.demand_partner_id, COALESCE(dp.name, s.demand_partner_name)
+$$;
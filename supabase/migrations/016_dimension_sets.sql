@@ -0,0 +1,307 @@
+-- ============================================
+-- Dimension-set registry and rollup tables
+-- Every Limelight dimension set other than the core one (DATE, DEMAND,
+-- PUBLISHER) now lives in its own stats_<dimensions> table instead of
+-- limelight_stats, so summing limelight_stats no longer counts the same
+-- revenue once per set. Admins register sets in the UI; each set gets its
+-- table from create_rollup_table() and is synced on its own.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.dimension_sets (
+  id BIGSERIAL PRIMARY KEY,
+  -- e.g. 'DATE,BUNDLE'; same format as sync_backfill_progress.dimension_set
+  set_key TEXT NOT NULL UNIQUE,
+  dimensions TEXT[] NOT NULL,
+  table_name TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  -- The core set is stored in limelight_stats and cannot be removed
+  is_core BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 100,
+  last_synced_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.dimension_sets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'dimension_sets' AND policyname = 'Authenticated users can read dimension sets') THEN
+    CREATE POLICY "Authenticated users can read dimension sets" ON public.dimension_sets
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'dimension_sets' AND policyname = 'Service role can manage dimension sets') THEN
+    CREATE POLICY "Service role can manage dimension sets" ON public.dimension_sets
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
+
+-- ============================================
+-- Rollup table DDL
+-- One column per dimension (the same names as limelight_stats). Demand
+-- partners and publishers are keyed by Limelight ID (0 when the row had
+-- none), so a rename never splits a key; names are display values joined
+-- from the registry at query time.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION create_rollup_table(p_table TEXT, p_dimensions TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dim TEXT;
+  v_columns TEXT := '';
+  v_key TEXT := 'source, account, date';
+BEGIN
+  IF p_table !~ '^stats_[a-z_]+$' THEN
+    RAISE EXCEPTION 'Invalid rollup table name: %', p_table;
+  END IF;
+
+  FOREACH v_dim IN ARRAY p_dimensions LOOP
+    CASE v_dim
+      WHEN 'DATE' THEN
+        CONTINUE;
+      WHEN 'DEMAND' THEN
+        v_columns := v_columns || 'demand_partner_id BIGINT NOT NULL DEFAULT 0, demand_partner_name TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', demand_partner_id';
+      WHEN 'PUBLISHER' THEN
+        v_columns := v_columns || 'publisher_id BIGINT NOT NULL DEFAULT 0, publisher TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', publisher_id';
+      WHEN 'BUNDLE' THEN
+        v_columns := v_columns || 'bundle TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', bundle';
+      WHEN 'SIZE' THEN
+        v_columns := v_columns || 'ad_unit_type TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', ad_unit_type';
+      WHEN 'CHANNEL_TYPE' THEN
+        v_columns := v_columns || 'channel_type TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', channel_type';
+      WHEN 'OS' THEN
+        v_columns := v_columns || 'os TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', os';
+      WHEN 'COUNTRY' THEN
+        v_columns := v_columns || 'country TEXT NOT NULL DEFAULT '''', ';
+        v_key := v_key || ', country';
+      ELSE
+        RAISE EXCEPTION 'Unsupported rollup dimension: %', v_dim;
+    END CASE;
+  END LOOP;
+
+  EXECUTE format(
+    'CREATE TABLE IF NOT EXISTS public.%I (
+      id BIGSERIAL PRIMARY KEY,
+      source TEXT NOT NULL DEFAULT ''limelight'',
+      account TEXT NOT NULL DEFAULT '''',
+      date DATE NOT NULL,
+      %s
+      opportunities BIGINT DEFAULT 0,
+      bid_requests BIGINT DEFAULT 0,
+      bids BIGINT DEFAULT 0,
+      wins BIGINT DEFAULT 0,
+      impressions BIGINT DEFAULT 0,
+      pub_payout DECIMAL(14,4) DEFAULT 0,
+      demand_payout DECIMAL(14,4) DEFAULT 0,
+      demand_service_fee DECIMAL(14,4) DEFAULT 0,
+      bid_response_timeouts BIGINT DEFAULT 0,
+      bid_response_errors BIGINT DEFAULT 0,
+      synced_at TIMESTAMPTZ DEFAULT NOW(),
+      CONSTRAINT %I UNIQUE (%s)
+    )',
+    p_table, v_columns, p_table || '_unique', v_key
+  );
+  EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(date)', 'idx_' || p_table || '_date', p_table);
+  EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', p_table);
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = p_table AND policyname = 'Authenticated users can read rollup') THEN
+    EXECUTE format('CREATE POLICY "Authenticated users can read rollup" ON public.%I FOR SELECT TO authenticated USING (true)', p_table);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = p_table AND policyname = 'Service role can manage rollup') THEN
+    EXECUTE format('CREATE POLICY "Service role can manage rollup" ON public.%I FOR ALL TO service_role USING (true)', p_table);
+  END IF;
+
+  -- Let the REST API see the new table without a restart
+  NOTIFY pgrst, 'reload schema';
+END
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_rollup_table(TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Built-in sets: the core set plus the two extra sets the sync used to
+-- write into limelight_stats
+-- ============================================
+
+INSERT INTO public.dimension_sets (set_key, dimensions, table_name, label, is_core, sort_order) VALUES
+  ('DATE,DEMAND,PUBLISHER', ARRAY['DATE', 'DEMAND', 'PUBLISHER'], 'limelight_stats', 'Demand partner x publisher', TRUE, 0),
+  ('DATE,BUNDLE', ARRAY['DATE', 'BUNDLE'], 'stats_bundle', 'Bundles', FALSE, 1),
+  ('DATE,SIZE', ARRAY['DATE', 'SIZE'], 'stats_size', 'Ad sizes', FALSE, 2)
+ON CONFLICT (set_key) DO NOTHING;
+
+SELECT create_rollup_table('stats_bundle', ARRAY['DATE', 'BUNDLE']);
+SELECT create_rollup_table('stats_size', ARRAY['DATE', 'SIZE']);
+
+-- Move the existing BUNDLE / SIZE rows out of limelight_stats. Uploaded
+-- rows (other sources) stay where they are.
+INSERT INTO public.stats_bundle (source, account, date, bundle, opportunities, bid_requests, bids, wins, impressions,
+  pub_payout, demand_payout, demand_service_fee, bid_response_timeouts, bid_response_errors, synced_at)
+SELECT source, account, date, bundle,
+  SUM(opportunities), SUM(bid_requests), SUM(bids), SUM(wins), SUM(impressions),
+  SUM(pub_payout), SUM(demand_payout), SUM(demand_service_fee), SUM(bid_response_timeouts), SUM(bid_response_errors), MAX(synced_at)
+FROM public.limelight_stats
+WHERE source = 'limelight' AND demand_partner_name = '' AND publisher = '' AND bundle <> ''
+GROUP BY source, account, date, bundle
+ON CONFLICT ON CONSTRAINT stats_bundle_unique DO NOTHING;
+
+INSERT INTO public.stats_size (source, account, date, ad_unit_type, opportunities, bid_requests, bids, wins, impressions,
+  pub_payout, demand_payout, demand_service_fee, bid_response_timeouts, bid_response_errors, synced_at)
+SELECT source, account, date, ad_unit_type,
+  SUM(opportunities), SUM(bid_requests), SUM(bids), SUM(wins), SUM(impressions),
+  SUM(pub_payout), SUM(demand_payout), SUM(demand_service_fee), SUM(bid_response_timeouts), SUM(bid_response_errors), MAX(synced_at)
+FROM public.limelight_stats
+WHERE source = 'limelight' AND demand_partner_name = '' AND publisher = '' AND ad_unit_type <> ''
+GROUP BY source, account, date, ad_unit_type
+ON CONFLICT ON CONSTRAINT stats_size_unique DO NOTHING;
+
+DELETE FROM public.limelight_stats
+WHERE source = 'limelight' AND demand_partner_name = '' AND publisher = ''
+  AND (bundle <> '' OR ad_unit_type <> '');
+
+-- Replaced by agg_rollup, which picks the table from the registry
+DROP FUNCTION IF EXISTS agg_by_bundle(DATE, DATE, TEXT, TEXT);
+DROP FUNCTION IF EXISTS agg_by_ad_unit_type(DATE, DATE, TEXT, TEXT);
+
+-- ============================================
+-- Generic aggregate over a registered set's table
+-- Groups by any subset of the set's dimensions and returns one JSON
+-- object per group, keyed by column name (names joined from the entity
+-- registry). Rollup tables only hold Limelight rows, so rows of other
+-- sources that carry every requested dimension are read from
+-- limelight_stats alongside them.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION agg_rollup(
+  p_table TEXT,
+  p_group_by TEXT[],
+  p_start DATE,
+  p_end DATE,
+  p_source TEXT DEFAULT NULL,
+  p_account TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_dimensions TEXT[];
+  v_dim TEXT;
+  v_columns TEXT[] := ARRAY['source', 'account', 'date'];
+  v_fields TEXT[] := ARRAY[]::TEXT[];
+  v_group TEXT[] := ARRAY[]::TEXT[];
+  v_joins TEXT := '';
+  v_other_filter TEXT := '';
+  v_from TEXT;
+  v_sql TEXT;
+  v_metrics CONSTANT TEXT := 'opportunities, bid_requests, bids, wins, impressions, pub_payout, demand_payout, '
+    || 'demand_service_fee, bid_response_timeouts, bid_response_errors';
+BEGIN
+  SELECT dimensions INTO v_dimensions FROM dimension_sets WHERE table_name = p_table;
+  IF v_dimensions IS NULL THEN
+    RAISE EXCEPTION 'Unknown stats table: %', p_table;
+  END IF;
+  IF NOT (p_group_by <@ v_dimensions) THEN
+    RAISE EXCEPTION '% does not hold dimensions %', p_table, p_group_by;
+  END IF;
+
+  FOREACH v_dim IN ARRAY p_group_by LOOP
+    CASE v_dim
+      WHEN 'DATE' THEN
+        v_fields := v_fields || ARRAY['''date'', s.date'];
+        v_group := v_group || ARRAY['s.date'];
+      WHEN 'DEMAND' THEN
+        v_columns := v_columns || ARRAY['demand_partner_id', 'demand_partner_name'];
+        v_fields := v_fields || ARRAY['''demand_partner_id'', s.demand_partner_id', '''demand_partner_name'', COALESCE(dp.name, s.demand_partner_name)'];
+        v_group := v_group || ARRAY['s.demand_partner_id', 'COALESCE(dp.name, s.demand_partner_name)'];
+        v_joins := v_joins || ' LEFT JOIN demand_partners dp ON dp.account = s.account AND dp.id = s.demand_partner_id';
+        v_other_filter := v_other_filter || ' AND demand_partner_name <> ''''';
+      WHEN 'PUBLISHER' THEN
+        v_columns := v_columns || ARRAY['publisher_id', 'publisher'];
+        v_fields := v_fields || ARRAY['''publisher_id'', s.publisher_id', '''publisher'', COALESCE(p.name, s.publisher)'];
+        v_group := v_group || ARRAY['s.publisher_id', 'COALESCE(p.name, s.publisher)'];
+        v_joins := v_joins || ' LEFT JOIN publishers p ON p.account = s.account AND p.id = s.publisher_id';
+        v_other_filter := v_other_filter || ' AND publisher <> ''''';
+      WHEN 'BUNDLE' THEN
+        v_columns := v_columns || ARRAY['bundle'];
+        v_fields := v_fields || ARRAY['''bundle'', s.bundle'];
+        v_group := v_group || ARRAY['s.bundle'];
+        v_other_filter := v_other_filter || ' AND bundle <> ''''';
+      WHEN 'SIZE' THEN
+        v_columns := v_columns || ARRAY['ad_unit_type'];
+        v_fields := v_fields || ARRAY['''ad_unit_type'', s.ad_unit_type'];
+        v_group := v_group || ARRAY['s.ad_unit_type'];
+        v_other_filter := v_other_filter || ' AND ad_unit_type <> ''''';
+      WHEN 'CHANNEL_TYPE' THEN
+        v_columns := v_columns || ARRAY['channel_type'];
+        v_fields := v_fields || ARRAY['''channel_type'', s.channel_type'];
+        v_group := v_group || ARRAY['s.channel_type'];
+        v_other_filter := v_other_filter || ' AND channel_type <> ''''';
+      WHEN 'OS' THEN
+        v_columns := v_columns || ARRAY['os'];
+        v_fields := v_fields || ARRAY['''os'', s.os'];
+        v_group := v_group || ARRAY['s.os'];
+        v_other_filter := v_other_filter || ' AND os <> ''''';
+      WHEN 'COUNTRY' THEN
+        v_columns := v_columns || ARRAY['country'];
+        v_fields := v_fields || ARRAY['''country'', s.country'];
+        v_group := v_group || ARRAY['s.country'];
+        v_other_filter := v_other_filter || ' AND country <> ''''';
+      ELSE
+        RAISE EXCEPTION 'Unsupported dimension: %', v_dim;
+    END CASE;
+  END LOOP;
+
+  v_fields := v_fields || ARRAY[
+    '''opportunities'', SUM(s.opportunities)::BIGINT', '''bid_requests'', SUM(s.bid_requests)::BIGINT',
+    '''bids'', SUM(s.bids)::BIGINT', '''wins'', SUM(s.wins)::BIGINT', '''impressions'', SUM(s.impressions)::BIGINT',
+    '''pub_payout'', SUM(s.pub_payout)', '''demand_payout'', SUM(s.demand_payout)',
+    '''demand_service_fee'', SUM(s.demand_service_fee)', '''bid_response_timeouts'', SUM(s.bid_response_timeouts)::BIGINT',
+    '''bid_response_errors'', SUM(s.bid_response_errors)::BIGINT'
+  ];
+
+  IF p_table = 'limelight_stats' THEN
+    -- Core set: the same row filter as the agg_by_* functions
+    v_from := format(
+      'SELECT %s, %s FROM limelight_stats WHERE date >= $1 AND date <= $2 AND demand_partner_name <> ''''',
+      array_to_string(v_columns, ', '), v_metrics
+    );
+  ELSE
+    v_from := format(
+      'SELECT %1$s, %2$s FROM %3$I WHERE date >= $1 AND date <= $2
+       UNION ALL
+       SELECT %1$s, %2$s FROM limelight_stats WHERE source <> ''limelight'' AND date >= $1 AND date <= $2%4$s',
+      array_to_string(v_columns, ', '), v_metrics, p_table, v_other_filter
+    );
+  END IF;
+
+  v_sql := format(
+    'SELECT jsonb_build_object(%s) FROM (%s) s%s
+     WHERE ($3::TEXT IS NULL OR s.source = $3) AND ($4::TEXT IS NULL OR s.account = $4)
+     %s
+     ORDER BY SUM(s.demand_payout) DESC NULLS LAST
+     %s',
+    array_to_string(v_fields, ', '),
+    v_from,
+    v_joins,
+    CASE WHEN array_length(v_group, 1) > 0 THEN 'GROUP BY ' || array_to_string(v_group, ', ') ELSE '' END,
+    CASE WHEN p_limit IS NOT NULL THEN 'LIMIT ' || p_limit::INTEGER ELSE '' END
+  );
+
+  RETURN QUERY EXECUTE v_sql USING p_start, p_end, p_source, p_account;
+END
+$$;
@@ -0,0 +1,277 @@
+-- ============================================
+-- Ad-hoc pivot over stored stats
+-- agg_pivot() groups a registered set's table by any of its dimensions,
+-- applies include/exclude filters and metric thresholds, sorts and pages
+-- in SQL, and returns one JSON document with the page, the number of
+-- groups and their totals. Analysts can save pivot configurations as
+-- named views.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.pivot_views (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  -- PivotConfig: dimensions, metrics, filters, thresholds, sort, period
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.pivot_views ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'pivot_views' AND policyname = 'Authenticated users can read pivot views') THEN
+    CREATE POLICY "Authenticated users can read pivot views" ON public.pivot_views
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'pivot_views' AND policyname = 'Service role can manage pivot views') THEN
+    CREATE POLICY "Service role can manage pivot views" ON public.pivot_views
+      FOR ALL TO service_role USING (true);
+  END IF;
+END
+$$;
+
+-- ============================================
+-- p_filters:    [{"dimension": "COUNTRY", "mode": "include" | "exclude", "values": ["US", "GB"]}]
+--               Demand partners and publishers are matched by name.
+-- p_thresholds: [{"metric": "impressions", "op": ">=", "value": 1000}]
+-- p_sort:       a metric or a grouped dimension
+-- Metrics: the summed stats columns plus ecpm, fill_rate, bid_rate,
+-- win_rate and timeout_rate (percentages, as on the analysis pages).
+-- Like agg_rollup, rollup tables are read together with the rows of other
+-- sources in limelight_stats that carry the dimensions used.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION agg_pivot(
+  p_table TEXT,
+  p_group_by TEXT[],
+  p_start DATE,
+  p_end DATE,
+  p_source TEXT DEFAULT NULL,
+  p_account TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_thresholds JSONB DEFAULT '[]'::jsonb,
+  p_sort TEXT DEFAULT 'demand_payout',
+  p_sort_desc BOOLEAN DEFAULT TRUE,
+  p_limit INTEGER DEFAULT 100,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_dimensions TEXT[];
+  v_used TEXT[];
+  v_dim TEXT;
+  v_metric TEXT;
+  v_op TEXT;
+  v_i INTEGER;
+  v_columns TEXT[] := ARRAY['source', 'account', 'date'];
+  v_fields TEXT[] := ARRAY[]::TEXT[];
+  v_group TEXT[] := ARRAY[]::TEXT[];
+  v_totals TEXT[] := ARRAY[]::TEXT[];
+  v_joins TEXT := '';
+  v_other_filter TEXT := '';
+  v_where TEXT := '';
+  v_having TEXT[] := ARRAY[]::TEXT[];
+  v_sort_expr TEXT;
+  v_from TEXT;
+  v_sql TEXT;
+  v_result JSONB;
+  -- Expression a dimension is grouped, filtered and sorted on
+  v_dim_expr CONSTANT JSONB := jsonb_build_object(
+    'DATE', 's.date',
+    'DEMAND', 'COALESCE(dp.name, s.demand_partner_name)',
+    'PUBLISHER', 'COALESCE(p.name, s.publisher)',
+    'BUNDLE', 's.bundle',
+    'SIZE', 's.ad_unit_type',
+    'CHANNEL_TYPE', 's.channel_type',
+    'OS', 's.os',
+    'COUNTRY', 's.country'
+  );
+  -- Output key of the other dimensions
+  v_dim_field CONSTANT JSONB := jsonb_build_object(
+    'BUNDLE', 'bundle',
+    'SIZE', 'ad_unit_type',
+    'CHANNEL_TYPE', 'channel_type',
+    'OS', 'os',
+    'COUNTRY', 'country'
+  );
+  v_base_metrics CONSTANT TEXT[] := ARRAY[
+    'opportunities', 'bid_requests', 'bids', 'wins', 'impressions', 'pub_payout', 'demand_payout',
+    'demand_service_fee', 'bid_response_timeouts', 'bid_response_errors'
+  ];
+  v_metric_expr CONSTANT JSONB := jsonb_build_object(
+    'opportunities', 'SUM(s.opportunities)::NUMERIC',
+    'bid_requests', 'SUM(s.bid_requests)::NUMERIC',
+    'bids', 'SUM(s.bids)::NUMERIC',
+    'wins', 'SUM(s.wins)::NUMERIC',
+    'impressions', 'SUM(s.impressions)::NUMERIC',
+    'pub_payout', 'SUM(s.pub_payout)::NUMERIC',
+    'demand_payout', 'SUM(s.demand_payout)::NUMERIC',
+    'demand_service_fee', 'SUM(s.demand_service_fee)::NUMERIC',
+    'bid_response_timeouts', 'SUM(s.bid_response_timeouts)::NUMERIC',
+    'bid_response_errors', 'SUM(s.bid_response_errors)::NUMERIC',
+    'ecpm', 'COALESCE(SUM(s.demand_payout)::NUMERIC / NULLIF(SUM(s.impressions), 0) * 1000, 0)',
+    'fill_rate', 'COALESCE(SUM(s.impressions)::NUMERIC / NULLIF(SUM(s.bid_requests), 0) * 100, 0)',
+    'bid_rate', 'COALESCE(SUM(s.bids)::NUMERIC / NULLIF(SUM(s.bid_requests), 0) * 100, 0)',
+    'win_rate', 'COALESCE(SUM(s.wins)::NUMERIC / NULLIF(SUM(s.bids), 0) * 100, 0)',
+    'timeout_rate', 'COALESCE(SUM(s.bid_response_timeouts)::NUMERIC / NULLIF(SUM(s.bid_requests), 0) * 100, 0)'
+  );
+  v_metrics CONSTANT TEXT := 'opportunities, bid_requests, bids, wins, impressions, pub_payout, demand_payout, '
+    || 'demand_service_fee, bid_response_timeouts, bid_response_errors';
+BEGIN
+  SELECT dimensions INTO v_dimensions FROM dimension_sets WHERE table_name = p_table;
+  IF v_dimensions IS NULL THEN
+    RAISE EXCEPTION 'Unknown stats table: %', p_table;
+  END IF;
+
+  -- Dimensions that need columns: grouped or filtered on
+  SELECT ARRAY(
+    SELECT DISTINCT d FROM (
+      SELECT unnest(p_group_by) AS d
+      UNION
+      SELECT f->>'dimension' FROM jsonb_array_elements(p_filters) f
+    ) u
+  ) INTO v_used;
+  IF NOT (v_used <@ v_dimensions) THEN
+    RAISE EXCEPTION '% does not hold dimensions %', p_table, v_used;
+  END IF;
+
+  FOREACH v_dim IN ARRAY v_used LOOP
+    CASE v_dim
+      WHEN 'DATE' THEN
+        NULL;
+      WHEN 'DEMAND' THEN
+        v_columns := v_columns || ARRAY['demand_partner_id', 'demand_partner_name'];
+        v_joins := v_joins || ' LEFT JOIN demand_partners dp ON dp.account = s.account AND dp.id = s.demand_partner_id';
+        v_other_filter := v_other_filter || ' AND demand_partner_name <> ''''';
+      WHEN 'PUBLISHER' THEN
+        v_columns := v_columns || ARRAY['publisher_id', 'publisher'];
+        v_joins := v_joins || ' LEFT JOIN publishers p ON p.account = s.account AND p.id = s.publisher_id';
+        v_other_filter := v_other_filter || ' AND publisher <> ''''';
+      WHEN 'BUNDLE' THEN
+        v_columns := v_columns || ARRAY['bundle'];
+        v_other_filter := v_other_filter || ' AND bundle <> ''''';
+      WHEN 'SIZE' THEN
+        v_columns := v_columns || ARRAY['ad_unit_type'];
+        v_other_filter := v_other_filter || ' AND ad_unit_type <> ''''';
+      WHEN 'CHANNEL_TYPE' THEN
+        v_columns := v_columns || ARRAY['channel_type'];
+        v_other_filter := v_other_filter || ' AND channel_type <> ''''';
+      WHEN 'OS' THEN
+        v_columns := v_columns || ARRAY['os'];
+        v_other_filter := v_other_filter || ' AND os <> ''''';
+      WHEN 'COUNTRY' THEN
+        v_columns := v_columns || ARRAY['country'];
+        v_other_filter := v_other_filter || ' AND country <> ''''';
+      ELSE
+        RAISE EXCEPTION 'Unsupported dimension: %', v_dim;
+    END CASE;
+  END LOOP;
+
+  -- Grouped dimensions, in the requested order; entities keep their ID
+  FOREACH v_dim IN ARRAY p_group_by LOOP
+    CASE v_dim
+      WHEN 'DATE' THEN
+        v_fields := v_fields || ARRAY['''date'', s.date'];
+        v_group := v_group || ARRAY['s.date'];
+      WHEN 'DEMAND' THEN
+        v_fields := v_fields || ARRAY['''demand_partner_id'', s.demand_partner_id', '''demand_partner_name'', ' || (v_dim_expr->>v_dim)];
+        v_group := v_group || ARRAY['s.demand_partner_id', v_dim_expr->>v_dim];
+      WHEN 'PUBLISHER' THEN
+        v_fields := v_fields || ARRAY['''publisher_id'', s.publisher_id', '''publisher'', ' || (v_dim_expr->>v_dim)];
+        v_group := v_group || ARRAY['s.publisher_id', v_dim_expr->>v_dim];
+      ELSE
+        v_fields := v_fields || ARRAY[format('%L, %s', v_dim_field->>v_dim, v_dim_expr->>v_dim)];
+        v_group := v_group || ARRAY[v_dim_expr->>v_dim];
+    END CASE;
+  END LOOP;
+
+  FOR v_metric IN SELECT jsonb_object_keys(v_metric_expr) LOOP
+    v_fields := v_fields || ARRAY[format('%L, %s', v_metric, v_metric_expr->>v_metric)];
+  END LOOP;
+  FOREACH v_metric IN ARRAY v_base_metrics LOOP
+    v_totals := v_totals || ARRAY[format('%1$L, COALESCE(SUM((row->>%1$L)::NUMERIC), 0)', v_metric)];
+  END LOOP;
+
+  -- Filters and thresholds are read from the parameters, never inlined
+  FOR v_i IN 0 .. COALESCE(jsonb_array_length(p_filters), 0) - 1 LOOP
+    v_dim := p_filters->v_i->>'dimension';
+    v_where := v_where || format(
+      ' AND (%s)::TEXT %s (SELECT jsonb_array_elements_text($5->%s->''values''))',
+      v_dim_expr->>v_dim,
+      CASE WHEN p_filters->v_i->>'mode' = 'exclude' THEN 'NOT IN' ELSE 'IN' END,
+      v_i
+    );
+  END LOOP;
+
+  FOR v_i IN 0 .. COALESCE(jsonb_array_length(p_thresholds), 0) - 1 LOOP
+    v_metric := p_thresholds->v_i->>'metric';
+    v_op := p_thresholds->v_i->>'op';
+    IF NOT (v_metric_expr ? v_metric) THEN
+      RAISE EXCEPTION 'Unknown metric: %', v_metric;
+    END IF;
+    IF v_op IS NULL OR v_op NOT IN ('>', '>=', '<', '<=', '=', '<>') THEN
+      RAISE EXCEPTION 'Unsupported threshold operator: %', v_op;
+    END IF;
+    v_having := v_having || ARRAY[format('%s %s ($6->%s->>''value'')::NUMERIC', v_metric_expr->>v_metric, v_op, v_i)];
+  END LOOP;
+
+  IF v_metric_expr ? p_sort THEN
+    v_sort_expr := v_metric_expr->>p_sort;
+  ELSIF p_sort = ANY (p_group_by) THEN
+    v_sort_expr := (v_dim_expr->>p_sort) || '::TEXT';
+  ELSE
+    RAISE EXCEPTION 'Cannot sort by %', p_sort;
+  END IF;
+
+  IF p_table = 'limelight_stats' THEN
+    v_from := format(
+      'SELECT %s, %s FROM limelight_stats WHERE date >= $1 AND date <= $2 AND demand_partner_name <> ''''',
+      array_to_string(v_columns, ', '), v_metrics
+    );
+  ELSE
+    v_from := format(
+      'SELECT %1$s, %2$s FROM %3$I WHERE date >= $1 AND date <= $2
+       UNION ALL
+       SELECT %1$s, %2$s FROM limelight_stats WHERE source <> ''limelight'' AND date >= $1 AND date <= $2%4$s',
+      array_to_string(v_columns, ', '), v_metrics, p_table, v_other_filter
+    );
+  END IF;
+
+  v_sql := format(
+    'WITH g AS (
+       SELECT jsonb_build_object(%1$s) AS row, %2$s AS sort_key
+       FROM (%3$s) s%4$s
+       WHERE ($3::TEXT IS NULL OR s.source = $3) AND ($4::TEXT IS NULL OR s.account = $4)%5$s
+       %6$s
+       %7$s
+     )
+     SELECT jsonb_build_object(
+       ''total_rows'', (SELECT COUNT(*) FROM g),
+       ''totals'', (SELECT jsonb_build_object(%8$s) FROM g),
+       ''rows'', COALESCE((
+         SELECT jsonb_agg(row ORDER BY sort_key %9$s, row::TEXT)
+         FROM (SELECT row, sort_key FROM g ORDER BY sort_key %9$s, row::TEXT LIMIT $7 OFFSET $8) page
+       ), ''[]''::jsonb)
+     )',
+    array_to_string(v_fields, ', '),
+    v_sort_expr,
+    v_from,
+    v_joins,
+    v_where,
+    CASE WHEN array_length(v_group, 1) > 0 THEN 'GROUP BY ' || array_to_string(v_group, ', ') ELSE '' END,
+    CASE WHEN array_length(v_having, 1) > 0 THEN 'HAVING ' || array_to_string(v_having, ' AND ') ELSE '' END,
+    array_to_string(v_totals, ', '),
+    CASE WHEN p_sort_desc THEN 'DESC NULLS LAST' ELSE 'ASC NULLS LAST' END
+  );
+
+  EXECUTE v_sql INTO v_result
+    USING p_start, p_end, p_source, p_account, p_filters, p_thresholds, p_limit, p_offset;
+  RETURN v_result;
+END
+$$;
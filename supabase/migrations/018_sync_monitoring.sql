@@ -0,0 +1,62 @@
+-- ============================================
+-- Sync monitoring
+-- sync_logs.set_results records how each dimension set fared in a daily
+-- sync run (backfill jobs derive the same from sync_backfill_progress).
+-- get_sync_coverage() counts stored Limelight rows per day, account and
+-- active dimension set, for the coverage calendar on the Sync page.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+-- { "<set_key>": { status, rowsSynced, daysSynced, daysTotal, errors, error } }
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS set_results JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_started_at
+  ON public.sync_logs(started_at DESC);
+
+-- ============================================
+-- Coverage: one entry per (day, account, set) that has rows. Returned as
+-- a single JSONB array so a 90-day window across many sets and accounts
+-- is not cut off by the REST row limit.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_sync_coverage(p_start DATE, p_end DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_set RECORD;
+  v_part JSONB;
+  v_result JSONB := '[]'::JSONB;
+BEGIN
+  FOR v_set IN
+    SELECT set_key, table_name FROM public.dimension_sets WHERE is_active ORDER BY sort_order, id
+  LOOP
+    IF to_regclass('public.' || quote_ident(v_set.table_name)) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          ''date'', d, ''account'', a, ''set_key'', $3, ''rows'', n)), ''[]''::JSONB)
+       FROM (
+         SELECT date AS d, account AS a, COUNT(*) AS n
+         FROM public.%I
+         WHERE source = ''limelight'' AND date BETWEEN $1 AND $2
+         GROUP BY date, account
+       ) c',
+      v_set.table_name
+    )
+    INTO v_part
+    USING p_start, p_end, v_set.set_key;
+
+    v_result := v_result || v_part;
+  END LOOP;
+
+  RETURN v_result;
+END
+$$;
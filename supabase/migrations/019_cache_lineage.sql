@@ -0,0 +1,26 @@
+-- ============================================
+-- Stats cache lineage
+-- Every data_cache entry records what it was built from: the latest
+-- finished sync run, the stored-stats dates and tables it read and how
+-- long it took. refreshAllCaches compares this with the sync runs that
+-- finished since to recompute only the entries whose inputs changed.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.data_cache (
+  key TEXT PRIMARY KEY,
+  data JSONB,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.data_cache
+  ADD COLUMN IF NOT EXISTS sync_log_id INTEGER,
+  ADD COLUMN IF NOT EXISTS source_start DATE,
+  ADD COLUMN IF NOT EXISTS source_end DATE,
+  ADD COLUMN IF NOT EXISTS source_tables TEXT[],
+  ADD COLUMN IF NOT EXISTS compute_ms INTEGER;
+
+-- Runs finished since an entry was built
+CREATE INDEX IF NOT EXISTS idx_sync_logs_completed_at
+  ON public.sync_logs(completed_at DESC);
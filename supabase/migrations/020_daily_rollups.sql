@@ -0,0 +1,365 @@
+-- ============================================
+-- Daily rollups
+-- Per-day totals by demand partner, publisher, partner x publisher, bundle
+-- and ad size, kept up to date by every sync through
+-- refresh_daily_rollups() for the days it wrote. The agg_by_* functions
+-- read these instead of the raw stats, so long windows stay cheap, and
+-- the rollups are kept longer than the raw stats (see cleanupOldStats).
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+-- Demand partners and publishers are keyed by Limelight ID (0 when the
+-- row had none) plus the stored name; display names come from the
+-- registry at query time, as in agg_rollup.
+
+CREATE TABLE IF NOT EXISTS public.daily_partner_stats (
+  source TEXT NOT NULL,
+  account TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  demand_partner_id BIGINT NOT NULL DEFAULT 0,
+  demand_partner_name TEXT NOT NULL,
+  opportunities BIGINT DEFAULT 0,
+  bid_requests BIGINT DEFAULT 0,
+  bids BIGINT DEFAULT 0,
+  wins BIGINT DEFAULT 0,
+  impressions BIGINT DEFAULT 0,
+  pub_payout DECIMAL(14,4) DEFAULT 0,
+  demand_payout DECIMAL(14,4) DEFAULT 0,
+  bid_response_timeouts BIGINT DEFAULT 0,
+  bid_response_errors BIGINT DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, account, date, demand_partner_id, demand_partner_name)
+);
+
+CREATE TABLE IF NOT EXISTS public.daily_publisher_stats (
+  source TEXT NOT NULL,
+  account TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  publisher_id BIGINT NOT NULL DEFAULT 0,
+  publisher TEXT NOT NULL,
+  opportunities BIGINT DEFAULT 0,
+  bid_requests BIGINT DEFAULT 0,
+  bids BIGINT DEFAULT 0,
+  wins BIGINT DEFAULT 0,
+  impressions BIGINT DEFAULT 0,
+  pub_payout DECIMAL(14,4) DEFAULT 0,
+  demand_payout DECIMAL(14,4) DEFAULT 0,
+  bid_response_timeouts BIGINT DEFAULT 0,
+  bid_response_errors BIGINT DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, account, date, publisher_id, publisher)
+);
+
+CREATE TABLE IF NOT EXISTS public.daily_partner_publisher_stats (
+  source TEXT NOT NULL,
+  account TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  demand_partner_id BIGINT NOT NULL DEFAULT 0,
+  demand_partner_name TEXT NOT NULL,
+  publisher_id BIGINT NOT NULL DEFAULT 0,
+  publisher TEXT NOT NULL,
+  opportunities BIGINT DEFAULT 0,
+  bid_requests BIGINT DEFAULT 0,
+  bids BIGINT DEFAULT 0,
+  wins BIGINT DEFAULT 0,
+  impressions BIGINT DEFAULT 0,
+  pub_payout DECIMAL(14,4) DEFAULT 0,
+  demand_payout DECIMAL(14,4) DEFAULT 0,
+  bid_response_timeouts BIGINT DEFAULT 0,
+  bid_response_errors BIGINT DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, account, date, demand_partner_id, demand_partner_name, publisher_id, publisher)
+);
+
+CREATE TABLE IF NOT EXISTS public.daily_bundle_stats (
+  source TEXT NOT NULL,
+  account TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  bundle TEXT NOT NULL,
+  opportunities BIGINT DEFAULT 0,
+  bid_requests BIGINT DEFAULT 0,
+  bids BIGINT DEFAULT 0,
+  wins BIGINT DEFAULT 0,
+  impressions BIGINT DEFAULT 0,
+  pub_payout DECIMAL(14,4) DEFAULT 0,
+  demand_payout DECIMAL(14,4) DEFAULT 0,
+  bid_response_timeouts BIGINT DEFAULT 0,
+  bid_response_errors BIGINT DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, account, date, bundle)
+);
+
+CREATE TABLE IF NOT EXISTS public.daily_size_stats (
+  source TEXT NOT NULL,
+  account TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL,
+  ad_unit_type TEXT NOT NULL,
+  opportunities BIGINT DEFAULT 0,
+  bid_requests BIGINT DEFAULT 0,
+  bids BIGINT DEFAULT 0,
+  wins BIGINT DEFAULT 0,
+  impressions BIGINT DEFAULT 0,
+  pub_payout DECIMAL(14,4) DEFAULT 0,
+  demand_payout DECIMAL(14,4) DEFAULT 0,
+  bid_response_timeouts BIGINT DEFAULT 0,
+  bid_response_errors BIGINT DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, account, date, ad_unit_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_partner_stats_date ON public.daily_partner_stats(date);
+CREATE INDEX IF NOT EXISTS idx_daily_publisher_stats_date ON public.daily_publisher_stats(date);
+CREATE INDEX IF NOT EXISTS idx_daily_partner_publisher_stats_date ON public.daily_partner_publisher_stats(date);
+CREATE INDEX IF NOT EXISTS idx_daily_bundle_stats_date ON public.daily_bundle_stats(date);
+CREATE INDEX IF NOT EXISTS idx_daily_size_stats_date ON public.daily_size_stats(date);
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['daily_partner_stats', 'daily_publisher_stats', 'daily_partner_publisher_stats', 'daily_bundle_stats', 'daily_size_stats'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', v_table);
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = v_table AND policyname = 'Authenticated users can read daily rollup') THEN
+      EXECUTE format('CREATE POLICY "Authenticated users can read daily rollup" ON public.%I FOR SELECT TO authenticated USING (true)', v_table);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = v_table AND policyname = 'Service role can manage daily rollup') THEN
+      EXECUTE format('CREATE POLICY "Service role can manage daily rollup" ON public.%I FOR ALL TO service_role USING (true)', v_table);
+    END IF;
+  END LOOP;
+END
+$$;
+
+-- ============================================
+-- Rebuild the rollups for p_start..p_end from the stored stats
+-- Only days that still have stored rows are replaced, so refreshing a day
+-- the raw retention already removed keeps its rollups. Bundle and size
+-- rows come from the smallest active set holding the dimension (as
+-- pickDimensionSet chooses it), plus rows of other sources that carry it
+-- in limelight_stats, the same union agg_rollup reads.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION refresh_daily_rollups(p_start DATE, p_end DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bundle_table TEXT;
+  v_size_table TEXT;
+  v_days INTEGER;
+  v_metrics CONSTANT TEXT := 'SUM(opportunities), SUM(bid_requests), SUM(bids), SUM(wins), SUM(impressions), '
+    || 'SUM(pub_payout), SUM(demand_payout), SUM(bid_response_timeouts), SUM(bid_response_errors)';
+  v_columns CONSTANT TEXT := 'opportunities, bid_requests, bids, wins, impressions, '
+    || 'pub_payout, demand_payout, bid_response_timeouts, bid_response_errors';
+BEGIN
+  SELECT table_name INTO v_bundle_table FROM dimension_sets
+  WHERE is_active AND 'BUNDLE' = ANY(dimensions)
+  ORDER BY array_length(dimensions, 1), is_core DESC, sort_order, id LIMIT 1;
+
+  SELECT table_name INTO v_size_table FROM dimension_sets
+  WHERE is_active AND 'SIZE' = ANY(dimensions)
+  ORDER BY array_length(dimensions, 1), is_core DESC, sort_order, id LIMIT 1;
+
+  CREATE TEMP TABLE IF NOT EXISTS _rollup_days (date DATE PRIMARY KEY) ON COMMIT DROP;
+  TRUNCATE _rollup_days;
+  INSERT INTO _rollup_days
+  SELECT DISTINCT date FROM limelight_stats WHERE date >= p_start AND date <= p_end;
+  IF v_bundle_table IS NOT NULL THEN
+    EXECUTE format('INSERT INTO _rollup_days SELECT DISTINCT date FROM public.%I WHERE date >= $1 AND date <= $2
+                    ON CONFLICT DO NOTHING', v_bundle_table) USING p_start, p_end;
+  END IF;
+  IF v_size_table IS NOT NULL THEN
+    EXECUTE format('INSERT INTO _rollup_days SELECT DISTINCT date FROM public.%I WHERE date >= $1 AND date <= $2
+                    ON CONFLICT DO NOTHING', v_size_table) USING p_start, p_end;
+  END IF;
+  SELECT COUNT(*) INTO v_days FROM _rollup_days;
+  IF v_days = 0 THEN RETURN 0; END IF;
+
+  DELETE FROM daily_partner_stats WHERE date IN (SELECT date FROM _rollup_days);
+  DELETE FROM daily_publisher_stats WHERE date IN (SELECT date FROM _rollup_days);
+  DELETE FROM daily_partner_publisher_stats WHERE date IN (SELECT date FROM _rollup_days);
+  DELETE FROM daily_bundle_stats WHERE date IN (SELECT date FROM _rollup_days);
+  DELETE FROM daily_size_stats WHERE date IN (SELECT date FROM _rollup_days);
+
+  -- Same row filters as the agg_by_* functions had over limelight_stats
+  EXECUTE format(
+    'INSERT INTO daily_partner_stats (source, account, date, demand_partner_id, demand_partner_name, %s)
+     SELECT source, account, date, COALESCE(demand_partner_id, 0), demand_partner_name, %s
+     FROM limelight_stats
+     WHERE date IN (SELECT date FROM _rollup_days) AND demand_partner_name <> ''''
+     GROUP BY source, account, date, COALESCE(demand_partner_id, 0), demand_partner_name',
+    v_columns, v_metrics
+  );
+
+  EXECUTE format(
+    'INSERT INTO daily_publisher_stats (source, account, date, publisher_id, publisher, %s)
+     SELECT source, account, date, COALESCE(publisher_id, 0), publisher, %s
+     FROM limelight_stats
+     WHERE date IN (SELECT date FROM _rollup_days) AND publisher <> ''''
+     GROUP BY source, account, date, COALESCE(publisher_id, 0), publisher',
+    v_columns, v_metrics
+  );
+
+  EXECUTE format(
+    'INSERT INTO daily_partner_publisher_stats (source, account, date, demand_partner_id, demand_partner_name, publisher_id, publisher, %s)
+     SELECT source, account, date, COALESCE(demand_partner_id, 0), demand_partner_name, COALESCE(publisher_id, 0), publisher, %s
+     FROM limelight_stats
+     WHERE date IN (SELECT date FROM _rollup_days) AND demand_partner_name <> '''' AND publisher <> ''''
+     GROUP BY source, account, date, COALESCE(demand_partner_id, 0), demand_partner_name, COALESCE(publisher_id, 0), publisher',
+    v_columns, v_metrics
+  );
+
+  EXECUTE format(
+    'INSERT INTO daily_bundle_stats (source, account, date, bundle, %1$s)
+     SELECT source, account, date, bundle, %2$s
+     FROM (
+       %3$s
+       SELECT source, account, date, bundle, %1$s FROM limelight_stats
+       WHERE source <> ''limelight'' AND date IN (SELECT date FROM _rollup_days) AND bundle <> ''''
+     ) s
+     GROUP BY source, account, date, bundle',
+    v_columns, v_metrics,
+    CASE WHEN v_bundle_table IS NOT NULL THEN format(
+      'SELECT source, account, date, bundle, %s FROM public.%I WHERE date IN (SELECT date FROM _rollup_days) UNION ALL',
+      v_columns, v_bundle_table
+    ) ELSE '' END
+  );
+
+  EXECUTE format(
+    'INSERT INTO daily_size_stats (source, account, date, ad_unit_type, %1$s)
+     SELECT source, account, date, ad_unit_type, %2$s
+     FROM (
+       %3$s
+       SELECT source, account, date, ad_unit_type, %1$s FROM limelight_stats
+       WHERE source <> ''limelight'' AND date IN (SELECT date FROM _rollup_days) AND ad_unit_type <> ''''
+     ) s
+     GROUP BY source, account, date, ad_unit_type',
+    v_columns, v_metrics,
+    CASE WHEN v_size_table IS NOT NULL THEN format(
+      'SELECT source, account, date, ad_unit_type, %s FROM public.%I WHERE date IN (SELECT date FROM _rollup_days) UNION ALL',
+      v_columns, v_size_table
+    ) ELSE '' END
+  );
+
+  RETURN v_days;
+END
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_daily_rollups(DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Fill the rollups from everything stored so far
+SELECT refresh_daily_rollups(MIN(date), MAX(date)) FROM public.limelight_stats;
+
+-- ============================================
+-- Aggregates over the rollups
+-- Same signatures and result columns as before (014); IDs stored as 0
+-- are returned as NULL again. agg_by_bundle and agg_by_ad_unit_type are
+-- back, now reading the bundle and size rollups.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION agg_by_demand_partner(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    NULLIF(r.demand_partner_id, 0),
+    COALESCE(dp.name, r.demand_partner_name),
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout), SUM(r.pub_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.wins)::BIGINT, SUM(r.opportunities)::BIGINT,
+    SUM(r.bid_response_timeouts)::BIGINT, SUM(r.bid_response_errors)::BIGINT
+  FROM daily_partner_stats r
+  LEFT JOIN demand_partners dp ON dp.account = r.account AND dp.id = r.demand_partner_id
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    NULLIF(r.publisher_id, 0),
+    COALESCE(p.name, r.publisher),
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout), SUM(r.pub_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.wins)::BIGINT, SUM(r.opportunities)::BIGINT,
+    SUM(r.bid_response_timeouts)::BIGINT, SUM(r.bid_response_errors)::BIGINT
+  FROM daily_publisher_stats r
+  LEFT JOIN publishers p ON p.account = r.account AND p.id = r.publisher_id
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY NULLIF(r.publisher_id, 0), COALESCE(p.name, r.publisher)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_date(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    r.date,
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout), SUM(r.pub_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.wins)::BIGINT, SUM(r.opportunities)::BIGINT,
+    SUM(r.bid_response_timeouts)::BIGINT, SUM(r.bid_response_errors)::BIGINT
+  FROM daily_partner_stats r
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY r.date
+  ORDER BY r.date
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_demand_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(demand_partner_id BIGINT, demand_partner TEXT, publisher_id BIGINT, publisher TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name),
+    NULLIF(r.publisher_id, 0), COALESCE(p.name, r.publisher),
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout), SUM(r.pub_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.wins)::BIGINT, SUM(r.opportunities)::BIGINT,
+    SUM(r.bid_response_timeouts)::BIGINT, SUM(r.bid_response_errors)::BIGINT
+  FROM daily_partner_publisher_stats r
+  LEFT JOIN demand_partners dp ON dp.account = r.account AND dp.id = r.demand_partner_id
+  LEFT JOIN publishers p ON p.account = r.account AND p.id = r.publisher_id
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name),
+    NULLIF(r.publisher_id, 0), COALESCE(p.name, r.publisher)
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_bundle(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    r.bundle,
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout), SUM(r.pub_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.wins)::BIGINT, SUM(r.opportunities)::BIGINT,
+    SUM(r.bid_response_timeouts)::BIGINT, SUM(r.bid_response_errors)::BIGINT
+  FROM daily_bundle_stats r
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY r.bundle
+  ORDER BY SUM(r.demand_payout) DESC NULLS LAST
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_ad_unit_type(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(name TEXT, impressions BIGINT, revenue NUMERIC, pub_payout NUMERIC, bid_requests BIGINT, bids BIGINT, wins BIGINT, opportunities BIGINT, timeouts BIGINT, errors BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    r.ad_unit_type,
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout), SUM(r.pub_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.wins)::BIGINT, SUM(r.opportunities)::BIGINT,
+    SUM(r.bid_response_timeouts)::BIGINT, SUM(r.bid_response_errors)::BIGINT
+  FROM daily_size_stats r
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY r.ad_unit_type
+  ORDER BY SUM(r.demand_payout) DESC NULLS LAST
+$$;
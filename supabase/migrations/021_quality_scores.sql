@@ -0,0 +1,57 @@
+-- ============================================
+-- Supply quality scoring
+-- Per-publisher IVT rates from the pixel data, for the ivtRate component
+-- of the quality model (see src/lib/quality/model.ts), and the daily
+-- quality score of every publisher, saved by the cache refresh so a
+-- publisher's quality can be charted over time.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+-- Pixel impressions and how many were flagged, by pub_id. The pixel does
+-- not know the stats source, so p_source and p_account are accepted for
+-- the same signature as the agg_by_* functions but not applied.
+CREATE OR REPLACE FUNCTION agg_ivt_by_publisher(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(pub_id TEXT, impressions BIGINT, suspicious BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    ivt.pub_id,
+    COUNT(*)::BIGINT,
+    COUNT(*) FILTER (WHERE ivt.is_suspicious)::BIGINT
+  FROM ivt_impressions ivt
+  WHERE ivt.timestamp >= p_start::TIMESTAMPTZ
+    AND ivt.timestamp < (p_end + 1)::TIMESTAMPTZ
+    AND ivt.pub_id IS NOT NULL AND ivt.pub_id != ''
+  GROUP BY ivt.pub_id
+$$;
+
+-- One row per publisher and day. Publishers without a Limelight ID are
+-- stored with 0, as in the daily rollups. components keeps the value,
+-- weight and points of every component under the model used that day.
+CREATE TABLE IF NOT EXISTS public.publisher_quality_scores (
+  date DATE NOT NULL,
+  publisher_id BIGINT NOT NULL DEFAULT 0,
+  publisher TEXT NOT NULL,
+  quality_score DECIMAL(5,1) NOT NULL,
+  impressions BIGINT DEFAULT 0,
+  revenue DECIMAL(14,4) DEFAULT 0,
+  components JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (date, publisher_id, publisher)
+);
+
+CREATE INDEX IF NOT EXISTS idx_publisher_quality_scores_publisher
+  ON public.publisher_quality_scores(publisher_id, publisher, date);
+
+ALTER TABLE public.publisher_quality_scores ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'publisher_quality_scores' AND policyname = 'Authenticated users can read quality scores') THEN
+    CREATE POLICY "Authenticated users can read quality scores" ON public.publisher_quality_scores FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'publisher_quality_scores' AND policyname = 'Service role can manage quality scores') THEN
+    CREATE POLICY "Service role can manage quality scores" ON public.publisher_quality_scores FOR ALL TO service_role USING (true);
+  END IF;
+END $$;
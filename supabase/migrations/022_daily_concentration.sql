@@ -0,0 +1,103 @@
+-- ============================================
+-- Daily revenue concentration
+-- HHI, top-5/top-10 share and Gini of demand partners and publishers for
+-- every day, across all sources, built from the daily rollups by
+-- refresh_daily_concentration(). Refreshed for the days a sync wrote,
+-- right after their rollups (see refreshDailyRollups).
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.daily_concentration (
+  date DATE NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('demand', 'publisher')),
+  entities INTEGER DEFAULT 0,
+  revenue DECIMAL(14,4) DEFAULT 0,
+  hhi INTEGER DEFAULT 0,
+  top5_share DECIMAL(6,2) DEFAULT 0,
+  top10_share DECIMAL(6,2) DEFAULT 0,
+  gini DECIMAL(5,4) DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (date, side)
+);
+
+ALTER TABLE public.daily_concentration ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'daily_concentration' AND policyname = 'Authenticated users can read daily concentration') THEN
+    CREATE POLICY "Authenticated users can read daily concentration" ON public.daily_concentration FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'daily_concentration' AND policyname = 'Service role can manage daily concentration') THEN
+    CREATE POLICY "Service role can manage daily concentration" ON public.daily_concentration FOR ALL TO service_role USING (true);
+  END IF;
+END $$;
+
+-- Entities are grouped as in agg_by_demand_partner / agg_by_publisher, so a
+-- day's HHI matches the concentration page for a one-day window. Days
+-- without rollup rows keep what was saved for them.
+CREATE OR REPLACE FUNCTION refresh_daily_concentration(p_start DATE, p_end DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_days INTEGER;
+BEGIN
+  WITH entities AS (
+    SELECT 'demand' AS side, r.date, SUM(r.demand_payout) AS revenue
+    FROM daily_partner_stats r
+    LEFT JOIN demand_partners dp ON dp.account = r.account AND dp.id = r.demand_partner_id
+    WHERE r.date >= p_start AND r.date <= p_end
+    GROUP BY r.date, NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name)
+    UNION ALL
+    SELECT 'publisher', r.date, SUM(r.demand_payout)
+    FROM daily_publisher_stats r
+    LEFT JOIN publishers p ON p.account = r.account AND p.id = r.publisher_id
+    WHERE r.date >= p_start AND r.date <= p_end
+    GROUP BY r.date, NULLIF(r.publisher_id, 0), COALESCE(p.name, r.publisher)
+  ),
+  ranked AS (
+    SELECT
+      e.side, e.date, e.revenue,
+      NULLIF(SUM(e.revenue) OVER (PARTITION BY e.side, e.date), 0) AS total,
+      COUNT(*) OVER (PARTITION BY e.side, e.date) AS n,
+      ROW_NUMBER() OVER (PARTITION BY e.side, e.date ORDER BY e.revenue DESC) AS rank_desc,
+      ROW_NUMBER() OVER (PARTITION BY e.side, e.date ORDER BY e.revenue ASC) AS rank_asc
+    FROM entities e
+  ),
+  daily AS (
+    SELECT
+      side, date,
+      MAX(n)::INTEGER AS entities,
+      COALESCE(MAX(total), 0) AS revenue,
+      COALESCE(ROUND(SUM((revenue / total * 100) ^ 2)), 0)::INTEGER AS hhi,
+      COALESCE(ROUND(SUM(revenue) FILTER (WHERE rank_desc <= 5) / MAX(total) * 100, 2), 0) AS top5_share,
+      COALESCE(ROUND(SUM(revenue) FILTER (WHERE rank_desc <= 10) / MAX(total) * 100, 2), 0) AS top10_share,
+      -- G = 2 * sum(i * x_i) / (n * sum(x)) - (n + 1) / n, with x ascending
+      COALESCE(ROUND(2 * SUM(rank_asc * revenue) / (MAX(n) * MAX(total)) - (MAX(n) + 1.0) / MAX(n), 4), 0) AS gini
+    FROM ranked
+    GROUP BY side, date
+  )
+  INSERT INTO public.daily_concentration (date, side, entities, revenue, hhi, top5_share, top10_share, gini, updated_at)
+  SELECT date, side, entities, revenue, hhi, top5_share, top10_share, gini, NOW()
+  FROM daily
+  ON CONFLICT (date, side) DO UPDATE SET
+    entities = EXCLUDED.entities,
+    revenue = EXCLUDED.revenue,
+    hhi = EXCLUDED.hhi,
+    top5_share = EXCLUDED.top5_share,
+    top10_share = EXCLUDED.top10_share,
+    gini = EXCLUDED.gini,
+    updated_at = EXCLUDED.updated_at;
+
+  SELECT COUNT(DISTINCT date) INTO v_days
+  FROM public.daily_concentration
+  WHERE date >= p_start AND date <= p_end;
+  RETURN v_days;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_daily_concentration(DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Initial fill from the rollups kept so far
+SELECT refresh_daily_concentration(MIN(date), MAX(date)) FROM public.daily_partner_stats;
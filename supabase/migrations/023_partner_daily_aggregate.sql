@@ -0,0 +1,26 @@
+-- ============================================
+-- Demand partner totals per day
+-- Read by the filter analysis to see how each partner's eCPM varies from
+-- day to day, for the range around its lost-revenue estimates.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION agg_by_demand_partner_date(p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL)
+RETURNS TABLE(date DATE, id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, bid_requests BIGINT, bids BIGINT, timeouts BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    r.date,
+    NULLIF(r.demand_partner_id, 0),
+    COALESCE(dp.name, r.demand_partner_name),
+    SUM(r.impressions)::BIGINT, SUM(r.demand_payout),
+    SUM(r.bid_requests)::BIGINT, SUM(r.bids)::BIGINT, SUM(r.bid_response_timeouts)::BIGINT
+  FROM daily_partner_stats r
+  LEFT JOIN demand_partners dp ON dp.account = r.account AND dp.id = r.demand_partner_id
+  WHERE r.date >= p_start AND r.date <= p_end
+    AND (p_source IS NULL OR r.source = p_source)
+    AND (p_account IS NULL OR r.account = p_account)
+  GROUP BY r.date, NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name)
+  ORDER BY r.date
+$$;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Creative report from pixel impressions
+-- The pixel may now pass the demand partner (dsp=, the Limelight DEMAND_ID
+-- macro) alongside the creative ID, and agg_ivt_by_creative() groups the
+-- pixel impressions by creative x bundle x publisher x demand partner for
+-- the creative report (see src/lib/ivt/creatives.ts).
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+ALTER TABLE public.ivt_impressions
+  ADD COLUMN IF NOT EXISTS demand_id TEXT;
+
+-- Rows without a creative ID are left out. Ordered so callers can page
+-- through with .range().
+CREATE OR REPLACE FUNCTION agg_ivt_by_creative(p_start DATE, p_end DATE)
+RETURNS TABLE(creative_id TEXT, bundle TEXT, pub_id TEXT, demand_id TEXT, impressions BIGINT, suspicious BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    ivt.creative_id,
+    COALESCE(ivt.bundle, ''),
+    COALESCE(ivt.pub_id, ''),
+    NULLIF(ivt.demand_id, ''),
+    COUNT(*)::BIGINT,
+    COUNT(*) FILTER (WHERE ivt.is_suspicious)::BIGINT
+  FROM ivt_impressions ivt
+  WHERE ivt.timestamp >= p_start::TIMESTAMPTZ
+    AND ivt.timestamp < (p_end + 1)::TIMESTAMPTZ
+    AND ivt.creative_id IS NOT NULL AND ivt.creative_id != ''
+  GROUP BY ivt.creative_id, COALESCE(ivt.bundle, ''), COALESCE(ivt.pub_id, ''), NULLIF(ivt.demand_id, '')
+  ORDER BY ivt.creative_id, COALESCE(ivt.bundle, ''), COALESCE(ivt.pub_id, ''), NULLIF(ivt.demand_id, '')
+$$;
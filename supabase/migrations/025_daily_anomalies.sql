@@ -0,0 +1,132 @@
+-- ============================================
+-- Daily anomalies
+-- Per-day series of every demand partner, publisher and bundle for the
+-- anomaly model (src/lib/anomalies), and the anomalies it finds on each
+-- day, which the daily alerts are built from.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+-- ============================================
+-- Daily series per entity
+-- Entities whose revenue over the range is below p_min_revenue are left
+-- out, so a long tail of tiny bundles is not read day by day. Ordered so
+-- callers can page through with .range().
+-- ============================================
+
+DROP FUNCTION IF EXISTS agg_by_demand_partner_date(DATE, DATE, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION agg_by_demand_partner_date(
+  p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL, p_min_revenue NUMERIC DEFAULT 0
+)
+RETURNS TABLE(date DATE, id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, bid_requests BIGINT, bids BIGINT, timeouts BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT d.date, d.id, d.name, d.impressions, d.revenue, d.bid_requests, d.bids, d.timeouts
+  FROM (
+    SELECT
+      r.date,
+      NULLIF(r.demand_partner_id, 0) AS id,
+      COALESCE(dp.name, r.demand_partner_name) AS name,
+      SUM(r.impressions)::BIGINT AS impressions, SUM(r.demand_payout) AS revenue,
+      SUM(r.bid_requests)::BIGINT AS bid_requests, SUM(r.bids)::BIGINT AS bids, SUM(r.bid_response_timeouts)::BIGINT AS timeouts,
+      SUM(SUM(r.demand_payout)) OVER (PARTITION BY NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name)) AS range_revenue
+    FROM daily_partner_stats r
+    LEFT JOIN demand_partners dp ON dp.account = r.account AND dp.id = r.demand_partner_id
+    WHERE r.date >= p_start AND r.date <= p_end
+      AND (p_source IS NULL OR r.source = p_source)
+      AND (p_account IS NULL OR r.account = p_account)
+    GROUP BY r.date, NULLIF(r.demand_partner_id, 0), COALESCE(dp.name, r.demand_partner_name)
+  ) d
+  WHERE COALESCE(d.range_revenue, 0) >= p_min_revenue
+  ORDER BY d.date, d.name, d.id
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_publisher_date(
+  p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL, p_min_revenue NUMERIC DEFAULT 0
+)
+RETURNS TABLE(date DATE, id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, bid_requests BIGINT, bids BIGINT, timeouts BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT d.date, d.id, d.name, d.impressions, d.revenue, d.bid_requests, d.bids, d.timeouts
+  FROM (
+    SELECT
+      r.date,
+      NULLIF(r.publisher_id, 0) AS id,
+      COALESCE(p.name, r.publisher) AS name,
+      SUM(r.impressions)::BIGINT AS impressions, SUM(r.demand_payout) AS revenue,
+      SUM(r.bid_requests)::BIGINT AS bid_requests, SUM(r.bids)::BIGINT AS bids, SUM(r.bid_response_timeouts)::BIGINT AS timeouts,
+      SUM(SUM(r.demand_payout)) OVER (PARTITION BY NULLIF(r.publisher_id, 0), COALESCE(p.name, r.publisher)) AS range_revenue
+    FROM daily_publisher_stats r
+    LEFT JOIN publishers p ON p.account = r.account AND p.id = r.publisher_id
+    WHERE r.date >= p_start AND r.date <= p_end
+      AND (p_source IS NULL OR r.source = p_source)
+      AND (p_account IS NULL OR r.account = p_account)
+    GROUP BY r.date, NULLIF(r.publisher_id, 0), COALESCE(p.name, r.publisher)
+  ) d
+  WHERE COALESCE(d.range_revenue, 0) >= p_min_revenue
+  ORDER BY d.date, d.name, d.id
+$$;
+
+CREATE OR REPLACE FUNCTION agg_by_bundle_date(
+  p_start DATE, p_end DATE, p_source TEXT DEFAULT NULL, p_account TEXT DEFAULT NULL, p_min_revenue NUMERIC DEFAULT 0
+)
+RETURNS TABLE(date DATE, id BIGINT, name TEXT, impressions BIGINT, revenue NUMERIC, bid_requests BIGINT, bids BIGINT, timeouts BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT d.date, NULL::BIGINT, d.name, d.impressions, d.revenue, d.bid_requests, d.bids, d.timeouts
+  FROM (
+    SELECT
+      r.date,
+      r.bundle AS name,
+      SUM(r.impressions)::BIGINT AS impressions, SUM(r.demand_payout) AS revenue,
+      SUM(r.bid_requests)::BIGINT AS bid_requests, SUM(r.bids)::BIGINT AS bids, SUM(r.bid_response_timeouts)::BIGINT AS timeouts,
+      SUM(SUM(r.demand_payout)) OVER (PARTITION BY r.bundle) AS range_revenue
+    FROM daily_bundle_stats r
+    WHERE r.date >= p_start AND r.date <= p_end
+      AND (p_source IS NULL OR r.source = p_source)
+      AND (p_account IS NULL OR r.account = p_account)
+    GROUP BY r.date, r.bundle
+  ) d
+  WHERE COALESCE(d.range_revenue, 0) >= p_min_revenue
+  ORDER BY d.date, d.name
+$$;
+
+-- ============================================
+-- Anomalies found per day
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.daily_anomalies (
+  date DATE NOT NULL,
+  dimension TEXT NOT NULL CHECK (dimension IN ('demand_partner', 'publisher', 'bundle')),
+  -- 0 when the entity has no Limelight ID
+  entity_id BIGINT NOT NULL DEFAULT 0,
+  entity TEXT NOT NULL,
+  metric TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('critical', 'warning', 'info')),
+  actual DECIMAL NOT NULL,
+  expected DECIMAL NOT NULL,
+  lower_bound DECIMAL NOT NULL,
+  upper_bound DECIMAL NOT NULL,
+  score DECIMAL NOT NULL,
+  deviation_pct DECIMAL NOT NULL,
+  weekday_factor DECIMAL NOT NULL DEFAULT 1,
+  month_start_factor DECIMAL,
+  message TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (date, dimension, entity_id, entity, metric)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_anomalies_severity ON public.daily_anomalies(date, severity);
+
+ALTER TABLE public.daily_anomalies ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'daily_anomalies' AND policyname = 'Authenticated users can read daily anomalies') THEN
+    CREATE POLICY "Authenticated users can read daily anomalies" ON public.daily_anomalies FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'daily_anomalies' AND policyname = 'Service role can manage daily anomalies') THEN
+    CREATE POLICY "Service role can manage daily anomalies" ON public.daily_anomalies FOR ALL TO service_role USING (true);
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+-- ============================================
+-- Monthly revenue targets
+-- What the network, a demand partner or a publisher is expected to earn in
+-- a month, which the revenue forecast's month-end landing is set against.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.revenue_targets (
+  id BIGSERIAL PRIMARY KEY,
+  -- First day of the month
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  scope TEXT NOT NULL CHECK (scope IN ('network', 'demand_partner', 'publisher')),
+  -- 0 / '' for the network and for entities without a Limelight ID
+  entity_id BIGINT NOT NULL DEFAULT 0,
+  entity TEXT NOT NULL DEFAULT '',
+  target DECIMAL(14,2) NOT NULL CHECK (target >= 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (month, scope, entity_id, entity)
+);
+
+ALTER TABLE public.revenue_targets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'revenue_targets' AND policyname = 'Authenticated users can read revenue targets') THEN
+    CREATE POLICY "Authenticated users can read revenue targets" ON public.revenue_targets FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'revenue_targets' AND policyname = 'Service role can manage revenue targets') THEN
+    CREATE POLICY "Service role can manage revenue targets" ON public.revenue_targets FOR ALL TO service_role USING (true);
+  END IF;
+END $$;
@@ -0,0 +1,14 @@
+-- ============================================
+-- Empty backfill days
+-- A day/dimension set that Limelight has no rows for (a quiet day, an
+-- idle seat, a newly registered set) is recorded as 'empty' instead of
+-- failing the item.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses DROP CONSTRAINT IF EXISTS)
+-- ============================================
+
+ALTER TABLE public.sync_backfill_progress
+  DROP CONSTRAINT IF EXISTS sync_backfill_progress_status_check;
+
+ALTER TABLE public.sync_backfill_progress
+  ADD CONSTRAINT sync_backfill_progress_status_check CHECK (status IN ('pending', 'done', 'empty', 'failed'));
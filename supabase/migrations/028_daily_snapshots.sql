@@ -0,0 +1,30 @@
+-- ============================================
+-- Daily snapshot markers
+-- One row per day a derived snapshot (e.g. the day's anomalies) was built,
+-- including days where it found nothing, so a clean day is not taken for
+-- one that was never looked at. built_at is compared with the sync runs
+-- finished since to decide whether the day needs building again.
+-- Run this in Supabase SQL Editor
+-- Safe to re-run (uses IF NOT EXISTS)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.daily_snapshots (
+  kind TEXT NOT NULL,
+  date DATE NOT NULL,
+  -- Rows the snapshot saved for the day
+  rows INTEGER NOT NULL DEFAULT 0,
+  built_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (kind, date)
+);
+
+ALTER TABLE public.daily_snapshots ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'daily_snapshots' AND policyname = 'Authenticated users can read daily snapshots') THEN
+    CREATE POLICY "Authenticated users can read daily snapshots" ON public.daily_snapshots FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'daily_snapshots' AND policyname = 'Service role can manage daily snapshots') THEN
+    CREATE POLICY "Service role can manage daily snapshots" ON public.daily_snapshots FOR ALL TO service_role USING (true);
+  END IF;
+END $$;